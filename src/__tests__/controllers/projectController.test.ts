@@ -63,10 +63,11 @@ describe('Project Controller', () => {
       );
 
       expect(validateRequest).toHaveBeenCalledWith({ name: 'Test Project', isActive: true });
-      expect(projectService.createProject).toHaveBeenCalledWith(userId, {
-        name: 'Test Project',
-        isActive: true,
-      });
+      expect(projectService.createProject).toHaveBeenCalledWith(
+        userId,
+        { name: 'Test Project', isActive: true },
+        { ipAddress: undefined, requestId: undefined }
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.CREATED);
       expect(mockNext).not.toHaveBeenCalled();
     });
@@ -139,7 +140,10 @@ describe('Project Controller', () => {
         },
       ];
 
-      (projectService.getProjects as jest.Mock<any>).mockResolvedValue(projects);
+      (projectService.getProjects as jest.Mock<any>).mockResolvedValue({
+        items: projects,
+        pagination: { page: 1, limit: 20, total: 1, hasMore: false, nextCursor: null },
+      });
 
       await projectController.getProjects(
         mockRequest as AuthenticatedRequest,
@@ -147,14 +151,14 @@ describe('Project Controller', () => {
         mockNext
       );
 
-      expect(projectService.getProjects).toHaveBeenCalledWith(userId, false);
+      expect(projectService.getProjects).toHaveBeenCalledWith(userId, { includeInactive: false });
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
     });
 
     it('should include inactive projects when requested', async () => {
       mockRequest.query = { includeInactive: 'true' };
-      (projectService.getProjects as jest.Mock<any>).mockResolvedValue([]);
+      (projectService.getProjects as jest.Mock<any>).mockResolvedValue({ items: [], pagination: {} });
 
       await projectController.getProjects(
         mockRequest as AuthenticatedRequest,
@@ -162,12 +166,26 @@ describe('Project Controller', () => {
         mockNext
       );
 
-      expect(projectService.getProjects).toHaveBeenCalledWith(userId, true);
+      expect(projectService.getProjects).toHaveBeenCalledWith(userId, { includeInactive: true });
     });
 
     it('should not include inactive when includeInactive is false', async () => {
       mockRequest.query = { includeInactive: 'false' };
-      (projectService.getProjects as jest.Mock<any>).mockResolvedValue([]);
+      (projectService.getProjects as jest.Mock<any>).mockResolvedValue({ items: [], pagination: {} });
+
+      await projectController.getProjects(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(projectService.getProjects).toHaveBeenCalledWith(userId, { includeInactive: false });
+    });
+
+    it('should pass pagination options and return pagination metadata', async () => {
+      const pagination = { limit: 2, total: 5, hasMore: true, nextCursor: 'next' };
+      mockRequest.query = { cursor: 'abc', limit: '2', sort: 'name', nameContains: 'support' };
+      (projectService.getProjects as jest.Mock<any>).mockResolvedValue({ items: [], pagination });
 
       await projectController.getProjects(
         mockRequest as AuthenticatedRequest,
@@ -175,7 +193,19 @@ describe('Project Controller', () => {
         mockNext
       );
 
-      expect(projectService.getProjects).toHaveBeenCalledWith(userId, false);
+      expect(projectService.getProjects).toHaveBeenCalledWith(userId, {
+        cursor: 'abc',
+        limit: 2,
+        sort: 'name',
+        nameContains: 'support',
+        includeInactive: false,
+      });
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        count: 0,
+        pagination,
+        data: [],
+      });
     });
 
     it('should throw error when user is not authenticated', async () => {
@@ -299,7 +329,8 @@ describe('Project Controller', () => {
       expect(projectService.updateProject).toHaveBeenCalledWith(
         projectId,
         userId,
-        { name: 'Updated Name' }
+        { name: 'Updated Name' },
+        { ipAddress: undefined, requestId: undefined }
       );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
@@ -331,7 +362,8 @@ describe('Project Controller', () => {
       expect(projectService.updateProject).toHaveBeenCalledWith(
         projectId,
         userId,
-        { isActive: false }
+        { isActive: false },
+        { ipAddress: undefined, requestId: undefined }
       );
     });
 
@@ -417,7 +449,11 @@ describe('Project Controller', () => {
         mockNext
       );
 
-      expect(projectService.deleteProject).toHaveBeenCalledWith(projectId, userId);
+      expect(projectService.deleteProject).toHaveBeenCalledWith(
+        projectId,
+        userId,
+        { ipAddress: undefined, requestId: undefined }
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
     });
@@ -66,10 +66,12 @@ describe('Prompt Controller', () => {
       );
 
       expect(validateRequest).toHaveBeenCalledWith({ name: 'Test Prompt', isActive: true });
-      expect(promptService.createPrompt).toHaveBeenCalledWith(userId, projectId, {
-        name: 'Test Prompt',
-        isActive: true,
-      });
+      expect(promptService.createPrompt).toHaveBeenCalledWith(
+        userId,
+        projectId,
+        { name: 'Test Prompt', isActive: true },
+        { ipAddress: undefined, requestId: undefined }
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.CREATED);
       expect(mockNext).not.toHaveBeenCalled();
     });
@@ -153,10 +155,12 @@ describe('Prompt Controller', () => {
         mockNext
       );
 
-      expect(promptService.createPrompt).toHaveBeenCalledWith(userId, projectId, {
-        name: 'Inactive Prompt',
-        isActive: false,
-      });
+      expect(promptService.createPrompt).toHaveBeenCalledWith(
+        userId,
+        projectId,
+        { name: 'Inactive Prompt', isActive: false },
+        { ipAddress: undefined, requestId: undefined }
+      );
     });
   });
 
@@ -175,7 +179,10 @@ describe('Prompt Controller', () => {
       ];
 
       mockRequest.params = { projectId };
-      (promptService.getPromptsByProject as jest.Mock<any>).mockResolvedValue(prompts);
+      (promptService.getPromptsByProject as jest.Mock<any>).mockResolvedValue({
+        items: prompts,
+        pagination: { page: 1, limit: 20, total: prompts.length, hasMore: false, nextCursor: null },
+      });
 
       await promptController.getPromptsByProject(
         mockRequest as AuthenticatedRequest,
@@ -183,7 +190,9 @@ describe('Prompt Controller', () => {
         mockNext
       );
 
-      expect(promptService.getPromptsByProject).toHaveBeenCalledWith(userId, projectId);
+      expect(promptService.getPromptsByProject).toHaveBeenCalledWith(userId, projectId, {
+        includeInactive: false,
+      });
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
     });
@@ -192,7 +201,10 @@ describe('Prompt Controller', () => {
       const prompts: any[] = [];
 
       mockRequest.params = { projectId };
-      (promptService.getPromptsByProject as jest.Mock<any>).mockResolvedValue(prompts);
+      (promptService.getPromptsByProject as jest.Mock<any>).mockResolvedValue({
+        items: prompts,
+        pagination: { page: 1, limit: 20, total: prompts.length, hasMore: false, nextCursor: null },
+      });
 
       await promptController.getPromptsByProject(
         mockRequest as AuthenticatedRequest,
@@ -200,7 +212,9 @@ describe('Prompt Controller', () => {
         mockNext
       );
 
-      expect(promptService.getPromptsByProject).toHaveBeenCalledWith(userId, projectId);
+      expect(promptService.getPromptsByProject).toHaveBeenCalledWith(userId, projectId, {
+        includeInactive: false,
+      });
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
     });
 
@@ -329,7 +343,8 @@ describe('Prompt Controller', () => {
       expect(promptService.updatePrompt).toHaveBeenCalledWith(
         promptId,
         userId,
-        { name: 'Updated Name' }
+        { name: 'Updated Name' },
+        { ipAddress: undefined, requestId: undefined }
       );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
@@ -362,7 +377,8 @@ describe('Prompt Controller', () => {
       expect(promptService.updatePrompt).toHaveBeenCalledWith(
         promptId,
         userId,
-        { isActive: false }
+        { isActive: false },
+        { ipAddress: undefined, requestId: undefined }
       );
     });
 
@@ -393,7 +409,8 @@ describe('Prompt Controller', () => {
       expect(promptService.updatePrompt).toHaveBeenCalledWith(
         promptId,
         userId,
-        { name: 'Updated Name', isActive: false }
+        { name: 'Updated Name', isActive: false },
+        { ipAddress: undefined, requestId: undefined }
       );
     });
 
@@ -480,7 +497,11 @@ describe('Prompt Controller', () => {
         mockNext
       );
 
-      expect(promptService.deletePrompt).toHaveBeenCalledWith(promptId, userId);
+      expect(promptService.deletePrompt).toHaveBeenCalledWith(
+        promptId,
+        userId,
+        { ipAddress: undefined, requestId: undefined }
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
     });
@@ -72,7 +72,8 @@ describe('Prompt Version Controller', () => {
       expect(promptVersionService.createPromptVersion).toHaveBeenCalledWith(
         userId,
         promptId,
-        { promptText: 'Test text', activePrompt: false, isActive: true }
+        { promptText: 'Test text', activePrompt: false, isActive: true },
+        { ipAddress: undefined, requestId: undefined }
       );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.CREATED);
       expect(mockNext).not.toHaveBeenCalled();
@@ -154,7 +155,10 @@ describe('Prompt Version Controller', () => {
       ];
 
       mockRequest.params = { promptId };
-      (promptVersionService.getPromptVersionsByPrompt as jest.Mock<any>).mockResolvedValue(versions);
+      (promptVersionService.getPromptVersionsByPrompt as jest.Mock<any>).mockResolvedValue({
+        items: versions,
+        pagination: { page: 1, limit: 20, total: versions.length, hasMore: false, nextCursor: null },
+      });
 
       await promptVersionController.getPromptVersionsByPrompt(
         mockRequest as AuthenticatedRequest,
@@ -164,7 +168,8 @@ describe('Prompt Version Controller', () => {
 
       expect(promptVersionService.getPromptVersionsByPrompt).toHaveBeenCalledWith(
         userId,
-        promptId
+        promptId,
+        { includeInactive: false }
       );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
@@ -174,7 +179,10 @@ describe('Prompt Version Controller', () => {
       const versions: any[] = [];
 
       mockRequest.params = { promptId };
-      (promptVersionService.getPromptVersionsByPrompt as jest.Mock<any>).mockResolvedValue(versions);
+      (promptVersionService.getPromptVersionsByPrompt as jest.Mock<any>).mockResolvedValue({
+        items: versions,
+        pagination: { page: 1, limit: 20, total: versions.length, hasMore: false, nextCursor: null },
+      });
 
       await promptVersionController.getPromptVersionsByPrompt(
         mockRequest as AuthenticatedRequest,
@@ -182,7 +190,9 @@ describe('Prompt Version Controller', () => {
         mockNext
       );
 
-      expect(promptVersionService.getPromptVersionsByPrompt).toHaveBeenCalledWith(userId, promptId);
+      expect(promptVersionService.getPromptVersionsByPrompt).toHaveBeenCalledWith(userId, promptId, {
+        includeInactive: false,
+      });
     });
 
     it('should throw error when user is not authenticated', async () => {
@@ -244,11 +254,56 @@ describe('Prompt Version Controller', () => {
         mockNext
       );
 
-      expect(promptVersionService.getActivePromptVersion).toHaveBeenCalledWith(promptId);
+      expect(promptVersionService.getActivePromptVersion).toHaveBeenCalledWith(
+        promptId,
+        'production',
+        undefined
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
     });
 
+    it('should pass the requested environment to the service', async () => {
+      mockRequest.params = { promptId };
+      mockRequest.query = { env: 'staging' };
+      (promptVersionService.getActivePromptVersion as jest.Mock<any>).mockResolvedValue({});
+
+      await promptVersionController.getActivePromptVersion(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(validateRequest).toHaveBeenCalledWith({ environment: 'staging' });
+      expect(promptVersionService.getActivePromptVersion).toHaveBeenCalledWith(
+        promptId,
+        'staging',
+        undefined
+      );
+    });
+
+    it('should pass the experiment subject to the service', async () => {
+      mockRequest.params = { promptId };
+      mockRequest.query = { subjectId: 'user-42' };
+      (promptVersionService.getActivePromptVersion as jest.Mock<any>).mockResolvedValue({});
+
+      await promptVersionController.getActivePromptVersion(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(validateRequest).toHaveBeenCalledWith({
+        environment: 'production',
+        subjectId: 'user-42',
+      });
+      expect(promptVersionService.getActivePromptVersion).toHaveBeenCalledWith(
+        promptId,
+        'production',
+        'user-42'
+      );
+    });
+
     it('should handle service errors', async () => {
       const serviceError: ApiError = new Error(ERROR_MESSAGES.NO_ACTIVE_VERSION_FOUND);
       serviceError.statusCode = HTTP_STATUS.NOT_FOUND;
@@ -266,6 +321,191 @@ describe('Prompt Version Controller', () => {
     });
   });
 
+  describe('getActivePromptVersionsBatch', () => {
+    it('should return one item per requested prompt', async () => {
+      const items = [
+        { reference: promptId, promptId, version: { promptText: 'Active version' } },
+        { reference: 'acme/missing', promptId: null, error: { statusCode: 404, message: 'x' } },
+      ];
+
+      mockRequest.user = undefined; // Public endpoint
+      mockRequest.body = { prompts: [promptId, 'acme/missing'] };
+      mockRequest.query = { env: 'staging' };
+      (promptVersionService.getActivePromptVersions as jest.Mock<any>).mockResolvedValue(items);
+
+      await promptVersionController.getActivePromptVersionsBatch(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(validateRequest).toHaveBeenCalledWith({
+        promptReferences: [promptId, 'acme/missing'],
+        environment: 'staging',
+        subjectId: undefined,
+      });
+      expect(promptVersionService.getActivePromptVersions).toHaveBeenCalledWith(
+        [promptId, 'acme/missing'],
+        expect.any(Function),
+        'staging',
+        undefined
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, count: 2, data: items });
+    });
+
+    it('should handle validation errors', async () => {
+      const validationError: ApiError = new Error(ERROR_MESSAGES.BATCH_PROMPTS_INVALID);
+      validationError.statusCode = HTTP_STATUS.BAD_REQUEST;
+
+      (validateRequest as jest.Mock).mockImplementation(() => {
+        throw validationError;
+      });
+
+      await promptVersionController.getActivePromptVersionsBatch(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(validationError);
+      expect(promptVersionService.getActivePromptVersions).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('renderActivePromptVersion', () => {
+    it('should render the active prompt version (public endpoint)', async () => {
+      const rendered = {
+        promptId,
+        versionId: new mongoose.Types.ObjectId(),
+        version: 'v1',
+        environment: 'production',
+        renderedText: 'Hello Ada',
+        variables: { name: 'Ada' },
+      };
+
+      mockRequest.params = { promptId };
+      mockRequest.user = undefined; // Public endpoint
+      mockRequest.body = { variables: { name: 'Ada' } };
+      (validateRequest as jest.Mock).mockImplementation(() => {});
+      (promptVersionService.renderActivePromptVersion as jest.Mock<any>).mockResolvedValue(rendered);
+
+      await promptVersionController.renderActivePromptVersion(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(validateRequest).toHaveBeenCalledWith({
+        renderVariables: { name: 'Ada' },
+        environment: 'production',
+      });
+      expect(promptVersionService.renderActivePromptVersion).toHaveBeenCalledWith(
+        promptId,
+        { name: 'Ada' },
+        'production',
+        undefined
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should handle template errors', async () => {
+      const templateError: ApiError = new Error(ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID);
+      templateError.statusCode = HTTP_STATUS.BAD_REQUEST;
+      templateError.details = { missing: ['name'], unknown: [], invalid: [] };
+
+      mockRequest.params = { promptId };
+      mockRequest.body = {};
+      (validateRequest as jest.Mock).mockImplementation(() => {});
+      (promptVersionService.renderActivePromptVersion as jest.Mock<any>).mockRejectedValue(templateError);
+
+      await promptVersionController.renderActivePromptVersion(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(templateError);
+    });
+  });
+
+  describe('diffPromptVersions', () => {
+    const diff = {
+      promptId,
+      from: { version: 'v1' },
+      to: { version: 'v2' },
+      hunks: [
+        {
+          oldStart: 1,
+          oldLines: 1,
+          newStart: 1,
+          newLines: 1,
+          lines: [
+            { type: 'removed', text: 'old', oldLineNumber: 1 },
+            { type: 'added', text: 'new', newLineNumber: 1 },
+          ],
+          words: [],
+        },
+      ],
+      stats: { linesAdded: 1, linesRemoved: 1, wordsAdded: 1, wordsRemoved: 1 },
+    };
+
+    it('should return the structured diff', async () => {
+      mockRequest.params = { promptId };
+      mockRequest.query = { from: 'v1', to: 'v2' };
+      (promptVersionService.diffPromptVersions as jest.Mock<any>).mockResolvedValue(diff);
+
+      await promptVersionController.diffPromptVersions(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(validateRequest).toHaveBeenCalledWith({
+        fromVersion: 'v1',
+        toVersion: 'v2',
+        diffFormat: undefined,
+      });
+      expect(promptVersionService.diffPromptVersions).toHaveBeenCalledWith(userId, promptId, 'v1', 'v2');
+      expect(mockResponse.json).toHaveBeenCalledWith({ success: true, data: diff });
+    });
+
+    it('should return a unified diff as plain text', async () => {
+      mockRequest.params = { promptId };
+      mockRequest.query = { from: 'v1', to: 'v2', format: 'unified' };
+      mockResponse.type = jest.fn().mockReturnThis() as any;
+      mockResponse.send = jest.fn().mockReturnThis() as any;
+      (promptVersionService.diffPromptVersions as jest.Mock<any>).mockResolvedValue(diff);
+
+      await promptVersionController.diffPromptVersions(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockResponse.type).toHaveBeenCalledWith('text/plain');
+      expect(mockResponse.send).toHaveBeenCalledWith('--- v1\n+++ v2\n@@ -1 +1 @@\n-old\n+new\n');
+    });
+
+    it('should throw error when user is not authenticated', async () => {
+      mockRequest.user = undefined;
+      mockRequest.params = { promptId };
+      mockRequest.query = { from: 'v1', to: 'v2' };
+
+      await promptVersionController.diffPromptVersions(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.message).toBe(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      expect(error.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+      expect(promptVersionService.diffPromptVersions).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getPromptVersionById', () => {
     it('should get prompt version by ID', async () => {
       const versionId = new mongoose.Types.ObjectId().toString();
@@ -363,7 +603,8 @@ describe('Prompt Version Controller', () => {
       expect(promptVersionService.updatePromptVersion).toHaveBeenCalledWith(
         versionId,
         userId,
-        { promptText: 'Updated text' }
+        { promptText: 'Updated text' },
+        { ipAddress: undefined, requestId: undefined }
       );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
@@ -399,7 +640,8 @@ describe('Prompt Version Controller', () => {
       expect(promptVersionService.updatePromptVersion).toHaveBeenCalledWith(
         versionId,
         userId,
-        { activePrompt: false, isActive: false }
+        { activePrompt: false, isActive: false },
+        { ipAddress: undefined, requestId: undefined }
       );
     });
 
@@ -464,6 +706,65 @@ describe('Prompt Version Controller', () => {
     });
   });
 
+  describe('createPromptVersionFromVersion', () => {
+    it('should create a version from a copy of another', async () => {
+      const parentId = new mongoose.Types.ObjectId().toString();
+      const createdVersion = {
+        _id: new mongoose.Types.ObjectId(),
+        userId,
+        promptId,
+        promptText: 'Edited text',
+        version: 'v2',
+        versionName: 'Version 2',
+        parentVersionId: parentId,
+        activePrompt: false,
+        isActive: true,
+      };
+
+      (validateRequest as jest.Mock).mockImplementation(() => {});
+      mockRequest.params = { id: parentId };
+      mockRequest.body = { promptText: 'Edited text' };
+      (promptVersionService.createPromptVersionFromVersion as jest.Mock<any>).mockResolvedValue(
+        createdVersion
+      );
+
+      await promptVersionController.createPromptVersionFromVersion(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(validateRequest).toHaveBeenCalledWith({ promptText: 'Edited text' });
+      expect(promptVersionService.createPromptVersionFromVersion).toHaveBeenCalledWith(
+        userId,
+        parentId,
+        { promptText: 'Edited text' },
+        { ipAddress: undefined, requestId: undefined }
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.CREATED);
+      expect(mockNext).not.toHaveBeenCalled();
+    });
+
+    it('should pass service errors to the error handler', async () => {
+      const serviceError: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+      serviceError.statusCode = HTTP_STATUS.NOT_FOUND;
+
+      (validateRequest as jest.Mock).mockImplementation(() => {});
+      mockRequest.params = { id: new mongoose.Types.ObjectId().toString() };
+      (promptVersionService.createPromptVersionFromVersion as jest.Mock<any>).mockRejectedValue(
+        serviceError
+      );
+
+      await promptVersionController.createPromptVersionFromVersion(
+        mockRequest as AuthenticatedRequest,
+        mockResponse as Response,
+        mockNext
+      );
+
+      expect(mockNext).toHaveBeenCalledWith(serviceError);
+    });
+  });
+
   describe('deletePromptVersion', () => {
     it('should delete prompt version', async () => {
       const versionId = new mongoose.Types.ObjectId().toString();
@@ -489,7 +790,11 @@ describe('Prompt Version Controller', () => {
         mockNext
       );
 
-      expect(promptVersionService.deletePromptVersion).toHaveBeenCalledWith(versionId, userId);
+      expect(promptVersionService.deletePromptVersion).toHaveBeenCalledWith(
+        versionId,
+        userId,
+        { ipAddress: undefined, requestId: undefined }
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.OK);
       expect(mockNext).not.toHaveBeenCalled();
     });
@@ -5,7 +5,19 @@
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { authenticate } from '../../middleware/auth';
+import mongoose from 'mongoose';
+import {
+  authenticate,
+  authorizePromptAccess,
+  checkPromptAccess,
+  identifyApiKey,
+  identifyPromptCaller,
+} from '../../middleware/auth';
+import Prompt from '../../models/Prompt';
+import Project from '../../models/Project';
+import * as apiKeyService from '../../services/apiKeyService';
+import * as sessionService from '../../services/sessionService';
+import { generateToken } from '../../services/authService';
 import { AuthenticatedRequest } from '../../types';
 import { ApiError } from '../../middleware/errorHandler';
 import { HTTP_STATUS } from '../../constants';
@@ -33,26 +45,66 @@ describe('Authentication Middleware', () => {
     process.env.JWT_SECRET = originalJwtSecret;
   });
 
+  // Start a session and sign an access token for it
+  const signAccessToken = async (
+    userId: string,
+    email: string
+  ): Promise<{ token: string; sessionId: string }> => {
+    const { sessionId } = await sessionService.createSession(userId);
+    return { token: generateToken(userId, email, sessionId), sessionId };
+  };
+
   describe('authenticate', () => {
-    it('should authenticate valid token', () => {
-      const token = jwt.sign({ userId: 'user123', email: 'test@example.com' }, 'test-secret-key');
+    it('should authenticate valid token', async () => {
+      const userId = new mongoose.Types.ObjectId().toString();
+      const { token, sessionId } = await signAccessToken(userId, 'test@example.com');
       mockRequest.headers = {
         authorization: `Bearer ${token}`,
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
-      expect(mockNext).toHaveBeenCalled();
+      expect(mockNext).toHaveBeenCalledWith();
       expect(mockRequest.user).toEqual({
-        userId: 'user123',
+        userId,
         email: 'test@example.com',
+        sessionId,
       });
     });
 
-    it('should throw error if authorization header is missing', () => {
+    it('should reject tokens whose session was signed out', async () => {
+      const userId = new mongoose.Types.ObjectId().toString();
+      const { token, sessionId } = await signAccessToken(userId, 'test@example.com');
+      await sessionService.revokeSessionFamily(sessionId, 'logout');
+      mockRequest.headers = {
+        authorization: `Bearer ${token}`,
+      };
+
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+      expect(error.message).toBe(ERROR_MESSAGES.SESSION_REVOKED);
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it('should reject tokens issued without a session', async () => {
+      const token = jwt.sign({ userId: 'user123', email: 'test@example.com' }, 'test-secret-key');
+      mockRequest.headers = {
+        authorization: `Bearer ${token}`,
+      };
+
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+      expect(error.message).toBe(ERROR_MESSAGES.INVALID_TOKEN);
+    });
+
+    it('should throw error if authorization header is missing', async () => {
       mockRequest.headers = {};
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -60,12 +112,12 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.AUTH_REQUIRED);
     });
 
-    it('should throw error if authorization header does not start with Bearer', () => {
+    it('should throw error if authorization header does not start with Bearer', async () => {
       mockRequest.headers = {
         authorization: 'Invalid token',
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -73,12 +125,12 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.AUTH_REQUIRED);
     });
 
-    it('should throw error if token is empty', () => {
+    it('should throw error if token is empty', async () => {
       mockRequest.headers = {
         authorization: 'Bearer ',
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -86,14 +138,28 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.AUTH_REQUIRED);
     });
 
-    it('should throw error if JWT_SECRET is not configured', () => {
+    it('should reject tokens that do not identify a user', async () => {
+      const token = jwt.sign({ invitationId: 'invite123', purpose: 'invitation' }, 'test-secret-key');
+      mockRequest.headers = {
+        authorization: `Bearer ${token}`,
+      };
+
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+      expect(error.message).toBe(ERROR_MESSAGES.INVALID_TOKEN);
+      expect(mockRequest.user).toBeUndefined();
+    });
+
+    it('should throw error if JWT_SECRET is not configured', async () => {
       delete process.env.JWT_SECRET;
       const token = jwt.sign({ userId: 'user123', email: 'test@example.com' }, 'test-secret-key');
       mockRequest.headers = {
         authorization: `Bearer ${token}`,
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -101,7 +167,7 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.JWT_SECRET_NOT_CONFIGURED);
     });
 
-    it('should throw error for expired token', () => {
+    it('should throw error for expired token', async () => {
       const token = jwt.sign({ userId: 'user123', email: 'test@example.com' }, 'test-secret-key', {
         expiresIn: '-1h',
       });
@@ -109,7 +175,7 @@ describe('Authentication Middleware', () => {
         authorization: `Bearer ${token}`,
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -117,12 +183,12 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.TOKEN_EXPIRED);
     });
 
-    it('should throw error for invalid token', () => {
+    it('should throw error for invalid token', async () => {
       mockRequest.headers = {
         authorization: 'Bearer invalid.token.here',
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -130,13 +196,13 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.INVALID_TOKEN);
     });
 
-    it('should throw error for token signed with different secret', () => {
+    it('should throw error for token signed with different secret', async () => {
       const token = jwt.sign({ userId: 'user123', email: 'test@example.com' }, 'different-secret');
       mockRequest.headers = {
         authorization: `Bearer ${token}`,
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -144,7 +210,7 @@ describe('Authentication Middleware', () => {
       expect(error.message).toBe(ERROR_MESSAGES.INVALID_TOKEN);
     });
 
-    it('should throw TOKEN_VERIFICATION_FAILED for other jwt.verify errors', () => {
+    it('should throw TOKEN_VERIFICATION_FAILED for other jwt.verify errors', async () => {
       // Mock jwt.verify to throw a generic error (not JsonWebTokenError or TokenExpiredError)
       const verifySpy = jest.spyOn(jwt, 'verify').mockImplementation(() => {
         const error = new Error('Generic verification error');
@@ -156,7 +222,7 @@ describe('Authentication Middleware', () => {
         authorization: 'Bearer some.token.here',
       };
 
-      authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      await authenticate(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
 
       expect(mockNext).toHaveBeenCalled();
       const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
@@ -166,5 +232,138 @@ describe('Authentication Middleware', () => {
       verifySpy.mockRestore();
     });
   });
-});
 
+  describe('authorizePromptAccess', () => {
+    const ownerId = new mongoose.Types.ObjectId().toString();
+    let projectId: string;
+
+    const createPrompt = async (accessMode: string): Promise<string> => {
+      const prompt = await Prompt.create({
+        userId: ownerId,
+        projectId,
+        name: 'Guarded Prompt',
+        accessMode,
+      });
+      return (prompt._id as mongoose.Types.ObjectId).toString();
+    };
+
+    beforeEach(async () => {
+      const project = await Project.create({ userId: ownerId, name: 'Project' });
+      projectId = (project._id as mongoose.Types.ObjectId).toString();
+      mockRequest.header = ((name: string) =>
+        (mockRequest.headers as Record<string, string>)[name.toLowerCase()]) as any;
+    });
+
+    it('should allow public prompts without credentials', async () => {
+      mockRequest.params = { promptId: await createPrompt('public') };
+
+      await authorizePromptAccess(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should require an API key for api_key prompts', async () => {
+      mockRequest.params = { promptId: await createPrompt('api_key') };
+
+      await authorizePromptAccess(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.statusCode).toBe(HTTP_STATUS.UNAUTHORIZED);
+      expect(error.message).toBe(ERROR_MESSAGES.API_KEY_REQUIRED);
+    });
+
+    it('should accept a valid API key of the prompt project', async () => {
+      mockRequest.params = { promptId: await createPrompt('api_key') };
+      const { key } = await apiKeyService.createApiKey(projectId, ownerId, { name: 'CI' });
+      mockRequest.headers = { 'x-api-key': key };
+
+      await authorizePromptAccess(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.apiKey?.projectId).toBe(projectId);
+    });
+
+    it('should reject an API key from another project', async () => {
+      mockRequest.params = { promptId: await createPrompt('api_key') };
+      const otherProject = await Project.create({ userId: ownerId, name: 'Other' });
+      const { key } = await apiKeyService.createApiKey(
+        (otherProject._id as mongoose.Types.ObjectId).toString(),
+        ownerId,
+        {}
+      );
+      mockRequest.headers = { 'x-api-key': key };
+
+      await authorizePromptAccess(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(error.message).toBe(ERROR_MESSAGES.API_KEY_PROJECT_MISMATCH);
+    });
+
+    it('should only allow the owner for owner prompts', async () => {
+      mockRequest.params = { promptId: await createPrompt('owner') };
+      const { token } = await signAccessToken(
+        new mongoose.Types.ObjectId().toString(),
+        'x@example.com'
+      );
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+
+      await authorizePromptAccess(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      const error = (mockNext as jest.Mock).mock.calls[0][0] as ApiError;
+      expect(error.statusCode).toBe(HTTP_STATUS.FORBIDDEN);
+      expect(error.message).toBe(ERROR_MESSAGES.PROMPT_ACCESS_DENIED);
+    });
+
+    it('should accept the owner JWT for owner prompts', async () => {
+      mockRequest.params = { promptId: await createPrompt('owner') };
+      const { token } = await signAccessToken(ownerId, 'owner@example.com');
+      mockRequest.headers = { authorization: `Bearer ${token}` };
+
+      await authorizePromptAccess(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.user?.userId).toBe(ownerId);
+    });
+
+    it('should verify the API key once when checking several prompts', async () => {
+      const { key } = await apiKeyService.createApiKey(projectId, ownerId, {});
+      mockRequest.headers = { 'x-api-key': key };
+      const verifySpy = jest.spyOn(apiKeyService, 'verifyApiKey');
+      const caller = identifyPromptCaller(mockRequest as AuthenticatedRequest);
+
+      for (let i = 0; i < 3; i++) {
+        const prompt = await Prompt.findById(await createPrompt('api_key'));
+        const access = await checkPromptAccess(prompt!, caller);
+        expect(access.apiKey?.projectId).toBe(projectId);
+      }
+
+      expect(verifySpy).toHaveBeenCalledTimes(1);
+      verifySpy.mockRestore();
+    });
+
+    it('should identify the API key of a batch request before checking its prompts', async () => {
+      const { key } = await apiKeyService.createApiKey(projectId, ownerId, {});
+      mockRequest.headers = { 'x-api-key': key };
+      const verifySpy = jest.spyOn(apiKeyService, 'verifyApiKey');
+
+      await identifyApiKey(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+      const prompt = await Prompt.findById(await createPrompt('api_key'));
+      await checkPromptAccess(prompt!, identifyPromptCaller(mockRequest as AuthenticatedRequest));
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.apiKey?.projectId).toBe(projectId);
+      expect(verifySpy).toHaveBeenCalledTimes(1);
+      verifySpy.mockRestore();
+    });
+
+    it('should leave batch requests with an invalid API key to be counted by IP', async () => {
+      mockRequest.headers = { 'x-api-key': 'amk_0000_invalid' };
+
+      await identifyApiKey(mockRequest as AuthenticatedRequest, mockResponse as Response, mockNext);
+
+      expect(mockNext).toHaveBeenCalledWith();
+      expect(mockRequest.apiKey).toBeUndefined();
+    });
+  });
+});
@@ -53,6 +53,41 @@ describe('Error Handler Middleware', () => {
       });
     });
 
+    it('should include structured details on API errors', () => {
+      const error: ApiError = new Error(ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      error.details = { missing: ['name'], unknown: [], invalid: [] };
+
+      errorHandler(error, mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.BAD_REQUEST);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          message: ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID,
+          details: { missing: ['name'], unknown: [], invalid: [] },
+        },
+      });
+    });
+
+    it('should report a collision on the active version index as a retryable conflict', () => {
+      const error: any = new Error('Duplicate key');
+      error.name = 'MongoServerError';
+      error.code = 11000;
+      error.keyPattern = { promptId: 1, activePrompt: 1 };
+
+      errorHandler(error, mockRequest as Request, mockResponse as Response, mockNext);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.CONFLICT);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: false,
+        error: {
+          message: ERROR_MESSAGES.CONCURRENT_UPDATE_CONFLICT,
+          details: { retryable: true },
+        },
+      });
+    });
+
     it('should handle MongoDB duplicate key error', () => {
       const error: any = new Error('Duplicate key');
       error.name = 'MongoServerError';
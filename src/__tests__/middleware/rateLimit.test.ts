@@ -0,0 +1,88 @@
+/**
+ * Rate Limit Middleware Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Request, Response, NextFunction } from 'express';
+import { rateLimit, byApiKeyOrIp, byEmail, byIp } from '../../middleware/rateLimit';
+import { ApiError } from '../../middleware/errorHandler';
+import { createMemoryStore, setRateLimitStore } from '../../services/rateLimitService';
+import { HTTP_STATUS } from '../../constants';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { AuthenticatedRequest } from '../../types';
+
+describe('Rate Limit Middleware', () => {
+  const policy = { NAME: 'test', WINDOW_SECONDS: 60, MAX: 2 };
+  let headers: Record<string, string>;
+  let mockResponse: Partial<Response>;
+
+  // Run the middleware for a request and return the error it passed on, if any
+  const run = async (
+    middleware: ReturnType<typeof rateLimit>,
+    req: Partial<AuthenticatedRequest>
+  ): Promise<ApiError | undefined> => {
+    const next = jest.fn();
+    await middleware(req as Request, mockResponse as Response, next as NextFunction);
+    return next.mock.calls[0][0] as ApiError | undefined;
+  };
+
+  beforeEach(() => {
+    setRateLimitStore(createMemoryStore());
+    headers = {};
+    mockResponse = {
+      setHeader: jest.fn((name: string, value: string) => {
+        headers[name] = value;
+      }) as any,
+    };
+  });
+
+  afterEach(() => {
+    setRateLimitStore(null);
+  });
+
+  it('should report the limit in RateLimit headers', async () => {
+    const limiter = rateLimit(policy, byIp);
+
+    expect(await run(limiter, { ip: '203.0.113.7' })).toBeUndefined();
+
+    expect(headers['RateLimit-Limit']).toBe('2');
+    expect(headers['RateLimit-Remaining']).toBe('1');
+    expect(Number(headers['RateLimit-Reset'])).toBeGreaterThan(0);
+    expect(headers['Retry-After']).toBeUndefined();
+  });
+
+  it('should reject requests over the limit with Retry-After', async () => {
+    const limiter = rateLimit(policy, byIp);
+    await run(limiter, { ip: '203.0.113.7' });
+    await run(limiter, { ip: '203.0.113.7' });
+
+    const error = await run(limiter, { ip: '203.0.113.7' });
+
+    expect(error).toMatchObject({
+      message: ERROR_MESSAGES.TOO_MANY_REQUESTS,
+      statusCode: HTTP_STATUS.TOO_MANY_REQUESTS,
+    });
+    expect(headers['RateLimit-Remaining']).toBe('0');
+    expect(Number(headers['Retry-After'])).toBeGreaterThan(0);
+    expect(await run(limiter, { ip: '198.51.100.1' })).toBeUndefined();
+  });
+
+  it('should skip requests without a key', async () => {
+    const limiter = rateLimit(policy, byEmail);
+
+    for (let i = 0; i < 3; i++) {
+      expect(await run(limiter, { body: {} })).toBeUndefined();
+    }
+    expect(headers['RateLimit-Limit']).toBeUndefined();
+  });
+
+  it('should key by normalized email and by verified API key before IP', () => {
+    expect(byEmail({ body: { email: ' User@Example.com ' } } as AuthenticatedRequest)).toBe(
+      'user@example.com'
+    );
+    expect(
+      byApiKeyOrIp({ ip: '203.0.113.7', apiKey: { keyId: 'k1', projectId: 'p1' } } as any)
+    ).toBe('key:k1');
+    expect(byApiKeyOrIp({ ip: '203.0.113.7' } as AuthenticatedRequest)).toBe('ip:203.0.113.7');
+  });
+});
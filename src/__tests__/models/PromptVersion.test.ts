@@ -219,6 +219,7 @@ describe('Prompt Version Model', () => {
       // Check for compound indexes
       expect(indexes).toHaveProperty('userId_1_promptId_1_isActive_1');
       expect(indexes).toHaveProperty('promptId_1_activePrompt_1');
+      expect(indexes).toHaveProperty('promptId_1_version_1');
     });
   });
 });
@@ -0,0 +1,176 @@
+/**
+ * Activation Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import ActivationEvent from '../../models/ActivationEvent';
+import Deployment from '../../models/Deployment';
+import PromptVersion from '../../models/PromptVersion';
+import Prompt from '../../models/Prompt';
+import Project from '../../models/Project';
+import * as activationService from '../../services/activationService';
+import * as promptVersionService from '../../services/promptVersionService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Activation Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  let promptId: string;
+  let versionIds: string[];
+
+  beforeEach(async () => {
+    await ActivationEvent.deleteMany({});
+    await Deployment.deleteMany({});
+    await PromptVersion.deleteMany({});
+    await Prompt.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await Project.create({ userId, name: 'Test Project' });
+    const prompt = await Prompt.create({ userId, projectId: project._id, name: 'Test Prompt' });
+    promptId = (prompt._id as mongoose.Types.ObjectId).toString();
+
+    versionIds = [];
+    for (const promptText of ['First', 'Second', 'Third']) {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText,
+        activePrompt: true,
+      });
+      versionIds.push(version._id.toString());
+    }
+  });
+
+  describe('rollbackPromptVersion', () => {
+    it('should roll back to the previous version by default', async () => {
+      const result = await activationService.rollbackPromptVersion(promptId, userId);
+
+      expect(result.activeVersion.version).toBe('v2');
+      expect(result.event.action).toBe('rollback');
+      expect(result.event.fromVersionId.toString()).toBe(versionIds[2]);
+      expect(result.event.toVersionId.toString()).toBe(versionIds[1]);
+      expect(result.event.performedBy.toString()).toBe(userId);
+    });
+
+    it('should roll back to a version label or ID', async () => {
+      const byLabel = await activationService.rollbackPromptVersion(promptId, userId, 'v1');
+      expect(byLabel.activeVersion._id.toString()).toBe(versionIds[0]);
+
+      const byId = await activationService.rollbackPromptVersion(promptId, userId, versionIds[2]);
+      expect(byId.activeVersion.version).toBe('v3');
+    });
+
+    it('should keep exactly one active version and move the production deployment', async () => {
+      await activationService.rollbackPromptVersion(promptId, userId, 'v1');
+
+      const active = await PromptVersion.find({ promptId, activePrompt: true });
+      const deployment = await Deployment.findOne({ promptId, environment: 'production' });
+
+      expect(active).toHaveLength(1);
+      expect(active[0]._id.toString()).toBe(versionIds[0]);
+      expect(deployment?.versionId.toString()).toBe(versionIds[0]);
+    });
+
+    it('should return to the version that was active before a rollback', async () => {
+      await activationService.rollbackPromptVersion(promptId, userId, 'v1');
+
+      const result = await activationService.rollbackPromptVersion(promptId, userId, 'previous');
+
+      expect(result.activeVersion.version).toBe('v3');
+    });
+
+    it('should not roll back to a deleted version', async () => {
+      await PromptVersion.updateOne({ _id: versionIds[0] }, { isActive: false });
+
+      await expect(
+        activationService.rollbackPromptVersion(promptId, userId, 'v1')
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    });
+
+    it('should throw error when the target is already active', async () => {
+      await expect(
+        activationService.rollbackPromptVersion(promptId, userId, 'v3')
+      ).rejects.toThrow(ERROR_MESSAGES.VERSION_ALREADY_ACTIVE);
+    });
+
+    it('should leave the active version unchanged when the rollback fails', async () => {
+      const eventCount = await ActivationEvent.countDocuments({ promptId });
+
+      await expect(
+        activationService.rollbackPromptVersion(promptId, userId, 'v9')
+      ).rejects.toThrow(ERROR_MESSAGES.VERSION_LABEL_NOT_FOUND('v9'));
+
+      const active = await PromptVersion.findOne({ promptId, activePrompt: true });
+      expect(active?._id.toString()).toBe(versionIds[2]);
+      expect(await ActivationEvent.countDocuments({ promptId })).toBe(eventCount);
+    });
+
+    it('should throw error if prompt belongs to another user', async () => {
+      const otherUserId = new mongoose.Types.ObjectId().toString();
+
+      await expect(activationService.rollbackPromptVersion(promptId, otherUserId)).rejects.toThrow(
+        ERROR_MESSAGES.PROMPT_NOT_FOUND
+      );
+    });
+  });
+
+  describe('activateVersion', () => {
+    it('should record activations made when creating and updating versions', async () => {
+      await promptVersionService.updatePromptVersion(versionIds[0], userId, { activePrompt: true });
+
+      const events = await ActivationEvent.find({ promptId }).sort({ createdAt: 1, _id: 1 });
+
+      expect(events.map((event) => event.action)).toEqual([
+        'activate',
+        'activate',
+        'activate',
+        'activate',
+      ]);
+      expect(events[0].fromVersionId).toBeNull();
+      expect(events[3].fromVersionId?.toString()).toBe(versionIds[2]);
+      expect(events[3].toVersionId?.toString()).toBe(versionIds[0]);
+    });
+
+    it('should record a deactivation', async () => {
+      await promptVersionService.updatePromptVersion(versionIds[2], userId, { activePrompt: false });
+
+      const event = await ActivationEvent.findOne({ promptId, action: 'deactivate' });
+
+      expect(event?.fromVersionId?.toString()).toBe(versionIds[2]);
+      expect(event?.toVersionId).toBeNull();
+    });
+
+    it('should keep exactly one active version under concurrent activations', async () => {
+      const results = await Promise.allSettled(
+        versionIds.map((versionId) =>
+          promptVersionService.updatePromptVersion(versionId, userId, { activePrompt: true })
+        )
+      );
+
+      const active = await PromptVersion.find({ promptId, activePrompt: true });
+      expect(active).toHaveLength(1);
+
+      // Losing requests get a retryable conflict, never a duplicate key error
+      results
+        .filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+        .forEach((result) => {
+          expect(result.reason.statusCode).toBe(409);
+          expect(result.reason.message).toBe(ERROR_MESSAGES.CONCURRENT_UPDATE_CONFLICT);
+        });
+    });
+  });
+
+  describe('getActivationHistory', () => {
+    it('should list activation events newest first', async () => {
+      await activationService.rollbackPromptVersion(promptId, userId, 'v1');
+      await activationService.rollbackPromptVersion(promptId, userId, 'v2');
+
+      const history = await activationService.getActivationHistory(promptId, userId);
+
+      expect(history).toHaveLength(5);
+      expect(history[0].action).toBe('rollback');
+      expect(history[0].toVersionId.version).toBe('v2');
+      expect(history[0].fromVersionId.version).toBe('v1');
+      expect(history[1].toVersionId.version).toBe('v1');
+      expect(history[4].action).toBe('activate');
+    });
+  });
+});
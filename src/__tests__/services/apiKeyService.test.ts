@@ -0,0 +1,154 @@
+/**
+ * API Key Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import bcrypt from 'bcryptjs';
+import ApiKey from '../../models/ApiKey';
+import Project from '../../models/Project';
+import * as apiKeyService from '../../services/apiKeyService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('API Key Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  let projectId: string;
+
+  beforeEach(async () => {
+    await ApiKey.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await Project.create({
+      userId,
+      name: 'Test Project',
+      isActive: true,
+    });
+    projectId = (project._id as mongoose.Types.ObjectId).toString();
+  });
+
+  describe('createApiKey', () => {
+    it('should create a key and return the raw key once', async () => {
+      const result = await apiKeyService.createApiKey(projectId, userId, { name: 'Production' });
+
+      expect(result.key).toMatch(/^amk_[0-9a-f]+_[0-9a-f]+$/);
+      expect(result.apiKey.name).toBe('Production');
+      expect(result.apiKey.prefix).toBe(result.key.split('_')[1]);
+      expect((result.apiKey as any).key).toBeUndefined();
+    });
+
+    it('should store the key hashed', async () => {
+      const result = await apiKeyService.createApiKey(projectId, userId, {});
+
+      const stored = await ApiKey.findById(result.apiKey._id).select('+key');
+      expect(stored?.key).toBe(crypto.createHash('sha256').update(result.key).digest('hex'));
+      expect(await stored?.compareKey(result.key)).toBe(true);
+      expect(await stored?.compareKey(`${result.key}x`)).toBe(false);
+    });
+
+    it('should throw error if project belongs to another user', async () => {
+      const otherUserId = new mongoose.Types.ObjectId().toString();
+
+      await expect(apiKeyService.createApiKey(projectId, otherUserId, {})).rejects.toThrow(
+        ERROR_MESSAGES.PROJECT_NOT_FOUND
+      );
+    });
+  });
+
+  describe('getApiKeysByProject', () => {
+    it('should list only active keys by default', async () => {
+      const first = await apiKeyService.createApiKey(projectId, userId, { name: 'First' });
+      await apiKeyService.createApiKey(projectId, userId, { name: 'Second' });
+      await apiKeyService.revokeApiKey(projectId, first.apiKey._id.toString(), userId);
+
+      const active = await apiKeyService.getApiKeysByProject(projectId, userId);
+      const all = await apiKeyService.getApiKeysByProject(projectId, userId, true);
+
+      expect(active).toHaveLength(1);
+      expect(active[0].name).toBe('Second');
+      expect(all).toHaveLength(2);
+    });
+  });
+
+  describe('rotateApiKey', () => {
+    it('should invalidate the old key and issue a new one', async () => {
+      const created = await apiKeyService.createApiKey(projectId, userId, {});
+
+      const rotated = await apiKeyService.rotateApiKey(
+        projectId,
+        created.apiKey._id.toString(),
+        userId
+      );
+
+      expect(rotated.key).not.toBe(created.key);
+      expect(rotated.apiKey.rotatedAt).toBeDefined();
+      expect(await apiKeyService.verifyApiKey(created.key)).toBeNull();
+      expect(await apiKeyService.verifyApiKey(rotated.key)).not.toBeNull();
+    });
+
+    it('should throw error for revoked keys', async () => {
+      const created = await apiKeyService.createApiKey(projectId, userId, {});
+      await apiKeyService.revokeApiKey(projectId, created.apiKey._id.toString(), userId);
+
+      await expect(
+        apiKeyService.rotateApiKey(projectId, created.apiKey._id.toString(), userId)
+      ).rejects.toThrow(ERROR_MESSAGES.API_KEY_REVOKED);
+    });
+  });
+
+  describe('revokeApiKey', () => {
+    it('should revoke the key', async () => {
+      const created = await apiKeyService.createApiKey(projectId, userId, {});
+
+      const revoked = await apiKeyService.revokeApiKey(
+        projectId,
+        created.apiKey._id.toString(),
+        userId
+      );
+
+      expect(revoked.isActive).toBe(false);
+      expect(revoked.revokedAt).toBeDefined();
+      expect(await apiKeyService.verifyApiKey(created.key)).toBeNull();
+    });
+
+    it('should throw error for a key of another project', async () => {
+      const created = await apiKeyService.createApiKey(projectId, userId, {});
+      const otherProject = await Project.create({ userId, name: 'Other Project' });
+
+      await expect(
+        apiKeyService.revokeApiKey(
+          (otherProject._id as mongoose.Types.ObjectId).toString(),
+          created.apiKey._id.toString(),
+          userId
+        )
+      ).rejects.toThrow(ERROR_MESSAGES.API_KEY_NOT_FOUND);
+    });
+  });
+
+  describe('verifyApiKey', () => {
+    it('should return the key and record its use', async () => {
+      const created = await apiKeyService.createApiKey(projectId, userId, {});
+
+      const apiKey = await apiKeyService.verifyApiKey(created.key);
+
+      expect(apiKey?.projectId.toString()).toBe(projectId);
+      const stored = await ApiKey.findById(created.apiKey._id);
+      expect(stored?.lastUsedAt).toBeDefined();
+    });
+
+    it('should accept keys stored as bcrypt hashes before digests were used', async () => {
+      const created = await apiKeyService.createApiKey(projectId, userId, {});
+      await ApiKey.updateOne(
+        { _id: created.apiKey._id },
+        { $set: { key: await bcrypt.hash(created.key, 4) } }
+      );
+
+      expect(await apiKeyService.verifyApiKey(created.key)).not.toBeNull();
+    });
+
+    it('should return null for malformed or unknown keys', async () => {
+      expect(await apiKeyService.verifyApiKey('not-a-key')).toBeNull();
+      expect(await apiKeyService.verifyApiKey('amk_000000000000_deadbeef')).toBeNull();
+    });
+  });
+});
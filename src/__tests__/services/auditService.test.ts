@@ -0,0 +1,139 @@
+/**
+ * Audit Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import AuditEvent from '../../models/AuditEvent';
+import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
+import PromptVersion from '../../models/PromptVersion';
+import * as activationService from '../../services/activationService';
+import * as auditService from '../../services/auditService';
+import * as deploymentService from '../../services/deploymentService';
+import * as projectService from '../../services/projectService';
+import * as promptService from '../../services/promptService';
+import * as promptVersionService from '../../services/promptVersionService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Audit Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const context = { ipAddress: '203.0.113.7', requestId: 'req-123' };
+  let projectId: string;
+
+  beforeEach(async () => {
+    await PromptVersion.deleteMany({});
+    await Prompt.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await projectService.createProject(userId, { name: 'Audited' }, context);
+    projectId = project._id.toString();
+  });
+
+  it('should record who created a project, from where and its initial values', async () => {
+    const { items } = await auditService.getAuditEvents(projectId, userId);
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({
+      action: 'create',
+      entityType: 'project',
+      ipAddress: '203.0.113.7',
+      requestId: 'req-123',
+    });
+    expect(items[0].changes).toContainEqual({ field: 'name', before: null, after: 'Audited' });
+  });
+
+  it('should record only the fields an update changed, and skip updates that changed nothing', async () => {
+    await projectService.updateProject(projectId, userId, { name: 'Renamed' });
+    await projectService.updateProject(projectId, userId, { name: 'Renamed' });
+
+    const { items } = await auditService.getAuditEvents(projectId, userId);
+
+    expect(items.map((event) => event.action)).toEqual(['update', 'create']);
+    expect(items[0].changes).toEqual([{ field: 'name', before: 'Audited', after: 'Renamed' }]);
+  });
+
+  it('should record version activations and filter by entity and actor', async () => {
+    const prompt = await promptService.createPrompt(userId, projectId, { name: 'Greeting' });
+    const version = await promptVersionService.createPromptVersion(userId, prompt._id.toString(), {
+      promptText: 'Hello',
+    });
+    await promptVersionService.updatePromptVersion(version._id.toString(), userId, {
+      activePrompt: true,
+    });
+
+    const { items } = await auditService.getAuditEvents(projectId, userId, {
+      entityType: 'prompt_version',
+      entityId: version._id.toString(),
+      actorId: userId,
+    });
+
+    expect(items.map((event) => event.action)).toEqual(['activate', 'create']);
+    expect(items[0].changes).toEqual([{ field: 'activePrompt', before: false, after: true }]);
+  });
+
+  it('should record activations made by production deploys and rollbacks', async () => {
+    const prompt = await promptService.createPrompt(userId, projectId, { name: 'Greeting' });
+    const promptId = prompt._id.toString();
+    const v1 = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Hello',
+    });
+    const v2 = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Hi',
+    });
+    await deploymentService.deployVersion(promptId, 'production', v1._id.toString(), userId);
+    await deploymentService.deployVersion(promptId, 'production', v2._id.toString(), userId);
+    await activationService.rollbackPromptVersion(promptId, userId, undefined, context);
+
+    const { items } = await auditService.getAuditEvents(projectId, userId, {
+      entityType: 'prompt_version',
+      entityId: v1._id.toString(),
+    });
+
+    expect(items.map((event) => event.action)).toEqual([
+      'activate',
+      'deactivate',
+      'activate',
+      'create',
+    ]);
+    expect(items[0]).toMatchObject({ ipAddress: '203.0.113.7', requestId: 'req-123' });
+  });
+
+  it('should filter by time range', async () => {
+    const { items } = await auditService.getAuditEvents(projectId, userId, {
+      from: new Date(Date.now() + 60 * 1000),
+    });
+
+    expect(items).toHaveLength(0);
+  });
+
+  it('should not let audit events be changed or removed', async () => {
+    const event = await AuditEvent.findOne({ projectId });
+
+    event!.action = 'delete';
+    await expect(event!.save()).rejects.toThrow(ERROR_MESSAGES.AUDIT_EVENTS_IMMUTABLE);
+    await expect(AuditEvent.updateOne({ projectId }, { action: 'delete' })).rejects.toThrow(
+      ERROR_MESSAGES.AUDIT_EVENTS_IMMUTABLE
+    );
+    await expect(AuditEvent.deleteMany({ projectId })).rejects.toThrow(
+      ERROR_MESSAGES.AUDIT_EVENTS_IMMUTABLE
+    );
+  });
+
+  it('should keep the log of a deleted project readable', async () => {
+    await projectService.deleteProject(projectId, userId);
+
+    const { items } = await auditService.getAuditEvents(projectId, userId);
+
+    expect(items[0]).toMatchObject({ action: 'delete' });
+    expect(items[0].changes).toEqual([{ field: 'isActive', before: true, after: false }]);
+  });
+
+  it('should not show the log to users without access to the project', async () => {
+    const otherUserId = new mongoose.Types.ObjectId().toString();
+
+    await expect(auditService.getAuditEvents(projectId, otherUserId)).rejects.toMatchObject({
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Authentication Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Response, NextFunction } from 'express';
+import Session from '../../models/Session';
+import User from '../../models/User';
+import * as authService from '../../services/authService';
+import * as sessionService from '../../services/sessionService';
+import { setMailTransport } from '../../services/mailService';
+import { authenticate } from '../../middleware/auth';
+import { ApiError } from '../../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { AuthenticatedRequest, AuthTokens, MailMessage, UserResponse } from '../../types';
+
+describe('Authentication Service', () => {
+  const originalJwtSecret = process.env.JWT_SECRET;
+  let outbox: MailMessage[];
+
+  // The reset link carries the token as its only query parameter
+  const lastToken = (): string =>
+    new URL(/https?:\/\/\S+/.exec(outbox[outbox.length - 1].text)![0]).searchParams.get('token')!;
+
+  // Log in with the password of the test user (no two-factor authentication)
+  const login = async (): Promise<{ user: UserResponse } & AuthTokens> =>
+    (await authService.loginUser({
+      email: 'user@example.com',
+      password: 'password123',
+    })) as { user: UserResponse } & AuthTokens;
+
+  // Run authenticate with an access token and return the error it passed on, if any
+  const runAuthenticate = async (token: string): Promise<ApiError | undefined> => {
+    const next = jest.fn();
+    const req = { headers: { authorization: `Bearer ${token}` } } as AuthenticatedRequest;
+    await authenticate(req, {} as Response, next as NextFunction);
+    return next.mock.calls[0][0] as ApiError | undefined;
+  };
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret-key';
+    outbox = [];
+    setMailTransport({ send: async (message) => void outbox.push(message) });
+
+    await Session.deleteMany({});
+    await User.deleteMany({});
+    await User.create({ email: 'user@example.com', password: 'password123' });
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalJwtSecret;
+    setMailTransport(null);
+  });
+
+  describe('account lockout', () => {
+    const wrongPassword = () =>
+      authService.loginUser({ email: 'user@example.com', password: 'wrong-password' });
+
+    it('should lock the account after repeated failed logins', async () => {
+      for (let i = 0; i < 5; i++) {
+        await expect(wrongPassword()).rejects.toThrow(ERROR_MESSAGES.INVALID_EMAIL_OR_PASSWORD);
+      }
+
+      await expect(login()).rejects.toMatchObject({
+        message: ERROR_MESSAGES.ACCOUNT_LOCKED(15),
+        statusCode: 423,
+      });
+
+      await User.updateOne(
+        { email: 'user@example.com' },
+        { lockedUntil: new Date(Date.now() - 1000) }
+      );
+      await expect(login()).resolves.toHaveProperty('token');
+    });
+
+    it('should start counting again after a successful login', async () => {
+      for (let i = 0; i < 4; i++) {
+        await expect(wrongPassword()).rejects.toThrow(ERROR_MESSAGES.INVALID_EMAIL_OR_PASSWORD);
+      }
+      await login();
+
+      await expect(wrongPassword()).rejects.toThrow(ERROR_MESSAGES.INVALID_EMAIL_OR_PASSWORD);
+      await expect(login()).resolves.toHaveProperty('token');
+    });
+
+    it('should unlock the account when the password is reset', async () => {
+      await User.updateOne(
+        { email: 'user@example.com' },
+        { lockedUntil: new Date(Date.now() + 60 * 1000) }
+      );
+      await authService.requestPasswordReset('user@example.com');
+
+      await authService.resetPassword(lastToken(), 'new-password');
+
+      await expect(
+        authService.loginUser({ email: 'user@example.com', password: 'new-password' })
+      ).resolves.toHaveProperty('token');
+    });
+  });
+
+  describe('requestPasswordReset', () => {
+    it('should email a reset link and store only a hash of the token', async () => {
+      await authService.requestPasswordReset(' User@Example.com ');
+
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].to).toBe('user@example.com');
+
+      const user = await User.findOne({ email: 'user@example.com' }).select(
+        '+passwordResetTokenHash +passwordResetExpiresAt'
+      );
+      expect(user?.passwordResetTokenHash).toHaveLength(64);
+      expect(user?.passwordResetTokenHash).not.toBe(lastToken());
+      expect(user?.passwordResetExpiresAt!.getTime()).toBeGreaterThan(Date.now());
+    });
+
+    it('should not reveal whether an account exists', async () => {
+      await expect(authService.requestPasswordReset('nobody@example.com')).resolves.toBeUndefined();
+      expect(outbox).toHaveLength(0);
+    });
+  });
+
+  describe('resetPassword', () => {
+    it('should set the new password and sign out every session', async () => {
+      const { token } = await login();
+      await authService.requestPasswordReset('user@example.com');
+
+      await authService.resetPassword(lastToken(), 'new-password');
+
+      expect(await runAuthenticate(token)).toMatchObject({ statusCode: 401 });
+      await expect(
+        authService.loginUser({ email: 'user@example.com', password: 'password123' })
+      ).rejects.toThrow(ERROR_MESSAGES.INVALID_EMAIL_OR_PASSWORD);
+      await expect(
+        authService.loginUser({ email: 'user@example.com', password: 'new-password' })
+      ).resolves.toHaveProperty('token');
+    });
+
+    it('should accept a reset token only once', async () => {
+      await authService.requestPasswordReset('user@example.com');
+      const resetToken = lastToken();
+      await authService.resetPassword(resetToken, 'new-password');
+
+      await expect(authService.resetPassword(resetToken, 'other-password')).rejects.toThrow(
+        ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID
+      );
+    });
+
+    it('should reject expired and superseded reset tokens', async () => {
+      await authService.requestPasswordReset('user@example.com');
+      const firstToken = lastToken();
+      await authService.requestPasswordReset('user@example.com');
+
+      await expect(authService.resetPassword(firstToken, 'new-password')).rejects.toThrow(
+        ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID
+      );
+
+      await User.updateOne(
+        { email: 'user@example.com' },
+        { passwordResetExpiresAt: new Date(Date.now() - 1000) }
+      );
+      await expect(authService.resetPassword(lastToken(), 'new-password')).rejects.toThrow(
+        ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID
+      );
+    });
+  });
+
+  describe('changePassword', () => {
+    it('should require the current password', async () => {
+      const { user } = await login();
+
+      await expect(
+        authService.changePassword(user._id.toString(), 'wrong-password', 'new-password')
+      ).rejects.toMatchObject({
+        message: ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT,
+        statusCode: 400,
+      });
+    });
+
+    it('should invalidate existing tokens and start a new session', async () => {
+      const { user, token } = await login();
+
+      const tokens = await authService.changePassword(
+        user._id.toString(),
+        'password123',
+        'new-password'
+      );
+
+      expect(await runAuthenticate(token)).toMatchObject({ statusCode: 401 });
+      expect(await runAuthenticate(tokens.token)).toBeUndefined();
+      await expect(authService.refreshTokens(tokens.refreshToken)).resolves.toHaveProperty('token');
+    });
+
+    it('should reject access tokens issued before the password change even if their session survived', async () => {
+      const { user } = await login();
+      const userId = user._id.toString();
+      const { sessionId } = await sessionService.createSession(userId);
+      const staleToken = authService.generateToken(userId, 'user@example.com', sessionId);
+      await User.updateOne({ _id: userId }, { passwordChangedAt: new Date(Date.now() + 5000) });
+
+      expect(await runAuthenticate(staleToken)).toMatchObject({
+        message: ERROR_MESSAGES.PASSWORD_CHANGED,
+        statusCode: 401,
+      });
+    });
+  });
+});
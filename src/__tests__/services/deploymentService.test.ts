@@ -0,0 +1,138 @@
+/**
+ * Deployment Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Deployment from '../../models/Deployment';
+import PromptVersion from '../../models/PromptVersion';
+import Prompt from '../../models/Prompt';
+import Project from '../../models/Project';
+import * as deploymentService from '../../services/deploymentService';
+import * as promptVersionService from '../../services/promptVersionService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Deployment Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  let promptId: string;
+  let v1Id: string;
+  let v2Id: string;
+
+  beforeEach(async () => {
+    await Deployment.deleteMany({});
+    await PromptVersion.deleteMany({});
+    await Prompt.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await Project.create({ userId, name: 'Test Project' });
+    const prompt = await Prompt.create({ userId, projectId: project._id, name: 'Test Prompt' });
+    promptId = (prompt._id as mongoose.Types.ObjectId).toString();
+
+    const v1 = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Version one',
+      activePrompt: true,
+    });
+    const v2 = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Version two',
+    });
+    v1Id = v1._id.toString();
+    v2Id = v2._id.toString();
+  });
+
+  describe('production deployment', () => {
+    it('should record a production deployment when a version is activated', async () => {
+      const deployment = await Deployment.findOne({ promptId, environment: 'production' });
+
+      expect(deployment?.versionId.toString()).toBe(v1Id);
+    });
+
+    it('should remove the production deployment when the active version is deactivated', async () => {
+      await promptVersionService.updatePromptVersion(v1Id, userId, { activePrompt: false });
+
+      const deployment = await Deployment.findOne({ promptId, environment: 'production' });
+      expect(deployment).toBeNull();
+    });
+  });
+
+  describe('deployVersion', () => {
+    it('should deploy a version to staging without touching production', async () => {
+      await deploymentService.deployVersion(promptId, 'staging', v2Id, userId);
+
+      const staging = await deploymentService.resolveDeployedVersion(promptId, 'staging');
+      const production = await deploymentService.resolveDeployedVersion(promptId);
+
+      expect(staging.promptText).toBe('Version two');
+      expect(production.promptText).toBe('Version one');
+    });
+
+    it('should move the activePrompt flag when deploying to production', async () => {
+      await deploymentService.deployVersion(promptId, 'production', v2Id, userId);
+
+      const v1 = await PromptVersion.findById(v1Id);
+      const v2 = await PromptVersion.findById(v2Id);
+      expect(v1?.activePrompt).toBe(false);
+      expect(v2?.activePrompt).toBe(true);
+    });
+
+    it('should reject environments that are not defined on the project', async () => {
+      await expect(
+        deploymentService.deployVersion(promptId, 'qa', v2Id, userId)
+      ).rejects.toThrow(ERROR_MESSAGES.ENVIRONMENT_NOT_FOUND('qa'));
+    });
+
+    it('should reject versions of another prompt', async () => {
+      const otherVersionId = new mongoose.Types.ObjectId().toString();
+
+      await expect(
+        deploymentService.deployVersion(promptId, 'staging', otherVersionId, userId)
+      ).rejects.toThrow(ERROR_MESSAGES.VERSION_NOT_IN_PROMPT);
+    });
+  });
+
+  describe('removeDeployment', () => {
+    it('should remove a staging deployment', async () => {
+      await deploymentService.deployVersion(promptId, 'staging', v2Id, userId);
+
+      await deploymentService.removeDeployment(promptId, 'staging', userId);
+
+      await expect(deploymentService.resolveDeployedVersion(promptId, 'staging')).rejects.toThrow(
+        ERROR_MESSAGES.NO_DEPLOYMENT_FOR_ENVIRONMENT('staging')
+      );
+    });
+
+    it('should throw error when nothing is deployed', async () => {
+      await expect(deploymentService.removeDeployment(promptId, 'staging', userId)).rejects.toThrow(
+        ERROR_MESSAGES.NO_DEPLOYMENT_FOR_ENVIRONMENT('staging')
+      );
+    });
+  });
+
+  describe('resolveDeployedVersion', () => {
+    it('should fall back to the activePrompt flag for legacy production data', async () => {
+      await Deployment.deleteMany({});
+
+      const version = await deploymentService.resolveDeployedVersion(promptId, 'production');
+
+      expect(version._id.toString()).toBe(v1Id);
+    });
+
+    it('should not serve a deployed version that has been deleted', async () => {
+      await deploymentService.deployVersion(promptId, 'staging', v2Id, userId);
+      await PromptVersion.updateOne({ _id: v2Id }, { isActive: false });
+
+      await expect(deploymentService.resolveDeployedVersion(promptId, 'staging')).rejects.toThrow(
+        ERROR_MESSAGES.NO_DEPLOYMENT_FOR_ENVIRONMENT('staging')
+      );
+    });
+  });
+
+  describe('getDeploymentsByPrompt', () => {
+    it('should list deployments for every environment', async () => {
+      await deploymentService.deployVersion(promptId, 'staging', v2Id, userId);
+
+      const deployments = await deploymentService.getDeploymentsByPrompt(promptId, userId);
+
+      expect(deployments.map((d) => d.environment)).toEqual(['production', 'staging']);
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Experiment Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Experiment from '../../models/Experiment';
+import ActivationEvent from '../../models/ActivationEvent';
+import Deployment from '../../models/Deployment';
+import PromptVersion from '../../models/PromptVersion';
+import Prompt from '../../models/Prompt';
+import Project from '../../models/Project';
+import * as experimentService from '../../services/experimentService';
+import * as promptVersionService from '../../services/promptVersionService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Experiment Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  let promptId: string;
+  let v1Id: string;
+  let v2Id: string;
+
+  const createRunningExperiment = async (weights: [number, number] = [50, 50]) => {
+    const experiment = await experimentService.createExperiment(promptId, userId, {
+      name: 'Tone test',
+      variants: [
+        { versionId: v1Id, weight: weights[0] },
+        { versionId: v2Id, weight: weights[1] },
+      ],
+    });
+    return experimentService.startExperiment(experiment._id.toString(), userId);
+  };
+
+  beforeEach(async () => {
+    await Experiment.deleteMany({});
+    await ActivationEvent.deleteMany({});
+    await Deployment.deleteMany({});
+    await PromptVersion.deleteMany({});
+    await Prompt.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await Project.create({ userId, name: 'Test Project' });
+    const prompt = await Prompt.create({ userId, projectId: project._id, name: 'Test Prompt' });
+    promptId = (prompt._id as mongoose.Types.ObjectId).toString();
+
+    const v1 = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Formal',
+      activePrompt: true,
+    });
+    const v2 = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Casual',
+    });
+    v1Id = v1._id.toString();
+    v2Id = v2._id.toString();
+  });
+
+  describe('createExperiment', () => {
+    it('should create a draft experiment', async () => {
+      const experiment = await experimentService.createExperiment(promptId, userId, {
+        name: 'Tone test',
+        variants: [
+          { versionId: v1Id, weight: 90 },
+          { versionId: v2Id, weight: 10 },
+        ],
+      });
+
+      expect(experiment.status).toBe('draft');
+      expect(experiment.variants).toHaveLength(2);
+    });
+
+    it('should reject versions of another prompt', async () => {
+      await expect(
+        experimentService.createExperiment(promptId, userId, {
+          name: 'Tone test',
+          variants: [
+            { versionId: v1Id, weight: 50 },
+            { versionId: new mongoose.Types.ObjectId().toString(), weight: 50 },
+          ],
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.VERSION_NOT_IN_PROMPT);
+    });
+  });
+
+  describe('status transitions', () => {
+    it('should allow only one running experiment per prompt', async () => {
+      await createRunningExperiment();
+      const second = await experimentService.createExperiment(promptId, userId, {
+        name: 'Second',
+        variants: [
+          { versionId: v1Id, weight: 1 },
+          { versionId: v2Id, weight: 1 },
+        ],
+      });
+
+      await expect(
+        experimentService.startExperiment(second._id.toString(), userId)
+      ).rejects.toThrow(ERROR_MESSAGES.EXPERIMENT_ALREADY_RUNNING);
+    });
+
+    it('should reject stopping an experiment that is not running', async () => {
+      const experiment = await createRunningExperiment();
+      await experimentService.stopExperiment(experiment._id.toString(), userId);
+
+      await expect(
+        experimentService.stopExperiment(experiment._id.toString(), userId)
+      ).rejects.toThrow(ERROR_MESSAGES.EXPERIMENT_STATUS_INVALID('stop', 'stopped'));
+    });
+
+    it('should promote the winner to the active version', async () => {
+      const experiment = await createRunningExperiment();
+
+      const promoted = await experimentService.promoteExperiment(
+        experiment._id.toString(),
+        userId,
+        v2Id
+      );
+
+      expect(promoted.status).toBe('promoted');
+      expect(promoted.promotedVersionId.toString()).toBe(v2Id);
+
+      const active = await promptVersionService.getActivePromptVersion(promptId);
+      expect(active._id.toString()).toBe(v2Id);
+      expect(active.experiment).toBeUndefined();
+
+      const event = await ActivationEvent.findOne({ promptId, action: 'promote' });
+      expect(event?.toVersionId?.toString()).toBe(v2Id);
+    });
+
+    it('should promote only one winner when promotions race', async () => {
+      const experiment = await createRunningExperiment();
+
+      const results = await Promise.allSettled([
+        experimentService.promoteExperiment(experiment._id.toString(), userId, v1Id),
+        experimentService.promoteExperiment(experiment._id.toString(), userId, v2Id),
+      ]);
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      expect(await ActivationEvent.countDocuments({ promptId, action: 'promote' })).toBe(1);
+    });
+
+    it('should reject promoting a version that is not a variant', async () => {
+      const experiment = await createRunningExperiment();
+      const v3 = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Pirate',
+      });
+
+      await expect(
+        experimentService.promoteExperiment(experiment._id.toString(), userId, v3._id.toString())
+      ).rejects.toThrow(ERROR_MESSAGES.EXPERIMENT_VERSION_NOT_VARIANT);
+    });
+  });
+
+  describe('resolveExperimentVersion', () => {
+    it('should return null when no experiment is running', async () => {
+      const result = await experimentService.resolveExperimentVersion(promptId, 'user-1');
+
+      expect(result).toBeNull();
+    });
+
+    it('should give a subject the same variant on every request', async () => {
+      await createRunningExperiment();
+
+      const first = await experimentService.resolveExperimentVersion(promptId, 'user-42');
+      for (let i = 0; i < 5; i++) {
+        const again = await experimentService.resolveExperimentVersion(promptId, 'user-42');
+        expect(again?.version._id.toString()).toBe(first?.version._id.toString());
+      }
+      expect(first?.assignment.sticky).toBe(true);
+    });
+
+    it('should split subjects by weight', async () => {
+      await createRunningExperiment([3, 1]);
+
+      const counts: Record<string, number> = { [v1Id]: 0, [v2Id]: 0 };
+      for (let i = 0; i < 400; i++) {
+        const result = await experimentService.resolveExperimentVersion(promptId, `user-${i}`);
+        counts[result!.version._id.toString()]++;
+      }
+
+      expect(counts[v1Id]).toBeGreaterThan(240);
+      expect(counts[v1Id]).toBeLessThan(360);
+    });
+
+    it('should skip variants whose version was deleted', async () => {
+      await createRunningExperiment();
+      await PromptVersion.updateOne({ _id: v1Id }, { isActive: false });
+
+      for (let i = 0; i < 10; i++) {
+        const result = await experimentService.resolveExperimentVersion(promptId, `user-${i}`);
+        expect(result?.version._id.toString()).toBe(v2Id);
+      }
+    });
+
+    it('should serve the active version again once the experiment is stopped', async () => {
+      const experiment = await createRunningExperiment([1, 1000]);
+      await experimentService.stopExperiment(experiment._id.toString(), userId);
+
+      const active = await promptVersionService.getActivePromptVersion(promptId, 'production', 'u');
+
+      expect(active._id.toString()).toBe(v1Id);
+    });
+  });
+
+  describe('chooseVariantIndex', () => {
+    it('should map points onto cumulative weights', () => {
+      const variants = [{ weight: 1 }, { weight: 3 }];
+
+      expect(experimentService.chooseVariantIndex(variants, 0)).toBe(0);
+      expect(experimentService.chooseVariantIndex(variants, 0.24)).toBe(0);
+      expect(experimentService.chooseVariantIndex(variants, 0.25)).toBe(1);
+      expect(experimentService.chooseVariantIndex(variants, 0.99)).toBe(1);
+    });
+  });
+});
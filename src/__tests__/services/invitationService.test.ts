@@ -0,0 +1,279 @@
+/**
+ * Invitation Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import Invitation from '../../models/Invitation';
+import Organization from '../../models/Organization';
+import Project from '../../models/Project';
+import User from '../../models/User';
+import * as invitationService from '../../services/invitationService';
+import * as organizationService from '../../services/organizationService';
+import * as projectService from '../../services/projectService';
+import * as authService from '../../services/authService';
+import { setMailTransport } from '../../services/mailService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { MailMessage } from '../../types';
+
+describe('Invitation Service', () => {
+  const originalJwtSecret = process.env.JWT_SECRET;
+  let outbox: MailMessage[];
+  let ownerId: string;
+  let organizationId: string;
+
+  // The accept link carries the token as its only query parameter
+  const lastToken = (): string =>
+    new URL(/https?:\/\/\S+/.exec(outbox[outbox.length - 1].text)![0]).searchParams.get('token')!;
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret-key';
+    outbox = [];
+    setMailTransport({ send: async (message) => void outbox.push(message) });
+
+    await Invitation.deleteMany({});
+    await Organization.deleteMany({});
+    await Project.deleteMany({});
+    await User.deleteMany({});
+
+    const owner = await User.create({ email: 'owner@example.com', password: 'password123' });
+    ownerId = (owner._id as mongoose.Types.ObjectId).toString();
+    const organization = await organizationService.createOrganization(ownerId, { name: 'Acme' });
+    organizationId = organization._id.toString();
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalJwtSecret;
+    setMailTransport(null);
+  });
+
+  describe('inviteToOrganization', () => {
+    it('should store a pending invitation and email the accept link', async () => {
+      const invitation = await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: ' New@Example.com ',
+        role: 'editor',
+      });
+
+      expect(invitation.email).toBe('new@example.com');
+      expect(invitation.status).toBe('pending');
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].to).toBe('new@example.com');
+      expect(outbox[0].subject).toContain('Acme');
+      expect(lastToken()).toEqual(expect.any(String));
+    });
+
+    it('should reject a second pending invitation for the same address', async () => {
+      const data = { email: 'new@example.com', role: 'viewer' as const };
+      await invitationService.inviteToOrganization(organizationId, ownerId, data);
+
+      await expect(
+        invitationService.inviteToOrganization(organizationId, ownerId, data)
+      ).rejects.toThrow(ERROR_MESSAGES.INVITATION_ALREADY_PENDING);
+    });
+
+    it('should reject inviting an existing member', async () => {
+      await expect(
+        invitationService.inviteToOrganization(organizationId, ownerId, {
+          email: 'owner@example.com',
+          role: 'viewer',
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.ORGANIZATION_MEMBER_EXISTS);
+    });
+
+    it('should not keep the invitation when the email cannot be sent', async () => {
+      setMailTransport({
+        send: async () => {
+          throw new Error('SMTP down');
+        },
+      });
+
+      await expect(
+        invitationService.inviteToOrganization(organizationId, ownerId, {
+          email: 'new@example.com',
+          role: 'viewer',
+        })
+      ).rejects.toThrow('SMTP down');
+      expect(await Invitation.countDocuments()).toBe(0);
+    });
+  });
+
+  describe('inviteToProject', () => {
+    it('should invite to the organization of a project created before organizations', async () => {
+      const project = await Project.create({ userId: ownerId, name: 'Legacy' });
+
+      const invitation = await invitationService.inviteToProject(
+        (project._id as mongoose.Types.ObjectId).toString(),
+        ownerId,
+        { email: 'new@example.com', role: 'viewer' }
+      );
+
+      const personal = await organizationService.getPersonalOrganization(ownerId);
+      expect(invitation.organizationId.toString()).toBe(personal._id.toString());
+      expect(invitation.projectId.toString()).toBe((project._id as mongoose.Types.ObjectId).toString());
+      expect((await Project.findById(project._id))?.organizationId?.toString()).toBe(
+        personal._id.toString()
+      );
+      expect(outbox[0].subject).toContain('Legacy');
+    });
+
+    it('should give access to the invited project only', async () => {
+      const invited = await projectService.createProject(ownerId, {
+        name: 'Invited',
+        organizationId,
+      });
+      const other = await projectService.createProject(ownerId, { name: 'Other', organizationId });
+      const user = await User.create({ email: 'new@example.com', password: 'password123' });
+      const userId = (user._id as mongoose.Types.ObjectId).toString();
+      await invitationService.inviteToProject(invited._id.toString(), ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+
+      const joined = await invitationService.acceptInvitation(lastToken(), userId);
+
+      expect(joined.role).toBe('editor');
+      expect((await projectService.getProjectById(invited._id.toString(), userId)).name).toBe(
+        'Invited'
+      );
+      await expect(projectService.getProjectById(other._id.toString(), userId)).rejects.toThrow(
+        ERROR_MESSAGES.PROJECT_NOT_FOUND
+      );
+      expect((await Organization.findById(organizationId))?.members).toHaveLength(1);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should add an existing user with the invited role', async () => {
+      const user = await User.create({ email: 'new@example.com', password: 'password123' });
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+
+      const organization = await invitationService.acceptInvitation(
+        lastToken(),
+        (user._id as mongoose.Types.ObjectId).toString()
+      );
+
+      expect(organization.role).toBe('editor');
+      expect(organization.members).toHaveLength(2);
+      expect((await Invitation.findOne())?.status).toBe('accepted');
+    });
+
+    it('should accept each invitation only once', async () => {
+      const user = await User.create({ email: 'new@example.com', password: 'password123' });
+      const userId = (user._id as mongoose.Types.ObjectId).toString();
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+      const token = lastToken();
+      await invitationService.acceptInvitation(token, userId);
+
+      await expect(invitationService.acceptInvitation(token, userId)).rejects.toThrow(
+        ERROR_MESSAGES.INVITATION_NOT_PENDING('accepted')
+      );
+    });
+
+    it('should leave the invitation pending when adding the member fails', async () => {
+      const user = await User.create({ email: 'new@example.com', password: 'password123' });
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+      const updateSpy = jest
+        .spyOn(Organization, 'findOneAndUpdate')
+        .mockRejectedValueOnce(new Error('Write failed') as never);
+
+      await expect(
+        invitationService.acceptInvitation(
+          lastToken(),
+          (user._id as mongoose.Types.ObjectId).toString()
+        )
+      ).rejects.toThrow('Write failed');
+      expect((await Invitation.findOne())?.status).toBe('pending');
+
+      updateSpy.mockRestore();
+    });
+
+    it('should reject users with a different email address', async () => {
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+
+      await expect(invitationService.acceptInvitation(lastToken(), ownerId)).rejects.toThrow(
+        ERROR_MESSAGES.INVITATION_EMAIL_MISMATCH
+      );
+    });
+
+    it('should reject revoked invitations and bad tokens', async () => {
+      const user = await User.create({ email: 'new@example.com', password: 'password123' });
+      const userId = (user._id as mongoose.Types.ObjectId).toString();
+      const invitation = await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+      const token = lastToken();
+      await invitationService.revokeInvitation(organizationId, invitation._id.toString(), ownerId);
+
+      await expect(invitationService.acceptInvitation(token, userId)).rejects.toThrow(
+        ERROR_MESSAGES.INVITATION_NOT_PENDING('revoked')
+      );
+      await expect(invitationService.acceptInvitation(`${token}x`, userId)).rejects.toThrow(
+        ERROR_MESSAGES.INVITATION_TOKEN_INVALID
+      );
+      expect(await invitationService.getInvitations(organizationId, ownerId)).toHaveLength(0);
+    });
+
+    it('should reject expired invitations', async () => {
+      const user = await User.create({ email: 'new@example.com', password: 'password123' });
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'editor',
+      });
+      await Invitation.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(
+        invitationService.acceptInvitation(
+          lastToken(),
+          (user._id as mongoose.Types.ObjectId).toString()
+        )
+      ).rejects.toThrow(ERROR_MESSAGES.INVITATION_TOKEN_INVALID);
+    });
+  });
+
+  describe('signup with an invitation', () => {
+    it('should create the account and join the organization', async () => {
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'viewer',
+      });
+
+      const { user } = await authService.signupUser({
+        email: 'new@example.com',
+        password: 'password123',
+        invitationToken: lastToken(),
+      });
+
+      const organizations = await organizationService.getOrganizations(user._id.toString());
+      expect(organizations.map((o) => o.role)).toEqual(['viewer']);
+    });
+
+    it('should not create the account when the invitation is for another address', async () => {
+      await invitationService.inviteToOrganization(organizationId, ownerId, {
+        email: 'new@example.com',
+        role: 'viewer',
+      });
+
+      await expect(
+        authService.signupUser({
+          email: 'other@example.com',
+          password: 'password123',
+          invitationToken: lastToken(),
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.INVITATION_EMAIL_MISMATCH);
+      expect(await User.countDocuments({ email: 'other@example.com' })).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Mail Service Tests
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import * as mailService from '../../services/mailService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Mail Service', () => {
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    mailService.setMailTransport(null);
+  });
+
+  it('should append messages to the file configured by MAIL_FILE_PATH', async () => {
+    const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'mail-'));
+    const filePath = path.join(directory, 'outbox', 'mail.log');
+    process.env.MAIL_TRANSPORT = 'file';
+    process.env.MAIL_FILE_PATH = filePath;
+    process.env.MAIL_FROM = 'Team <team@example.com>';
+
+    await mailService.sendMail({ to: 'a@example.com', subject: 'First', text: 'Hello' });
+    await mailService.sendMail({ to: 'b@example.com', subject: 'Second', text: 'Hi' });
+
+    const lines = (await fs.readFile(filePath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({
+      from: 'Team <team@example.com>',
+      to: 'a@example.com',
+      subject: 'First',
+      text: 'Hello',
+    });
+    expect(lines[1].subject).toBe('Second');
+
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should send through a custom transport', async () => {
+    const sent: string[] = [];
+    mailService.setMailTransport({ send: async (message) => void sent.push(message.to) });
+
+    await mailService.sendMail({ to: 'c@example.com', subject: 'Hi', text: 'Hi' });
+
+    expect(sent).toEqual(['c@example.com']);
+  });
+
+  it('should reject an unknown MAIL_TRANSPORT', async () => {
+    process.env.MAIL_TRANSPORT = 'pigeon';
+
+    await expect(
+      mailService.sendMail({ to: 'd@example.com', subject: 'Hi', text: 'Hi' })
+    ).rejects.toThrow(ERROR_MESSAGES.MAIL_TRANSPORT_INVALID('pigeon'));
+  });
+
+  it('should build links from APP_URL', () => {
+    process.env.APP_URL = 'https://app.example.com';
+
+    expect(mailService.buildAppLink('/invitations/accept', { token: 'a b' })).toBe(
+      'https://app.example.com/invitations/accept?token=a+b'
+    );
+  });
+});
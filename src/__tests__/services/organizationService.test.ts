@@ -0,0 +1,143 @@
+/**
+ * Organization Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Organization from '../../models/Organization';
+import User from '../../models/User';
+import * as organizationService from '../../services/organizationService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Organization Service', () => {
+  let ownerId: string;
+  let memberId: string;
+  let organizationId: string;
+
+  beforeEach(async () => {
+    await Organization.deleteMany({});
+    await User.deleteMany({});
+
+    const owner = await User.create({ email: 'owner@example.com', password: 'password123' });
+    const member = await User.create({ email: 'member@example.com', password: 'password123' });
+    ownerId = (owner._id as mongoose.Types.ObjectId).toString();
+    memberId = (member._id as mongoose.Types.ObjectId).toString();
+
+    const organization = await organizationService.createOrganization(ownerId, { name: ' Acme ' });
+    organizationId = organization._id.toString();
+  });
+
+  describe('createOrganization', () => {
+    it('should make the creator the owner', async () => {
+      const organization = await Organization.findById(organizationId);
+
+      expect(organization?.name).toBe('Acme');
+      expect(organization?.members).toHaveLength(1);
+      expect(organization?.members[0].role).toBe('owner');
+    });
+  });
+
+  describe('getPersonalOrganization', () => {
+    it('should create the personal organization once', async () => {
+      const first = await organizationService.getPersonalOrganization(memberId);
+      const second = await organizationService.getPersonalOrganization(memberId);
+
+      expect(first._id.toString()).toBe(second._id.toString());
+      expect(first.isPersonal).toBe(true);
+    });
+  });
+
+  describe('addMember', () => {
+    it('should add an existing user by email', async () => {
+      await organizationService.addMember(organizationId, ownerId, {
+        email: 'Member@Example.com',
+        role: 'editor',
+      });
+
+      const organizations = await organizationService.getOrganizations(memberId);
+      expect(organizations).toHaveLength(1);
+      expect(organizations[0].role).toBe('editor');
+    });
+
+    it('should reject users who are already members', async () => {
+      await expect(
+        organizationService.addMember(organizationId, ownerId, {
+          email: 'owner@example.com',
+          role: 'viewer',
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.ORGANIZATION_MEMBER_EXISTS);
+    });
+
+    it('should not let admins grant the owner role', async () => {
+      await organizationService.addMember(organizationId, ownerId, {
+        email: 'member@example.com',
+        role: 'admin',
+      });
+      await User.create({ email: 'third@example.com', password: 'password123' });
+
+      await expect(
+        organizationService.addMember(organizationId, memberId, {
+          email: 'third@example.com',
+          role: 'owner',
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.OWNER_ROLE_CHANGE_DENIED);
+    });
+
+    it('should reject members without manage_members', async () => {
+      await organizationService.addMember(organizationId, ownerId, {
+        email: 'member@example.com',
+        role: 'editor',
+      });
+
+      await expect(
+        organizationService.addMember(organizationId, memberId, {
+          email: 'owner@example.com',
+          role: 'viewer',
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.PERMISSION_DENIED('editor', 'manage_members'));
+    });
+  });
+
+  describe('updateMemberRole and removeMember', () => {
+    beforeEach(async () => {
+      await organizationService.addMember(organizationId, ownerId, {
+        email: 'member@example.com',
+        role: 'viewer',
+      });
+    });
+
+    it('should change a member role', async () => {
+      const organization = await organizationService.updateMemberRole(
+        organizationId,
+        ownerId,
+        memberId,
+        'admin'
+      );
+
+      expect(organization.members.map((m) => m.role)).toEqual(['owner', 'admin']);
+    });
+
+    it('should keep at least one owner', async () => {
+      await expect(
+        organizationService.updateMemberRole(organizationId, ownerId, ownerId, 'admin')
+      ).rejects.toThrow(ERROR_MESSAGES.ORGANIZATION_OWNER_REQUIRED);
+      await expect(
+        organizationService.removeMember(organizationId, ownerId, ownerId)
+      ).rejects.toThrow(ERROR_MESSAGES.ORGANIZATION_OWNER_REQUIRED);
+    });
+
+    it('should let a member leave', async () => {
+      const organization = await organizationService.removeMember(organizationId, memberId, memberId);
+
+      expect(organization.members).toHaveLength(1);
+    });
+
+    it('should hide organizations from non-members', async () => {
+      const outsiderId = new mongoose.Types.ObjectId().toString();
+
+      await expect(
+        organizationService.getOrganizationById(organizationId, outsiderId)
+      ).rejects.toThrow(ERROR_MESSAGES.ORGANIZATION_NOT_FOUND);
+    });
+  });
+});
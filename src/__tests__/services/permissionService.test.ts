@@ -0,0 +1,117 @@
+/**
+ * Permission Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Organization from '../../models/Organization';
+import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
+import * as permissionService from '../../services/permissionService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { ORGANIZATION_ROLES, PERMISSIONS } from '../../constants';
+
+describe('Permission Service', () => {
+  const ownerId = new mongoose.Types.ObjectId().toString();
+  const viewerId = new mongoose.Types.ObjectId().toString();
+  const outsiderId = new mongoose.Types.ObjectId().toString();
+  let organizationId: string;
+  let projectId: string;
+  let legacyProjectId: string;
+  let promptId: string;
+
+  beforeEach(async () => {
+    await Organization.deleteMany({});
+    await Project.deleteMany({});
+    await Prompt.deleteMany({});
+
+    const organization = await Organization.create({
+      name: 'Acme',
+      createdBy: ownerId,
+      members: [
+        { userId: ownerId, role: ORGANIZATION_ROLES.OWNER },
+        { userId: viewerId, role: ORGANIZATION_ROLES.VIEWER },
+      ],
+    });
+    organizationId = (organization._id as mongoose.Types.ObjectId).toString();
+
+    const project = await Project.create({ userId: ownerId, organizationId, name: 'Team Project' });
+    projectId = (project._id as mongoose.Types.ObjectId).toString();
+
+    // Created before organizations existed
+    const legacyProject = await Project.create({ userId: ownerId, name: 'Legacy Project' });
+    legacyProjectId = (legacyProject._id as mongoose.Types.ObjectId).toString();
+
+    const prompt = await Prompt.create({ userId: ownerId, projectId, name: 'Greeting' });
+    promptId = (prompt._id as mongoose.Types.ObjectId).toString();
+  });
+
+  describe('hasPermission', () => {
+    it('should map roles to permissions', () => {
+      expect(permissionService.hasPermission('viewer', PERMISSIONS.READ)).toBe(true);
+      expect(permissionService.hasPermission('viewer', PERMISSIONS.EDIT)).toBe(false);
+      expect(permissionService.hasPermission('editor', PERMISSIONS.PUBLISH)).toBe(true);
+      expect(permissionService.hasPermission('editor', PERMISSIONS.MANAGE_PROJECT)).toBe(false);
+      expect(permissionService.hasPermission('admin', PERMISSIONS.MANAGE_MEMBERS)).toBe(true);
+      expect(permissionService.hasPermission('admin', PERMISSIONS.MANAGE_ORGANIZATION)).toBe(false);
+      expect(permissionService.hasPermission('owner', PERMISSIONS.MANAGE_ORGANIZATION)).toBe(true);
+    });
+  });
+
+  describe('authorizeProject', () => {
+    it('should allow members with the permission', async () => {
+      const project = await permissionService.authorizeProject(projectId, viewerId, PERMISSIONS.READ);
+
+      expect(project.name).toBe('Team Project');
+    });
+
+    it('should reject members without the permission', async () => {
+      await expect(
+        permissionService.authorizeProject(projectId, viewerId, PERMISSIONS.EDIT)
+      ).rejects.toThrow(ERROR_MESSAGES.PERMISSION_DENIED('viewer', PERMISSIONS.EDIT));
+    });
+
+    it('should report projects of other organizations as not found', async () => {
+      await expect(
+        permissionService.authorizeProject(projectId, outsiderId, PERMISSIONS.READ)
+      ).rejects.toThrow(ERROR_MESSAGES.PROJECT_NOT_FOUND);
+    });
+
+    it('should give the creator of a legacy project the owner role', async () => {
+      await expect(
+        permissionService.authorizeProject(legacyProjectId, ownerId, PERMISSIONS.MANAGE_PROJECT)
+      ).resolves.toBeDefined();
+      await expect(
+        permissionService.authorizeProject(legacyProjectId, viewerId, PERMISSIONS.READ)
+      ).rejects.toThrow(ERROR_MESSAGES.PROJECT_NOT_FOUND);
+    });
+  });
+
+  describe('authorizePrompt', () => {
+    it('should check the role in the prompt project', async () => {
+      await expect(
+        permissionService.authorizePrompt(promptId, viewerId, PERMISSIONS.READ)
+      ).resolves.toBeDefined();
+      await expect(
+        permissionService.authorizePrompt(promptId, viewerId, PERMISSIONS.PUBLISH)
+      ).rejects.toThrow(ERROR_MESSAGES.PERMISSION_DENIED('viewer', PERMISSIONS.PUBLISH));
+      await expect(
+        permissionService.authorizePrompt(promptId, outsiderId, PERMISSIONS.READ)
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+    });
+  });
+
+  describe('getReadableProjectsFilter', () => {
+    it('should match organization projects and legacy projects of the user', async () => {
+      const ownerProjects = await Project.find(
+        await permissionService.getReadableProjectsFilter(ownerId)
+      );
+      const viewerProjects = await Project.find(
+        await permissionService.getReadableProjectsFilter(viewerId)
+      );
+
+      expect(ownerProjects).toHaveLength(2);
+      expect(viewerProjects.map((p) => p.name)).toEqual(['Team Project']);
+    });
+  });
+});
@@ -39,6 +39,17 @@ describe('Project Service', () => {
       expect(project.isActive).toBe(true);
     });
 
+    it('should make versions immutable in new projects unless turned off', async () => {
+      const project = await projectService.createProject(userId, { name: 'Locked' });
+      const editable = await projectService.createProject(userId, {
+        name: 'Editable',
+        immutableVersions: false,
+      });
+
+      expect(project.immutableVersions).toBe(true);
+      expect(editable.immutableVersions).toBe(false);
+    });
+
     it('should trim project name', async () => {
       const projectData = {
         name: '  Test Project  ',
@@ -60,27 +71,29 @@ describe('Project Service', () => {
     });
 
     it('should return only active projects by default', async () => {
-      const projects = await projectService.getProjects(userId);
+      const { items: projects } = await projectService.getProjects(userId);
 
       expect(projects).toHaveLength(2);
       expect(projects.every((p) => p.isActive)).toBe(true);
     });
 
     it('should return all projects when includeInactive is true', async () => {
-      const projects = await projectService.getProjects(userId, true);
+      const { items: projects } = await projectService.getProjects(userId, {
+        includeInactive: true,
+      });
 
       expect(projects).toHaveLength(3);
     });
 
     it('should return empty array for user with no projects', async () => {
       const otherUserId = new mongoose.Types.ObjectId().toString();
-      const projects = await projectService.getProjects(otherUserId);
+      const { items: projects } = await projectService.getProjects(otherUserId);
 
       expect(projects).toHaveLength(0);
     });
 
     it('should sort projects by createdAt descending', async () => {
-      const projects = await projectService.getProjects(userId);
+      const { items: projects } = await projectService.getProjects(userId);
 
       for (let i = 0; i < projects.length - 1; i++) {
         expect(projects[i].createdAt.getTime()).toBeGreaterThanOrEqual(
@@ -274,5 +287,94 @@ describe('Project Service', () => {
       );
     });
   });
-});
 
+  describe('environments', () => {
+    let projectId: string;
+
+    beforeEach(async () => {
+      const project = await Project.create({ userId, name: 'Test Project' });
+      projectId = (project._id as mongoose.Types.ObjectId).toString();
+    });
+
+    it('should start with the default environments', async () => {
+      const environments = await projectService.getEnvironments(projectId, userId);
+
+      expect(environments.map((env) => env.name)).toEqual(['development', 'staging', 'production']);
+    });
+
+    it('should add a normalized environment', async () => {
+      const environments = await projectService.addEnvironment(projectId, userId, {
+        name: ' QA ',
+        description: 'Quality assurance',
+      });
+
+      expect(environments.map((env) => env.name)).toContain('qa');
+    });
+
+    it('should throw error for duplicate environment', async () => {
+      await expect(
+        projectService.addEnvironment(projectId, userId, { name: 'staging' })
+      ).rejects.toThrow(ERROR_MESSAGES.ENVIRONMENT_ALREADY_EXISTS('staging'));
+    });
+
+    it('should remove an environment', async () => {
+      const environments = await projectService.removeEnvironment(projectId, userId, 'staging');
+
+      expect(environments.map((env) => env.name)).not.toContain('staging');
+    });
+
+    it('should refuse to remove production', async () => {
+      await expect(
+        projectService.removeEnvironment(projectId, userId, 'production')
+      ).rejects.toThrow(ERROR_MESSAGES.PRODUCTION_ENVIRONMENT_REQUIRED);
+    });
+  });
+
+  describe('slugs', () => {
+    it('should generate a unique slug from the name', async () => {
+      const first = await projectService.createProject(userId, { name: 'Customer Support' });
+      const second = await projectService.createProject(userId, { name: 'Customer  Support!' });
+
+      expect(first.slug).toBe('customer-support');
+      expect(second.slug).toBe('customer-support-2');
+    });
+
+    it('should keep the slug when the project is renamed', async () => {
+      const project = await projectService.createProject(userId, { name: 'Support' });
+
+      const updated = await projectService.updateProject(project._id.toString(), userId, {
+        name: 'Help Desk',
+      });
+
+      expect(updated.slug).toBe('support');
+    });
+
+    it('should allow editing the slug', async () => {
+      const project = await projectService.createProject(userId, { name: 'Support' });
+
+      const updated = await projectService.updateProject(project._id.toString(), userId, {
+        slug: 'help-desk',
+      });
+
+      expect(updated.slug).toBe('help-desk');
+    });
+
+    it('should reject a slug used by another project', async () => {
+      await projectService.createProject(userId, { name: 'Support' });
+
+      await expect(
+        projectService.createProject(userId, { name: 'Other', slug: 'support' })
+      ).rejects.toThrow(ERROR_MESSAGES.PROJECT_SLUG_TAKEN('support'));
+    });
+
+    it('should give projects created before slugs existed a slug on update', async () => {
+      const legacy = await Project.create({ userId, name: 'Legacy Project' });
+
+      const updated = await projectService.updateProject(legacy._id.toString(), userId, {
+        isActive: true,
+      });
+
+      expect(updated.slug).toBe('legacy-project');
+    });
+  });
+});
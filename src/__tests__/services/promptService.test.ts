@@ -4,6 +4,7 @@
 
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import mongoose from 'mongoose';
+import Organization from '../../models/Organization';
 import Prompt from '../../models/Prompt';
 import Project from '../../models/Project';
 import * as promptService from '../../services/promptService';
@@ -93,7 +94,7 @@ describe('Prompt Service', () => {
     });
 
     it('should return only active prompts', async () => {
-      const prompts = await promptService.getPromptsByProject(userId, projectId);
+      const { items: prompts } = await promptService.getPromptsByProject(userId, projectId);
 
       expect(prompts).toHaveLength(2);
       expect(prompts.every((p) => p.isActive)).toBe(true);
@@ -107,7 +108,7 @@ describe('Prompt Service', () => {
       });
       const otherProjectIdStr = (otherProject._id as mongoose.Types.ObjectId).toString();
 
-      const prompts = await promptService.getPromptsByProject(userId, otherProjectIdStr);
+      const { items: prompts } = await promptService.getPromptsByProject(userId, otherProjectIdStr);
 
       expect(prompts).toHaveLength(0);
     });
@@ -259,6 +260,30 @@ describe('Prompt Service', () => {
       ).rejects.toThrow(ERROR_MESSAGES.PROMPT_NOT_FOUND);
     });
 
+    it('should only let members who manage the project change the access mode', async () => {
+      const editorId = new mongoose.Types.ObjectId().toString();
+      const organization = await Organization.create({
+        name: 'Acme',
+        createdBy: userId,
+        members: [
+          { userId, role: 'owner' },
+          { userId: editorId, role: 'editor' },
+        ],
+      });
+      await Project.updateOne({ _id: projectId }, { organizationId: organization._id });
+
+      await expect(
+        promptService.updatePrompt(promptId, editorId, { accessMode: 'owner' })
+      ).rejects.toMatchObject({
+        statusCode: 403,
+        message: ERROR_MESSAGES.PERMISSION_DENIED('editor', 'manage_project'),
+      });
+      expect((await Prompt.findById(promptId))?.accessMode).toBe('public');
+
+      const prompt = await promptService.updatePrompt(promptId, editorId, { name: 'Renamed' });
+      expect(prompt.name).toBe('Renamed');
+    });
+
     it('should throw error when findOneAndUpdate returns null', async () => {
       // Mock findOneAndUpdate to return a query with populate that resolves to null
       const mockPopulate = jest.fn().mockImplementation(() => Promise.resolve(null));
@@ -310,5 +335,42 @@ describe('Prompt Service', () => {
       );
     });
   });
-});
 
+  describe('slugs', () => {
+    it('should generate slugs that are unique within the project', async () => {
+      const otherProject = await Project.create({ userId, name: 'Other Project' });
+
+      const first = await promptService.createPrompt(userId, projectId, { name: 'Welcome Email' });
+      const second = await promptService.createPrompt(userId, projectId, { name: 'Welcome email' });
+      const elsewhere = await promptService.createPrompt(
+        userId,
+        (otherProject._id as mongoose.Types.ObjectId).toString(),
+        { name: 'Welcome Email' }
+      );
+
+      expect(first.slug).toBe('welcome-email');
+      expect(second.slug).toBe('welcome-email-2');
+      expect(elsewhere.slug).toBe('welcome-email');
+    });
+
+    it('should allow editing the slug', async () => {
+      const prompt = await promptService.createPrompt(userId, projectId, { name: 'Welcome Email' });
+
+      const updated = await promptService.updatePrompt(prompt._id.toString(), userId, {
+        slug: 'onboarding',
+      });
+
+      expect(updated.slug).toBe('onboarding');
+      expect(updated.name).toBe('Welcome Email');
+    });
+
+    it('should reject a slug used by another prompt in the project', async () => {
+      await promptService.createPrompt(userId, projectId, { name: 'Welcome Email' });
+      const prompt = await promptService.createPrompt(userId, projectId, { name: 'Reminder' });
+
+      await expect(
+        promptService.updatePrompt(prompt._id.toString(), userId, { slug: 'welcome-email' })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_SLUG_TAKEN('welcome-email'));
+    });
+  });
+});
@@ -7,7 +7,12 @@ import mongoose from 'mongoose';
 import PromptVersion from '../../models/PromptVersion';
 import Prompt from '../../models/Prompt';
 import Project from '../../models/Project';
+import Experiment from '../../models/Experiment';
+import Deployment from '../../models/Deployment';
+import Organization from '../../models/Organization';
 import * as promptVersionService from '../../services/promptVersionService';
+import * as deploymentService from '../../services/deploymentService';
+import * as experimentService from '../../services/experimentService';
 import { ERROR_MESSAGES } from '../../constants/errorMessages';
 
 describe('Prompt Version Service', () => {
@@ -96,6 +101,58 @@ describe('Prompt Version Service', () => {
       expect(version2.activePrompt).toBe(true);
     });
 
+    it('should not reuse the labels of purged versions', async () => {
+      await promptVersionService.createPromptVersion(userId, promptId, { promptText: 'Version 1' });
+      const version2 = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Version 2',
+      });
+      await PromptVersion.deleteOne({ _id: version2._id });
+
+      const version3 = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Version 3',
+      });
+
+      expect(version3.version).toBe('v3');
+      expect(version3.versionName).toBe('Version 3');
+    });
+
+    it('should continue after the highest label of versions saved without the counter', async () => {
+      await PromptVersion.create({
+        userId,
+        promptId,
+        promptText: 'Older version',
+        version: 'v7',
+        versionName: 'Version 7',
+      });
+
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Next version',
+      });
+
+      expect(version.version).toBe('v8');
+      expect((await Prompt.findById(promptId))?.versionCounter).toBe(8);
+    });
+
+    it('should extract template variables from prompt text', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello {{customer_name}}, you have {{count}} items',
+        variables: [{ name: 'count', type: 'number', defaultValue: 1 }],
+      });
+
+      expect(version.variables).toHaveLength(2);
+      expect(version.variables[0]).toMatchObject({ name: 'customer_name', type: 'string' });
+      expect(version.variables[1]).toMatchObject({ name: 'count', type: 'number', defaultValue: 1 });
+    });
+
+    it('should reject variable definitions that are not in the text', async () => {
+      await expect(
+        promptVersionService.createPromptVersion(userId, promptId, {
+          promptText: 'Hello {{customer_name}}',
+          variables: [{ name: 'unused' }],
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.VARIABLE_NOT_IN_TEMPLATE('unused'));
+    });
+
     it('should throw error if prompt does not exist', async () => {
       const fakePromptId = new mongoose.Types.ObjectId().toString();
       const versionData = {
@@ -107,6 +164,26 @@ describe('Prompt Version Service', () => {
       ).rejects.toThrow(ERROR_MESSAGES.PROMPT_NOT_FOUND);
     });
 
+    it('should require the edit permission on the prompt project', async () => {
+      const viewerId = new mongoose.Types.ObjectId().toString();
+      const organization = await Organization.create({
+        name: 'Acme',
+        createdBy: userId,
+        members: [
+          { userId, role: 'owner' },
+          { userId: viewerId, role: 'viewer' },
+        ],
+      });
+      await Project.updateOne({ _id: projectId }, { organizationId: organization._id });
+
+      await expect(
+        promptVersionService.createPromptVersion(viewerId, promptId, { promptText: 'Test text' })
+      ).rejects.toThrow(ERROR_MESSAGES.PERMISSION_DENIED('viewer', 'edit'));
+      await expect(
+        promptVersionService.getPromptVersionsByPrompt(viewerId, promptId)
+      ).resolves.toBeDefined();
+    });
+
     it('should throw error if prompt is inactive', async () => {
       // Create an inactive prompt
       const inactivePrompt = await Prompt.create({
@@ -161,7 +238,10 @@ describe('Prompt Version Service', () => {
     });
 
     it('should return only active versions', async () => {
-      const versions = await promptVersionService.getPromptVersionsByPrompt(userId, promptId);
+      const { items: versions } = await promptVersionService.getPromptVersionsByPrompt(
+        userId,
+        promptId
+      );
 
       expect(versions).toHaveLength(2);
       expect(versions.every((v) => v.isActive)).toBe(true);
@@ -225,6 +305,145 @@ describe('Prompt Version Service', () => {
     });
   });
 
+  describe('getActivePromptVersions', () => {
+    const allowAll = async () => undefined;
+    let activeVersionId: string;
+
+    beforeEach(async () => {
+      await Experiment.deleteMany({});
+      await Deployment.deleteMany({});
+      await Project.updateOne({ _id: projectId }, { slug: 'test-project' });
+      await Prompt.updateOne({ _id: promptId }, { slug: 'test-prompt' });
+
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Active Version',
+        activePrompt: true,
+      });
+      activeVersionId = version._id.toString();
+    });
+
+    it('should return versions for ids and slug references in request order', async () => {
+      const items = await promptVersionService.getActivePromptVersions(
+        ['test-project/test-prompt', promptId],
+        allowAll
+      );
+
+      expect(items.map((item) => item.reference)).toEqual(['test-project/test-prompt', promptId]);
+      items.forEach((item) => {
+        expect(item.promptId).toBe(promptId);
+        expect(item.version?.promptText).toBe('Active Version');
+        expect(item.error).toBeUndefined();
+      });
+    });
+
+    it('should report per-item errors without failing the batch', async () => {
+      const missingId = new mongoose.Types.ObjectId().toString();
+      const deleted = await Prompt.create({ userId, projectId, name: 'Deleted', isActive: false });
+      const empty = await Prompt.create({ userId, projectId, name: 'Empty' });
+
+      const items = await promptVersionService.getActivePromptVersions(
+        [missingId, deleted._id.toString(), empty._id.toString(), promptId],
+        allowAll
+      );
+
+      expect(items[0].error).toEqual({ statusCode: 404, message: ERROR_MESSAGES.PROMPT_NOT_FOUND });
+      expect(items[0].promptId).toBeNull();
+      expect(items[1].error?.message).toBe(ERROR_MESSAGES.PROMPT_DELETED);
+      expect(items[2].error?.message).toBe(ERROR_MESSAGES.NO_ACTIVE_VERSION_FOUND);
+      expect(items[3].version?._id.toString()).toBe(activeVersionId);
+    });
+
+    it('should report prompts rejected by the authorize callback', async () => {
+      const denied = await Prompt.create({ userId, projectId, name: 'Denied' });
+      const authorize = async (prompt: { _id: unknown }) => {
+        if (String(prompt._id) === denied._id.toString()) {
+          const error: Error & { statusCode?: number } = new Error(ERROR_MESSAGES.PROMPT_ACCESS_DENIED);
+          error.statusCode = 403;
+          throw error;
+        }
+      };
+
+      const items = await promptVersionService.getActivePromptVersions(
+        [denied._id.toString(), promptId],
+        authorize
+      );
+
+      expect(items[0].error).toEqual({ statusCode: 403, message: ERROR_MESSAGES.PROMPT_ACCESS_DENIED });
+      expect(items[1].version).toBeDefined();
+    });
+
+    it('should serve the version deployed to a non-production environment', async () => {
+      const staged = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Staged Version',
+      });
+      await deploymentService.deployVersion(promptId, 'staging', staged._id.toString(), userId);
+
+      const [staging] = await promptVersionService.getActivePromptVersions([promptId], allowAll, 'staging');
+      const [qa] = await promptVersionService.getActivePromptVersions([promptId], allowAll, 'qa');
+
+      expect(staging.version?.promptText).toBe('Staged Version');
+      expect(qa.error?.message).toBe(ERROR_MESSAGES.ENVIRONMENT_NOT_FOUND('qa'));
+    });
+
+    it('should include the assignment of a running experiment', async () => {
+      const variant = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Variant Version',
+      });
+      const experiment = await experimentService.createExperiment(promptId, userId, {
+        name: 'Only variant',
+        variants: [{ versionId: variant._id.toString(), weight: 100 }],
+      });
+      await experimentService.startExperiment(experiment._id.toString(), userId);
+
+      const [item] = await promptVersionService.getActivePromptVersions(
+        [promptId],
+        allowAll,
+        'production',
+        'user-42'
+      );
+
+      expect(item.version?.promptText).toBe('Variant Version');
+      expect(item.version?.experiment?.sticky).toBe(true);
+    });
+  });
+
+  describe('renderActivePromptVersion', () => {
+    beforeEach(async () => {
+      await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Write a {{tone}} reply to {{customer_name}}',
+        variables: [{ name: 'tone', type: 'enum', enumValues: ['formal', 'casual'], defaultValue: 'formal' }],
+        activePrompt: true,
+      });
+    });
+
+    it('should render the active version with supplied values', async () => {
+      const rendered = await promptVersionService.renderActivePromptVersion(promptId, {
+        customer_name: 'Ada',
+      });
+
+      expect(rendered.renderedText).toBe('Write a formal reply to Ada');
+      expect(rendered.version).toBe('v1');
+      expect(rendered.variables).toEqual({ tone: 'formal', customer_name: 'Ada' });
+    });
+
+    it('should reject missing variables', async () => {
+      await expect(promptVersionService.renderActivePromptVersion(promptId, {})).rejects.toThrow(
+        ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID
+      );
+    });
+
+    it('should render versions saved before variables were extracted', async () => {
+      await PromptVersion.updateMany({ promptId }, { $set: { variables: [] } });
+
+      const rendered = await promptVersionService.renderActivePromptVersion(promptId, {
+        tone: 'casual',
+        customer_name: 'Ada',
+      });
+
+      expect(rendered.renderedText).toBe('Write a casual reply to Ada');
+    });
+  });
+
   describe('getPromptVersionById', () => {
     let versionId: string;
 
@@ -302,6 +521,15 @@ describe('Prompt Version Service', () => {
       expect(version.promptText).toBe('Updated text');
     });
 
+    it('should re-extract variables when prompt text changes', async () => {
+      const version = await promptVersionService.updatePromptVersion(versionId, userId, {
+        promptText: 'Updated for {{customer_name}}',
+      });
+
+      expect(version.variables).toHaveLength(1);
+      expect(version.variables[0]).toMatchObject({ name: 'customer_name', type: 'string' });
+    });
+
     it('should update activePrompt and deactivate others', async () => {
       // Create another version
       const version2 = await PromptVersion.create({
@@ -330,6 +558,15 @@ describe('Prompt Version Service', () => {
       expect(v2?.activePrompt).toBe(false);
     });
 
+    it('should not activate a deleted version', async () => {
+      await promptVersionService.deletePromptVersion(versionId, userId);
+
+      await expect(
+        promptVersionService.updatePromptVersion(versionId, userId, { activePrompt: true })
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.PROMPT_VERSION_DELETED, statusCode: 404 });
+      expect((await PromptVersion.findById(versionId))?.activePrompt).toBe(false);
+    });
+
     it('should throw error if no fields to update', async () => {
       const updateData = {};
 
@@ -360,6 +597,20 @@ describe('Prompt Version Service', () => {
       expect(version.isActive).toBe(false);
     });
 
+    it('should move the version to the trash when isActive is cleared', async () => {
+      await promptVersionService.updatePromptVersion(versionId, userId, { activePrompt: true });
+      await deploymentService.deployVersion(promptId, 'staging', versionId, userId);
+
+      const version = await promptVersionService.updatePromptVersion(versionId, userId, {
+        isActive: false,
+      });
+
+      expect(version.activePrompt).toBe(false);
+      expect(version.deletedAt).toBeInstanceOf(Date);
+      expect(version.deletedBy?.toString()).toBe(userId);
+      expect(await Deployment.countDocuments({ promptId })).toBe(0);
+    });
+
     it('should throw error when findOneAndUpdate returns null', async () => {
       // Mock findOneAndUpdate to return a query with populate that resolves to null
       const mockPopulate = jest.fn().mockImplementation(() => Promise.resolve(null));
@@ -376,6 +627,389 @@ describe('Prompt Version Service', () => {
     });
   });
 
+  describe('immutable versions', () => {
+    let versionId: string;
+
+    beforeEach(async () => {
+      await Project.updateOne({ _id: projectId }, { immutableVersions: true });
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello {{name}}',
+        variables: [{ name: 'name', defaultValue: 'there' }],
+      });
+      versionId = version._id.toString();
+    });
+
+    it('should reject text and variable changes but allow flag changes', async () => {
+      await expect(
+        promptVersionService.updatePromptVersion(versionId, userId, { promptText: 'Hi {{name}}' })
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.PROMPT_VERSION_IMMUTABLE, statusCode: 409 });
+      await expect(
+        promptVersionService.updatePromptVersion(versionId, userId, { variables: [] })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_IMMUTABLE);
+
+      const version = await promptVersionService.updatePromptVersion(versionId, userId, {
+        activePrompt: true,
+      });
+
+      expect(version.activePrompt).toBe(true);
+      expect(version.promptText).toBe('Hello {{name}}');
+    });
+
+    it('should create the next version from a copy and link it to its parent', async () => {
+      const version = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        versionId,
+        { promptText: 'Hi {{name}}, welcome', activePrompt: true }
+      );
+
+      expect(version.version).toBe('v2');
+      expect(version.parentVersionId.toString()).toBe(versionId);
+      expect(version.activePrompt).toBe(true);
+      expect(version.promptText).toBe('Hi {{name}}, welcome');
+      expect(version.variables[0]).toMatchObject({ name: 'name', defaultValue: 'there' });
+
+      const parent = await PromptVersion.findById(versionId);
+      expect(parent?.promptText).toBe('Hello {{name}}');
+    });
+
+    it('should copy the version unchanged when no changes are given', async () => {
+      const version = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        versionId,
+        {}
+      );
+
+      expect(version.promptText).toBe('Hello {{name}}');
+      expect(version.activePrompt).toBe(false);
+    });
+
+    it('should not copy deleted versions', async () => {
+      await promptVersionService.deletePromptVersion(versionId, userId);
+
+      await expect(
+        promptVersionService.createPromptVersionFromVersion(userId, versionId, {})
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    });
+  });
+
+  describe('chat versions', () => {
+    const messages = [
+      { role: 'system' as const, content: 'Answer in {{language}}.' },
+      { role: 'user' as const, content: ' {{question}} ' },
+    ];
+
+    it('should store the messages and extract variables from all of them', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        format: 'chat',
+        messages,
+      });
+
+      expect(version.format).toBe('chat');
+      expect(version.promptText).toBeUndefined();
+      expect(version.toObject().messages).toEqual([
+        { role: 'system', content: 'Answer in {{language}}.' },
+        { role: 'user', content: '{{question}}' },
+      ]);
+      expect(version.variables.map((variable) => variable.name)).toEqual([
+        'language',
+        'question',
+      ]);
+    });
+
+    it('should require messages, and only messages, for chat versions', async () => {
+      await expect(
+        promptVersionService.createPromptVersion(userId, promptId, { format: 'chat' })
+      ).rejects.toThrow(ERROR_MESSAGES.CHAT_MESSAGES_REQUIRED);
+      await expect(
+        promptVersionService.createPromptVersion(userId, promptId, {
+          format: 'chat',
+          promptText: 'Hello',
+          messages,
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_TEXT_NOT_ALLOWED);
+      await expect(
+        promptVersionService.createPromptVersion(userId, promptId, { promptText: 'Hi', messages })
+      ).rejects.toThrow(ERROR_MESSAGES.CHAT_MESSAGES_NOT_ALLOWED);
+    });
+
+    it('should render the active chat version message by message', async () => {
+      await promptVersionService.createPromptVersion(userId, promptId, {
+        format: 'chat',
+        messages,
+        activePrompt: true,
+      });
+
+      const active = await promptVersionService.getActivePromptVersion(promptId);
+      const rendered = await promptVersionService.renderActivePromptVersion(promptId, {
+        language: 'French',
+        question: 'Why?',
+      });
+
+      expect(active.messages).toHaveLength(2);
+      expect(rendered.format).toBe('chat');
+      expect(rendered.renderedText).toBeUndefined();
+      expect(rendered.messages).toEqual([
+        { role: 'system', content: 'Answer in French.' },
+        { role: 'user', content: 'Why?' },
+      ]);
+    });
+
+    it('should update the messages but never the format of a saved version', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        format: 'chat',
+        messages,
+      });
+      const versionId = version._id.toString();
+
+      const updated = await promptVersionService.updatePromptVersion(versionId, userId, {
+        messages: [{ role: 'user', content: 'Hi {{name}}' }],
+      });
+
+      expect(updated.toObject().messages).toEqual([{ role: 'user', content: 'Hi {{name}}' }]);
+      expect(updated.variables.map((variable) => variable.name)).toEqual(['name']);
+      await expect(
+        promptVersionService.updatePromptVersion(versionId, userId, {
+          format: 'text',
+          promptText: 'Hi',
+        })
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.PROMPT_FORMAT_FIXED, statusCode: 409 });
+    });
+
+    it('should create a chat version from a text version when messages are given', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Answer {{question}}',
+      });
+
+      await expect(
+        promptVersionService.createPromptVersionFromVersion(userId, version._id.toString(), {
+          format: 'chat',
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.CHAT_MESSAGES_REQUIRED);
+
+      const chat = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        version._id.toString(),
+        { format: 'chat', messages: [{ role: 'user', content: 'Answer {{question}}' }] }
+      );
+
+      expect(chat.format).toBe('chat');
+      expect(chat.parentVersionId?.toString()).toBe(version._id.toString());
+    });
+  });
+
+  describe('model configuration', () => {
+    const modelConfig = {
+      provider: 'openai' as const,
+      model: 'gpt-4o',
+      temperature: 0.2,
+      stopSequences: ['END'],
+    };
+
+    it('should store the model configuration and serve it with the active version', async () => {
+      await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello {{name}}',
+        modelConfig,
+        activePrompt: true,
+      });
+
+      const active = await promptVersionService.getActivePromptVersion(promptId);
+      const rendered = await promptVersionService.renderActivePromptVersion(promptId, {
+        name: 'Ada',
+      });
+
+      expect(active.toObject().modelConfig).toEqual(modelConfig);
+      expect(rendered.modelConfig).toMatchObject({ model: 'gpt-4o', temperature: 0.2 });
+    });
+
+    it('should default to no model configuration', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello',
+      });
+
+      expect(version.modelConfig).toBeNull();
+    });
+
+    it('should copy the model configuration into derived versions and diff it', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello',
+        modelConfig,
+      });
+      const copy = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        version._id.toString(),
+        {}
+      );
+      await promptVersionService.createPromptVersionFromVersion(userId, copy._id.toString(), {
+        modelConfig: { ...modelConfig, temperature: 0.7, maxTokens: 256 },
+      });
+
+      const unchanged = await promptVersionService.diffPromptVersions(userId, promptId, 'v1', 'v2');
+      const changed = await promptVersionService.diffPromptVersions(userId, promptId, 'v2', 'v3');
+
+      expect(unchanged.modelConfigChanges).toEqual([]);
+      expect(changed.hunks).toHaveLength(0);
+      expect(changed.modelConfigChanges).toEqual([
+        { field: 'maxTokens', before: null, after: 256 },
+        { field: 'temperature', before: 0.2, after: 0.7 },
+      ]);
+    });
+
+    it('should not change the model configuration of immutable versions', async () => {
+      await Project.updateOne({ _id: projectId }, { immutableVersions: true });
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello',
+      });
+
+      await expect(
+        promptVersionService.updatePromptVersion(version._id.toString(), userId, { modelConfig })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_IMMUTABLE);
+    });
+  });
+
+  describe('output schema', () => {
+    const outputSchema = {
+      type: 'object',
+      properties: { answer: { type: 'string' } },
+      required: ['answer'],
+    };
+
+    it('should store the output schema and copy it into derived versions', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Answer in JSON',
+        outputSchema,
+      });
+      const copy = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        version._id.toString(),
+        {}
+      );
+
+      expect(version.outputSchema).toEqual(outputSchema);
+      expect(copy.outputSchema).toEqual(outputSchema);
+    });
+
+    it('should validate the JSON extracted from a model output', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Answer in JSON',
+        outputSchema,
+      });
+      const versionId = version._id.toString();
+
+      const valid = await promptVersionService.validatePromptVersionOutput(
+        versionId,
+        userId,
+        'Sure!\n```json\n{"answer": "42"}\n```'
+      );
+      const invalid = await promptVersionService.validatePromptVersionOutput(
+        versionId,
+        userId,
+        '{"answer": 42}'
+      );
+      const missing = await promptVersionService.validatePromptVersionOutput(
+        versionId,
+        userId,
+        'The answer is 42.'
+      );
+
+      expect(valid).toMatchObject({ valid: true, output: { answer: '42' }, errors: [] });
+      expect(invalid.valid).toBe(false);
+      expect(invalid.errors).toEqual([
+        {
+          path: '/answer',
+          keyword: 'type',
+          message: ERROR_MESSAGES.OUTPUT_TYPE_MISMATCH(['string']),
+        },
+      ]);
+      expect(missing.errors[0].message).toBe(ERROR_MESSAGES.OUTPUT_JSON_NOT_FOUND);
+    });
+
+    it('should refuse to validate outputs of versions without an output schema', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello',
+      });
+
+      await expect(
+        promptVersionService.validatePromptVersionOutput(version._id.toString(), userId, '{}')
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.OUTPUT_SCHEMA_MISSING, statusCode: 409 });
+    });
+
+    it('should not change the output schema of immutable versions', async () => {
+      await Project.updateOne({ _id: projectId }, { immutableVersions: true });
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello',
+      });
+
+      await expect(
+        promptVersionService.updatePromptVersion(version._id.toString(), userId, { outputSchema })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_IMMUTABLE);
+    });
+  });
+
+  describe('tools', () => {
+    const lookupOrder = {
+      name: 'lookup_order',
+      description: 'Find an order by its number',
+      parameters: { type: 'object', properties: { orderId: { type: 'string' } } },
+    };
+
+    it('should serve the tools with the active version and the rendered prompt', async () => {
+      await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Help with order {{orderId}}',
+        tools: [lookupOrder],
+        activePrompt: true,
+      });
+
+      const active = await promptVersionService.getActivePromptVersion(promptId);
+      const rendered = await promptVersionService.renderActivePromptVersion(promptId, {
+        orderId: '42',
+      });
+
+      expect(active.toObject().tools).toEqual([lookupOrder]);
+      expect(rendered.tools.map((tool) => tool.name)).toEqual(['lookup_order']);
+    });
+
+    it('should compare tools by name in diffs', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Help',
+        tools: [lookupOrder],
+      });
+      await promptVersionService.createPromptVersionFromVersion(userId, version._id.toString(), {
+        tools: [
+          { ...lookupOrder, description: 'Find an order' },
+          { name: 'cancel_order' },
+        ],
+      });
+
+      const diff = await promptVersionService.diffPromptVersions(userId, promptId, 'v1', 'v2');
+
+      expect(diff.toolChanges).toEqual([
+        {
+          field: 'cancel_order',
+          before: null,
+          after: { parameters: { type: 'object', properties: {} } },
+        },
+        {
+          field: 'lookup_order.description',
+          before: 'Find an order by its number',
+          after: 'Find an order',
+        },
+      ]);
+    });
+
+    it('should not change the tools of immutable versions', async () => {
+      await Project.updateOne({ _id: projectId }, { immutableVersions: true });
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hello',
+      });
+
+      await expect(
+        promptVersionService.updatePromptVersion(version._id.toString(), userId, {
+          tools: [lookupOrder],
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_IMMUTABLE);
+    });
+  });
+
   describe('deletePromptVersion', () => {
     let versionId: string;
 
@@ -398,6 +1032,16 @@ describe('Prompt Version Service', () => {
       expect(version.isActive).toBe(false);
     });
 
+    it('should clear the active flag and remove the deployments of the version', async () => {
+      await deploymentService.deployVersion(promptId, 'staging', versionId, userId);
+
+      const version = await promptVersionService.deletePromptVersion(versionId, userId);
+
+      expect(version.activePrompt).toBe(false);
+      expect(version.deletedAt).toBeInstanceOf(Date);
+      expect(await Deployment.countDocuments({ versionId })).toBe(0);
+    });
+
     it('should throw error for non-existent version', async () => {
       const fakeId = new mongoose.Types.ObjectId().toString();
 
@@ -406,5 +1050,40 @@ describe('Prompt Version Service', () => {
       );
     });
   });
-});
 
+  describe('diffPromptVersions', () => {
+    beforeEach(async () => {
+      await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'You are a helpful assistant.\nBe brief.',
+      });
+      await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'You are a friendly assistant.\nBe brief.',
+      });
+    });
+
+    it('should diff two versions by label', async () => {
+      const diff = await promptVersionService.diffPromptVersions(userId, promptId, 'v1', 'v2');
+
+      expect(diff.from.version).toBe('v1');
+      expect(diff.to.version).toBe('v2');
+      expect(diff.hunks).toHaveLength(1);
+      expect(diff.stats.linesAdded).toBe(1);
+      expect(diff.stats.linesRemoved).toBe(1);
+    });
+
+    it('should include soft-deleted versions', async () => {
+      await PromptVersion.updateOne({ promptId, version: 'v1' }, { isActive: false });
+
+      const diff = await promptVersionService.diffPromptVersions(userId, promptId, 'v1', 'v2');
+
+      expect(diff.from.isActive).toBe(false);
+      expect(diff.hunks).toHaveLength(1);
+    });
+
+    it('should throw error for unknown version label', async () => {
+      await expect(
+        promptVersionService.diffPromptVersions(userId, promptId, 'v1', 'v9')
+      ).rejects.toThrow(ERROR_MESSAGES.VERSION_LABEL_NOT_FOUND('v9'));
+    });
+  });
+});
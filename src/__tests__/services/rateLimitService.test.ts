@@ -0,0 +1,81 @@
+/**
+ * Rate Limit Service Tests
+ */
+
+import { describe, it, expect, afterEach } from '@jest/globals';
+import RateLimitCounter from '../../models/RateLimitCounter';
+import * as rateLimitService from '../../services/rateLimitService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { RateLimitStore } from '../../types';
+
+describe('Rate Limit Service', () => {
+  const policy = { name: 'test', windowSeconds: 60, max: 2 };
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_STORE;
+    rateLimitService.setRateLimitStore(null);
+  });
+
+  // Both built-in stores count the same way
+  const stores: [string, () => RateLimitStore][] = [
+    ['memory', rateLimitService.createMemoryStore],
+    ['mongo', rateLimitService.createMongoStore],
+  ];
+
+  describe.each(stores)('%s store', (_name, createStore) => {
+    it('should count requests per key within a window', async () => {
+      const store = createStore();
+
+      const first = await store.increment('a', 60000);
+      const second = await store.increment('a', 60000);
+      const other = await store.increment('b', 60000);
+
+      expect(first.count).toBe(1);
+      expect(second.count).toBe(2);
+      expect(second.resetAt).toEqual(first.resetAt);
+      expect(other.count).toBe(1);
+    });
+
+    it('should start a new window once the current one has ended', async () => {
+      const store = createStore();
+      await store.increment('a', 1);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      expect((await store.increment('a', 60000)).count).toBe(1);
+    });
+
+    it('should forget a key when reset', async () => {
+      const store = createStore();
+      await store.increment('a', 60000);
+
+      await store.reset('a');
+
+      expect((await store.increment('a', 60000)).count).toBe(1);
+    });
+  });
+
+  it('should count concurrent first requests in MongoDB exactly once each', async () => {
+    const store = rateLimitService.createMongoStore();
+
+    await Promise.all(Array.from({ length: 5 }, () => store.increment('race', 60000)));
+
+    expect((await RateLimitCounter.findOne({ key: 'race' }))?.count).toBe(5);
+  });
+
+  it('should namespace keys by policy', async () => {
+    rateLimitService.setRateLimitStore(rateLimitService.createMemoryStore());
+
+    await rateLimitService.hitRateLimit(policy, 'client');
+    const counter = await rateLimitService.hitRateLimit({ ...policy, name: 'other' }, 'client');
+
+    expect(counter.count).toBe(1);
+  });
+
+  it('should reject unknown stores', async () => {
+    process.env.RATE_LIMIT_STORE = 'redis';
+
+    expect(() => rateLimitService.hitRateLimit(policy, 'client')).toThrow(
+      ERROR_MESSAGES.RATE_LIMIT_STORE_INVALID('redis')
+    );
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Session Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import jwt from 'jsonwebtoken';
+import mongoose from 'mongoose';
+import Session from '../../models/Session';
+import User from '../../models/User';
+import * as sessionService from '../../services/sessionService';
+import * as authService from '../../services/authService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { AuthTokens } from '../../types';
+
+describe('Session Service', () => {
+  const originalJwtSecret = process.env.JWT_SECRET;
+  const userId = new mongoose.Types.ObjectId().toString();
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret-key';
+    await Session.deleteMany({});
+    await User.deleteMany({});
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalJwtSecret;
+  });
+
+  describe('createSession', () => {
+    it('should store only a hash of the refresh token', async () => {
+      const { sessionId, refreshToken } = await sessionService.createSession(userId, {
+        userAgent: 'jest',
+        ipAddress: '127.0.0.1',
+      });
+
+      const session = await Session.findOne({ familyId: sessionId }).select('+tokenHash');
+      expect(session?.tokenHash).toHaveLength(64);
+      expect(session?.tokenHash).not.toContain(refreshToken);
+      expect(session?.userAgent).toBe('jest');
+      expect(await sessionService.isSessionActive(sessionId)).toBe(true);
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should issue a new refresh token in the same family', async () => {
+      const first = await sessionService.createSession(userId);
+
+      const second = await sessionService.rotateSession(first.refreshToken);
+
+      expect(second.sessionId).toBe(first.sessionId);
+      expect(second.userId).toBe(userId);
+      expect(second.refreshToken).not.toBe(first.refreshToken);
+      expect(await Session.countDocuments({ familyId: first.sessionId })).toBe(2);
+    });
+
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      const first = await sessionService.createSession(userId);
+      const second = await sessionService.rotateSession(first.refreshToken);
+
+      await expect(sessionService.rotateSession(first.refreshToken)).rejects.toThrow(
+        ERROR_MESSAGES.REFRESH_TOKEN_REUSED
+      );
+
+      expect(await sessionService.isSessionActive(first.sessionId)).toBe(false);
+      await expect(sessionService.rotateSession(second.refreshToken)).rejects.toThrow(
+        ERROR_MESSAGES.REFRESH_TOKEN_INVALID
+      );
+      const sessions = await Session.find({ familyId: first.sessionId });
+      expect(sessions.every((session) => session.revokedReason === 'reuse')).toBe(true);
+    });
+
+    it('should reject unknown and expired refresh tokens', async () => {
+      const { refreshToken } = await sessionService.createSession(userId);
+      await Session.updateMany({}, { expiresAt: new Date(Date.now() - 1000) });
+
+      await expect(sessionService.rotateSession('unknown')).rejects.toThrow(
+        ERROR_MESSAGES.REFRESH_TOKEN_INVALID
+      );
+      await expect(sessionService.rotateSession(refreshToken)).rejects.toThrow(
+        ERROR_MESSAGES.REFRESH_TOKEN_INVALID
+      );
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('should revoke every session of the user only', async () => {
+      const otherUserId = new mongoose.Types.ObjectId().toString();
+      const a = await sessionService.createSession(userId);
+      const b = await sessionService.createSession(userId);
+      const other = await sessionService.createSession(otherUserId);
+
+      const revoked = await sessionService.revokeUserSessions(userId, 'logout_all');
+
+      expect(revoked).toBe(2);
+      expect(await sessionService.isSessionActive(a.sessionId)).toBe(false);
+      expect(await sessionService.isSessionActive(b.sessionId)).toBe(false);
+      expect(await sessionService.isSessionActive(other.sessionId)).toBe(true);
+    });
+  });
+
+  describe('authService token flow', () => {
+    it('should log in, refresh and log out', async () => {
+      await User.create({ email: 'user@example.com', password: 'password123' });
+
+      const login = (await authService.loginUser({
+        email: 'user@example.com',
+        password: 'password123',
+      })) as AuthTokens;
+      const { sid } = jwt.decode(login.token) as { sid: string };
+      const refreshed = await authService.refreshTokens(login.refreshToken);
+
+      expect((jwt.decode(refreshed.token) as { sid: string }).sid).toBe(sid);
+      expect(refreshed.refreshToken).not.toBe(login.refreshToken);
+
+      await authService.logout(sid);
+
+      expect(await sessionService.isSessionActive(sid)).toBe(false);
+      await expect(authService.refreshTokens(refreshed.refreshToken)).rejects.toThrow(
+        ERROR_MESSAGES.REFRESH_TOKEN_INVALID
+      );
+    });
+
+    it('should not refresh sessions of deactivated users', async () => {
+      const user = await User.create({ email: 'user@example.com', password: 'password123' });
+      const { refreshToken } = await sessionService.createSession(
+        (user._id as mongoose.Types.ObjectId).toString()
+      );
+      await User.updateOne({ _id: user._id }, { isActive: false });
+
+      await expect(authService.refreshTokens(refreshToken)).rejects.toThrow(
+        ERROR_MESSAGES.ACCOUNT_DEACTIVATED
+      );
+    });
+  });
+});
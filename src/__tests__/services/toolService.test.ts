@@ -0,0 +1,183 @@
+/**
+ * Tool Service Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Tool from '../../models/Tool';
+import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
+import PromptVersion from '../../models/PromptVersion';
+import * as toolService from '../../services/toolService';
+import * as promptVersionService from '../../services/promptVersionService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Tool Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const parameters = {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  };
+  let projectId: string;
+  let promptId: string;
+  let toolId: string;
+
+  beforeEach(async () => {
+    await Tool.deleteMany({});
+    await PromptVersion.deleteMany({});
+    await Prompt.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await Project.create({ userId, name: 'Tool Project', isActive: true });
+    projectId = (project._id as mongoose.Types.ObjectId).toString();
+    const prompt = await Prompt.create({ userId, projectId, name: 'Assistant', isActive: true });
+    promptId = (prompt._id as mongoose.Types.ObjectId).toString();
+
+    const tool = await toolService.createTool(projectId, userId, {
+      name: 'get_weather',
+      description: 'Current weather in a city',
+      parameters,
+    });
+    toolId = tool._id.toString();
+  });
+
+  describe('createTool', () => {
+    it('should default the parameters to an object without properties', async () => {
+      const tool = await toolService.createTool(projectId, userId, { name: 'get_time' });
+
+      expect(tool.toObject().parameters).toEqual({ type: 'object', properties: {} });
+    });
+
+    it('should keep tool names unique within a project', async () => {
+      await expect(
+        toolService.createTool(projectId, userId, { name: 'get_weather' })
+      ).rejects.toMatchObject({
+        message: ERROR_MESSAGES.TOOL_NAME_TAKEN('get_weather'),
+        statusCode: 409,
+      });
+    });
+
+    it('should throw error if project belongs to another user', async () => {
+      const otherUserId = new mongoose.Types.ObjectId().toString();
+
+      await expect(toolService.getToolsByProject(projectId, otherUserId)).rejects.toThrow(
+        ERROR_MESSAGES.PROJECT_NOT_FOUND
+      );
+    });
+  });
+
+  describe('referencing tools from versions', () => {
+    it('should store a copy of the library tool with its toolId', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Help the user',
+        tools: [{ toolId }],
+      });
+
+      expect(version.toObject().tools).toEqual([
+        {
+          toolId: new mongoose.Types.ObjectId(toolId),
+          name: 'get_weather',
+          description: 'Current weather in a city',
+          parameters,
+        },
+      ]);
+    });
+
+    it('should reject tools of other projects and names used twice', async () => {
+      const otherProject = await Project.create({ userId, name: 'Other', isActive: true });
+      const otherTool = await toolService.createTool(otherProject._id.toString(), userId, {
+        name: 'search',
+      });
+
+      await expect(
+        promptVersionService.createPromptVersion(userId, promptId, {
+          promptText: 'Help the user',
+          tools: [{ toolId: otherTool._id.toString() }],
+        })
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.TOOL_NOT_FOUND, statusCode: 404 });
+      await expect(
+        promptVersionService.createPromptVersion(userId, promptId, {
+          promptText: 'Help the user',
+          tools: [{ toolId }, { name: 'get_weather' }],
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.TOOL_NAME_DUPLICATE('get_weather'));
+    });
+  });
+
+  describe('updateTool', () => {
+    it('should leave the copies held by saved versions unchanged', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Help the user',
+        tools: [{ toolId }, { name: 'get_time' }],
+      });
+
+      const tool = await toolService.updateTool(projectId, toolId, userId, {
+        name: 'weather',
+        description: 'Weather forecast',
+      });
+
+      expect(tool.name).toBe('weather');
+      const saved = await PromptVersion.findById(version._id);
+      expect(saved?.tools.map((copy) => copy.name)).toEqual(['get_weather', 'get_time']);
+      expect(saved?.tools[0].description).toBe('Current weather in a city');
+    });
+
+    it('should give versions derived afterwards the new definition', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Help the user',
+        tools: [{ toolId }, { name: 'get_time' }],
+      });
+      await toolService.updateTool(projectId, toolId, userId, { description: 'Weather forecast' });
+
+      const derived = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        version._id.toString(),
+        {}
+      );
+
+      expect(derived.tools.map((copy) => copy.name)).toEqual(['get_weather', 'get_time']);
+      expect(derived.tools[0].description).toBe('Weather forecast');
+      expect(derived.tools[0].toolId?.toString()).toBe(toolId);
+    });
+  });
+
+  describe('deleteTool', () => {
+    it('should keep the copies of referencing versions', async () => {
+      const version = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Help the user',
+        tools: [{ toolId }],
+      });
+
+      await toolService.deleteTool(projectId, toolId, userId);
+
+      const saved = await PromptVersion.findById(version._id);
+      expect(await Tool.findById(toolId)).toBeNull();
+      expect(saved?.toObject().tools).toEqual([
+        {
+          toolId: new mongoose.Types.ObjectId(toolId),
+          name: 'get_weather',
+          description: 'Current weather in a city',
+          parameters,
+        },
+      ]);
+
+      const derived = await promptVersionService.createPromptVersionFromVersion(
+        userId,
+        version._id.toString(),
+        {}
+      );
+      expect(derived.toObject().tools).toEqual([
+        { name: 'get_weather', description: 'Current weather in a city', parameters },
+      ]);
+    });
+
+    it('should throw error for tools of other projects', async () => {
+      const fakeId = new mongoose.Types.ObjectId().toString();
+
+      await expect(toolService.deleteTool(projectId, fakeId, userId)).rejects.toThrow(
+        ERROR_MESSAGES.TOOL_NOT_FOUND
+      );
+    });
+  });
+});
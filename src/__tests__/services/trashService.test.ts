@@ -0,0 +1,243 @@
+/**
+ * Trash Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
+import PromptVersion from '../../models/PromptVersion';
+import Experiment from '../../models/Experiment';
+import Deployment from '../../models/Deployment';
+import * as trashService from '../../services/trashService';
+import * as projectService from '../../services/projectService';
+import * as promptService from '../../services/promptService';
+import * as promptVersionService from '../../services/promptVersionService';
+import * as deploymentService from '../../services/deploymentService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Trash Service', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const originalRetentionDays = process.env.TRASH_RETENTION_DAYS;
+  let projectId: string;
+  let promptId: string;
+  let versionId: string;
+
+  beforeEach(async () => {
+    await PromptVersion.deleteMany({});
+    await Prompt.deleteMany({});
+    await Project.deleteMany({});
+
+    const project = await projectService.createProject(userId, { name: 'Trash Project' });
+    projectId = project._id.toString();
+    const prompt = await promptService.createPrompt(userId, projectId, { name: 'Greeting' });
+    promptId = prompt._id.toString();
+    const version = await promptVersionService.createPromptVersion(userId, promptId, {
+      promptText: 'Hello',
+    });
+    versionId = version._id.toString();
+  });
+
+  afterEach(() => {
+    process.env.TRASH_RETENTION_DAYS = originalRetentionDays;
+  });
+
+  describe('deleting', () => {
+    it('should move a project to the trash together with its prompts and versions', async () => {
+      await projectService.deleteProject(projectId, userId);
+
+      const prompt = await Prompt.findById(promptId);
+      const version = await PromptVersion.findById(versionId);
+
+      expect(prompt?.isActive).toBe(false);
+      expect(prompt?.deletedBy?.toString()).toBe(userId);
+      expect(version?.isActive).toBe(false);
+      expect(version?.deletedAt).toEqual(prompt?.deletedAt);
+    });
+
+    it('should release the versions of a deleted project or prompt', async () => {
+      const other = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hi',
+      });
+      await promptVersionService.updatePromptVersion(versionId, userId, { activePrompt: true });
+      await deploymentService.deployVersion(promptId, 'staging', versionId, userId);
+      const experiment = await Experiment.create({
+        userId,
+        projectId,
+        promptId,
+        name: 'Greeting test',
+        status: 'running',
+        startedAt: new Date(),
+        variants: [
+          { versionId, weight: 1 },
+          { versionId: other._id, weight: 1 },
+        ],
+      });
+
+      await promptService.deletePrompt(promptId, userId);
+
+      expect((await PromptVersion.findById(versionId))?.activePrompt).toBe(false);
+      expect(await Deployment.countDocuments({ promptId })).toBe(0);
+      expect((await Experiment.findById(experiment._id))?.status).toBe('stopped');
+
+      await trashService.restorePrompt(promptId, userId);
+      await promptVersionService.updatePromptVersion(versionId, userId, { activePrompt: true });
+      await projectService.deleteProject(projectId, userId);
+
+      expect((await PromptVersion.findById(versionId))?.activePrompt).toBe(false);
+      expect(await Deployment.countDocuments({ promptId })).toBe(0);
+    });
+
+    it('should move items to the trash when isActive is cleared with an update', async () => {
+      await promptVersionService.updatePromptVersion(versionId, userId, { activePrompt: true });
+
+      const project = await projectService.updateProject(projectId, userId, { isActive: false });
+      const prompt = await Prompt.findById(promptId);
+      const version = await PromptVersion.findById(versionId);
+
+      expect(project.deletedBy?.toString()).toBe(userId);
+      expect(prompt?.deletedAt).toEqual(project.deletedAt);
+      expect(version?.isActive).toBe(false);
+      expect(version?.activePrompt).toBe(false);
+      expect(await trashService.getTrash(userId)).toHaveLength(1);
+    });
+
+    it('should refuse updates to items in the trash', async () => {
+      await promptService.deletePrompt(promptId, userId);
+
+      await expect(
+        promptService.updatePrompt(promptId, userId, { isActive: true })
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.PROMPT_DELETED, statusCode: 404 });
+      await expect(
+        promptVersionService.updatePromptVersion(versionId, userId, { isActive: true })
+      ).rejects.toThrow(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+
+      await projectService.deleteProject(projectId, userId);
+
+      await expect(
+        projectService.updateProject(projectId, userId, { name: 'Renamed' })
+      ).rejects.toThrow(ERROR_MESSAGES.PROJECT_DELETED);
+    });
+
+    it('should not delete the same item twice', async () => {
+      await promptService.deletePrompt(promptId, userId);
+
+      await expect(promptService.deletePrompt(promptId, userId)).rejects.toMatchObject({
+        message: ERROR_MESSAGES.PROMPT_DELETED,
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('getTrash', () => {
+    it('should list only the items that were deleted on their own', async () => {
+      await promptService.deletePrompt(promptId, userId);
+
+      const items = await trashService.getTrash(userId);
+
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ type: 'prompt', name: 'Greeting' });
+      expect(items[0].purgeAt.getTime() - items[0].deletedAt.getTime()).toBe(
+        30 * 24 * 60 * 60 * 1000
+      );
+    });
+
+    it('should filter by item type and hide the trash of other users', async () => {
+      await promptVersionService.deletePromptVersion(versionId, userId);
+
+      expect(await trashService.getTrash(userId, { type: 'project' })).toHaveLength(0);
+      expect(await trashService.getTrash(userId, { type: 'prompt_version' })).toHaveLength(1);
+      expect(await trashService.getTrash(new mongoose.Types.ObjectId().toString())).toHaveLength(0);
+    });
+  });
+
+  describe('restoring', () => {
+    it('should restore a project together with what was deleted along with it', async () => {
+      await projectService.deleteProject(projectId, userId);
+
+      const project = await trashService.restoreProject(projectId, userId);
+
+      expect(project.isActive).toBe(true);
+      expect(project.deletedAt).toBeNull();
+      expect((await Prompt.findById(promptId))?.isActive).toBe(true);
+      expect((await PromptVersion.findById(versionId))?.isActive).toBe(true);
+    });
+
+    it('should leave prompts deleted before their project in the trash', async () => {
+      await promptService.deletePrompt(promptId, userId);
+      await projectService.deleteProject(projectId, userId);
+
+      await trashService.restoreProject(projectId, userId);
+
+      expect((await Prompt.findById(promptId))?.isActive).toBe(false);
+      expect((await PromptVersion.findById(versionId))?.isActive).toBe(false);
+    });
+
+    it('should require the parent to be restored first', async () => {
+      await projectService.deleteProject(projectId, userId);
+
+      await expect(trashService.restorePrompt(promptId, userId)).rejects.toMatchObject({
+        message: ERROR_MESSAGES.RESTORE_PARENT_FIRST('project'),
+        statusCode: 409,
+      });
+    });
+
+    it('should not restore items that are not in the trash', async () => {
+      await Prompt.updateOne({ _id: promptId }, { isActive: false });
+
+      await expect(
+        trashService.restorePromptVersion(versionId, userId)
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.NOT_IN_TRASH, statusCode: 409 });
+      await expect(trashService.restorePrompt(promptId, userId)).rejects.toThrow(
+        ERROR_MESSAGES.NOT_IN_TRASH
+      );
+    });
+  });
+
+  describe('purgeExpiredTrash', () => {
+    it('should permanently delete what stayed in the trash past the retention period', async () => {
+      process.env.TRASH_RETENTION_DAYS = '7';
+      await projectService.deleteProject(projectId, userId);
+
+      const early = await trashService.purgeExpiredTrash(new Date(Date.now() + 6 * 86400000));
+      const late = await trashService.purgeExpiredTrash(new Date(Date.now() + 8 * 86400000));
+
+      expect(early).toEqual({ projects: 0, prompts: 0, versions: 0 });
+      expect(late).toEqual({ projects: 1, prompts: 1, versions: 1 });
+      expect(await PromptVersion.findById(versionId)).toBeNull();
+    });
+
+    it('should stop running experiments that use a purged version', async () => {
+      process.env.TRASH_RETENTION_DAYS = '7';
+      const other = await promptVersionService.createPromptVersion(userId, promptId, {
+        promptText: 'Hi',
+      });
+      const experiment = await Experiment.create({
+        userId,
+        projectId,
+        promptId,
+        name: 'Greeting test',
+        status: 'running',
+        startedAt: new Date(),
+        variants: [
+          { versionId, weight: 1 },
+          { versionId: other._id, weight: 1 },
+        ],
+      });
+      await promptVersionService.deletePromptVersion(versionId, userId);
+
+      const summary = await trashService.purgeExpiredTrash(new Date(Date.now() + 8 * 86400000));
+
+      expect(summary).toEqual({ projects: 0, prompts: 0, versions: 1 });
+      expect((await Experiment.findById(experiment._id))?.status).toBe('stopped');
+    });
+
+    it('should keep items deactivated outside the trash', async () => {
+      await PromptVersion.updateOne({ _id: versionId }, { isActive: false });
+
+      const summary = await trashService.purgeExpiredTrash(new Date(Date.now() + 365 * 86400000));
+
+      expect(summary.versions).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Two-Factor Authentication Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Session from '../../models/Session';
+import User from '../../models/User';
+import * as twoFactorService from '../../services/twoFactorService';
+import * as authService from '../../services/authService';
+import * as sessionService from '../../services/sessionService';
+import { generateTotp } from '../../utils/totp';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { TwoFactorChallenge } from '../../types';
+
+describe('Two-Factor Authentication Service', () => {
+  const originalJwtSecret = process.env.JWT_SECRET;
+  const credentials = { email: 'user@example.com', password: 'password123' };
+  let time: number;
+  let userId: string;
+
+  // Enable two-factor authentication and return the secret and recovery codes
+  const enroll = async (): Promise<{ secret: string; recoveryCodes: string[] }> => {
+    const { secret } = await twoFactorService.beginEnrollment(userId);
+    const recoveryCodes = await twoFactorService.confirmEnrollment(
+      userId,
+      generateTotp(secret, time)
+    );
+    return { secret, recoveryCodes };
+  };
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret-key';
+    time = Date.UTC(2024, 0, 1);
+    twoFactorService.setTwoFactorClock(() => time);
+
+    await Session.deleteMany({});
+    await User.deleteMany({});
+    const user = await User.create(credentials);
+    userId = (user._id as mongoose.Types.ObjectId).toString();
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalJwtSecret;
+    twoFactorService.setTwoFactorClock(null);
+  });
+
+  describe('enrollment', () => {
+    it('should return a secret and otpauth URI and enable 2FA once a code is confirmed', async () => {
+      const { secret, otpauthUri } = await twoFactorService.beginEnrollment(userId);
+
+      expect(otpauthUri).toContain(`secret=${secret}`);
+      expect((await User.findById(userId))?.twoFactorEnabled).toBe(false);
+
+      const recoveryCodes = await twoFactorService.confirmEnrollment(
+        userId,
+        generateTotp(secret, time)
+      );
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(new Set(recoveryCodes).size).toBe(10);
+      const user = await User.findById(userId).select('+twoFactorRecoveryCodes');
+      expect(user?.twoFactorEnabled).toBe(true);
+      expect(user?.twoFactorRecoveryCodes).not.toContain(recoveryCodes[0]);
+    });
+
+    it('should reject wrong codes and confirmation without setup', async () => {
+      await expect(twoFactorService.confirmEnrollment(userId, '123456')).rejects.toThrow(
+        ERROR_MESSAGES.TWO_FACTOR_SETUP_REQUIRED
+      );
+
+      const { secret } = await twoFactorService.beginEnrollment(userId);
+      await expect(
+        twoFactorService.confirmEnrollment(userId, generateTotp(secret, time - 5 * 60 * 1000))
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, statusCode: 400 });
+    });
+
+    it('should not restart enrollment once enabled', async () => {
+      await enroll();
+
+      await expect(twoFactorService.beginEnrollment(userId)).rejects.toMatchObject({
+        message: ERROR_MESSAGES.TWO_FACTOR_ALREADY_ENABLED,
+        statusCode: 409,
+      });
+    });
+  });
+
+  describe('login', () => {
+    it('should return a challenge instead of tokens and start a session with the code', async () => {
+      const { secret } = await enroll();
+      time += 30 * 1000;
+
+      const challenge = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+      expect(challenge).toEqual({ twoFactorRequired: true, challengeToken: expect.any(String) });
+      expect(challenge).not.toHaveProperty('token');
+
+      const result = await authService.completeTwoFactorLogin(
+        challenge.challengeToken,
+        generateTotp(secret, time)
+      );
+
+      expect(result.user.twoFactorEnabled).toBe(true);
+      expect(result.token).toBeDefined();
+      expect(result.refreshToken).toBeDefined();
+    });
+
+    it('should accept each code only once', async () => {
+      const { secret } = await enroll();
+      time += 30 * 1000;
+      const code = generateTotp(secret, time);
+      const first = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+      const second = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+
+      await authService.completeTwoFactorLogin(first.challengeToken, code);
+
+      await expect(
+        authService.completeTwoFactorLogin(second.challengeToken, code)
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, statusCode: 401 });
+    });
+
+    it('should accept each recovery code once', async () => {
+      const { recoveryCodes } = await enroll();
+      const first = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+      const second = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+
+      await expect(
+        authService.completeTwoFactorLogin(first.challengeToken, recoveryCodes[3].toUpperCase())
+      ).resolves.toHaveProperty('token');
+      await expect(
+        authService.completeTwoFactorLogin(second.challengeToken, recoveryCodes[3])
+      ).rejects.toThrow(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+    });
+
+    it('should count wrong codes toward the account lockout', async () => {
+      const { secret } = await enroll();
+      time += 30 * 1000;
+      const challenge = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await expect(
+          authService.completeTwoFactorLogin(challenge.challengeToken, '000000')
+        ).rejects.toThrow(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+      }
+
+      await expect(
+        authService.completeTwoFactorLogin(challenge.challengeToken, generateTotp(secret, time))
+      ).rejects.toMatchObject({ statusCode: 423 });
+    });
+
+    it('should reject challenge tokens that are not login challenges', async () => {
+      const { secret } = await enroll();
+      const { sessionId } = await sessionService.createSession(userId);
+      const accessToken = authService.generateToken(userId, credentials.email, sessionId);
+
+      await expect(
+        authService.completeTwoFactorLogin(accessToken, generateTotp(secret, time + 30000))
+      ).rejects.toMatchObject({
+        message: ERROR_MESSAGES.TWO_FACTOR_CHALLENGE_INVALID,
+        statusCode: 401,
+      });
+    });
+  });
+
+  describe('recovery codes and disabling', () => {
+    it('should replace the recovery codes', async () => {
+      const { secret, recoveryCodes } = await enroll();
+      time += 30 * 1000;
+
+      const newCodes = await twoFactorService.regenerateRecoveryCodes(
+        userId,
+        generateTotp(secret, time)
+      );
+
+      expect(newCodes).not.toContain(recoveryCodes[0]);
+      const challenge = (await authService.loginUser(credentials)) as TwoFactorChallenge;
+      await expect(
+        authService.completeTwoFactorLogin(challenge.challengeToken, recoveryCodes[0])
+      ).rejects.toThrow(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+    });
+
+    it('should require the password and a code to disable 2FA', async () => {
+      const { recoveryCodes } = await enroll();
+
+      await expect(
+        twoFactorService.disableTwoFactor(userId, 'wrong-password', recoveryCodes[0])
+      ).rejects.toThrow(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+
+      await twoFactorService.disableTwoFactor(userId, credentials.password, recoveryCodes[0]);
+
+      expect((await User.findById(userId))?.twoFactorEnabled).toBe(false);
+      await expect(authService.loginUser(credentials)).resolves.toHaveProperty('token');
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * User Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import AuditEvent from '../../models/AuditEvent';
+import Organization from '../../models/Organization';
+import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
+import PromptVersion from '../../models/PromptVersion';
+import Session from '../../models/Session';
+import User from '../../models/User';
+import * as userService from '../../services/userService';
+import * as sessionService from '../../services/sessionService';
+import { setMailTransport } from '../../services/mailService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { MailMessage } from '../../types';
+
+describe('User Service', () => {
+  const originalPurgeAfterDays = process.env.ACCOUNT_PURGE_AFTER_DAYS;
+  let outbox: MailMessage[];
+  let userId: string;
+
+  // Create a project with one prompt and one version owned by the test user
+  const createProjectTree = async (organizationId: mongoose.Types.ObjectId | null = null) => {
+    const project = await Project.create({ userId, organizationId, name: 'Project' });
+    const prompt = await Prompt.create({ userId, projectId: project._id, name: 'Prompt' });
+    const version = await PromptVersion.create({
+      userId,
+      promptId: prompt._id,
+      promptText: 'Hello',
+      version: '1',
+      versionName: 'v1',
+    });
+    return { project, prompt, version };
+  };
+
+  beforeEach(async () => {
+    delete process.env.ACCOUNT_PURGE_AFTER_DAYS;
+    outbox = [];
+    setMailTransport({ send: async (message) => void outbox.push(message) });
+
+    await Organization.deleteMany({});
+    await Project.deleteMany({});
+    await Prompt.deleteMany({});
+    await PromptVersion.deleteMany({});
+    await Session.deleteMany({});
+    await User.deleteMany({});
+    const user = await User.create({ email: 'user@example.com', password: 'password123' });
+    userId = (user._id as mongoose.Types.ObjectId).toString();
+  });
+
+  afterEach(() => {
+    if (originalPurgeAfterDays === undefined) {
+      delete process.env.ACCOUNT_PURGE_AFTER_DAYS;
+    } else {
+      process.env.ACCOUNT_PURGE_AFTER_DAYS = originalPurgeAfterDays;
+    }
+    setMailTransport(null);
+  });
+
+  describe('updateProfile', () => {
+    it('should update the name without touching the email', async () => {
+      const user = await userService.updateProfile(userId, { name: ' New Name ' });
+
+      expect(user.name).toBe('New Name');
+      expect(user.email).toBe('user@example.com');
+      expect(user.emailVerified).toBe(true);
+      expect(outbox).toHaveLength(0);
+    });
+
+    it('should require the current password and re-verification to change the email', async () => {
+      await expect(
+        userService.updateProfile(userId, { email: 'new@example.com' })
+      ).rejects.toThrow(ERROR_MESSAGES.CURRENT_PASSWORD_REQUIRED_FOR_EMAIL);
+      await expect(
+        userService.updateProfile(userId, {
+          email: 'new@example.com',
+          currentPassword: 'wrong-password',
+        })
+      ).rejects.toThrow(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+
+      const user = await userService.updateProfile(userId, {
+        email: 'New@Example.com',
+        currentPassword: 'password123',
+      });
+
+      expect(user.email).toBe('new@example.com');
+      expect(user.emailVerified).toBe(false);
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].to).toBe('new@example.com');
+    });
+
+    it('should reject emails used by another account', async () => {
+      await User.create({ email: 'taken@example.com', password: 'password123' });
+
+      await expect(
+        userService.updateProfile(userId, {
+          email: 'taken@example.com',
+          currentPassword: 'password123',
+        })
+      ).rejects.toMatchObject({ message: ERROR_MESSAGES.EMAIL_IN_USE, statusCode: 409 });
+    });
+
+    it('should reject updates without fields', async () => {
+      await expect(userService.updateProfile(userId, {})).rejects.toThrow(
+        ERROR_MESSAGES.NO_VALID_FIELDS_TO_UPDATE
+      );
+    });
+  });
+
+  describe('deactivateAccount', () => {
+    it('should deactivate the user and soft-delete their projects, prompts and versions', async () => {
+      const { project, prompt, version } = await createProjectTree();
+      await sessionService.createSession(userId);
+
+      const summary = await userService.deactivateAccount(userId, 'password123');
+
+      expect(summary).toEqual({ projects: 1, prompts: 1, versions: 1, purgeAfter: null });
+      expect((await User.findById(userId))?.isActive).toBe(false);
+      expect((await Project.findById(project._id))?.isActive).toBe(false);
+      expect((await Prompt.findById(prompt._id))?.isActive).toBe(false);
+      expect((await PromptVersion.findById(version._id))?.isActive).toBe(false);
+      expect(await Session.countDocuments({ userId, revokedAt: null })).toBe(0);
+    });
+
+    it('should mark the soft-deleted items with when and by whom they were deleted', async () => {
+      const { project, prompt, version } = await createProjectTree();
+
+      await userService.deactivateAccount(userId, 'password123');
+
+      const deletedProject = await Project.findById(project._id);
+      expect(deletedProject?.deletedAt).toBeInstanceOf(Date);
+      expect(deletedProject?.deletedBy?.toString()).toBe(userId);
+      expect((await Prompt.findById(prompt._id))?.deletedAt).toEqual(deletedProject?.deletedAt);
+      expect((await PromptVersion.findById(version._id))?.deletedAt).toEqual(
+        deletedProject?.deletedAt
+      );
+    });
+
+    it('should release active versions and audit the deletion of each project', async () => {
+      const { project, version } = await createProjectTree();
+      await PromptVersion.updateOne({ _id: version._id }, { activePrompt: true });
+
+      await userService.deactivateAccount(userId, 'password123', { requestId: 'req-123' });
+
+      expect((await PromptVersion.findById(version._id))?.activePrompt).toBe(false);
+      const events = await AuditEvent.find({ projectId: project._id }).sort('createdAt _id');
+      expect(events.map((event) => [event.entityType, event.action])).toEqual([
+        ['prompt_version', 'deactivate'],
+        ['project', 'delete'],
+      ]);
+      expect(events[1].requestId).toBe('req-123');
+    });
+
+    it('should leave shared organizations and keep their projects', async () => {
+      const other = await User.create({ email: 'other@example.com', password: 'password123' });
+      const organization = await Organization.create({
+        name: 'Team',
+        createdBy: other._id,
+        members: [
+          { userId: other._id, role: 'owner' },
+          { userId, role: 'editor' },
+        ],
+      });
+      const { project } = await createProjectTree(organization._id as mongoose.Types.ObjectId);
+
+      await userService.deactivateAccount(userId, 'password123');
+
+      const updated = await Organization.findById(organization._id);
+      expect(updated?.members.map((member) => member.userId.toString())).toEqual([
+        other._id!.toString(),
+      ]);
+      expect((await Project.findById(project._id))?.isActive).toBe(true);
+    });
+
+    it('should refuse while the user is the only owner of an organization with other members', async () => {
+      const other = await User.create({ email: 'other@example.com', password: 'password123' });
+      await Organization.create({
+        name: 'Team',
+        createdBy: userId,
+        members: [
+          { userId, role: 'owner' },
+          { userId: other._id, role: 'viewer' },
+        ],
+      });
+
+      await expect(userService.deactivateAccount(userId, 'password123')).rejects.toMatchObject({
+        message: ERROR_MESSAGES.ACCOUNT_SOLE_OWNER(['Team']),
+        statusCode: 409,
+      });
+      expect((await User.findById(userId))?.isActive).toBe(true);
+    });
+
+    it('should require the password', async () => {
+      await expect(userService.deactivateAccount(userId, 'wrong-password')).rejects.toThrow(
+        ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT
+      );
+    });
+  });
+
+  describe('purgeDeactivatedAccounts', () => {
+    it('should delete accounts and their data once the grace period has passed', async () => {
+      process.env.ACCOUNT_PURGE_AFTER_DAYS = '30';
+      const { project, version } = await createProjectTree();
+      const { purgeAfter } = await userService.deactivateAccount(userId, 'password123');
+
+      expect(await userService.purgeDeactivatedAccounts()).toBe(0);
+      expect(await userService.purgeDeactivatedAccounts(purgeAfter!)).toBe(1);
+
+      expect(await User.findById(userId)).toBeNull();
+      expect(await Project.findById(project._id)).toBeNull();
+      expect(await PromptVersion.findById(version._id)).toBeNull();
+    });
+
+    it('should never purge without a grace period configured', async () => {
+      await userService.deactivateAccount(userId, 'password123');
+
+      expect(
+        await userService.purgeDeactivatedAccounts(new Date(Date.now() + 1000 * 24 * 60 * 60 * 1000))
+      ).toBe(0);
+      expect(await User.findById(userId)).not.toBeNull();
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Email Verification Service Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
+import Session from '../../models/Session';
+import User from '../../models/User';
+import * as verificationService from '../../services/verificationService';
+import * as authService from '../../services/authService';
+import * as permissionService from '../../services/permissionService';
+import { setMailTransport } from '../../services/mailService';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { PERMISSIONS } from '../../constants';
+import { MailMessage } from '../../types';
+
+describe('Email Verification Service', () => {
+  const originalJwtSecret = process.env.JWT_SECRET;
+  const originalPolicy = process.env.EMAIL_VERIFICATION_POLICY;
+  let outbox: MailMessage[];
+
+  // The verification link carries the token as its only query parameter
+  const lastToken = (): string =>
+    new URL(/https?:\/\/\S+/.exec(outbox[outbox.length - 1].text)![0]).searchParams.get('token')!;
+
+  const signup = () =>
+    authService.signupUser({ email: 'new@example.com', password: 'password123' });
+
+  beforeEach(async () => {
+    process.env.JWT_SECRET = 'test-secret-key';
+    delete process.env.EMAIL_VERIFICATION_POLICY;
+    outbox = [];
+    setMailTransport({ send: async (message) => void outbox.push(message) });
+
+    await Project.deleteMany({});
+    await Prompt.deleteMany({});
+    await Session.deleteMany({});
+    await User.deleteMany({});
+  });
+
+  afterEach(() => {
+    process.env.JWT_SECRET = originalJwtSecret;
+    if (originalPolicy === undefined) {
+      delete process.env.EMAIL_VERIFICATION_POLICY;
+    } else {
+      process.env.EMAIL_VERIFICATION_POLICY = originalPolicy;
+    }
+    setMailTransport(null);
+  });
+
+  describe('signup', () => {
+    it('should create unverified users and email a verification link', async () => {
+      const result = await signup();
+
+      expect(result.user.emailVerified).toBe(false);
+      expect(result.token).toBeDefined();
+      expect(outbox).toHaveLength(1);
+      expect(outbox[0].to).toBe('new@example.com');
+      expect(outbox[0].text).toContain('/api/auth/verify-email?token=');
+    });
+
+    it('should treat accounts created before verification existed as verified', async () => {
+      const user = await User.create({ email: 'legacy@example.com', password: 'password123' });
+
+      expect(verificationService.isEmailVerified(user)).toBe(true);
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should verify the address once', async () => {
+      const { user } = await signup();
+      const token = lastToken();
+
+      await verificationService.verifyEmail(token);
+
+      const verifiedUser = await User.findById(user._id);
+      expect(verifiedUser?.emailVerified).toBe(true);
+      await expect(verificationService.verifyEmail(token)).rejects.toThrow(
+        ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID
+      );
+    });
+
+    it('should reject expired tokens', async () => {
+      await signup();
+      await User.updateOne(
+        { email: 'new@example.com' },
+        { emailVerificationExpiresAt: new Date(Date.now() - 1000) }
+      );
+
+      await expect(verificationService.verifyEmail(lastToken())).rejects.toMatchObject({
+        message: ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID,
+        statusCode: 400,
+      });
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should replace the pending link', async () => {
+      await signup();
+      const firstToken = lastToken();
+
+      await verificationService.resendVerificationEmail('New@Example.com');
+
+      expect(outbox).toHaveLength(2);
+      await expect(verificationService.verifyEmail(firstToken)).rejects.toThrow(
+        ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID
+      );
+      await expect(verificationService.verifyEmail(lastToken())).resolves.toBeUndefined();
+    });
+
+    it('should ignore unknown and verified addresses', async () => {
+      await User.create({ email: 'legacy@example.com', password: 'password123' });
+
+      await verificationService.resendVerificationEmail('nobody@example.com');
+      await verificationService.resendVerificationEmail('legacy@example.com');
+
+      expect(outbox).toHaveLength(0);
+    });
+  });
+
+  describe('policies', () => {
+    it('should keep unverified users from publishing', async () => {
+      const { user } = await signup();
+      const userId = user._id.toString();
+      const project = await Project.create({ userId, name: 'Project' });
+      const prompt = await Prompt.create({ userId, projectId: project._id, name: 'Prompt' });
+      const promptId = (prompt._id as mongoose.Types.ObjectId).toString();
+
+      await expect(
+        permissionService.authorizePrompt(promptId, userId, PERMISSIONS.EDIT)
+      ).resolves.toBeDefined();
+      await expect(
+        permissionService.authorizePrompt(promptId, userId, PERMISSIONS.PUBLISH)
+      ).rejects.toMatchObject({
+        message: ERROR_MESSAGES.EMAIL_NOT_VERIFIED_TO_PUBLISH,
+        statusCode: 403,
+      });
+
+      await verificationService.verifyEmail(lastToken());
+      await expect(
+        permissionService.authorizePrompt(promptId, userId, PERMISSIONS.PUBLISH)
+      ).resolves.toBeDefined();
+    });
+
+    it('should keep unverified users from logging in with block_login', async () => {
+      process.env.EMAIL_VERIFICATION_POLICY = 'block_login';
+
+      const result = await signup();
+      expect(result.token).toBeUndefined();
+      expect(result.refreshToken).toBeUndefined();
+
+      const credentials = { email: 'new@example.com', password: 'password123' };
+      await expect(authService.loginUser(credentials)).rejects.toMatchObject({
+        message: ERROR_MESSAGES.EMAIL_NOT_VERIFIED,
+        statusCode: 403,
+      });
+
+      await verificationService.verifyEmail(lastToken());
+      await expect(authService.loginUser(credentials)).resolves.toHaveProperty('token');
+    });
+
+    it('should reject unknown policies', () => {
+      process.env.EMAIL_VERIFICATION_POLICY = 'sometimes';
+
+      expect(() => verificationService.getVerificationPolicy()).toThrow(
+        ERROR_MESSAGES.EMAIL_VERIFICATION_POLICY_INVALID('sometimes')
+      );
+    });
+  });
+});
@@ -14,8 +14,9 @@ let mongoServer: any;
  */
 beforeAll(async () => {
   try {
-    const { MongoMemoryServer } = await import('mongodb-memory-server');
-    mongoServer = await MongoMemoryServer.create();
+    // Transactions need a replica set, so run a single-node one
+    const { MongoMemoryReplSet } = await import('mongodb-memory-server');
+    mongoServer = await MongoMemoryReplSet.create({ replSet: { count: 1 } });
     const mongoUri = mongoServer.getUri();
     await mongoose.connect(mongoUri);
   } catch (error) {
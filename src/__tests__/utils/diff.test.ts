@@ -0,0 +1,97 @@
+/**
+ * Diff Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { diffFields, diffSequences, diffText, formatUnifiedDiff } from '../../utils/diff';
+
+describe('Diff Utilities', () => {
+  describe('diffSequences', () => {
+    it('should mark every token of identical sequences as unchanged', () => {
+      const segments = diffSequences(['a', 'b'], ['a', 'b']);
+
+      expect(segments.every((segment) => segment.type === 'unchanged')).toBe(true);
+    });
+
+    it('should report removals before additions', () => {
+      const segments = diffSequences(['a', 'b', 'c'], ['a', 'x', 'c']);
+
+      expect(segments).toEqual([
+        { type: 'unchanged', value: 'a' },
+        { type: 'removed', value: 'b' },
+        { type: 'added', value: 'x' },
+        { type: 'unchanged', value: 'c' },
+      ]);
+    });
+  });
+
+  describe('diffText', () => {
+    it('should return no hunks for identical text', () => {
+      const diff = diffText('same\ntext', 'same\ntext');
+
+      expect(diff.hunks).toEqual([]);
+      expect(diff.stats).toEqual({ linesAdded: 0, linesRemoved: 0, wordsAdded: 0, wordsRemoved: 0 });
+    });
+
+    it('should produce line and word changes', () => {
+      const diff = diffText('You are a helpful assistant.\nBe brief.', 'You are a friendly assistant.\nBe brief.');
+
+      expect(diff.hunks).toHaveLength(1);
+      expect(diff.hunks[0].lines.map((line) => line.type)).toEqual(['removed', 'added', 'unchanged']);
+      expect(diff.hunks[0].words).toEqual([
+        { type: 'unchanged', value: 'You are a ' },
+        { type: 'removed', value: 'helpful' },
+        { type: 'added', value: 'friendly' },
+        { type: 'unchanged', value: ' assistant.\nBe brief.' },
+      ]);
+      expect(diff.stats).toEqual({ linesAdded: 1, linesRemoved: 1, wordsAdded: 1, wordsRemoved: 1 });
+    });
+
+    it('should split distant changes into separate hunks with context', () => {
+      const oldText = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10'].join('\n');
+      const newText = ['one', '2', '3', '4', '5', '6', '7', '8', '9', 'ten'].join('\n');
+
+      const diff = diffText(oldText, newText);
+
+      expect(diff.hunks).toHaveLength(2);
+      expect(diff.hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 4 });
+      expect(diff.hunks[1]).toMatchObject({ oldStart: 7, oldLines: 4, newStart: 7, newLines: 4 });
+    });
+  });
+
+  describe('formatUnifiedDiff', () => {
+    it('should format hunks as a unified diff', () => {
+      const diff = diffText('a\nb\nc', 'a\nB\nc\nd');
+
+      expect(formatUnifiedDiff(diff.hunks, 'v1', 'v2')).toBe(
+        '--- v1\n+++ v2\n@@ -1,3 +1,4 @@\n a\n-b\n+B\n c\n+d\n'
+      );
+    });
+
+    it('should return an empty string when nothing changed', () => {
+      expect(formatUnifiedDiff([], 'v1', 'v2')).toBe('');
+    });
+  });
+
+  describe('diffFields', () => {
+    it('should report changed, added and removed fields, naming nested fields with dots', () => {
+      const changes = diffFields(
+        { model: 'gpt-4o', temperature: 0.2, stopSequences: ['END'], extraParams: { seed: 1 } },
+        { model: 'gpt-4o', maxTokens: 500, stopSequences: ['END'], extraParams: { seed: 2 } }
+      );
+
+      expect(changes).toEqual([
+        { field: 'extraParams.seed', before: 1, after: 2 },
+        { field: 'maxTokens', before: null, after: 500 },
+        { field: 'temperature', before: 0.2, after: null },
+      ]);
+    });
+
+    it('should treat a missing object as having no fields', () => {
+      expect(diffFields(null, null)).toEqual([]);
+      expect(diffFields(null, { model: 'gpt-4o' })).toEqual([
+        { field: 'model', before: null, after: 'gpt-4o' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * JSON Schema Utility Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { checkJsonSchema, extractJson, validateJsonValue } from '../../utils/jsonSchema';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('JSON Schema Utilities', () => {
+  describe('checkJsonSchema', () => {
+    it('should accept boolean schemas and schemas with supported keywords', () => {
+      expect(checkJsonSchema(true)).toBeNull();
+      expect(
+        checkJsonSchema({
+          type: ['object', 'null'],
+          properties: {
+            tags: { type: 'array', items: { $ref: '#/$defs/tag' }, uniqueItems: true },
+          },
+          additionalProperties: false,
+          $defs: { tag: { type: 'string', pattern: '^[a-z]+$' } },
+        })
+      ).toBeNull();
+    });
+
+    it('should report the location of invalid keywords', () => {
+      expect(checkJsonSchema({ properties: { age: { minimum: '18' } } })).toBe(
+        ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_INVALID('#/properties/age', 'minimum', 'a number')
+      );
+      expect(checkJsonSchema({ anyOf: [] })).toBe(
+        ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_INVALID('#', 'anyOf', 'a non-empty array of schemas')
+      );
+      expect(checkJsonSchema({ pattern: '(' })).toMatch(/pattern at # must be/);
+    });
+
+    it('should reject unsupported keywords and unresolvable references', () => {
+      expect(checkJsonSchema({ if: { type: 'string' } })).toBe(
+        ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_UNSUPPORTED('#', 'if')
+      );
+      expect(checkJsonSchema({ $ref: '#/$defs/missing' })).toBe(
+        ERROR_MESSAGES.JSON_SCHEMA_REF_UNRESOLVED('#', '#/$defs/missing')
+      );
+      expect(checkJsonSchema({ $ref: 'https://example.com/schema.json' })).toMatch(
+        /does not point to a schema/
+      );
+    });
+  });
+
+  describe('validateJsonValue', () => {
+    const schema = {
+      type: 'object',
+      properties: {
+        sentiment: { enum: ['positive', 'negative', 'neutral'] },
+        score: { type: 'number', minimum: 0, maximum: 1 },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+      },
+      required: ['sentiment', 'score'],
+      additionalProperties: false,
+    };
+
+    it('should return no errors for matching values', () => {
+      expect(validateJsonValue({ sentiment: 'neutral', score: 0.5, tags: ['a'] }, schema)).toEqual(
+        []
+      );
+    });
+
+    it('should report every error with the JSON Pointer of the value', () => {
+      const errors = validateJsonValue(
+        { sentiment: 'happy', tags: ['a', 2, 'c'], extra: true },
+        schema
+      );
+
+      expect(errors).toEqual([
+        {
+          path: '',
+          keyword: 'required',
+          message: ERROR_MESSAGES.OUTPUT_PROPERTY_REQUIRED('score'),
+        },
+        { path: '/sentiment', keyword: 'enum', message: ERROR_MESSAGES.OUTPUT_NOT_IN_ENUM },
+        {
+          path: '/tags',
+          keyword: 'maxItems',
+          message: ERROR_MESSAGES.OUTPUT_ITEM_COUNT('at most', 2),
+        },
+        {
+          path: '/tags/1',
+          keyword: 'type',
+          message: ERROR_MESSAGES.OUTPUT_TYPE_MISMATCH(['string']),
+        },
+        {
+          path: '/extra',
+          keyword: 'additionalProperties',
+          message: ERROR_MESSAGES.OUTPUT_PROPERTY_NOT_ALLOWED('extra'),
+        },
+      ]);
+    });
+
+    it('should apply combinators and recursive references', () => {
+      const tree = {
+        type: 'object',
+        properties: { children: { type: 'array', items: { $ref: '#' } } },
+        oneOf: [{ required: ['leaf'] }, { required: ['children'] }],
+      };
+
+      expect(validateJsonValue({ children: [{ leaf: 1 }] }, tree)).toEqual([]);
+      expect(validateJsonValue({ children: [{ children: [{}] }] }, tree)).toEqual([
+        {
+          path: '/children/0/children/0',
+          keyword: 'oneOf',
+          message: ERROR_MESSAGES.OUTPUT_ONE_OF(0),
+        },
+      ]);
+      expect(validateJsonValue(1.5, { type: 'integer' })[0].keyword).toBe('type');
+      expect(validateJsonValue(0.3, { multipleOf: 0.1 })).toEqual([]);
+    });
+  });
+
+  describe('extractJson', () => {
+    it('should parse outputs that are JSON', () => {
+      expect(extractJson(' {"a": [1, 2]}\n')).toEqual({ found: true, value: { a: [1, 2] } });
+      expect(extractJson('42')).toEqual({ found: true, value: 42 });
+    });
+
+    it('should find JSON in code fences and surrounding prose', () => {
+      expect(extractJson('Here you go:\n```json\n{"ok": true}\n```\nAnything else?')).toEqual({
+        found: true,
+        value: { ok: true },
+      });
+      expect(extractJson('The result is {"text": "a } inside"} as requested.')).toEqual({
+        found: true,
+        value: { text: 'a } inside' },
+      });
+    });
+
+    it('should report outputs without JSON', () => {
+      expect(extractJson('I cannot help with that [sorry].')).toEqual({
+        found: false,
+        value: null,
+      });
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Pagination Utility Tests
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import mongoose from 'mongoose';
+import Project from '../../models/Project';
+import { getListOptions, paginate } from '../../utils/pagination';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Pagination Utilities', () => {
+  const userId = new mongoose.Types.ObjectId().toString();
+  const config = { nameField: 'name' };
+
+  beforeEach(async () => {
+    await Project.deleteMany({});
+
+    // Names are inserted out of order; two projects share a creation time
+    const project = (name: string, createdAt: string) => ({
+      userId: new mongoose.Types.ObjectId(userId),
+      name,
+      isActive: true,
+      createdAt: new Date(createdAt),
+      updatedAt: new Date(createdAt),
+    });
+    await Project.collection.insertMany([
+      project('Delta', '2024-01-01'),
+      project('alpha', '2024-02-01'),
+      project('Charlie', '2024-03-01'),
+      project('Bravo', '2024-03-01'),
+      project('Echo support', '2024-04-01'),
+    ]);
+  });
+
+  describe('getListOptions', () => {
+    it('should convert query strings to list options', () => {
+      const options = getListOptions({
+        page: '2',
+        limit: '10',
+        sort: 'name',
+        createdAfter: '2024-01-15',
+        includeInactive: 'true',
+      });
+
+      expect(options).toEqual({
+        page: 2,
+        limit: 10,
+        cursor: undefined,
+        sort: 'name',
+        createdAfter: new Date('2024-01-15'),
+        nameContains: undefined,
+        includeInactive: true,
+      });
+    });
+
+    it('should reject invalid parameters', () => {
+      expect(() => getListOptions({ limit: '500' })).toThrow(ERROR_MESSAGES.LIMIT_INVALID);
+    });
+  });
+
+  describe('paginate', () => {
+    it('should return the newest documents first by default', async () => {
+      const { items, pagination } = await paginate(Project, { userId }, { limit: 2 }, config);
+
+      expect(items.map((p) => p.name)).toEqual(['Echo support', expect.any(String)]);
+      expect(pagination).toEqual({
+        page: 1,
+        limit: 2,
+        total: 5,
+        hasMore: true,
+        nextCursor: expect.any(String),
+      });
+    });
+
+    it('should page with page and limit', async () => {
+      const { items, pagination } = await paginate(
+        Project,
+        { userId },
+        { page: 3, limit: 2, sort: 'createdAt' },
+        config
+      );
+
+      expect(items.map((p) => p.name)).toEqual(['Echo support']);
+      expect(pagination.hasMore).toBe(false);
+      expect(pagination.nextCursor).toBeNull();
+    });
+
+    it('should walk every document exactly once with cursors, including ties', async () => {
+      const names: string[] = [];
+      let cursor: string | undefined;
+
+      do {
+        const { items, pagination } = await paginate(
+          Project,
+          { userId },
+          { limit: 2, cursor, sort: '-createdAt' },
+          config
+        );
+        names.push(...items.map((p) => p.name));
+        expect(pagination.page).toBeUndefined();
+        cursor = pagination.nextCursor ?? undefined;
+      } while (cursor);
+
+      expect(names).toHaveLength(5);
+      expect(new Set(names).size).toBe(5);
+      expect(names[0]).toBe('Echo support');
+      expect(names[4]).toBe('Delta');
+    });
+
+    it('should sort by name', async () => {
+      const { items } = await paginate(Project, { userId }, { sort: 'name' }, config);
+
+      expect(items.map((p) => p.name)).toEqual(['Bravo', 'Charlie', 'Delta', 'Echo support', 'alpha']);
+    });
+
+    it('should filter by creation date and name', async () => {
+      const recent = await paginate(
+        Project,
+        { userId },
+        { createdAfter: new Date('2024-02-15') },
+        config
+      );
+      const matching = await paginate(Project, { userId }, { nameContains: 'SUPPORT' }, config);
+
+      expect(recent.pagination.total).toBe(3);
+      expect(matching.items.map((p) => p.name)).toEqual(['Echo support']);
+    });
+
+    it('should treat nameContains as literal text', async () => {
+      const { items } = await paginate(Project, { userId }, { nameContains: '.*' }, config);
+
+      expect(items).toHaveLength(0);
+    });
+
+    it('should reject cursors issued for another sort order', async () => {
+      const { pagination } = await paginate(Project, { userId }, { limit: 1, sort: 'name' }, config);
+
+      await expect(
+        paginate(Project, { userId }, { cursor: pagination.nextCursor!, sort: '-name' }, config)
+      ).rejects.toThrow(ERROR_MESSAGES.CURSOR_INVALID);
+      await expect(
+        paginate(Project, { userId }, { cursor: 'not-a-cursor' }, config)
+      ).rejects.toThrow(ERROR_MESSAGES.CURSOR_INVALID);
+    });
+
+    it('should reject cursors whose value is not a string or not a date', async () => {
+      const id = new mongoose.Types.ObjectId().toString();
+      const operator = Buffer.from(
+        JSON.stringify({ sort: 'name', value: { $ne: null }, id })
+      ).toString('base64url');
+      const notDate = Buffer.from(
+        JSON.stringify({ sort: '-createdAt', value: 'yesterday', id })
+      ).toString('base64url');
+
+      await expect(
+        paginate(Project, { userId }, { cursor: operator, sort: 'name' }, config)
+      ).rejects.toThrow(ERROR_MESSAGES.CURSOR_INVALID);
+      await expect(
+        paginate(Project, { userId }, { cursor: notDate }, config)
+      ).rejects.toThrow(ERROR_MESSAGES.CURSOR_INVALID);
+    });
+
+    it('should keep a createdAt condition of the base filter when filtering by createdAfter', async () => {
+      const { items } = await paginate(
+        Project,
+        { userId, createdAt: { $lt: new Date('2024-03-15') } },
+        { createdAfter: new Date('2024-01-15'), sort: 'name' },
+        config
+      );
+
+      expect(items.map((p) => p.name)).toEqual(['Bravo', 'Charlie', 'alpha']);
+    });
+  });
+});
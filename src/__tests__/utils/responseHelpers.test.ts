@@ -67,7 +67,7 @@ describe('Response Helpers', () => {
       const data = [{ id: 1 }];
       const count = 1;
 
-      sendSuccessWithCount(mockResponse as Response, data, count, HTTP_STATUS.CREATED);
+      sendSuccessWithCount(mockResponse as Response, data, count, undefined, HTTP_STATUS.CREATED);
 
       expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.CREATED);
       expect(mockResponse.json).toHaveBeenCalledWith({
@@ -76,6 +76,20 @@ describe('Response Helpers', () => {
         data,
       });
     });
+
+    it('should include pagination metadata when provided', () => {
+      const data = [{ id: 1 }];
+      const pagination = { page: 1, limit: 1, total: 3, hasMore: true, nextCursor: 'abc' };
+
+      sendSuccessWithCount(mockResponse as Response, data, 1, pagination);
+
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        success: true,
+        count: 1,
+        pagination,
+        data,
+      });
+    });
   });
 
   describe('sendCreated', () => {
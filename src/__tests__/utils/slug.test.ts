@@ -0,0 +1,53 @@
+/**
+ * Slug Utilities Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { generateUniqueSlug, isValidSlug, slugify } from '../../utils/slug';
+
+describe('Slug Utilities', () => {
+  describe('slugify', () => {
+    it('should lowercase and hyphenate names', () => {
+      expect(slugify('Customer Support Bot')).toBe('customer-support-bot');
+      expect(slugify('  Welcome -- Email!  ')).toBe('welcome-email');
+    });
+
+    it('should strip accents', () => {
+      expect(slugify('Café Résumé')).toBe('cafe-resume');
+    });
+
+    it('should fall back when nothing usable is left', () => {
+      expect(slugify('***')).toBe('untitled');
+    });
+
+    it('should cap the slug length', () => {
+      const slug = slugify(`${'a'.repeat(99)} b`);
+
+      expect(slug).toBe('a'.repeat(99));
+      expect(isValidSlug(slug)).toBe(true);
+    });
+  });
+
+  describe('isValidSlug', () => {
+    it('should reject values that look like an ObjectId', () => {
+      expect(isValidSlug('507f1f77bcf86cd799439011')).toBe(false);
+      expect(isValidSlug('507f1f77bcf86cd799439011-2')).toBe(true);
+    });
+  });
+
+  describe('generateUniqueSlug', () => {
+    it('should append a counter while the slug is taken', async () => {
+      const taken = new Set(['welcome', 'welcome-2']);
+
+      const slug = await generateUniqueSlug('Welcome', async (candidate) => taken.has(candidate));
+
+      expect(slug).toBe('welcome-3');
+    });
+
+    it('should not generate a slug that looks like an ObjectId', async () => {
+      const slug = await generateUniqueSlug('507f1f77bcf86cd799439011', async () => false);
+
+      expect(slug).toBe('507f1f77bcf86cd799439011-2');
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Template Utilities Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  extractTemplateVariables,
+  buildVariableDefinitions,
+  getTemplateText,
+  renderMessages,
+  renderTemplate,
+} from '../../utils/template';
+import { ApiError } from '../../middleware/errorHandler';
+import { HTTP_STATUS } from '../../constants';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+
+describe('Template Utilities', () => {
+  describe('extractTemplateVariables', () => {
+    it('should extract unique variable names in order of appearance', () => {
+      const text = 'Hello {{customer_name}}, your order {{ order_id }} ships to {{customer_name}}';
+      expect(extractTemplateVariables(text)).toEqual(['customer_name', 'order_id']);
+    });
+
+    it('should return an empty array when there are no placeholders', () => {
+      expect(extractTemplateVariables('Plain prompt text')).toEqual([]);
+    });
+
+    it('should ignore malformed placeholders', () => {
+      expect(extractTemplateVariables('{{1abc}} {{ }} {single}')).toEqual([]);
+    });
+  });
+
+  describe('buildVariableDefinitions', () => {
+    it('should default every placeholder to type string', () => {
+      expect(buildVariableDefinitions('Hi {{name}}')).toEqual([{ name: 'name', type: 'string' }]);
+    });
+
+    it('should apply supplied type hints and defaults', () => {
+      const variables = buildVariableDefinitions('{{count}} {{tone}}', [
+        { name: 'count', type: 'number', defaultValue: 3 },
+        { name: 'tone', type: 'enum', enumValues: ['formal', 'casual'] },
+      ]);
+
+      expect(variables).toEqual([
+        { name: 'count', type: 'number', defaultValue: 3 },
+        { name: 'tone', type: 'enum', enumValues: ['formal', 'casual'] },
+      ]);
+    });
+
+    it('should reject definitions for variables not in the text when strict', () => {
+      expect(() => buildVariableDefinitions('Hi {{name}}', [{ name: 'other' }])).toThrow(
+        ERROR_MESSAGES.VARIABLE_NOT_IN_TEMPLATE('other')
+      );
+    });
+
+    it('should drop definitions for removed variables when not strict', () => {
+      expect(buildVariableDefinitions('Hi {{name}}', [{ name: 'other' }], false)).toEqual([
+        { name: 'name', type: 'string' },
+      ]);
+    });
+
+    it('should reject duplicate definitions', () => {
+      expect(() =>
+        buildVariableDefinitions('Hi {{name}}', [{ name: 'name' }, { name: 'name' }])
+      ).toThrow(ERROR_MESSAGES.VARIABLE_DEFINED_TWICE('name'));
+    });
+
+    it('should reject defaults that do not match the type', () => {
+      expect(() =>
+        buildVariableDefinitions('{{count}}', [{ name: 'count', type: 'number', defaultValue: 'many' }])
+      ).toThrow(ERROR_MESSAGES.VARIABLE_DEFAULT_INVALID('count'));
+    });
+  });
+
+  describe('renderTemplate', () => {
+    const variables = buildVariableDefinitions('Dear {{name}}, pay {{amount}} {{currency}}', [
+      { name: 'amount', type: 'number' },
+      { name: 'currency', type: 'enum', enumValues: ['USD', 'EUR'], defaultValue: 'USD' },
+    ]);
+
+    it('should substitute values and apply defaults', () => {
+      const result = renderTemplate('Dear {{name}}, pay {{amount}} {{currency}}', variables, {
+        name: 'Ada',
+        amount: '12.5',
+      });
+
+      expect(result.renderedText).toBe('Dear Ada, pay 12.5 USD');
+      expect(result.values).toEqual({ name: 'Ada', amount: 12.5, currency: 'USD' });
+    });
+
+    it('should report missing, unknown and invalid variables together', () => {
+      let thrown: ApiError | undefined;
+      try {
+        renderTemplate('Dear {{name}}, pay {{amount}} {{currency}}', variables, {
+          amount: 'lots',
+          currency: 'GBP',
+          extra: true,
+        });
+      } catch (error) {
+        thrown = error as ApiError;
+      }
+
+      expect(thrown?.message).toBe(ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID);
+      expect(thrown?.statusCode).toBe(HTTP_STATUS.BAD_REQUEST);
+      expect(thrown?.details).toEqual({
+        missing: ['name'],
+        unknown: ['extra'],
+        invalid: [
+          { name: 'amount', message: ERROR_MESSAGES.TEMPLATE_VARIABLE_NOT_NUMBER('amount') },
+          {
+            name: 'currency',
+            message: ERROR_MESSAGES.TEMPLATE_VARIABLE_NOT_IN_ENUM('currency', ['USD', 'EUR']),
+          },
+        ],
+      });
+    });
+
+    it('should not take values of placeholders named like prototype members', () => {
+      const text = 'Use {{constructor}} and {{toString}}';
+      let thrown: ApiError | undefined;
+      try {
+        renderTemplate(text, buildVariableDefinitions(text), {});
+      } catch (error) {
+        thrown = error as ApiError;
+      }
+
+      expect(thrown?.details).toEqual({
+        missing: ['constructor', 'toString'],
+        unknown: [],
+        invalid: [],
+      });
+    });
+  });
+
+  describe('renderMessages', () => {
+    const messages = [
+      { role: 'system' as const, content: 'You answer in {{language}}.' },
+      { role: 'user' as const, content: 'Hello, I am {{name}}' },
+    ];
+    const variables = buildVariableDefinitions(getTemplateText({ format: 'chat', messages }));
+
+    it('should list the messages one after another in the template text', () => {
+      expect(getTemplateText({ format: 'chat', messages })).toBe(
+        '[system]\nYou answer in {{language}}.\n\n[user]\nHello, I am {{name}}'
+      );
+      expect(variables.map((variable) => variable.name)).toEqual(['language', 'name']);
+    });
+
+    it('should substitute values in every message and keep the roles', () => {
+      const result = renderMessages(messages, variables, { language: 'French', name: 'Ada' });
+
+      expect(result.messages).toEqual([
+        { role: 'system', content: 'You answer in French.' },
+        { role: 'user', content: 'Hello, I am Ada' },
+      ]);
+      expect(result.values).toEqual({ language: 'French', name: 'Ada' });
+    });
+
+    it('should report variables missing from any message', () => {
+      expect(() => renderMessages(messages, variables, { name: 'Ada' })).toThrow(
+        ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID
+      );
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * TOTP Utilities Tests
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildOtpauthUri,
+  decodeBase32,
+  encodeBase32,
+  generateHotp,
+  generateSecret,
+  generateTotp,
+  verifyTotp,
+} from '../../utils/totp';
+
+describe('TOTP Utilities', () => {
+  // Shared secret of the RFC 4226 and RFC 6238 test vectors
+  const secret = encodeBase32(Buffer.from('12345678901234567890'));
+
+  describe('base32', () => {
+    it('should round-trip bytes', () => {
+      expect(secret).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+      expect(decodeBase32(secret).toString()).toBe('12345678901234567890');
+      expect(decodeBase32('gezd gnbv gy3t qojq gezd gnbv gy3t qojq====').toString()).toBe(
+        '12345678901234567890'
+      );
+    });
+
+    it('should reject characters outside the alphabet', () => {
+      expect(() => decodeBase32('ABC1')).toThrow("Invalid base32 character '1'");
+    });
+
+    it('should generate 160-bit secrets', () => {
+      expect(decodeBase32(generateSecret())).toHaveLength(20);
+    });
+  });
+
+  describe('generateHotp', () => {
+    it('should match the RFC 4226 test vectors', () => {
+      const expected = [
+        '755224', '287082', '359152', '969429', '338314',
+        '254676', '287922', '162583', '399871', '520489',
+      ];
+
+      expect(expected.map((_, counter) => generateHotp(secret, counter))).toEqual(expected);
+    });
+  });
+
+  describe('generateTotp', () => {
+    it('should match the RFC 6238 SHA-1 test vectors', () => {
+      const vectors: [number, string][] = [
+        [59, '94287082'],
+        [1111111109, '07081804'],
+        [1111111111, '14050471'],
+        [1234567890, '89005924'],
+        [2000000000, '69279037'],
+        [20000000000, '65353130'],
+      ];
+
+      for (const [seconds, code] of vectors) {
+        expect(generateTotp(secret, seconds * 1000, 8)).toBe(code);
+      }
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const time = 1111111111 * 1000;
+
+    it('should return the time step of a matching code', () => {
+      expect(verifyTotp(secret, generateTotp(secret, time), time)).toBe(37037037);
+    });
+
+    it('should accept codes from the neighbouring periods only', () => {
+      expect(verifyTotp(secret, generateTotp(secret, time - 30000), time)).toBe(37037036);
+      expect(verifyTotp(secret, generateTotp(secret, time + 30000), time)).toBe(37037038);
+      expect(verifyTotp(secret, generateTotp(secret, time - 60000), time)).toBeNull();
+    });
+
+    it('should reject malformed codes', () => {
+      expect(verifyTotp(secret, '12345', time)).toBeNull();
+      expect(verifyTotp(secret, 'abcdef', time)).toBeNull();
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    it('should label the secret with the issuer and account', () => {
+      const uri = new URL(buildOtpauthUri(secret, 'user@example.com'));
+
+      expect(uri.protocol).toBe('otpauth:');
+      expect(uri.host).toBe('totp');
+      expect(decodeURIComponent(uri.pathname)).toBe('/Ameeba:user@example.com');
+      expect(uri.searchParams.get('secret')).toBe(secret);
+      expect(uri.searchParams.get('issuer')).toBe('Ameeba');
+      expect(uri.searchParams.get('period')).toBe('30');
+    });
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Transaction Utility Tests
+ */
+
+import { describe, it, expect, jest } from '@jest/globals';
+import mongoose from 'mongoose';
+import { runInTransaction, isConcurrentWriteError } from '../../utils/transaction';
+import { ERROR_MESSAGES } from '../../constants/errorMessages';
+import { HTTP_STATUS, TRANSACTION } from '../../constants';
+
+/**
+ * Build a driver error carrying the TransientTransactionError label
+ */
+const createTransientError = (): InstanceType<typeof mongoose.mongo.MongoServerError> => {
+  const error = new mongoose.mongo.MongoServerError({ message: 'Write conflict', code: 112 });
+  error.addErrorLabel('TransientTransactionError');
+  return error;
+};
+
+describe('Transaction Utilities', () => {
+  describe('isConcurrentWriteError', () => {
+    it('should detect transient transaction errors and write conflicts', () => {
+      expect(isConcurrentWriteError(createTransientError())).toBe(true);
+      expect(isConcurrentWriteError({ code: 112 })).toBe(true);
+    });
+
+    it('should detect collisions on the active version index only', () => {
+      expect(isConcurrentWriteError({ code: 11000, keyPattern: { promptId: 1, activePrompt: 1 } })).toBe(
+        true
+      );
+      expect(isConcurrentWriteError({ code: 11000, keyPattern: { email: 1 } })).toBe(false);
+    });
+
+    it('should ignore other errors', () => {
+      expect(isConcurrentWriteError(new Error('boom'))).toBe(false);
+      expect(isConcurrentWriteError(undefined)).toBe(false);
+    });
+  });
+
+  describe('runInTransaction', () => {
+    it('should return the result of the work', async () => {
+      const result = await runInTransaction(async () => 'done');
+
+      expect(result).toBe('done');
+    });
+
+    it('should rethrow errors that are not conflicts without retrying', async () => {
+      const work = jest.fn(async () => {
+        throw new Error('boom');
+      });
+
+      await expect(runInTransaction(work)).rejects.toThrow('boom');
+      expect(work).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry conflicts and then report a retryable 409', async () => {
+      const work = jest.fn(async () => {
+        throw createTransientError();
+      });
+
+      await expect(runInTransaction(work)).rejects.toMatchObject({
+        message: ERROR_MESSAGES.CONCURRENT_UPDATE_CONFLICT,
+        statusCode: HTTP_STATUS.CONFLICT,
+        details: { retryable: true },
+      });
+      expect(work).toHaveBeenCalledTimes(TRANSACTION.MAX_ATTEMPTS);
+    });
+  });
+});
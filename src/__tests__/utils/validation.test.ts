@@ -15,9 +15,14 @@ import {
 } from '../../utils/validation';
 import { ERROR_MESSAGES } from '../../constants/errorMessages';
 import Project from '../../models/Project';
+import Prompt from '../../models/Prompt';
 
-// Mock Project model
+// Mock Project and Prompt models
 jest.mock('../../models/Project');
+jest.mock('../../models/Prompt');
+
+// Let slug lookups in the ID middlewares settle
+const flushPromises = () => new Promise((resolve) => setImmediate(resolve));
 
 describe('Validation Utilities', () => {
   describe('validateObjectId', () => {
@@ -77,6 +82,442 @@ describe('Validation Utilities', () => {
       });
     });
 
+    describe('variables validation', () => {
+      it('should pass for valid variable definitions', () => {
+        expect(() =>
+          validateRequest({
+            variables: [
+              { name: 'customer_name' },
+              { name: 'tone', type: 'enum', enumValues: ['formal', 'casual'] },
+            ],
+          })
+        ).not.toThrow();
+      });
+
+      it('should throw error when variables is not an array', () => {
+        expect(() => validateRequest({ variables: 'name' })).toThrow(
+          ERROR_MESSAGES.VARIABLES_MUST_BE_ARRAY
+        );
+      });
+
+      it('should throw error for invalid variable names', () => {
+        expect(() => validateRequest({ variables: [{ name: 'first name' }] })).toThrow(
+          ERROR_MESSAGES.VARIABLE_NAME_INVALID
+        );
+      });
+
+      it('should throw error for unsupported variable types', () => {
+        expect(() => validateRequest({ variables: [{ name: 'flag', type: 'boolean' }] })).toThrow(
+          ERROR_MESSAGES.VARIABLE_TYPE_INVALID('flag')
+        );
+      });
+
+      it('should throw error for enum variables without values', () => {
+        expect(() => validateRequest({ variables: [{ name: 'tone', type: 'enum' }] })).toThrow(
+          ERROR_MESSAGES.VARIABLE_ENUM_VALUES_REQUIRED('tone')
+        );
+      });
+
+      it('should throw error when render variables are not an object', () => {
+        expect(() => validateRequest({ renderVariables: ['Ada'] })).toThrow(
+          ERROR_MESSAGES.RENDER_VARIABLES_MUST_BE_OBJECT
+        );
+      });
+    });
+
+    describe('chat message validation', () => {
+      it('should pass for known formats and well-formed messages', () => {
+        expect(() =>
+          validateRequest({
+            promptFormat: 'chat',
+            messages: [
+              { role: 'system', content: 'Be brief.' },
+              { role: 'user', content: '{{question}}' },
+            ],
+          })
+        ).not.toThrow();
+      });
+
+      it('should throw error for unknown formats', () => {
+        expect(() => validateRequest({ promptFormat: 'json' })).toThrow(
+          ERROR_MESSAGES.PROMPT_FORMAT_INVALID
+        );
+      });
+
+      it('should throw error for missing or empty messages', () => {
+        expect(() => validateRequest({ messages: [] })).toThrow(
+          ERROR_MESSAGES.CHAT_MESSAGES_REQUIRED
+        );
+        expect(() => validateRequest({ messages: 'Hello' })).toThrow(
+          ERROR_MESSAGES.CHAT_MESSAGES_REQUIRED
+        );
+        expect(() => validateRequest({ messages: ['Hello'] })).toThrow(
+          ERROR_MESSAGES.CHAT_MESSAGE_INVALID(0)
+        );
+      });
+
+      it('should throw error for unknown roles and empty content', () => {
+        expect(() =>
+          validateRequest({ messages: [{ role: 'tool', content: 'Hello' }] })
+        ).toThrow(ERROR_MESSAGES.CHAT_MESSAGE_ROLE_INVALID(0));
+        expect(() =>
+          validateRequest({
+            messages: [
+              { role: 'system', content: 'Be brief.' },
+              { role: 'user', content: '  ' },
+            ],
+          })
+        ).toThrow(ERROR_MESSAGES.CHAT_MESSAGE_CONTENT_REQUIRED(1));
+      });
+    });
+
+    describe('modelConfig validation', () => {
+      it('should pass for a configuration within the limits of its provider', () => {
+        expect(() =>
+          validateRequest({
+            modelConfig: {
+              provider: 'openai',
+              model: 'gpt-4o',
+              temperature: 1.5,
+              topP: 0.9,
+              maxTokens: 1024,
+              stopSequences: ['END'],
+              responseFormat: 'json_object',
+              extraParams: { seed: 42 },
+            },
+          })
+        ).not.toThrow();
+        expect(() => validateRequest({ modelConfig: null })).not.toThrow();
+      });
+
+      it('should throw error for unknown providers, fields and missing model names', () => {
+        expect(() => validateRequest({ modelConfig: { provider: 'acme', model: 'x' } })).toThrow(
+          /modelConfig.provider must be one of/
+        );
+        expect(() =>
+          validateRequest({ modelConfig: { provider: 'openai', model: 'gpt-4o', max_tokens: 10 } })
+        ).toThrow(ERROR_MESSAGES.MODEL_CONFIG_FIELD_UNKNOWN('max_tokens'));
+        expect(() => validateRequest({ modelConfig: { provider: 'openai' } })).toThrow(
+          ERROR_MESSAGES.MODEL_NAME_INVALID
+        );
+      });
+
+      it('should apply the limits of the provider', () => {
+        const anthropic = { provider: 'anthropic', model: 'claude-sonnet-4-5' };
+
+        expect(() => validateRequest({ modelConfig: { ...anthropic, temperature: 1.5 } })).toThrow(
+          ERROR_MESSAGES.MODEL_TEMPERATURE_INVALID('anthropic', 1)
+        );
+        expect(() =>
+          validateRequest({ modelConfig: { ...anthropic, responseFormat: 'json_object' } })
+        ).toThrow(ERROR_MESSAGES.MODEL_RESPONSE_FORMAT_INVALID('anthropic', ['text']));
+        expect(() =>
+          validateRequest({
+            modelConfig: { provider: 'openai', model: 'gpt-4o', stopSequences: ['1', '2', '3', '4', '5'] },
+          })
+        ).toThrow(ERROR_MESSAGES.MODEL_STOP_SEQUENCES_INVALID('openai', 4));
+      });
+
+      it('should throw error for invalid numbers and reserved extra params', () => {
+        const openai = { provider: 'openai', model: 'gpt-4o' };
+
+        expect(() => validateRequest({ modelConfig: { ...openai, topP: 2 } })).toThrow(
+          ERROR_MESSAGES.MODEL_TOP_P_INVALID
+        );
+        expect(() => validateRequest({ modelConfig: { ...openai, maxTokens: 1.5 } })).toThrow(
+          ERROR_MESSAGES.MODEL_MAX_TOKENS_INVALID
+        );
+        expect(() =>
+          validateRequest({ modelConfig: { ...openai, extraParams: { temperature: 0 } } })
+        ).toThrow(ERROR_MESSAGES.MODEL_EXTRA_PARAM_RESERVED('temperature'));
+      });
+    });
+
+    describe('outputSchema validation', () => {
+      it('should pass for valid JSON Schemas and null', () => {
+        expect(() =>
+          validateRequest({
+            outputSchema: {
+              type: 'object',
+              properties: { sentiment: { enum: ['positive', 'negative'] } },
+              required: ['sentiment'],
+            },
+          })
+        ).not.toThrow();
+        expect(() => validateRequest({ outputSchema: true })).not.toThrow();
+        expect(() => validateRequest({ outputSchema: null })).not.toThrow();
+      });
+
+      it('should throw error for invalid schemas with the reason', () => {
+        expect(() => validateRequest({ outputSchema: { type: 'text' } })).toThrow(
+          /outputSchema is not a valid JSON Schema: type at # must be/
+        );
+        expect(() => validateRequest({ outputSchema: [] })).toThrow(
+          ERROR_MESSAGES.OUTPUT_SCHEMA_INVALID(ERROR_MESSAGES.JSON_SCHEMA_NOT_A_SCHEMA('#'))
+        );
+      });
+
+      it('should throw error for outputs that are not strings', () => {
+        expect(() => validateRequest({ modelOutput: '{"a": 1}' })).not.toThrow();
+        expect(() => validateRequest({ modelOutput: null })).toThrow(
+          ERROR_MESSAGES.MODEL_OUTPUT_INVALID
+        );
+      });
+    });
+
+    describe('tools validation', () => {
+      const toolId = new mongoose.Types.ObjectId().toString();
+
+      it('should pass for inline tools and references to the tool library', () => {
+        expect(() =>
+          validateRequest({
+            tools: [
+              {
+                name: 'get_weather',
+                description: 'Current weather',
+                parameters: { type: 'object', properties: { city: { type: 'string' } } },
+              },
+              { toolId },
+            ],
+          })
+        ).not.toThrow();
+      });
+
+      it('should throw error for invalid names and duplicate names', () => {
+        expect(() => validateRequest({ tools: [{ name: 'get weather' }] })).toThrow(
+          ERROR_MESSAGES.TOOL_NAME_INVALID
+        );
+        expect(() => validateRequest({ tools: [{ name: 'a' }, { name: 'a' }] })).toThrow(
+          ERROR_MESSAGES.TOOL_NAME_DUPLICATE('a')
+        );
+      });
+
+      it('should throw error for parameters that are not an object schema', () => {
+        expect(() =>
+          validateRequest({ tools: [{ name: 'a', parameters: { type: 'string' } }] })
+        ).toThrow(/Tool parameters must be a JSON Schema for an object/);
+        expect(() =>
+          validateRequest({ toolParameters: { properties: { n: { minimum: 'x' } } } })
+        ).toThrow(
+          ERROR_MESSAGES.TOOL_PARAMETERS_INVALID(
+            ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_INVALID('#/properties/n', 'minimum', 'a number')
+          )
+        );
+      });
+
+      it('should not let references override the library definition', () => {
+        expect(() => validateRequest({ tools: [{ toolId, name: 'other' }] })).toThrow(
+          ERROR_MESSAGES.TOOL_REFERENCE_FIELDS_NOT_ALLOWED
+        );
+      });
+    });
+
+    describe('accessMode validation', () => {
+      it('should pass for supported access modes', () => {
+        expect(() => validateRequest({ accessMode: 'public' })).not.toThrow();
+        expect(() => validateRequest({ accessMode: 'api_key' })).not.toThrow();
+        expect(() => validateRequest({ accessMode: 'owner' })).not.toThrow();
+      });
+
+      it('should throw error for unsupported access modes', () => {
+        expect(() => validateRequest({ accessMode: 'private' })).toThrow(
+          ERROR_MESSAGES.ACCESS_MODE_INVALID
+        );
+      });
+    });
+
+    describe('environment validation', () => {
+      it('should pass for lowercase environment names', () => {
+        expect(() => validateRequest({ environment: 'staging' })).not.toThrow();
+        expect(() => validateRequest({ environment: 'eu-prod-2' })).not.toThrow();
+      });
+
+      it('should throw error for invalid environment names', () => {
+        expect(() => validateRequest({ environment: 'Staging' })).toThrow(
+          ERROR_MESSAGES.ENVIRONMENT_NAME_INVALID
+        );
+        expect(() => validateRequest({ environment: '' })).toThrow(
+          ERROR_MESSAGES.ENVIRONMENT_NAME_INVALID
+        );
+      });
+    });
+
+    describe('versionId validation', () => {
+      it('should throw error for empty versionId', () => {
+        expect(() => validateRequest({ versionId: '' })).toThrow(ERROR_MESSAGES.VERSION_ID_REQUIRED);
+      });
+
+      it('should throw error for malformed versionId', () => {
+        expect(() => validateRequest({ versionId: 'abc' })).toThrow();
+      });
+    });
+
+    describe('diff parameter validation', () => {
+      it('should pass for version labels and supported formats', () => {
+        expect(() =>
+          validateRequest({ fromVersion: 'v1', toVersion: 'v12', diffFormat: 'unified' })
+        ).not.toThrow();
+      });
+
+      it('should throw error for missing or malformed version labels', () => {
+        expect(() => validateRequest({ fromVersion: '' })).toThrow(
+          ERROR_MESSAGES.VERSION_LABEL_INVALID('from')
+        );
+        expect(() => validateRequest({ toVersion: '5' })).toThrow(
+          ERROR_MESSAGES.VERSION_LABEL_INVALID('to')
+        );
+      });
+
+      it('should throw error for unsupported formats', () => {
+        expect(() => validateRequest({ diffFormat: 'html' })).toThrow(ERROR_MESSAGES.DIFF_FORMAT_INVALID);
+      });
+    });
+
+    describe('rollback target validation', () => {
+      it('should pass for previous, version labels and version IDs', () => {
+        expect(() => validateRequest({ rollbackTarget: 'previous' })).not.toThrow();
+        expect(() => validateRequest({ rollbackTarget: 'v3' })).not.toThrow();
+        expect(() =>
+          validateRequest({ rollbackTarget: new mongoose.Types.ObjectId().toString() })
+        ).not.toThrow();
+      });
+
+      it('should throw error for other targets', () => {
+        expect(() => validateRequest({ rollbackTarget: 'latest' })).toThrow(
+          ERROR_MESSAGES.ROLLBACK_TARGET_INVALID
+        );
+      });
+    });
+
+    describe('slug validation', () => {
+      it('should pass for lowercase hyphenated slugs', () => {
+        expect(() => validateRequest({ slug: 'welcome-email-2' })).not.toThrow();
+      });
+
+      it('should throw error for malformed slugs', () => {
+        expect(() => validateRequest({ slug: 'Welcome Email' })).toThrow(ERROR_MESSAGES.SLUG_INVALID);
+        expect(() => validateRequest({ slug: 'double--hyphen' })).toThrow(ERROR_MESSAGES.SLUG_INVALID);
+        expect(() => validateRequest({ slug: 'a'.repeat(101) })).toThrow(ERROR_MESSAGES.SLUG_INVALID);
+      });
+
+      it('should throw error for slugs that look like an ID', () => {
+        expect(() =>
+          validateRequest({ slug: new mongoose.Types.ObjectId().toString() })
+        ).toThrow(ERROR_MESSAGES.SLUG_INVALID);
+      });
+    });
+
+    describe('prompt reference validation', () => {
+      const id = () => new mongoose.Types.ObjectId().toString();
+
+      it('should pass for prompt ids and project/prompt slugs', () => {
+        expect(() => validateRequest({ promptReferences: [id(), 'acme/welcome-email'] })).not.toThrow();
+      });
+
+      it('should throw error for an empty or oversized list', () => {
+        expect(() => validateRequest({ promptReferences: [] })).toThrow(
+          ERROR_MESSAGES.BATCH_PROMPTS_INVALID
+        );
+        expect(() =>
+          validateRequest({ promptReferences: Array.from({ length: 51 }, id) })
+        ).toThrow(ERROR_MESSAGES.BATCH_PROMPTS_INVALID);
+      });
+
+      it('should throw error for malformed references', () => {
+        expect(() => validateRequest({ promptReferences: ['welcome-email'] })).toThrow(
+          ERROR_MESSAGES.BATCH_PROMPTS_INVALID
+        );
+        expect(() => validateRequest({ promptReferences: ['acme/Welcome Email'] })).toThrow(
+          ERROR_MESSAGES.BATCH_PROMPTS_INVALID
+        );
+        expect(() => validateRequest({ promptReferences: [42] })).toThrow(
+          ERROR_MESSAGES.BATCH_PROMPTS_INVALID
+        );
+      });
+    });
+
+    describe('list query validation', () => {
+      it('should pass for valid pagination, sort and filter parameters', () => {
+        expect(() =>
+          validateRequest({
+            page: '2',
+            limit: '100',
+            sort: '-updatedAt',
+            createdAfter: '2024-01-01',
+            nameContains: 'support',
+          })
+        ).not.toThrow();
+      });
+
+      it('should throw error for invalid page and limit', () => {
+        expect(() => validateRequest({ page: '0' })).toThrow(ERROR_MESSAGES.PAGE_INVALID);
+        expect(() => validateRequest({ page: '1.5' })).toThrow(ERROR_MESSAGES.PAGE_INVALID);
+        expect(() => validateRequest({ limit: '101' })).toThrow(ERROR_MESSAGES.LIMIT_INVALID);
+        expect(() => validateRequest({ limit: 'ten' })).toThrow(ERROR_MESSAGES.LIMIT_INVALID);
+      });
+
+      it('should throw error when page and cursor are combined', () => {
+        expect(() => validateRequest({ page: '2', cursor: 'abc' })).toThrow(
+          ERROR_MESSAGES.PAGE_AND_CURSOR_CONFLICT
+        );
+      });
+
+      it('should throw error for unknown sort fields', () => {
+        expect(() => validateRequest({ sort: 'promptText' })).toThrow(ERROR_MESSAGES.SORT_INVALID);
+        expect(() => validateRequest({ sort: '--name' })).toThrow(ERROR_MESSAGES.SORT_INVALID);
+      });
+
+      it('should throw error for invalid filters', () => {
+        expect(() => validateRequest({ createdAfter: 'yesterday' })).toThrow(
+          ERROR_MESSAGES.CREATED_AFTER_INVALID
+        );
+        expect(() => validateRequest({ nameContains: '  ' })).toThrow(
+          ERROR_MESSAGES.NAME_CONTAINS_INVALID
+        );
+      });
+    });
+
+    describe('experiment validation', () => {
+      const variant = (weight: unknown = 50) => ({
+        versionId: new mongoose.Types.ObjectId().toString(),
+        weight,
+      });
+
+      it('should pass for two to ten weighted variants', () => {
+        expect(() => validateRequest({ experimentVariants: [variant(), variant(1000)] })).not.toThrow();
+      });
+
+      it('should throw error for fewer than two variants', () => {
+        expect(() => validateRequest({ experimentVariants: [variant()] })).toThrow(
+          ERROR_MESSAGES.EXPERIMENT_VARIANTS_INVALID
+        );
+      });
+
+      it('should throw error for invalid weights', () => {
+        expect(() => validateRequest({ experimentVariants: [variant(), variant(0)] })).toThrow(
+          ERROR_MESSAGES.EXPERIMENT_VARIANT_WEIGHT_INVALID
+        );
+        expect(() => validateRequest({ experimentVariants: [variant(), variant(2.5)] })).toThrow(
+          ERROR_MESSAGES.EXPERIMENT_VARIANT_WEIGHT_INVALID
+        );
+      });
+
+      it('should throw error for duplicate versions', () => {
+        const first = variant();
+        expect(() =>
+          validateRequest({ experimentVariants: [first, { ...first, weight: 10 }] })
+        ).toThrow(ERROR_MESSAGES.EXPERIMENT_VARIANT_DUPLICATE);
+      });
+
+      it('should validate subjectId length', () => {
+        expect(() => validateRequest({ subjectId: 'user-42' })).not.toThrow();
+        expect(() => validateRequest({ subjectId: '' })).toThrow(ERROR_MESSAGES.SUBJECT_ID_INVALID);
+        expect(() => validateRequest({ subjectId: 'x'.repeat(201) })).toThrow(
+          ERROR_MESSAGES.SUBJECT_ID_INVALID
+        );
+      });
+    });
+
     describe('isActive validation', () => {
       it('should pass for boolean true', () => {
         expect(() => validateRequest({ isActive: true })).not.toThrow();
@@ -147,6 +588,82 @@ describe('Validation Utilities', () => {
       });
     });
 
+    describe('organization validation', () => {
+      it('should pass for a valid organization ID and role', () => {
+        expect(() =>
+          validateRequest({
+            organizationId: new mongoose.Types.ObjectId().toString(),
+            organizationRole: 'editor',
+          })
+        ).not.toThrow();
+      });
+
+      it('should throw error for an invalid organization ID', () => {
+        expect(() => validateRequest({ organizationId: 'not-an-id' })).toThrow(
+          'Invalid Organization ID format'
+        );
+        expect(() => validateRequest({ organizationId: 42 })).toThrow(
+          'Invalid Organization ID format'
+        );
+      });
+
+      it('should throw error for an unknown role', () => {
+        expect(() => validateRequest({ organizationRole: 'superuser' })).toThrow(
+          ERROR_MESSAGES.ORGANIZATION_ROLE_INVALID
+        );
+      });
+    });
+
+    describe('invitation token validation', () => {
+      it('should pass for a non-empty token', () => {
+        expect(() => validateRequest({ invitationToken: 'a.b.c' })).not.toThrow();
+      });
+
+      it('should throw error for an empty or non-string token', () => {
+        expect(() => validateRequest({ invitationToken: '  ' })).toThrow(
+          ERROR_MESSAGES.INVITATION_TOKEN_REQUIRED
+        );
+        expect(() => validateRequest({ invitationToken: 42 })).toThrow(
+          ERROR_MESSAGES.INVITATION_TOKEN_REQUIRED
+        );
+      });
+    });
+
+    describe('refresh token validation', () => {
+      it('should throw error for an empty refresh token', () => {
+        expect(() => validateRequest({ refreshToken: '' })).toThrow(
+          ERROR_MESSAGES.REFRESH_TOKEN_REQUIRED
+        );
+        expect(() => validateRequest({ refreshToken: 'abc' })).not.toThrow();
+      });
+    });
+
+    describe('verification token validation', () => {
+      it('should require a non-empty string token', () => {
+        expect(() => validateRequest({ verificationToken: '' })).toThrow(
+          ERROR_MESSAGES.VERIFICATION_TOKEN_REQUIRED
+        );
+        expect(() => validateRequest({ verificationToken: ['a', 'b'] })).toThrow(
+          ERROR_MESSAGES.VERIFICATION_TOKEN_REQUIRED
+        );
+        expect(() => validateRequest({ verificationToken: 'abc' })).not.toThrow();
+      });
+    });
+
+    describe('password reset validation', () => {
+      it('should require a reset token and the current password', () => {
+        expect(() => validateRequest({ resetToken: ' ' })).toThrow(
+          ERROR_MESSAGES.RESET_TOKEN_REQUIRED
+        );
+        expect(() => validateRequest({ currentPassword: '' })).toThrow(
+          ERROR_MESSAGES.CURRENT_PASSWORD_REQUIRED
+        );
+        expect(() =>
+          validateRequest({ resetToken: 'abc', currentPassword: 'old-password' })
+        ).not.toThrow();
+      });
+    });
+
     describe('multiple field validation', () => {
       it('should validate all provided fields', () => {
         expect(() =>
@@ -192,13 +709,43 @@ describe('Validation Utilities', () => {
     });
 
     it('should throw error for invalid projectId', () => {
-      mockRequest.params = { projectId: 'invalid-id' };
+      mockRequest.params = { projectId: 'Invalid ID!' };
 
       expect(() => {
         validateProjectId(mockRequest as Request, mockResponse as Response, mockNext);
       }).toThrow('Invalid Project ID format');
     });
 
+    it('should replace a project slug with the project ID', async () => {
+      const projectId = new mongoose.Types.ObjectId();
+      mockRequest.params = { id: 'customer-support' };
+      (Project.findOne as jest.Mock<any>).mockReturnValue({
+        select: jest.fn<any>().mockResolvedValue({ _id: projectId }),
+      });
+
+      validateProjectId(mockRequest as Request, mockResponse as Response, mockNext);
+      await flushPromises();
+
+      expect(Project.findOne).toHaveBeenCalledWith({ slug: 'customer-support' });
+      expect(mockRequest.params.id).toBe(projectId.toString());
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should pass a not found error to next for an unknown slug', async () => {
+      mockRequest.params = { projectId: 'missing' };
+      (Project.findOne as jest.Mock<any>).mockReturnValue({
+        select: jest.fn<any>().mockResolvedValue(null),
+      });
+
+      validateProjectId(mockRequest as Request, mockResponse as Response, mockNext);
+      await flushPromises();
+
+      expect((mockNext as jest.Mock).mock.calls[0][0]).toMatchObject({
+        message: ERROR_MESSAGES.PROJECT_NOT_FOUND,
+        statusCode: 404,
+      });
+    });
+
     it('should call next if projectId is not present', () => {
       mockRequest.params = {};
 
@@ -252,6 +799,40 @@ describe('Validation Utilities', () => {
 
       expect(mockNext).toHaveBeenCalled();
     });
+
+    it('should resolve project and prompt slugs to the prompt ID', async () => {
+      const projectId = new mongoose.Types.ObjectId();
+      const promptId = new mongoose.Types.ObjectId();
+      mockRequest.params = { projectSlug: 'support', promptSlug: 'welcome-email' };
+      (Project.findOne as jest.Mock<any>).mockReturnValue({
+        select: jest.fn<any>().mockResolvedValue({ _id: projectId }),
+      });
+      (Prompt.findOne as jest.Mock<any>).mockReturnValue({
+        select: jest.fn<any>().mockResolvedValue({ _id: promptId }),
+      });
+
+      validatePromptId(mockRequest as Request, mockResponse as Response, mockNext);
+      await flushPromises();
+
+      expect(Prompt.findOne).toHaveBeenCalledWith({
+        projectId: projectId.toString(),
+        slug: 'welcome-email',
+      });
+      expect(mockRequest.params.promptId).toBe(promptId.toString());
+      expect(mockNext).toHaveBeenCalledWith();
+    });
+
+    it('should pass a validation error to next for malformed slugs', async () => {
+      mockRequest.params = { projectSlug: 'Support', promptSlug: 'welcome-email' };
+
+      validatePromptId(mockRequest as Request, mockResponse as Response, mockNext);
+      await flushPromises();
+
+      expect((mockNext as jest.Mock).mock.calls[0][0]).toMatchObject({
+        message: ERROR_MESSAGES.SLUG_INVALID,
+        statusCode: 400,
+      });
+    });
   });
 
   describe('validatePromptVersionId', () => {
@@ -310,19 +891,36 @@ describe('Validation Utilities', () => {
       expect(Project.findOne).toHaveBeenCalledWith({ _id: projectId });
     });
 
-    it('should pass when project exists, is active, and belongs to user', async () => {
+    it('should pass when project exists, is active, and the user has access', async () => {
       const projectId = new mongoose.Types.ObjectId().toString();
       const userId = new mongoose.Types.ObjectId().toString();
       const mockProject = {
         _id: projectId,
         isActive: true,
+        organizationId: null,
         userId,
       };
 
-      (Project.findOne as jest.Mock<any>).mockResolvedValue(mockProject);
+      (Project.findById as jest.Mock<any>).mockResolvedValue(mockProject);
 
       await expect(validateProjectExists(projectId, userId)).resolves.not.toThrow();
-      expect(Project.findOne).toHaveBeenCalledWith({ _id: projectId, userId });
+      expect(Project.findById).toHaveBeenCalledWith(projectId);
+    });
+
+    it('should report projects the user has no access to as not found', async () => {
+      const projectId = new mongoose.Types.ObjectId().toString();
+      const mockProject = {
+        _id: projectId,
+        isActive: true,
+        organizationId: null,
+        userId: new mongoose.Types.ObjectId().toString(),
+      };
+
+      (Project.findById as jest.Mock<any>).mockResolvedValue(mockProject);
+
+      await expect(
+        validateProjectExists(projectId, new mongoose.Types.ObjectId().toString())
+      ).rejects.toThrow(ERROR_MESSAGES.PROJECT_NOT_FOUND);
     });
 
     it('should throw error when project is not found', async () => {
@@ -11,8 +11,21 @@ import authRoutes from './routes/authRoutes';
 import projectRoutes from './routes/projectRoutes';
 import promptRoutes from './routes/promptRoutes';
 import promptVersionRoutes from './routes/promptVersionRoutes';
-import { getActivePromptVersion } from './controllers/promptVersionController';
+import experimentRoutes from './routes/experimentRoutes';
+import organizationRoutes from './routes/organizationRoutes';
+import userRoutes from './routes/userRoutes';
+import trashRoutes from './routes/trashRoutes';
+import { startAccountPurgeJob } from './jobs/accountPurgeJob';
+import { startTrashPurgeJob } from './jobs/trashPurgeJob';
+import {
+  getActivePromptVersion,
+  getActivePromptVersionsBatch,
+  renderActivePromptVersion,
+} from './controllers/promptVersionController';
 import { validatePromptId } from './utils/validation';
+import { authorizePromptAccess, identifyApiKey } from './middleware/auth';
+import { publicIpRateLimit, publicReadRateLimit } from './middleware/rateLimit';
+import { assignRequestId } from './middleware/requestContext';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
 import { HTTP_STATUS, ENV_KEYS, DEFAULTS, API_MESSAGES, VERSION } from './constants';
 import { ERROR_MESSAGES } from './constants/errorMessages';
@@ -25,7 +38,30 @@ const PORT = parseInt(process.env[ENV_KEYS.PORT] || String(DEFAULTS.PORT), 10);
 const NODE_ENV = process.env[ENV_KEYS.NODE_ENV] || 'development';
 
 // ==================== Middleware ====================
-app.use(cors());
+// Behind a reverse proxy, client IPs (used for rate limiting) come from X-Forwarded-For
+const trustProxy = process.env[ENV_KEYS.TRUST_PROXY];
+if (trustProxy) {
+  // A hop count, true to trust every proxy, or a list of trusted addresses and subnets
+  if (/^\d+$/.test(trustProxy)) {
+    app.set('trust proxy', parseInt(trustProxy, 10));
+  } else {
+    app.set('trust proxy', trustProxy === 'true' ? true : trustProxy);
+  }
+}
+
+// Let browsers read the rate limit and request ID headers
+app.use(
+  cors({
+    exposedHeaders: [
+      'RateLimit-Limit',
+      'RateLimit-Remaining',
+      'RateLimit-Reset',
+      'Retry-After',
+      'X-Request-Id',
+    ],
+  })
+);
+app.use(assignRequestId);
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -33,13 +69,61 @@ app.use(express.urlencoded({ extended: true }));
 // Authentication routes
 app.use('/api/auth', authRoutes);
 
-// Public route (no authentication required) - MUST be before other /api routes
-app.get('/api/prompts/:promptId/active', validatePromptId, getActivePromptVersion);
+// Profile and account routes of the authenticated user
+app.use('/api/user', userRoutes);
+
+// Deleted projects, prompts and versions
+app.use('/api/trash', trashRoutes);
+
+// Public routes (access governed by each prompt's accessMode) - MUST be before other /api routes
+app.post(
+  '/api/prompts/active/batch',
+  publicIpRateLimit,
+  identifyApiKey,
+  publicReadRateLimit,
+  getActivePromptVersionsBatch
+);
+app.get(
+  '/api/prompts/:promptId/active',
+  publicIpRateLimit,
+  validatePromptId,
+  authorizePromptAccess,
+  publicReadRateLimit,
+  getActivePromptVersion
+);
+app.post(
+  '/api/prompts/:promptId/active/render',
+  publicIpRateLimit,
+  validatePromptId,
+  authorizePromptAccess,
+  publicReadRateLimit,
+  renderActivePromptVersion
+);
+
+// Public routes addressed by project and prompt slug instead of prompt ID
+app.get(
+  '/api/p/:projectSlug/:promptSlug/active',
+  publicIpRateLimit,
+  validatePromptId,
+  authorizePromptAccess,
+  publicReadRateLimit,
+  getActivePromptVersion
+);
+app.post(
+  '/api/p/:projectSlug/:promptSlug/active/render',
+  publicIpRateLimit,
+  validatePromptId,
+  authorizePromptAccess,
+  publicReadRateLimit,
+  renderActivePromptVersion
+);
 
 // Protected routes
 app.use('/api/project', projectRoutes);
 app.use('/api', promptRoutes);
 app.use('/api', promptVersionRoutes);
+app.use('/api', experimentRoutes);
+app.use('/api', organizationRoutes);
 
 // ==================== Health & Status Endpoints ====================
 /**
@@ -83,6 +167,12 @@ const startServer = async (): Promise<void> => {
     // Connect to MongoDB
     await connectDB();
 
+    // Purge deactivated accounts once their grace period has passed
+    startAccountPurgeJob();
+
+    // Purge projects, prompts and versions that stayed in the trash past the retention period
+    startTrashPurgeJob();
+
     // Start Express server
     const server = app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
@@ -9,30 +9,172 @@ export const ERROR_MESSAGES = {
   USER_NOT_AUTHENTICATED: 'User not authenticated',
   INVALID_EMAIL_OR_PASSWORD: 'Invalid email or password',
   ACCOUNT_DEACTIVATED: 'Account has been deactivated',
+  ACCOUNT_LOCKED: (minutes: number) =>
+    `Too many failed login attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`,
+  TOO_MANY_REQUESTS: 'Too many requests, please try again later',
   TOKEN_EXPIRED: 'Token has expired. Please login again.',
   INVALID_TOKEN: 'Invalid token. Please login again.',
   TOKEN_VERIFICATION_FAILED: 'Token verification failed',
   UNABLE_TO_CREATE_ACCOUNT: 'Unable to create account. Please try again.',
+  API_KEY_REQUIRED: 'This prompt requires an API key. Provide it in the X-API-Key header.',
+  INVALID_API_KEY: 'Invalid or revoked API key',
+  API_KEY_PROJECT_MISMATCH: 'API key does not grant access to this prompt',
+  PROMPT_ACCESS_DENIED: 'You do not have access to this prompt',
+  SESSION_REVOKED: 'Session has been signed out. Please login again.',
+  REFRESH_TOKEN_INVALID: 'Invalid or expired refresh token. Please login again.',
+  REFRESH_TOKEN_REUSED: 'Refresh token was already used. The session has been signed out; please login again.',
+  PASSWORD_CHANGED: 'Password was changed. Please login again.',
+  PASSWORD_RESET_TOKEN_INVALID: 'Password reset link is invalid or has expired',
+  CURRENT_PASSWORD_INCORRECT: 'Current password is incorrect',
+  EMAIL_NOT_VERIFIED: 'Please verify your email address before logging in',
+  EMAIL_NOT_VERIFIED_TO_PUBLISH: 'Please verify your email address before publishing prompt versions',
+  EMAIL_VERIFICATION_TOKEN_INVALID: 'Verification link is invalid or has expired',
+  TWO_FACTOR_CHALLENGE_INVALID: 'Two-factor login has expired. Please login again.',
+  TWO_FACTOR_CODE_INVALID: 'Invalid two-factor authentication code',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+  TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not enabled',
+  TWO_FACTOR_SETUP_REQUIRED: 'Start two-factor setup before confirming it',
+  EMAIL_IN_USE: 'This email address is already in use',
+  ACCOUNT_SOLE_OWNER: (names: string[]) =>
+    `Transfer ownership or remove the other members first. You are the only owner of: ${names.join(', ')}`,
+  INVITATION_TOKEN_INVALID: 'Invitation link is invalid or has expired',
+  INVITATION_EMAIL_MISMATCH: 'This invitation was sent to a different email address',
+  PERMISSION_DENIED: (role: string, permission: string) =>
+    `Your role (${role}) does not have the '${permission}' permission`,
 
   // Configuration Errors
   JWT_SECRET_NOT_CONFIGURED: 'JWT secret is not configured',
   MONGODB_URI_NOT_DEFINED: 'MONGODB_URI is not defined in environment variables',
+  EMAIL_VERIFICATION_POLICY_INVALID: (name: string) =>
+    `Unknown EMAIL_VERIFICATION_POLICY '${name}'. Use restrict_publish or block_login.`,
+  MAIL_TRANSPORT_INVALID: (name: string) => `Unknown MAIL_TRANSPORT '${name}'. Use console or file.`,
+  RATE_LIMIT_STORE_INVALID: (name: string) => `Unknown RATE_LIMIT_STORE '${name}'. Use memory or mongo.`,
 
   // Validation Errors
   INVALID_ID_FORMAT: 'Invalid ID format',
   INVALID_PROJECT_ID_FORMAT: 'Invalid Project ID format',
   INVALID_PROMPT_ID_FORMAT: 'Invalid Prompt ID format',
   INVALID_PROMPT_VERSION_ID_FORMAT: 'Invalid Prompt Version ID format',
+  INVALID_API_KEY_ID_FORMAT: 'Invalid API Key ID format',
+  ORGANIZATION_ROLE_INVALID: 'role must be one of owner, admin, editor or viewer',
+  REFRESH_TOKEN_REQUIRED: 'refreshToken is required and must be a non-empty string',
+  VERIFICATION_TOKEN_REQUIRED: 'token query parameter is required',
+  TWO_FACTOR_CODE_REQUIRED: 'code is required and must be a non-empty string',
+  CHALLENGE_TOKEN_REQUIRED: 'challengeToken is required and must be a non-empty string',
+  BASE32_INVALID: (char: string) => `Invalid base32 character '${char}'`,
+  RESET_TOKEN_REQUIRED: 'token is required and must be a non-empty string',
+  CURRENT_PASSWORD_REQUIRED: 'currentPassword is required and must be a string',
+  CURRENT_PASSWORD_REQUIRED_FOR_EMAIL: 'currentPassword is required to change the email address',
+  INVITATION_TOKEN_REQUIRED: 'token is required and must be a non-empty string',
+  INVALID_EXPERIMENT_ID_FORMAT: 'Invalid Experiment ID format',
+  ACCESS_MODE_INVALID: 'accessMode must be one of: public, api_key, owner',
+  ENVIRONMENT_NAME_INVALID: 'Environment name must start with a lowercase letter and contain only lowercase letters, digits and hyphens (max 50 characters)',
+  ENVIRONMENT_DESCRIPTION_TOO_LONG: 'Environment description must not exceed 500 characters',
+  VERSION_ID_REQUIRED: 'versionId is required',
   NAME_REQUIRED: 'Name is required and must be a non-empty string',
   NAME_TOO_LONG: 'Name must not exceed 200 characters',
   PROMPT_TEXT_REQUIRED: 'Prompt text is required and must be a non-empty string',
+  PROMPT_FORMAT_INVALID: 'format must be one of: text, chat',
+  CHAT_MESSAGES_REQUIRED: 'messages is required for chat versions and must be a non-empty array',
+  CHAT_MESSAGE_INVALID: (index: number) => `Message ${index} must be an object with a role and a content`,
+  CHAT_MESSAGE_ROLE_INVALID: (index: number) => `Message ${index} must have role system, user or assistant`,
+  CHAT_MESSAGE_CONTENT_REQUIRED: (index: number) => `Message ${index} must have a non-empty content string`,
+  MODEL_CONFIG_INVALID: 'modelConfig must be an object with a provider and a model, or null',
+  MODEL_CONFIG_FIELD_UNKNOWN: (field: string) => `Unknown modelConfig field '${field}'; put provider-specific settings in extraParams`,
+  MODEL_PROVIDER_INVALID: (providers: readonly string[]) => `modelConfig.provider must be one of: ${providers.join(', ')}`,
+  MODEL_NAME_INVALID: 'modelConfig.model must be a non-empty string of at most 200 characters',
+  MODEL_TEMPERATURE_INVALID: (provider: string, max: number) => `modelConfig.temperature must be a number between 0 and ${max} for ${provider}`,
+  MODEL_TOP_P_INVALID: 'modelConfig.topP must be a number between 0 and 1',
+  MODEL_MAX_TOKENS_INVALID: 'modelConfig.maxTokens must be an integer between 1 and 1000000',
+  MODEL_STOP_SEQUENCES_INVALID: (provider: string, max: number) => `modelConfig.stopSequences must be an array of at most ${max} non-empty strings (max 200 characters) for ${provider}`,
+  MODEL_RESPONSE_FORMAT_INVALID: (provider: string, formats: readonly string[]) => `modelConfig.responseFormat must be one of ${formats.join(', ')} for ${provider}`,
+  MODEL_EXTRA_PARAMS_INVALID: 'modelConfig.extraParams must be an object with at most 50 keys',
+  MODEL_EXTRA_PARAM_RESERVED: (key: string) => `modelConfig.extraParams.${key} duplicates a dedicated modelConfig field`,
+  OUTPUT_SCHEMA_INVALID: (reason: string) => `outputSchema is not a valid JSON Schema: ${reason}`,
+  OUTPUT_SCHEMA_TOO_LARGE: 'outputSchema must not exceed 100000 characters as JSON',
+  MODEL_OUTPUT_INVALID: 'output is required and must be a string of at most 200000 characters',
+  INVALID_TOOL_ID_FORMAT: 'Invalid Tool ID format',
+  TOOLS_INVALID: 'tools must be an array of at most 128 tools',
+  TOOL_INVALID: 'Each tool must be an object with either a toolId from the tool library or a name',
+  TOOL_REFERENCE_FIELDS_NOT_ALLOWED: 'Tools referenced by toolId take their name, description and parameters from the tool library',
+  TOOL_NAME_INVALID: 'Tool names are required and may only contain letters, digits, underscores and hyphens (max 64 characters)',
+  TOOL_DESCRIPTION_INVALID: 'Tool descriptions must be strings of at most 1024 characters',
+  TOOL_PARAMETERS_INVALID: (reason: string) => `Tool parameters must be a JSON Schema for an object: ${reason}`,
+  TOOL_NAME_DUPLICATE: (name: string) => `Tool names must be unique within a version; '${name}' is used more than once`,
+  PROMPT_TEXT_NOT_ALLOWED: 'Chat versions take messages instead of promptText',
+  CHAT_MESSAGES_NOT_ALLOWED: 'Text versions take promptText instead of messages',
   EMAIL_REQUIRED: 'Email is required and must be a non-empty string',
   EMAIL_INVALID: 'Please provide a valid email address',
   PASSWORD_REQUIRED: 'Password must be a string',
   PASSWORD_TOO_SHORT: (minLength: number) => `Password must be at least ${minLength} characters`,
   IS_ACTIVE_MUST_BE_BOOLEAN: 'isActive must be a boolean',
   ACTIVE_PROMPT_MUST_BE_BOOLEAN: 'activePrompt must be a boolean',
+  IMMUTABLE_VERSIONS_MUST_BE_BOOLEAN: 'immutableVersions must be a boolean',
   NO_VALID_FIELDS_TO_UPDATE: 'No valid fields to update',
+  VARIABLES_MUST_BE_ARRAY: 'variables must be an array of variable definitions',
+  VARIABLE_NAME_INVALID: 'Each variable must have a name made of letters, digits and underscores',
+  VARIABLE_TYPE_INVALID: (name: string) => `Variable '${name}' must have type string, number or enum`,
+  VARIABLE_ENUM_VALUES_REQUIRED: (name: string) => `Variable '${name}' of type enum requires a non-empty enumValues array of strings`,
+  VARIABLE_DEFAULT_INVALID: (name: string) => `Default value of variable '${name}' does not match its type`,
+  VARIABLE_DEFINED_TWICE: (name: string) => `Variable '${name}' is defined more than once`,
+  VARIABLE_NOT_IN_TEMPLATE: (name: string) => `Variable '${name}' does not appear in the prompt text or messages`,
+  RENDER_VARIABLES_MUST_BE_OBJECT: 'variables must be an object of variable values',
+  VERSION_LABEL_INVALID: (param: string) => `Query parameter '${param}' is required and must be a version label such as v3`,
+  DIFF_FORMAT_INVALID: 'format must be one of: json, unified',
+  EXPERIMENT_VARIANTS_INVALID: 'variants must be an array of 2 to 10 objects with a versionId and a weight',
+  EXPERIMENT_VARIANT_WEIGHT_INVALID: 'Each variant weight must be an integer between 1 and 1000',
+  EXPERIMENT_VARIANT_DUPLICATE: 'A version can appear only once in an experiment',
+  SUBJECT_ID_INVALID: 'subjectId must be a non-empty string of at most 200 characters',
+  SLUG_INVALID: 'slug must be lowercase letters and digits separated by single hyphens (max 100 characters) and must not look like an ID',
+  BATCH_PROMPTS_INVALID: 'prompts must be an array of 1 to 50 prompt IDs or "project-slug/prompt-slug" references',
+  PAGE_INVALID: 'page must be a positive integer',
+  LIMIT_INVALID: 'limit must be an integer between 1 and 100',
+  SORT_INVALID: 'sort must be one of name, createdAt or updatedAt, optionally prefixed with "-" for descending order',
+  CURSOR_INVALID: 'cursor is invalid or was issued for a different sort order',
+  PAGE_AND_CURSOR_CONFLICT: 'Use either page or cursor, not both',
+  CREATED_AFTER_INVALID: 'createdAfter must be a valid date',
+  NAME_CONTAINS_INVALID: 'nameContains must be a non-empty string of at most 200 characters',
+  AUDIT_ENTITY_TYPE_INVALID: 'entityType must be one of project, prompt or prompt_version',
+  AUDIT_TIME_RANGE_INVALID: (field: string) => `${field} must be a valid date`,
+  TRASH_TYPE_INVALID: 'type must be one of project, prompt or prompt_version',
+  ROLLBACK_TARGET_INVALID: "target must be 'previous', a version label such as v3, or a prompt version ID",
+
+  // Template Rendering Errors
+  TEMPLATE_VARIABLES_INVALID: 'Template variables are missing or invalid',
+  TEMPLATE_VARIABLE_MISSING: (name: string) => `Missing value for variable '${name}'`,
+  TEMPLATE_VARIABLE_UNKNOWN: (name: string) => `Unknown variable '${name}'`,
+  TEMPLATE_VARIABLE_NOT_NUMBER: (name: string) => `Variable '${name}' must be a number`,
+  TEMPLATE_VARIABLE_NOT_STRING: (name: string) => `Variable '${name}' must be a string`,
+  TEMPLATE_VARIABLE_NOT_IN_ENUM: (name: string, values: readonly string[]) =>
+    `Variable '${name}' must be one of: ${values.join(', ')}`,
+
+  // JSON Schema Errors (reasons a schema is rejected)
+  JSON_SCHEMA_NOT_A_SCHEMA: (path: string) => `${path} must be an object or a boolean`,
+  JSON_SCHEMA_KEYWORD_INVALID: (path: string, keyword: string, expected: string) => `${keyword} at ${path} must be ${expected}`,
+  JSON_SCHEMA_KEYWORD_UNSUPPORTED: (path: string, keyword: string) => `${keyword} at ${path} is not supported`,
+  JSON_SCHEMA_REF_UNRESOLVED: (path: string, ref: string) => `$ref '${ref}' at ${path} does not point to a schema in this document`,
+  JSON_SCHEMA_TOO_DEEP: 'schemas may be nested at most 64 levels deep',
+  JSON_SCHEMA_TOO_COMPLEX: 'The schema needs too many steps to validate this output',
+
+  // Output Validation Errors (reported per value, not thrown)
+  OUTPUT_JSON_NOT_FOUND: 'No JSON value was found in the output',
+  OUTPUT_SCHEMA_FALSE: 'No value is allowed here',
+  OUTPUT_TYPE_MISMATCH: (types: readonly string[]) => `Must be of type ${types.join(' or ')}`,
+  OUTPUT_NOT_IN_ENUM: 'Must be one of the allowed values',
+  OUTPUT_NOT_CONST: 'Must equal the allowed value',
+  OUTPUT_PROPERTY_REQUIRED: (name: string) => `Missing required property '${name}'`,
+  OUTPUT_PROPERTY_NOT_ALLOWED: (name: string) => `Property '${name}' is not allowed`,
+  OUTPUT_PROPERTY_COUNT: (comparison: string, limit: number) => `Must have ${comparison} ${limit} properties`,
+  OUTPUT_ITEM_COUNT: (comparison: string, limit: number) => `Must have ${comparison} ${limit} items`,
+  OUTPUT_ITEMS_NOT_UNIQUE: 'Items must be unique',
+  OUTPUT_CONTAINS_NONE: 'Must contain at least one item matching the contains schema',
+  OUTPUT_LENGTH: (comparison: string, limit: number) => `Must have ${comparison} ${limit} characters`,
+  OUTPUT_PATTERN_MISMATCH: (pattern: string) => `Must match the pattern ${pattern}`,
+  OUTPUT_NUMBER_RANGE: (comparison: string, limit: number) => `Must be ${comparison} ${limit}`,
+  OUTPUT_NOT_MULTIPLE: (factor: number) => `Must be a multiple of ${factor}`,
+  OUTPUT_ANY_OF: 'Must match at least one of the anyOf schemas',
+  OUTPUT_ONE_OF: (matches: number) => `Must match exactly one of the oneOf schemas, but matches ${matches}`,
+  OUTPUT_NOT: 'Must not match the schema in not',
 
   // Not Found Errors
   USER_NOT_FOUND: 'User not found',
@@ -40,20 +182,58 @@ export const ERROR_MESSAGES = {
   PROMPT_NOT_FOUND: 'Prompt not found',
   PROMPT_VERSION_NOT_FOUND: 'Prompt version not found',
   NO_ACTIVE_VERSION_FOUND: 'No active version found for this prompt',
+  VERSION_LABEL_NOT_FOUND: (label: string) => `Version ${label} not found for this prompt`,
+  API_KEY_NOT_FOUND: 'API key not found',
+  TOOL_NOT_FOUND: 'Tool not found in the project tool library',
+  EXPERIMENT_NOT_FOUND: 'Experiment not found',
+  ORGANIZATION_NOT_FOUND: 'Organization not found',
+  MEMBER_NOT_FOUND: 'Member not found in this organization',
+  INVITATION_NOT_FOUND: 'Invitation not found',
+  ENVIRONMENT_NOT_FOUND: (name: string) => `Environment '${name}' is not defined for this project`,
+  NO_DEPLOYMENT_FOR_ENVIRONMENT: (name: string) => `No version is deployed to '${name}' for this prompt`,
   ROUTE_NOT_FOUND: (url: string) => `Route ${url} not found`,
 
   // Business Logic Errors
   PROJECT_DELETED: 'Project has been deleted',
   PROMPT_DELETED: 'Prompt has been deleted',
   PROMPT_VERSION_DELETED: 'Prompt version has been deleted',
+  API_KEY_REVOKED: 'API key has been revoked',
+  ENVIRONMENT_ALREADY_EXISTS: (name: string) => `Environment '${name}' already exists`,
+  PRODUCTION_ENVIRONMENT_REQUIRED: 'The production environment cannot be removed',
+  VERSION_NOT_IN_PROMPT: 'Prompt version does not belong to this prompt',
+  VERSION_ALREADY_ACTIVE: 'This prompt version is already active',
+  NO_PREVIOUS_VERSION: 'There is no previous version to roll back to',
+  PROJECT_SLUG_TAKEN: (slug: string) => `Project slug '${slug}' is already in use`,
+  PROMPT_SLUG_TAKEN: (slug: string) => `Prompt slug '${slug}' is already in use in this project`,
+  EXPERIMENT_ALREADY_RUNNING: 'Another experiment is already running for this prompt',
+  EXPERIMENT_STATUS_INVALID: (action: string, status: string) => `Cannot ${action} an experiment that is ${status}`,
+  ORGANIZATION_MEMBER_EXISTS: 'User is already a member of this organization',
+  PROJECT_MEMBER_EXISTS: 'User already has access to this project',
+  ORGANIZATION_OWNER_REQUIRED: 'An organization must keep at least one owner',
+  OWNER_ROLE_CHANGE_DENIED: 'Only owners can grant, change or remove the owner role',
+  INVITATION_ALREADY_PENDING: 'A pending invitation already exists for this email address',
+  INVITATION_NOT_PENDING: (status: string) => `This invitation has been ${status}`,
+  EXPERIMENT_VERSION_NOT_VARIANT: 'The promoted version must be one of the experiment variants',
+  EXPERIMENT_CHANGED: 'Another request changed this experiment at the same time. Please retry.',
+  AUDIT_EVENTS_IMMUTABLE: 'Audit events cannot be modified or deleted',
+  NOT_IN_TRASH: 'This item is not in the trash',
+  RESTORE_PARENT_FIRST: (parent: string) => `The ${parent} of this item is in the trash; restore the ${parent} first`,
+  PROMPT_VERSION_IMMUTABLE: 'The text, variables, model configuration, output schema and tools of saved versions cannot be changed in this project; create a new version from this one instead',
+  OUTPUT_SCHEMA_MISSING: 'This prompt version has no output schema',
+  TOOL_NAME_TAKEN: (name: string) => `A tool named '${name}' already exists in this project's tool library`,
+  PROMPT_FORMAT_FIXED: 'The format of a saved version cannot be changed; create a new version from this one instead',
 
   // MongoDB Errors
   DUPLICATE_KEY: (field: string) => `${field} already exists with this value`,
+  CONCURRENT_UPDATE_CONFLICT: 'Another request changed this prompt at the same time. Please retry.',
 
   // Server Errors
   INTERNAL_SERVER_ERROR: 'Internal Server Error',
   SERVER_ERROR: 'Server error',
   FAILED_TO_START_SERVER: 'Failed to start server',
+  VERIFICATION_EMAIL_FAILED: 'Failed to send verification email',
+  ACCOUNT_PURGE_FAILED: 'Failed to purge deactivated accounts',
+  TRASH_PURGE_FAILED: 'Failed to purge expired trash',
   PORT_ALREADY_IN_USE: (port: number) => `Port ${port} is already in use. Please either:`,
   STOP_PROCESS_OR_CHANGE_PORT: (port: number) => `  1. Stop the process using port ${port}\n  2. Set a different PORT in your .env file\n\nTo find and kill the process: lsof -ti:${port} | xargs kill -9`,
 } as const;
@@ -12,6 +12,7 @@ export const HTTP_STATUS = {
   FORBIDDEN: 403,
   NOT_FOUND: 404,
   CONFLICT: 409,
+  TOO_MANY_REQUESTS: 429,
   INTERNAL_SERVER_ERROR: 500,
 } as const;
 
@@ -23,12 +24,400 @@ export const VALIDATION = {
   EMAIL_REGEX: /^\w+([.-]?\w+)*@\w+([.-]?\w+)*(\.\w{2,3})+$/,
 } as const;
 
+// Prompt Template Configuration
+export const TEMPLATE = {
+  VARIABLE_TYPES: ['string', 'number', 'enum'],
+  VARIABLE_NAME_REGEX: /^[A-Za-z_][A-Za-z0-9_]*$/,
+  PLACEHOLDER_REGEX: /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g,
+} as const;
+
+// Prompt Version Formats: a single text, or a list of chat messages
+export const PROMPT_FORMATS = {
+  TEXT: 'text',
+  CHAT: 'chat',
+} as const;
+
+// Roles of the messages in chat-format prompt versions
+export const CHAT_MESSAGE_ROLES = ['system', 'user', 'assistant'] as const;
+
+// Model Configuration stored with prompt versions
+// Each provider limits the sampling temperature, the number of stop sequences and the
+// response formats it understands; "custom" covers self-hosted and other providers
+export const MODEL_CONFIG = {
+  PROVIDERS: {
+    openai: {
+      MAX_TEMPERATURE: 2,
+      MAX_STOP_SEQUENCES: 4,
+      RESPONSE_FORMATS: ['text', 'json_object', 'json_schema'],
+    },
+    azure_openai: {
+      MAX_TEMPERATURE: 2,
+      MAX_STOP_SEQUENCES: 4,
+      RESPONSE_FORMATS: ['text', 'json_object', 'json_schema'],
+    },
+    anthropic: {
+      MAX_TEMPERATURE: 1,
+      MAX_STOP_SEQUENCES: 16,
+      RESPONSE_FORMATS: ['text'],
+    },
+    google: {
+      MAX_TEMPERATURE: 2,
+      MAX_STOP_SEQUENCES: 5,
+      RESPONSE_FORMATS: ['text', 'json'],
+    },
+    mistral: {
+      MAX_TEMPERATURE: 1.5,
+      MAX_STOP_SEQUENCES: 16,
+      RESPONSE_FORMATS: ['text', 'json_object'],
+    },
+    custom: {
+      MAX_TEMPERATURE: 2,
+      MAX_STOP_SEQUENCES: 16,
+      RESPONSE_FORMATS: ['text', 'json', 'json_object', 'json_schema'],
+    },
+  },
+  FIELDS: [
+    'provider',
+    'model',
+    'temperature',
+    'topP',
+    'maxTokens',
+    'stopSequences',
+    'responseFormat',
+    'extraParams',
+  ],
+  MODEL_MAX_LENGTH: 200,
+  MAX_TOKENS_LIMIT: 1000000,
+  STOP_SEQUENCE_MAX_LENGTH: 200,
+  EXTRA_PARAMS_MAX_KEYS: 50,
+  // Extra params must not repeat a dedicated field under its own or its API name
+  RESERVED_EXTRA_PARAMS: [
+    'model',
+    'temperature',
+    'top_p',
+    'max_tokens',
+    'stop',
+    'stop_sequences',
+    'response_format',
+  ],
+} as const;
+
+// Output JSON Schemas of prompt versions and validation of model outputs against them
+export const JSON_SCHEMA = {
+  TYPES: ['null', 'boolean', 'object', 'array', 'number', 'integer', 'string'],
+  // Keywords this validator does not implement; schemas using them are rejected
+  UNSUPPORTED_KEYWORDS: [
+    'if',
+    'then',
+    'else',
+    'dependentSchemas',
+    'dependentRequired',
+    'unevaluatedProperties',
+    'unevaluatedItems',
+    '$dynamicRef',
+    '$dynamicAnchor',
+    '$recursiveRef',
+    '$anchor',
+  ],
+  MAX_DEPTH: 64, // Nesting of subschemas, and of $ref hops while validating
+  MAX_SIZE: 100000, // Characters of the schema serialized as JSON
+  MAX_ERRORS: 50, // Validation errors reported per output
+  MAX_STEPS: 100000, // Subschemas applied while validating one output
+  OUTPUT_MAX_LENGTH: 200000, // Characters of a model output to validate
+} as const;
+
+// Tool (function) definitions of prompt versions and the project tool library
+export const TOOLS = {
+  NAME_REGEX: /^[a-zA-Z0-9_-]{1,64}$/, // Tool names the function-calling APIs accept
+  DESCRIPTION_MAX_LENGTH: 1024,
+  MAX_PER_VERSION: 128,
+} as const;
+
+// Prompt Access Modes for the public active-version endpoints
+export const PROMPT_ACCESS_MODES = {
+  PUBLIC: 'public',
+  API_KEY: 'api_key',
+  OWNER: 'owner',
+} as const;
+
+// API Key Configuration
+export const API_KEYS = {
+  HEADER: 'x-api-key',
+  KEY_PREFIX: 'amk',
+  PREFIX_BYTES: 6,
+  SECRET_BYTES: 32,
+  DEFAULT_NAME: 'API key',
+} as const;
+
+// Deployment Environments
+export const ENVIRONMENTS = {
+  PRODUCTION: 'production',
+  NAME_REGEX: /^[a-z][a-z0-9-]{0,49}$/,
+  DESCRIPTION_MAX_LENGTH: 500,
+} as const;
+
+// Slug Constants
+export const SLUGS = {
+  REGEX: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+  OBJECT_ID_REGEX: /^[0-9a-fA-F]{24}$/,
+  MAX_LENGTH: 100,
+  FALLBACK: 'untitled',
+} as const;
+
+// Batch Fetch of Active Prompt Versions
+export const BATCH = {
+  MAX_PROMPTS: 50,
+  SLUG_SEPARATOR: '/',
+} as const;
+
+// List Pagination, Sorting and Filtering
+export const PAGINATION = {
+  DEFAULT_LIMIT: 20,
+  MAX_LIMIT: 100,
+  SORT_FIELDS: ['name', 'createdAt', 'updatedAt'],
+  DEFAULT_SORT: '-createdAt',
+  NAME_CONTAINS_MAX_LENGTH: 200,
+} as const;
+
+// Organization Roles, from most to least privileged
+export const ORGANIZATION_ROLES = {
+  OWNER: 'owner',
+  ADMIN: 'admin',
+  EDITOR: 'editor',
+  VIEWER: 'viewer',
+} as const;
+
+// Actions a role may perform on an organization and its projects
+export const PERMISSIONS = {
+  READ: 'read', // View projects, prompts, versions, deployments, history and experiments
+  EDIT: 'edit', // Create projects; create, update and delete prompts and versions
+  PUBLISH: 'publish', // Change the active version, deploy, roll back and run experiments
+  MANAGE_PROJECT: 'manage_project', // Project settings, environments, API keys, prompt access, deletion
+  MANAGE_MEMBERS: 'manage_members', // Add, remove and change the role of members
+  MANAGE_ORGANIZATION: 'manage_organization', // Rename the organization, grant ownership
+} as const;
+
+// Permissions granted by each organization role
+export const ROLE_PERMISSIONS = {
+  owner: Object.values(PERMISSIONS),
+  admin: [
+    PERMISSIONS.READ,
+    PERMISSIONS.EDIT,
+    PERMISSIONS.PUBLISH,
+    PERMISSIONS.MANAGE_PROJECT,
+    PERMISSIONS.MANAGE_MEMBERS,
+  ],
+  editor: [PERMISSIONS.READ, PERMISSIONS.EDIT, PERMISSIONS.PUBLISH],
+  viewer: [PERMISSIONS.READ],
+} as const;
+
+// Organization Configuration
+export const ORGANIZATIONS = {
+  PERSONAL_NAME: 'Personal',
+  NAME_MAX_LENGTH: 200,
+} as const;
+
+// Sessions and Refresh Tokens
+export const SESSIONS = {
+  REFRESH_TOKEN_BYTES: 32,
+  REFRESH_TOKEN_EXPIRES_IN_DAYS: 30,
+  USER_AGENT_MAX_LENGTH: 500,
+  REVOKE_REASONS: {
+    LOGOUT: 'logout', // The session was signed out
+    LOGOUT_ALL: 'logout_all', // Every session of the user was signed out
+    REUSE: 'reuse', // A rotated refresh token was presented again
+    PASSWORD_CHANGE: 'password_change', // The password was changed or reset
+    ACCOUNT_DELETED: 'account_deleted', // The user deleted their account
+  },
+} as const;
+
+// Rate Limiting
+// Each policy allows MAX requests per key within a fixed window of WINDOW_SECONDS
+export const RATE_LIMITS = {
+  STORES: {
+    MEMORY: 'memory', // Per process; counters reset on restart
+    MONGO: 'mongo', // Shared by every instance using the database
+  },
+  DEFAULT_STORE: 'memory',
+  MEMORY_SWEEP_THRESHOLD: 10000, // Expired memory counters are dropped once this many keys exist
+  POLICIES: {
+    LOGIN_IP: { NAME: 'login_ip', WINDOW_SECONDS: 15 * 60, MAX: 20 },
+    LOGIN_EMAIL: { NAME: 'login_email', WINDOW_SECONDS: 15 * 60, MAX: 10 },
+    AUTH_IP: { NAME: 'auth_ip', WINDOW_SECONDS: 15 * 60, MAX: 30 }, // Signup, 2FA codes and email links
+    REFRESH_IP: { NAME: 'refresh_ip', WINDOW_SECONDS: 15 * 60, MAX: 60 },
+    PUBLIC_READ: { NAME: 'public_read', WINDOW_SECONDS: 60, MAX: 120 }, // Per API key, or per IP without one
+    PUBLIC_IP: { NAME: 'public_ip', WINDOW_SECONDS: 60, MAX: 600 }, // Counted before credentials are checked
+  },
+} as const;
+
+// Account Lockout after repeated failed logins
+export const ACCOUNT_LOCKOUT = {
+  MAX_FAILED_ATTEMPTS: 5,
+  LOCK_MINUTES: 15,
+} as const;
+
+// Email Verification
+export const EMAIL_VERIFICATION = {
+  TOKEN_BYTES: 32,
+  EXPIRES_IN_HOURS: 24,
+  VERIFY_PATH: '/api/auth/verify-email',
+  POLICIES: {
+    RESTRICT_PUBLISH: 'restrict_publish', // Unverified users can log in but not publish versions
+    BLOCK_LOGIN: 'block_login', // Unverified users cannot log in
+  },
+  DEFAULT_POLICY: 'restrict_publish',
+} as const;
+
+// Two-Factor Authentication (TOTP)
+export const TWO_FACTOR = {
+  ISSUER: 'Ameeba',
+  SECRET_BYTES: 20,
+  DIGITS: 6,
+  PERIOD_SECONDS: 30,
+  DRIFT_STEPS: 1, // Codes from the previous and next period are accepted too
+  RECOVERY_CODE_COUNT: 10,
+  RECOVERY_CODE_BYTES: 5,
+  CHALLENGE_PURPOSE: 'two_factor_login',
+  CHALLENGE_EXPIRES_IN: '5m',
+} as const;
+
+// Account Deletion
+export const ACCOUNTS = {
+  PURGE_INTERVAL_MINUTES: 60, // How often deactivated accounts are checked for purging
+} as const;
+
+// Trash
+export const TRASH = {
+  ITEM_TYPES: {
+    PROJECT: 'project',
+    PROMPT: 'prompt',
+    PROMPT_VERSION: 'prompt_version',
+  },
+  DEFAULT_RETENTION_DAYS: 30, // Overridden by TRASH_RETENTION_DAYS
+  PURGE_INTERVAL_MINUTES: 60, // How often the trash is checked for expired items
+} as const;
+
+// Password Reset
+export const PASSWORD_RESET = {
+  TOKEN_BYTES: 32,
+  EXPIRES_IN_MINUTES: 60,
+  RESET_PATH: '/reset-password',
+} as const;
+
+// Invitations
+export const INVITATIONS = {
+  STATUSES: {
+    PENDING: 'pending',
+    ACCEPTED: 'accepted',
+    REVOKED: 'revoked',
+    EXPIRED: 'expired',
+  },
+  TOKEN_PURPOSE: 'invitation',
+  EXPIRES_IN_DAYS: 7,
+  ACCEPT_PATH: '/invitations/accept',
+} as const;
+
+// Outgoing Email
+export const MAIL = {
+  TRANSPORTS: {
+    CONSOLE: 'console', // Print messages to stdout (local development)
+    FILE: 'file', // Append messages as JSON lines to a file (tests, inspection)
+  },
+  DEFAULT_TRANSPORT: 'console',
+  DEFAULT_FILE_PATH: 'logs/mail.log',
+  DEFAULT_FROM: 'Ameeba <no-reply@ameeba.local>',
+  DEFAULT_APP_URL: 'http://localhost:3000',
+  APP_NAME: 'Ameeba',
+} as const;
+
+// Prompt Version Activation
+export const ACTIVATION = {
+  ACTIONS: {
+    ACTIVATE: 'activate',
+    ROLLBACK: 'rollback',
+    DEACTIVATE: 'deactivate',
+    PROMOTE: 'promote',
+  },
+  PREVIOUS_TARGET: 'previous',
+} as const;
+
+// A/B Experiments
+export const EXPERIMENTS = {
+  STATUSES: {
+    DRAFT: 'draft',
+    RUNNING: 'running',
+    STOPPED: 'stopped',
+    PROMOTED: 'promoted',
+  },
+  MIN_VARIANTS: 2,
+  MAX_VARIANTS: 10,
+  MIN_WEIGHT: 1,
+  MAX_WEIGHT: 1000,
+  SUBJECT_ID_MAX_LENGTH: 200,
+} as const;
+
+// Audit Log
+export const AUDIT = {
+  ACTIONS: {
+    CREATE: 'create',
+    UPDATE: 'update',
+    DELETE: 'delete',
+    ACTIVATE: 'activate',
+    DEACTIVATE: 'deactivate',
+    RESTORE: 'restore',
+  },
+  ENTITY_TYPES: {
+    PROJECT: 'project',
+    PROMPT: 'prompt',
+    PROMPT_VERSION: 'prompt_version',
+  },
+  // Fields compared for the before/after diff of each entity type
+  TRACKED_FIELDS: {
+    project: ['name', 'slug', 'organizationId', 'environments', 'immutableVersions', 'isActive'],
+    prompt: ['name', 'slug', 'accessMode', 'isActive'],
+    prompt_version: [
+      'format',
+      'promptText',
+      'messages',
+      'variables',
+      'modelConfig',
+      'outputSchema',
+      'tools',
+      'parentVersionId',
+      'activePrompt',
+      'isActive',
+    ],
+  },
+  REQUEST_ID_HEADER: 'x-request-id',
+  REQUEST_ID_REGEX: /^[\w.:-]{1,128}$/, // Client-supplied request IDs must match, or a new one is generated
+} as const;
+
+// Transaction Configuration
+export const TRANSACTION = {
+  MAX_ATTEMPTS: 3,
+  WRITE_CONFLICT_CODE: 112,
+  DUPLICATE_KEY_CODE: 11000,
+} as const;
+
+// Version Diff Configuration
+export const DIFF = {
+  FORMATS: ['json', 'unified'],
+  UNIFIED_FORMAT: 'unified',
+  CONTEXT_LINES: 3,
+  VERSION_LABEL_REGEX: /^v[1-9][0-9]*$/,
+  // Above this many token comparisons a changed block is reported as a whole replacement
+  MAX_COMPARISONS: 4000000,
+} as const;
+
 // Default Values
 export const DEFAULTS = {
   IS_ACTIVE: true,
   ACTIVE_PROMPT: false,
+  PROMPT_ACCESS_MODE: 'public',
+  PROMPT_FORMAT: 'text',
+  IMMUTABLE_VERSIONS: true, // For new projects; projects created before the setting existed keep editable versions
   PORT: 3000,
-  JWT_EXPIRES_IN: '30d',
+  JWT_EXPIRES_IN: '15m',
   BCRYPT_SALT_ROUNDS: parseInt(process.env.BCRYPT_SALT_ROUNDS || '10', 10),
 } as const;
 
@@ -40,8 +429,18 @@ export const ENV_KEYS = {
   NODE_ENV: 'NODE_ENV',
   JWT_SECRET: 'JWT_SECRET',
   JWT_EXPIRES_IN: 'JWT_EXPIRES_IN',
+  REFRESH_TOKEN_EXPIRES_IN_DAYS: 'REFRESH_TOKEN_EXPIRES_IN_DAYS',
+  EMAIL_VERIFICATION_POLICY: 'EMAIL_VERIFICATION_POLICY',
+  ACCOUNT_PURGE_AFTER_DAYS: 'ACCOUNT_PURGE_AFTER_DAYS',
+  TRASH_RETENTION_DAYS: 'TRASH_RETENTION_DAYS',
   MIN_PASSWORD_LENGTH: 'MIN_PASSWORD_LENGTH',
   BCRYPT_SALT_ROUNDS: 'BCRYPT_SALT_ROUNDS',
+  APP_URL: 'APP_URL',
+  MAIL_TRANSPORT: 'MAIL_TRANSPORT',
+  MAIL_FILE_PATH: 'MAIL_FILE_PATH',
+  MAIL_FROM: 'MAIL_FROM',
+  RATE_LIMIT_STORE: 'RATE_LIMIT_STORE',
+  TRUST_PROXY: 'TRUST_PROXY',
 } as const;
 
 // Database Configuration
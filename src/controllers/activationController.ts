@@ -0,0 +1,79 @@
+/**
+ * Activation Controller
+ * Handles HTTP requests for prompt rollback and activation history endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
+import { validateRequest } from '../utils/validation';
+import { sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as activationService from '../services/activationService';
+import { AuthenticatedRequest, RollbackRequestBody } from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Roll a prompt back to an earlier version
+ * POST /api/prompts/:promptId/rollback
+ */
+export const rollbackPromptVersion = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+    const { target } = req.body as RollbackRequestBody;
+
+    // Validate request data
+    validateRequest({ rollbackTarget: target });
+
+    // Roll back
+    const result = await activationService.rollbackPromptVersion(
+      promptId,
+      req.user.userId,
+      target,
+      getAuditContext(req)
+    );
+
+    // Return newly active version with message
+    sendSuccessWithMessage(res, result, `Rolled back to ${result.activeVersion.version}`);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the activation history of a prompt
+ * GET /api/prompts/:promptId/activation-history
+ */
+export const getActivationHistory = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+
+    // Get activation history
+    const events = await activationService.getActivationHistory(promptId, req.user.userId);
+
+    // Return events with count
+    sendSuccessWithCount(res, events, events.length);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,131 @@
+/**
+ * API Key Controller
+ * Handles HTTP requests for project API key endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { validateRequest } from '../utils/validation';
+import { sendCreated, sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as apiKeyService from '../services/apiKeyService';
+import { AuthenticatedRequest, ApiKeyRequestBody } from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Create a new API key for a project
+ * POST /api/project/:id/keys
+ */
+export const createApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { name } = req.body as ApiKeyRequestBody;
+
+    // Validate request data
+    validateRequest({ name });
+
+    // Create API key
+    const result = await apiKeyService.createApiKey(id, req.user.userId, { name });
+
+    // Return created key (the raw key is only shown once)
+    sendCreated(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all API keys for a project
+ * GET /api/project/:id/keys
+ */
+export const getApiKeys = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { includeRevoked } = req.query;
+    const includeRevokedFlag = includeRevoked === 'true';
+
+    // Get API keys
+    const apiKeys = await apiKeyService.getApiKeysByProject(id, req.user.userId, includeRevokedFlag);
+
+    // Return API keys with count
+    sendSuccessWithCount(res, apiKeys, apiKeys.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rotate an API key
+ * POST /api/project/:id/keys/:keyId/rotate
+ */
+export const rotateApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id, keyId } = req.params;
+
+    // Rotate API key
+    const result = await apiKeyService.rotateApiKey(id, keyId, req.user.userId);
+
+    // Return rotated key (the new raw key is only shown once)
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke an API key
+ * DELETE /api/project/:id/keys/:keyId
+ */
+export const revokeApiKey = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id, keyId } = req.params;
+
+    // Revoke API key
+    const apiKey = await apiKeyService.revokeApiKey(id, keyId, req.user.userId);
+
+    // Return revoked key with message
+    sendSuccessWithMessage(res, apiKey, 'API key revoked successfully');
+  } catch (error) {
+    next(error);
+  }
+};
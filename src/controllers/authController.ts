@@ -6,12 +6,34 @@
 import { Response, NextFunction } from 'express';
 import { ApiError } from '../middleware/errorHandler';
 import { validateRequest } from '../utils/validation';
-import { sendCreated, sendSuccess } from '../utils/responseHelpers';
+import { sendCreated, sendSuccess, sendSuccessWithMessage } from '../utils/responseHelpers';
 import * as authService from '../services/authService';
-import { AuthenticatedRequest, SignupRequestBody, LoginRequestBody } from '../types';
+import * as verificationService from '../services/verificationService';
+import {
+  AuthenticatedRequest,
+  SignupRequestBody,
+  LoginRequestBody,
+  TwoFactorLoginRequestBody,
+  RefreshRequestBody,
+  ResendVerificationRequestBody,
+  ForgotPasswordRequestBody,
+  ResetPasswordRequestBody,
+  ChangePasswordRequestBody,
+  SessionContext,
+} from '../types';
 import { HTTP_STATUS } from '../constants';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
 
+/**
+ * Describe the client a session is started or refreshed from
+ * @param req - Express request
+ * @returns User agent and IP address
+ */
+const getSessionContext = (req: AuthenticatedRequest): SessionContext => ({
+  userAgent: req.get('user-agent'),
+  ipAddress: req.ip,
+});
+
 /**
  * Sign up a new user
  * POST /api/auth/signup
@@ -22,18 +44,22 @@ export const signup = async (
   next: NextFunction
 ): Promise<void> => {
   try {
-    const { email, password, name } = req.body as SignupRequestBody;
+    const { email, password, name, invitationToken } = req.body as SignupRequestBody;
 
     // Validate required fields
-    validateRequest({ email, password });
+    validateRequest({ email, password, invitationToken });
 
-    // Create user and generate token
-    const result = await authService.signupUser({ email, password, name });
+    // Create user (accepting the invitation, if any), email the verification link and generate tokens
+    const result = await authService.signupUser(
+      { email, password, name, invitationToken },
+      getSessionContext(req)
+    );
 
-    // Return user data with token
+    // Return user data with access and refresh tokens
     sendCreated(res, {
       user: result.user,
       token: result.token,
+      refreshToken: result.refreshToken,
     });
   } catch (error) {
     // Handle duplicate email error (MongoDB unique constraint)
@@ -61,19 +87,271 @@ export const login = async (
     // Validate required fields
     validateRequest({ email, password });
 
-    // Authenticate user and generate token
-    const result = await authService.loginUser({ email, password });
+    // Authenticate user and start a session
+    const result = await authService.loginUser({ email, password }, getSessionContext(req));
+
+    // With two-factor authentication, return the challenge for the second step
+    if ('challengeToken' in result) {
+      sendSuccess(res, result);
+      return;
+    }
 
-    // Return user data with token
+    // Return user data with access and refresh tokens
     sendSuccess(res, {
       user: result.user,
       token: result.token,
+      refreshToken: result.refreshToken,
     });
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Complete a login with a two-factor authentication code
+ * POST /api/auth/login/2fa
+ */
+export const loginTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { challengeToken, code } = req.body as TwoFactorLoginRequestBody;
+
+    // Validate challenge token and code
+    validateRequest({ challengeToken: challengeToken ?? '', twoFactorCode: code ?? '' });
+
+    // Check the code and start a session
+    const result = await authService.completeTwoFactorLogin(
+      challengeToken,
+      code,
+      getSessionContext(req)
+    );
+
+    // Return user data with access and refresh tokens
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * POST /api/auth/refresh
+ */
+export const refresh = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { refreshToken } = req.body as RefreshRequestBody;
+
+    // Validate refresh token
+    validateRequest({ refreshToken: refreshToken ?? '' });
+
+    // Rotate the refresh token
+    const tokens = await authService.refreshTokens(refreshToken, getSessionContext(req));
+
+    // Return new tokens
+    sendSuccess(res, tokens);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign out the current session
+ * POST /api/auth/logout
+ */
+export const logout = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user || !req.user.sessionId) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    // Revoke the session of the access token
+    await authService.logout(req.user.sessionId);
+
+    sendSuccessWithMessage(res, null, 'Logged out successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sign out every session of the authenticated user
+ * POST /api/auth/logout-all
+ */
+export const logoutAll = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    // Revoke all sessions
+    const sessions = await authService.logoutAll(req.user.userId);
+
+    sendSuccessWithMessage(res, { sessions }, 'Logged out of all sessions');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Verify an email address with the token from the verification email
+ * GET /api/auth/verify-email?token=
+ */
+export const verifyEmail = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token } = req.query;
+
+    // Validate token
+    validateRequest({ verificationToken: token ?? '' });
+
+    // Mark the address as verified
+    await verificationService.verifyEmail(token as string);
+
+    sendSuccessWithMessage(res, null, 'Email address verified');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Email a new verification link
+ * Responds the same way whether or not the email has an unverified account
+ * POST /api/auth/resend-verification
+ */
+export const resendVerification = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email } = req.body as ResendVerificationRequestBody;
+
+    // Validate email
+    validateRequest({ email: email ?? '' });
+
+    // Send a new link, if the account still has to be verified
+    await verificationService.resendVerificationEmail(email);
+
+    sendSuccessWithMessage(
+      res,
+      null,
+      'If this email has an unverified account, a new verification link has been sent'
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Email a password reset link
+ * Responds the same way whether or not the email has an account
+ * POST /api/auth/forgot-password
+ */
+export const forgotPassword = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { email } = req.body as ForgotPasswordRequestBody;
+
+    // Validate email
+    validateRequest({ email: email ?? '' });
+
+    // Send the reset link, if the account exists
+    await authService.requestPasswordReset(email);
+
+    sendSuccessWithMessage(
+      res,
+      null,
+      'If an account exists for this email, a password reset link has been sent'
+    );
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Set a new password with a reset token
+ * POST /api/auth/reset-password
+ */
+export const resetPassword = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { token, password } = req.body as ResetPasswordRequestBody;
+
+    // Validate token and new password
+    validateRequest({ resetToken: token ?? '', password: password ?? '' });
+
+    // Reset the password and sign out every session
+    await authService.resetPassword(token, password);
+
+    sendSuccessWithMessage(res, null, 'Password has been reset. Please login again.');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change the authenticated user's password
+ * PUT /api/auth/password
+ */
+export const changePassword = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { currentPassword, newPassword } = req.body as ChangePasswordRequestBody;
+
+    // Validate current and new password
+    validateRequest({ currentPassword: currentPassword ?? '', password: newPassword ?? '' });
+
+    // Change the password; other sessions are signed out and a new one is started
+    const tokens = await authService.changePassword(
+      req.user.userId,
+      currentPassword,
+      newPassword,
+      getSessionContext(req)
+    );
+
+    sendSuccessWithMessage(res, tokens, 'Password changed successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get current authenticated user details
  * GET /api/auth/getUserDetails
@@ -0,0 +1,113 @@
+/**
+ * Deployment Controller
+ * Handles HTTP requests for prompt deployment endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
+import { validateRequest } from '../utils/validation';
+import { sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as deploymentService from '../services/deploymentService';
+import { AuthenticatedRequest, DeploymentRequestBody } from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Get all deployments for a prompt
+ * GET /api/prompts/:promptId/deployments
+ */
+export const getDeployments = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+
+    // Get deployments
+    const deployments = await deploymentService.getDeploymentsByPrompt(promptId, req.user.userId);
+
+    // Return deployments with count
+    sendSuccessWithCount(res, deployments, deployments.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deploy a prompt version to an environment
+ * PUT /api/prompts/:promptId/deployments/:environment
+ */
+export const deployVersion = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId, environment } = req.params;
+    const { versionId } = req.body as DeploymentRequestBody;
+
+    // Validate request data
+    validateRequest({ versionId: versionId ?? '' });
+
+    // Deploy version
+    const deployment = await deploymentService.deployVersion(
+      promptId,
+      environment,
+      versionId,
+      req.user.userId,
+      getAuditContext(req)
+    );
+
+    // Return deployment
+    sendSuccess(res, deployment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove the deployment of a prompt from an environment
+ * DELETE /api/prompts/:promptId/deployments/:environment
+ */
+export const removeDeployment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId, environment } = req.params;
+
+    // Remove deployment
+    const deployment = await deploymentService.removeDeployment(
+      promptId,
+      environment,
+      req.user.userId,
+      getAuditContext(req)
+    );
+
+    // Return removed deployment with message
+    sendSuccessWithMessage(res, deployment, 'Deployment removed successfully');
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,207 @@
+/**
+ * Experiment Controller
+ * Handles HTTP requests for A/B experiment endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
+import { validateRequest } from '../utils/validation';
+import {
+  sendSuccess,
+  sendCreated,
+  sendSuccessWithCount,
+  sendSuccessWithMessage,
+} from '../utils/responseHelpers';
+import * as experimentService from '../services/experimentService';
+import {
+  AuthenticatedRequest,
+  ExperimentRequestBody,
+  PromoteExperimentRequestBody,
+} from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Create a draft experiment for a prompt
+ * POST /api/prompts/:promptId/experiments
+ */
+export const createExperiment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+    const { name, variants } = req.body as ExperimentRequestBody;
+
+    // Validate request data
+    validateRequest({ name: name ?? '', experimentVariants: variants ?? [] });
+
+    // Create experiment
+    const experiment = await experimentService.createExperiment(promptId, req.user.userId, {
+      name,
+      variants,
+    });
+
+    // Return created experiment
+    sendCreated(res, experiment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all experiments for a prompt
+ * GET /api/prompts/:promptId/experiments
+ */
+export const getExperimentsByPrompt = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+
+    // Get experiments
+    const experiments = await experimentService.getExperimentsByPrompt(promptId, req.user.userId);
+
+    // Return experiments with count
+    sendSuccessWithCount(res, experiments, experiments.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get an experiment by ID
+ * GET /api/experiments/:experimentId
+ */
+export const getExperimentById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { experimentId } = req.params;
+
+    // Get experiment
+    const experiment = await experimentService.getExperimentById(experimentId, req.user.userId);
+
+    // Return experiment
+    sendSuccess(res, experiment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start an experiment
+ * POST /api/experiments/:experimentId/start
+ */
+export const startExperiment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { experimentId } = req.params;
+
+    // Start experiment
+    const experiment = await experimentService.startExperiment(experimentId, req.user.userId);
+
+    // Return running experiment with message
+    sendSuccessWithMessage(res, experiment, 'Experiment started');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Stop an experiment
+ * POST /api/experiments/:experimentId/stop
+ */
+export const stopExperiment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { experimentId } = req.params;
+
+    // Stop experiment
+    const experiment = await experimentService.stopExperiment(experimentId, req.user.userId);
+
+    // Return stopped experiment with message
+    sendSuccessWithMessage(res, experiment, 'Experiment stopped');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Promote the winning variant of an experiment to the active version
+ * POST /api/experiments/:experimentId/promote
+ */
+export const promoteExperiment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { experimentId } = req.params;
+    const { versionId } = req.body as PromoteExperimentRequestBody;
+
+    // Validate request data
+    validateRequest({ versionId: versionId ?? '' });
+
+    // Promote winning variant
+    const experiment = await experimentService.promoteExperiment(
+      experimentId,
+      req.user.userId,
+      versionId,
+      getAuditContext(req)
+    );
+
+    // Return promoted experiment with message
+    sendSuccessWithMessage(res, experiment, 'Experiment promoted');
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,175 @@
+/**
+ * Invitation Controller
+ * Handles HTTP requests for invitation endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { validateRequest } from '../utils/validation';
+import { sendCreated, sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as invitationService from '../services/invitationService';
+import { AcceptInvitationRequestBody, AuthenticatedRequest, InvitationRequestBody } from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Invite an email address to join an organization
+ * POST /api/organizations/:organizationId/invitations
+ */
+export const inviteToOrganization = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId } = req.params;
+    const { email, role } = req.body as InvitationRequestBody;
+
+    // Validate invitation data
+    validateRequest({ email: email ?? '', organizationRole: role ?? '' });
+
+    // Create the invitation and email it
+    const invitation = await invitationService.inviteToOrganization(
+      organizationId,
+      req.user.userId,
+      { email, role }
+    );
+
+    // Return created invitation
+    sendCreated(res, invitation);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Invite an email address to a project (the invitee joins the project's organization)
+ * POST /api/project/:id/invitations
+ */
+export const inviteToProject = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { email, role } = req.body as InvitationRequestBody;
+
+    // Validate invitation data
+    validateRequest({ email: email ?? '', organizationRole: role ?? '' });
+
+    // Create the invitation and email it
+    const invitation = await invitationService.inviteToProject(id, req.user.userId, {
+      email,
+      role,
+    });
+
+    // Return created invitation
+    sendCreated(res, invitation);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the pending invitations of an organization
+ * GET /api/organizations/:organizationId/invitations
+ */
+export const getInvitations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId } = req.params;
+
+    // Get pending invitations
+    const invitations = await invitationService.getInvitations(organizationId, req.user.userId);
+
+    // Return invitations with count
+    sendSuccessWithCount(res, invitations, invitations.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke a pending invitation
+ * DELETE /api/organizations/:organizationId/invitations/:invitationId
+ */
+export const revokeInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId, invitationId } = req.params;
+
+    // Revoke invitation
+    const invitation = await invitationService.revokeInvitation(
+      organizationId,
+      invitationId,
+      req.user.userId
+    );
+
+    // Return revoked invitation with message
+    sendSuccessWithMessage(res, invitation, 'Invitation revoked successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Accept an invitation as the authenticated user
+ * POST /api/invitations/accept
+ */
+export const acceptInvitation = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { token } = req.body as AcceptInvitationRequestBody;
+
+    // Validate token
+    validateRequest({ invitationToken: token ?? '' });
+
+    // Join the organization or project
+    const joined = await invitationService.acceptInvitation(token, req.user.userId);
+
+    // Return the joined organization or project with the user's role
+    sendSuccess(res, joined);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,246 @@
+/**
+ * Organization Controller
+ * Handles HTTP requests for organization and membership endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { validateRequest } from '../utils/validation';
+import { sendCreated, sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as organizationService from '../services/organizationService';
+import {
+  AuthenticatedRequest,
+  OrganizationMemberRequestBody,
+  OrganizationRequestBody,
+  UpdateOrganizationMemberRequestBody,
+} from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Create an organization owned by the authenticated user
+ * POST /api/organizations
+ */
+export const createOrganization = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { name } = req.body as OrganizationRequestBody;
+
+    // Validate request data
+    validateRequest({ name: name ?? '' });
+
+    // Create organization
+    const organization = await organizationService.createOrganization(req.user.userId, { name });
+
+    // Return created organization
+    sendCreated(res, organization);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all organizations the authenticated user belongs to
+ * GET /api/organizations
+ */
+export const getOrganizations = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    // Get organizations with the user's role in each
+    const organizations = await organizationService.getOrganizations(req.user.userId);
+
+    // Return organizations with count
+    sendSuccessWithCount(res, organizations, organizations.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get an organization with its members
+ * GET /api/organizations/:organizationId
+ */
+export const getOrganizationById = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId } = req.params;
+
+    // Get organization
+    const organization = await organizationService.getOrganizationById(
+      organizationId,
+      req.user.userId
+    );
+
+    // Return organization
+    sendSuccess(res, organization);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Rename an organization
+ * PUT /api/organizations/:organizationId
+ */
+export const updateOrganization = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId } = req.params;
+    const { name } = req.body as OrganizationRequestBody;
+
+    // Validate update data
+    validateRequest({ name: name ?? '' });
+
+    // Update organization
+    const organization = await organizationService.updateOrganization(
+      organizationId,
+      req.user.userId,
+      { name }
+    );
+
+    // Return updated organization
+    sendSuccess(res, organization);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add an existing user to an organization
+ * POST /api/organizations/:organizationId/members
+ */
+export const addMember = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId } = req.params;
+    const { email, role } = req.body as OrganizationMemberRequestBody;
+
+    // Validate member data
+    validateRequest({ email: email ?? '', organizationRole: role ?? '' });
+
+    // Add member
+    const organization = await organizationService.addMember(organizationId, req.user.userId, {
+      email,
+      role,
+    });
+
+    // Return organization with its members
+    sendCreated(res, organization);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change a member's role
+ * PUT /api/organizations/:organizationId/members/:memberId
+ */
+export const updateMemberRole = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId, memberId } = req.params;
+    const { role } = req.body as UpdateOrganizationMemberRequestBody;
+
+    // Validate role
+    validateRequest({ organizationRole: role ?? '' });
+
+    // Update member role
+    const organization = await organizationService.updateMemberRole(
+      organizationId,
+      req.user.userId,
+      memberId,
+      role
+    );
+
+    // Return organization with its members
+    sendSuccess(res, organization);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a member from an organization (members may remove themselves)
+ * DELETE /api/organizations/:organizationId/members/:memberId
+ */
+export const removeMember = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { organizationId, memberId } = req.params;
+
+    // Remove member
+    const organization = await organizationService.removeMember(
+      organizationId,
+      req.user.userId,
+      memberId
+    );
+
+    // Return organization with message
+    sendSuccessWithMessage(res, organization, 'Member removed successfully');
+  } catch (error) {
+    next(error);
+  }
+};
@@ -5,10 +5,19 @@
 
 import { Response, NextFunction } from 'express';
 import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
 import { validateRequest } from '../utils/validation';
+import { getListOptions } from '../utils/pagination';
 import { sendCreated, sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
 import * as projectService from '../services/projectService';
-import { AuthenticatedRequest, ProjectRequestBody, UpdateProjectRequestBody } from '../types';
+import * as auditService from '../services/auditService';
+import {
+  AuthenticatedRequest,
+  ProjectRequestBody,
+  UpdateProjectRequestBody,
+  EnvironmentRequestBody,
+  AuditEntityType,
+} from '../types';
 import { HTTP_STATUS } from '../constants';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
 
@@ -28,13 +37,18 @@ export const createProject = async (
       throw error;
     }
 
-    const { name, isActive } = req.body as ProjectRequestBody;
+    const { name, slug, organizationId, immutableVersions, isActive } =
+      req.body as ProjectRequestBody;
 
     // Validate request data
-    validateRequest({ name, isActive });
+    validateRequest({ name, slug, organizationId, immutableVersions, isActive });
 
-    // Create project
-    const project = await projectService.createProject(req.user.userId, { name, isActive });
+    // Create project (in the user's personal organization unless one is given)
+    const project = await projectService.createProject(
+      req.user.userId,
+      { name, slug, organizationId, immutableVersions, isActive },
+      getAuditContext(req)
+    );
 
     // Return created project
     sendCreated(res, project);
@@ -45,7 +59,7 @@ export const createProject = async (
 
 /**
  * Get all projects for the authenticated user
- * GET /api/project/getProjects
+ * GET /api/project/getProjects?page=2&limit=20&sort=name&nameContains=support
  */
 export const getProjects = async (
   req: AuthenticatedRequest,
@@ -59,14 +73,14 @@ export const getProjects = async (
       throw error;
     }
 
-    const { includeInactive } = req.query;
-    const includeInactiveFlag = includeInactive === 'true';
+    // Validate pagination, sort and filter parameters
+    const options = getListOptions(req.query);
 
-    // Get projects
-    const projects = await projectService.getProjects(req.user.userId, includeInactiveFlag);
+    // Get one page of projects
+    const { items, pagination } = await projectService.getProjects(req.user.userId, options);
 
-    // Return projects with count
-    sendSuccessWithCount(res, projects, projects.length);
+    // Return projects with count and pagination metadata
+    sendSuccessWithCount(res, items, items.length, pagination);
   } catch (error) {
     next(error);
   }
@@ -117,13 +131,19 @@ export const updateProject = async (
     }
 
     const { id } = req.params;
-    const { name, isActive } = req.body as UpdateProjectRequestBody;
+    const { name, slug, organizationId, immutableVersions, isActive } =
+      req.body as UpdateProjectRequestBody;
 
     // Validate update data
-    validateRequest({ name, isActive });
+    validateRequest({ name, slug, organizationId, immutableVersions, isActive });
 
-    // Update project
-    const project = await projectService.updateProject(id, req.user.userId, { name, isActive });
+    // Update project (organizationId moves it to another organization)
+    const project = await projectService.updateProject(
+      id,
+      req.user.userId,
+      { name, slug, organizationId, immutableVersions, isActive },
+      getAuditContext(req)
+    );
 
     // Return updated project
     sendSuccess(res, project);
@@ -151,7 +171,7 @@ export const deleteProject = async (
     const { id } = req.params;
 
     // Delete project
-    const project = await projectService.deleteProject(id, req.user.userId);
+    const project = await projectService.deleteProject(id, req.user.userId, getAuditContext(req));
 
     // Return deleted project with message
     sendSuccessWithMessage(res, project, 'Project deleted successfully');
@@ -160,3 +180,151 @@ export const deleteProject = async (
   }
 };
 
+
+/**
+ * Get the deployment environments of a project
+ * GET /api/project/:id/environments
+ */
+export const getEnvironments = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+
+    // Get environments
+    const environments = await projectService.getEnvironments(id, req.user.userId);
+
+    // Return environments with count
+    sendSuccessWithCount(res, environments, environments.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add a deployment environment to a project
+ * POST /api/project/:id/environments
+ */
+export const addEnvironment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { name, description } = req.body as EnvironmentRequestBody;
+
+    // Validate request data (environment names follow a stricter format than other names)
+    validateRequest({ environment: name ?? '', description });
+
+    // Add environment
+    const environments = await projectService.addEnvironment(
+      id,
+      req.user.userId,
+      { name, description },
+      getAuditContext(req)
+    );
+
+    // Return updated environments
+    sendCreated(res, environments);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove a deployment environment from a project
+ * DELETE /api/project/:id/environments/:environment
+ */
+export const removeEnvironment = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id, environment } = req.params;
+
+    // Remove environment and its deployments
+    const environments = await projectService.removeEnvironment(
+      id,
+      req.user.userId,
+      environment,
+      getAuditContext(req)
+    );
+
+    // Return updated environments with message
+    sendSuccessWithMessage(res, environments, 'Environment removed successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the audit log of a project, newest first
+ * GET /api/project/:id/audit?entityType=prompt&actorId=...&from=2024-01-01&limit=50
+ */
+export const getAuditLog = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { entityType, entityId, actorId, from, to } = req.query;
+
+    // Validate filters and pagination parameters
+    validateRequest({
+      auditEntityType: entityType,
+      auditEntityId: entityId,
+      auditActorId: actorId,
+      auditFrom: from,
+      auditTo: to,
+    });
+    const { page, limit, cursor } = getListOptions(req.query);
+
+    // Get one page of audit events
+    const { items, pagination } = await auditService.getAuditEvents(
+      id,
+      req.user.userId,
+      {
+        entityType: entityType as AuditEntityType | undefined,
+        entityId: entityId as string | undefined,
+        actorId: actorId as string | undefined,
+        from: from !== undefined ? new Date(from as string) : undefined,
+        to: to !== undefined ? new Date(to as string) : undefined,
+      },
+      { page, limit, cursor }
+    );
+
+    // Return audit events with count and pagination metadata
+    sendSuccessWithCount(res, items, items.length, pagination);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -5,7 +5,9 @@
 
 import { Response, NextFunction } from 'express';
 import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
 import { validateRequest } from '../utils/validation';
+import { getListOptions } from '../utils/pagination';
 import { sendCreated, sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
 import * as promptService from '../services/promptService';
 import { AuthenticatedRequest, PromptRequestBody, UpdatePromptRequestBody } from '../types';
@@ -29,13 +31,18 @@ export const createPrompt = async (
     }
 
     const { projectId } = req.params;
-    const { name, isActive } = req.body as PromptRequestBody;
+    const { name, slug, accessMode, isActive } = req.body as PromptRequestBody;
 
     // Validate request data
-    validateRequest({ name, isActive });
+    validateRequest({ name, slug, accessMode, isActive });
 
     // Create prompt
-    const prompt = await promptService.createPrompt(req.user.userId, projectId, { name, isActive });
+    const prompt = await promptService.createPrompt(
+      req.user.userId,
+      projectId,
+      { name, slug, accessMode, isActive },
+      getAuditContext(req)
+    );
 
     // Return created prompt
     sendCreated(res, prompt);
@@ -46,7 +53,7 @@ export const createPrompt = async (
 
 /**
  * Get all prompts for a project
- * GET /api/projects/:projectId/prompts
+ * GET /api/projects/:projectId/prompts?cursor=...&limit=50&sort=-updatedAt
  */
 export const getPromptsByProject = async (
   req: AuthenticatedRequest,
@@ -62,11 +69,18 @@ export const getPromptsByProject = async (
 
     const { projectId } = req.params;
 
-    // Get prompts
-    const prompts = await promptService.getPromptsByProject(req.user.userId, projectId);
+    // Validate pagination, sort and filter parameters
+    const options = getListOptions(req.query);
 
-    // Return prompts with count
-    sendSuccessWithCount(res, prompts, prompts.length);
+    // Get one page of prompts
+    const { items, pagination } = await promptService.getPromptsByProject(
+      req.user.userId,
+      projectId,
+      options
+    );
+
+    // Return prompts with count and pagination metadata
+    sendSuccessWithCount(res, items, items.length, pagination);
   } catch (error) {
     next(error);
   }
@@ -117,13 +131,18 @@ export const updatePrompt = async (
     }
 
     const { id } = req.params;
-    const { name, isActive } = req.body as UpdatePromptRequestBody;
+    const { name, slug, accessMode, isActive } = req.body as UpdatePromptRequestBody;
 
     // Validate update data
-    validateRequest({ name, isActive });
+    validateRequest({ name, slug, accessMode, isActive });
 
     // Update prompt
-    const prompt = await promptService.updatePrompt(id, req.user.userId, { name, isActive });
+    const prompt = await promptService.updatePrompt(
+      id,
+      req.user.userId,
+      { name, slug, accessMode, isActive },
+      getAuditContext(req)
+    );
 
     // Return updated prompt
     sendSuccess(res, prompt);
@@ -151,7 +170,7 @@ export const deletePrompt = async (
     const { id } = req.params;
 
     // Delete prompt
-    const prompt = await promptService.deletePrompt(id, req.user.userId);
+    const prompt = await promptService.deletePrompt(id, req.user.userId, getAuditContext(req));
 
     // Return deleted prompt with message
     sendSuccessWithMessage(res, prompt, 'Prompt deleted successfully');
@@ -5,11 +5,28 @@
 
 import { Response, NextFunction } from 'express';
 import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
+import { checkPromptAccess, identifyPromptCaller } from '../middleware/auth';
 import { validateRequest } from '../utils/validation';
-import { sendCreated, sendSuccess, sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import { getListOptions } from '../utils/pagination';
+import {
+  sendCreated,
+  sendSuccess,
+  sendSuccessWithCount,
+  sendSuccessWithMessage,
+  sendText,
+} from '../utils/responseHelpers';
+import { formatUnifiedDiff } from '../utils/diff';
 import * as promptVersionService from '../services/promptVersionService';
-import { AuthenticatedRequest, PromptVersionRequestBody, UpdatePromptVersionRequestBody } from '../types';
-import { HTTP_STATUS } from '../constants';
+import {
+  AuthenticatedRequest,
+  PromptVersionRequestBody,
+  UpdatePromptVersionRequestBody,
+  RenderPromptRequestBody,
+  ValidateOutputRequestBody,
+  BatchActivePromptRequestBody,
+} from '../types';
+import { HTTP_STATUS, ENVIRONMENTS, DIFF } from '../constants';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
 
 /**
@@ -29,16 +46,47 @@ export const createPromptVersion = async (
     }
 
     const { promptId } = req.params;
-    const { promptText, activePrompt, isActive } = req.body as PromptVersionRequestBody;
+    const {
+      format,
+      promptText,
+      messages,
+      variables,
+      modelConfig,
+      outputSchema,
+      tools,
+      activePrompt,
+      isActive,
+    } = req.body as PromptVersionRequestBody;
 
     // Validate request data
-    validateRequest({ promptText, activePrompt, isActive });
+    validateRequest({
+      promptFormat: format,
+      promptText,
+      messages,
+      variables,
+      modelConfig,
+      outputSchema,
+      tools,
+      activePrompt,
+      isActive,
+    });
 
     // Create prompt version
     const version = await promptVersionService.createPromptVersion(
       req.user.userId,
       promptId,
-      { promptText, activePrompt, isActive }
+      {
+        format,
+        promptText,
+        messages,
+        variables,
+        modelConfig,
+        outputSchema,
+        tools,
+        activePrompt,
+        isActive,
+      },
+      getAuditContext(req)
     );
 
     // Return created version
@@ -50,7 +98,7 @@ export const createPromptVersion = async (
 
 /**
  * Get all prompt versions for a prompt
- * GET /api/prompts/:promptId/versions
+ * GET /api/prompts/:promptId/versions?limit=20&createdAfter=2024-01-01&includeInactive=true
  */
 export const getPromptVersionsByPrompt = async (
   req: AuthenticatedRequest,
@@ -66,11 +114,60 @@ export const getPromptVersionsByPrompt = async (
 
     const { promptId } = req.params;
 
-    // Get prompt versions
-    const versions = await promptVersionService.getPromptVersionsByPrompt(req.user.userId, promptId);
+    // Validate pagination, sort and filter parameters
+    const options = getListOptions(req.query);
 
-    // Return versions with count
-    sendSuccessWithCount(res, versions, versions.length);
+    // Get one page of prompt versions
+    const { items, pagination } = await promptVersionService.getPromptVersionsByPrompt(
+      req.user.userId,
+      promptId,
+      options
+    );
+
+    // Return versions with count and pagination metadata
+    sendSuccessWithCount(res, items, items.length, pagination);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Compare two versions of a prompt
+ * GET /api/prompts/:promptId/versions/diff?from=v3&to=v5&format=unified
+ */
+export const diffPromptVersions = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+    const { from, to, format } = req.query;
+
+    // Validate query parameters
+    validateRequest({ fromVersion: from ?? '', toVersion: to ?? '', diffFormat: format });
+
+    // Compute diff
+    const diff = await promptVersionService.diffPromptVersions(
+      req.user.userId,
+      promptId,
+      from as string,
+      to as string
+    );
+
+    // Return unified diff text or structured diff
+    if (format === DIFF.UNIFIED_FORMAT) {
+      sendText(res, formatUnifiedDiff(diff.hunks, diff.from.version, diff.to.version));
+      return;
+    }
+
+    sendSuccess(res, diff);
   } catch (error) {
     next(error);
   }
@@ -78,7 +175,7 @@ export const getPromptVersionsByPrompt = async (
 
 /**
  * Get the active prompt version for a prompt (public endpoint)
- * GET /api/prompts/:promptId/active
+ * GET /api/prompts/:promptId/active?env=staging&subjectId=user-42
  */
 export const getActivePromptVersion = async (
   req: AuthenticatedRequest,
@@ -87,9 +184,18 @@ export const getActivePromptVersion = async (
 ): Promise<void> => {
   try {
     const { promptId } = req.params;
+    const environment = (req.query.env as string) || ENVIRONMENTS.PRODUCTION;
+    const subjectId = req.query.subjectId as string | undefined;
+
+    // Validate environment name and experiment subject
+    validateRequest({ environment, subjectId });
 
     // Get active prompt version (public endpoint, no authentication required)
-    const version = await promptVersionService.getActivePromptVersion(promptId);
+    const version = await promptVersionService.getActivePromptVersion(
+      promptId,
+      environment,
+      subjectId
+    );
 
     // Return active version
     sendSuccess(res, version);
@@ -98,6 +204,72 @@ export const getActivePromptVersion = async (
   }
 };
 
+/**
+ * Render the active prompt version with variable values (public endpoint)
+ * POST /api/prompts/:promptId/active/render?env=staging&subjectId=user-42
+ */
+export const renderActivePromptVersion = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { promptId } = req.params;
+    const { variables = {} } = (req.body || {}) as RenderPromptRequestBody;
+    const environment = (req.query.env as string) || ENVIRONMENTS.PRODUCTION;
+    const subjectId = req.query.subjectId as string | undefined;
+
+    // Validate variable values, environment name and experiment subject
+    validateRequest({ renderVariables: variables, environment, subjectId });
+
+    // Render active prompt version (public endpoint, no authentication required)
+    const rendered = await promptVersionService.renderActivePromptVersion(
+      promptId,
+      variables,
+      environment,
+      subjectId
+    );
+
+    // Return rendered prompt
+    sendSuccess(res, rendered);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the active versions of many prompts in one request (public endpoint)
+ * POST /api/prompts/active/batch?env=staging&subjectId=user-42
+ */
+export const getActivePromptVersionsBatch = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { prompts } = (req.body || {}) as BatchActivePromptRequestBody;
+    const environment = (req.query.env as string) || ENVIRONMENTS.PRODUCTION;
+    const subjectId = req.query.subjectId as string | undefined;
+
+    // Validate prompt references, environment name and experiment subject
+    validateRequest({ promptReferences: prompts ?? [], environment, subjectId });
+
+    // Each prompt's accessMode is checked against the same credentials
+    const caller = identifyPromptCaller(req);
+    const items = await promptVersionService.getActivePromptVersions(
+      prompts,
+      (prompt) => checkPromptAccess(prompt, caller),
+      environment,
+      subjectId
+    );
+
+    // Return one item per requested prompt
+    sendSuccessWithCount(res, items, items.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Get a prompt version by ID
  * GET /api/prompt-versions/:id
@@ -143,16 +315,47 @@ export const updatePromptVersion = async (
     }
 
     const { id } = req.params;
-    const { promptText, activePrompt, isActive } = req.body as UpdatePromptVersionRequestBody;
+    const {
+      format,
+      promptText,
+      messages,
+      variables,
+      modelConfig,
+      outputSchema,
+      tools,
+      activePrompt,
+      isActive,
+    } = req.body as UpdatePromptVersionRequestBody;
 
     // Validate update data
-    validateRequest({ promptText, activePrompt, isActive });
+    validateRequest({
+      promptFormat: format,
+      promptText,
+      messages,
+      variables,
+      modelConfig,
+      outputSchema,
+      tools,
+      activePrompt,
+      isActive,
+    });
 
     // Update prompt version
     const version = await promptVersionService.updatePromptVersion(
       id,
       req.user.userId,
-      { promptText, activePrompt, isActive }
+      {
+        format,
+        promptText,
+        messages,
+        variables,
+        modelConfig,
+        outputSchema,
+        tools,
+        activePrompt,
+        isActive,
+      },
+      getAuditContext(req)
     );
 
     // Return updated version
@@ -162,6 +365,109 @@ export const updatePromptVersion = async (
   }
 };
 
+/**
+ * Create the next version of a prompt from a copy of this version
+ * POST /api/prompt-versions/:id/derive
+ */
+export const createPromptVersionFromVersion = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const {
+      format,
+      promptText,
+      messages,
+      variables,
+      modelConfig,
+      outputSchema,
+      tools,
+      activePrompt,
+      isActive,
+    } = req.body as UpdatePromptVersionRequestBody;
+
+    // Validate the changes to apply to the copy
+    validateRequest({
+      promptFormat: format,
+      promptText,
+      messages,
+      variables,
+      modelConfig,
+      outputSchema,
+      tools,
+      activePrompt,
+      isActive,
+    });
+
+    // Copy the version, apply the changes and save it as the next version
+    const version = await promptVersionService.createPromptVersionFromVersion(
+      req.user.userId,
+      id,
+      {
+        format,
+        promptText,
+        messages,
+        variables,
+        modelConfig,
+        outputSchema,
+        tools,
+        activePrompt,
+        isActive,
+      },
+      getAuditContext(req)
+    );
+
+    // Return created version
+    sendCreated(res, version);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check a model output against the output schema of a prompt version
+ * POST /api/prompt-versions/:id/validate-output
+ */
+export const validatePromptVersionOutput = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { output } = req.body as ValidateOutputRequestBody;
+
+    // Validate the model output
+    validateRequest({ modelOutput: output ?? null });
+
+    // Extract the JSON from the output and validate it against the schema
+    const result = await promptVersionService.validatePromptVersionOutput(
+      id,
+      req.user.userId,
+      output
+    );
+
+    // Return the validation result
+    sendSuccess(res, result);
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Soft delete a prompt version
  * DELETE /api/prompt-versions/:id
@@ -181,7 +487,11 @@ export const deletePromptVersion = async (
     const { id } = req.params;
 
     // Delete prompt version
-    const version = await promptVersionService.deletePromptVersion(id, req.user.userId);
+    const version = await promptVersionService.deletePromptVersion(
+      id,
+      req.user.userId,
+      getAuditContext(req)
+    );
 
     // Return deleted version with message
     sendSuccessWithMessage(res, version, 'Prompt version deleted successfully');
@@ -0,0 +1,154 @@
+/**
+ * Tool Controller
+ * Handles HTTP requests for project tool library endpoints
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { validateRequest } from '../utils/validation';
+import {
+  sendCreated,
+  sendSuccess,
+  sendSuccessWithCount,
+  sendSuccessWithMessage,
+} from '../utils/responseHelpers';
+import * as toolService from '../services/toolService';
+import { AuthenticatedRequest, ToolRequestBody, UpdateToolRequestBody } from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Add a tool to a project's library
+ * POST /api/project/:id/tools
+ */
+export const createTool = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+    const { name, description, parameters } = req.body as ToolRequestBody;
+
+    // Validate request data
+    validateRequest({
+      toolName: name ?? null,
+      toolDescription: description,
+      toolParameters: parameters,
+    });
+
+    // Create tool
+    const tool = await toolService.createTool(id, req.user.userId, {
+      name,
+      description,
+      parameters,
+    });
+
+    // Return created tool
+    sendCreated(res, tool);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all tools in a project's library
+ * GET /api/project/:id/tools
+ */
+export const getTools = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+
+    // Get tools
+    const tools = await toolService.getToolsByProject(id, req.user.userId);
+
+    // Return tools with count
+    sendSuccessWithCount(res, tools, tools.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a tool in a project's library
+ * PUT /api/project/:id/tools/:toolId
+ */
+export const updateTool = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id, toolId } = req.params;
+    const { name, description, parameters } = req.body as UpdateToolRequestBody;
+
+    // Validate update data
+    validateRequest({
+      toolName: name,
+      toolDescription: description,
+      toolParameters: parameters,
+    });
+
+    // Update tool
+    const tool = await toolService.updateTool(id, toolId, req.user.userId, {
+      name,
+      description,
+      parameters,
+    });
+
+    // Return updated tool
+    sendSuccess(res, tool);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a tool from a project's library
+ * DELETE /api/project/:id/tools/:toolId
+ */
+export const deleteTool = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id, toolId } = req.params;
+
+    // Delete tool
+    const tool = await toolService.deleteTool(id, toolId, req.user.userId);
+
+    // Return deleted tool with message
+    sendSuccessWithMessage(res, tool, 'Tool deleted successfully');
+  } catch (error) {
+    next(error);
+  }
+};
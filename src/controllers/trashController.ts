@@ -0,0 +1,140 @@
+/**
+ * Trash Controller
+ * Handles HTTP requests for listing and restoring deleted projects, prompts and versions
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
+import { validateRequest } from '../utils/validation';
+import { sendSuccessWithCount, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as trashService from '../services/trashService';
+import { AuthenticatedRequest, TrashItemType } from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Get what is in the trash of the user's projects
+ * GET /api/trash?type=prompt&projectId=...
+ */
+export const getTrash = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { type, projectId } = req.query;
+
+    // Validate filters
+    validateRequest({ trashItemType: type, trashProjectId: projectId });
+
+    // Get trash items
+    const items = await trashService.getTrash(req.user.userId, {
+      type: type as TrashItemType | undefined,
+      projectId: projectId as string | undefined,
+    });
+
+    // Return trash items with count
+    sendSuccessWithCount(res, items, items.length);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restore a project with the prompts and versions deleted along with it
+ * POST /api/trash/projects/:projectId/restore
+ */
+export const restoreProject = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { projectId } = req.params;
+
+    // Restore project
+    const project = await trashService.restoreProject(
+      projectId,
+      req.user.userId,
+      getAuditContext(req)
+    );
+
+    // Return restored project
+    sendSuccessWithMessage(res, project, 'Project restored successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restore a prompt with the versions deleted along with it
+ * POST /api/trash/prompts/:promptId/restore
+ */
+export const restorePrompt = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { promptId } = req.params;
+
+    // Restore prompt
+    const prompt = await trashService.restorePrompt(promptId, req.user.userId, getAuditContext(req));
+
+    // Return restored prompt
+    sendSuccessWithMessage(res, prompt, 'Prompt restored successfully');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Restore a prompt version
+ * POST /api/trash/prompt-versions/:id/restore
+ */
+export const restorePromptVersion = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { id } = req.params;
+
+    // Restore prompt version
+    const version = await trashService.restorePromptVersion(
+      id,
+      req.user.userId,
+      getAuditContext(req)
+    );
+
+    // Return restored version
+    sendSuccessWithMessage(res, version, 'Prompt version restored successfully');
+  } catch (error) {
+    next(error);
+  }
+};
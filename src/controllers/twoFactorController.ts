@@ -0,0 +1,134 @@
+/**
+ * Two-Factor Authentication Controller
+ * Handles HTTP requests for enrolling in and managing two-factor authentication
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { validateRequest } from '../utils/validation';
+import { sendSuccess, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as twoFactorService from '../services/twoFactorService';
+import {
+  AuthenticatedRequest,
+  DisableTwoFactorRequestBody,
+  TwoFactorCodeRequestBody,
+} from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Start two-factor enrollment: generate a secret for an authenticator app
+ * POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    // Generate the pending secret
+    const enrollment = await twoFactorService.beginEnrollment(req.user.userId);
+
+    // Return secret and otpauth URI
+    sendSuccess(res, enrollment);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Enable two-factor authentication with a code from the authenticator app
+ * POST /api/auth/2fa/confirm
+ */
+export const confirmTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { code } = req.body as TwoFactorCodeRequestBody;
+
+    // Validate code
+    validateRequest({ twoFactorCode: code ?? '' });
+
+    // Enable two-factor authentication
+    const recoveryCodes = await twoFactorService.confirmEnrollment(req.user.userId, code);
+
+    // Return the recovery codes; they are not shown again
+    sendSuccessWithMessage(res, { recoveryCodes }, 'Two-factor authentication enabled');
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace the recovery codes
+ * POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { code } = req.body as TwoFactorCodeRequestBody;
+
+    // Validate code
+    validateRequest({ twoFactorCode: code ?? '' });
+
+    // Generate new recovery codes
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.userId, code);
+
+    sendSuccess(res, { recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Turn off two-factor authentication
+ * POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { password, code } = req.body as DisableTwoFactorRequestBody;
+
+    // Validate password and code
+    validateRequest({ currentPassword: password ?? '', twoFactorCode: code ?? '' });
+
+    // Disable two-factor authentication
+    await twoFactorService.disableTwoFactor(req.user.userId, password, code);
+
+    sendSuccessWithMessage(res, null, 'Two-factor authentication disabled');
+  } catch (error) {
+    next(error);
+  }
+};
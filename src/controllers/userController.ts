@@ -0,0 +1,83 @@
+/**
+ * User Controller
+ * Handles HTTP requests for the authenticated user's profile and account
+ */
+
+import { Response, NextFunction } from 'express';
+import { ApiError } from '../middleware/errorHandler';
+import { getAuditContext } from '../middleware/requestContext';
+import { validateRequest } from '../utils/validation';
+import { sendSuccess, sendSuccessWithMessage } from '../utils/responseHelpers';
+import * as userService from '../services/userService';
+import {
+  AuthenticatedRequest,
+  DeleteAccountRequestBody,
+  UpdateProfileRequestBody,
+} from '../types';
+import { HTTP_STATUS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+
+/**
+ * Update the authenticated user's name and email
+ * PUT /api/user/profile
+ */
+export const updateProfile = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { name, email, currentPassword } = req.body as UpdateProfileRequestBody;
+
+    // Validate the fields that were sent
+    validateRequest({ name, email, currentPassword });
+
+    // Update profile; a new email address has to be verified again
+    const user = await userService.updateProfile(req.user.userId, { name, email, currentPassword });
+
+    // Return updated user
+    sendSuccess(res, user);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete the authenticated user's account
+ * DELETE /api/user
+ */
+export const deleteAccount = async (
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_AUTHENTICATED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+
+    const { password } = req.body as DeleteAccountRequestBody;
+
+    // Validate password confirmation
+    validateRequest({ currentPassword: password ?? '' });
+
+    // Deactivate the account and the data only it can reach; every session is signed out
+    const summary = await userService.deactivateAccount(
+      req.user.userId,
+      password,
+      getAuditContext(req)
+    );
+
+    sendSuccessWithMessage(res, summary, 'Account deleted successfully');
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,33 @@
+/**
+ * Account Purge Job
+ * Periodically deletes accounts whose deletion grace period has passed
+ */
+
+import { ACCOUNTS } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { getPurgeAfterDays, purgeDeactivatedAccounts } from '../services/userService';
+
+/**
+ * Start purging deactivated accounts on an interval
+ * Does nothing unless ACCOUNT_PURGE_AFTER_DAYS is set; the timer does not keep the
+ * process alive
+ */
+export const startAccountPurgeJob = (): void => {
+  if (getPurgeAfterDays() === null) {
+    return;
+  }
+
+  const run = async (): Promise<void> => {
+    try {
+      const purged = await purgeDeactivatedAccounts();
+      if (purged > 0) {
+        console.log(`Purged ${purged} deactivated account(s)`);
+      }
+    } catch (error) {
+      console.error(ERROR_MESSAGES.ACCOUNT_PURGE_FAILED, error);
+    }
+  };
+
+  void run();
+  setInterval(run, ACCOUNTS.PURGE_INTERVAL_MINUTES * 60 * 1000).unref();
+};
@@ -0,0 +1,31 @@
+/**
+ * Trash Purge Job
+ * Periodically deletes projects, prompts and versions that stayed in the trash longer than
+ * the retention period
+ */
+
+import { TRASH } from '../constants';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { purgeExpiredTrash } from '../services/trashService';
+
+/**
+ * Start purging expired trash on an interval
+ * The timer does not keep the process alive
+ */
+export const startTrashPurgeJob = (): void => {
+  const run = async (): Promise<void> => {
+    try {
+      const { projects, prompts, versions } = await purgeExpiredTrash();
+      if (projects + prompts + versions > 0) {
+        console.log(
+          `Purged ${projects} project(s), ${prompts} prompt(s) and ${versions} version(s) from the trash`
+        );
+      }
+    } catch (error) {
+      console.error(ERROR_MESSAGES.TRASH_PURGE_FAILED, error);
+    }
+  };
+
+  void run();
+  setInterval(run, TRASH.PURGE_INTERVAL_MINUTES * 60 * 1000).unref();
+};
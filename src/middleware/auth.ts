@@ -6,8 +6,14 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { ApiError } from './errorHandler';
-import { AuthenticatedRequest } from '../types';
-import { HTTP_STATUS, ENV_KEYS } from '../constants';
+import Prompt, { IPrompt } from '../models/Prompt';
+import Project from '../models/Project';
+import User from '../models/User';
+import { verifyApiKey } from '../services/apiKeyService';
+import { getProjectRole } from '../services/permissionService';
+import { isSessionActive } from '../services/sessionService';
+import { AuthenticatedRequest, OrganizationRole } from '../types';
+import { HTTP_STATUS, ENV_KEYS, API_KEYS, PROMPT_ACCESS_MODES } from '../constants';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
 
 /**
@@ -16,73 +22,277 @@ import { ERROR_MESSAGES } from '../constants/errorMessages';
 interface JwtPayload {
   userId: string;
   email: string;
+  sid?: string;
   iat?: number;
   exp?: number;
 }
 
+/**
+ * Extract and verify the JWT from an Authorization header and check its session
+ * @param authHeader - Authorization header value
+ * @returns Decoded token payload
+ */
+const verifyBearerToken = async (authHeader: string | undefined): Promise<JwtPayload> => {
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    const error: ApiError = new Error(ERROR_MESSAGES.AUTH_REQUIRED);
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+    throw error;
+  }
+
+  // Extract token (remove 'Bearer ' prefix)
+  const token = authHeader.substring(7);
+
+  if (!token) {
+    const error: ApiError = new Error(ERROR_MESSAGES.AUTH_REQUIRED);
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+    throw error;
+  }
+
+  // Verify token
+  const jwtSecret = process.env[ENV_KEYS.JWT_SECRET];
+  if (!jwtSecret) {
+    const error: ApiError = new Error(ERROR_MESSAGES.JWT_SECRET_NOT_CONFIGURED);
+    error.statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    throw error;
+  }
+
+  let decoded: JwtPayload;
+  try {
+    decoded = jwt.verify(token, jwtSecret) as JwtPayload;
+  } catch (jwtError) {
+    if (jwtError instanceof jwt.TokenExpiredError) {
+      const error: ApiError = new Error(ERROR_MESSAGES.TOKEN_EXPIRED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    } else if (jwtError instanceof jwt.JsonWebTokenError) {
+      const error: ApiError = new Error(ERROR_MESSAGES.INVALID_TOKEN);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    } else {
+      const error: ApiError = new Error(ERROR_MESSAGES.TOKEN_VERIFICATION_FAILED);
+      error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+      throw error;
+    }
+  }
+
+  // Tokens signed for other purposes (such as invitations) carry no user, and tokens
+  // issued before sessions existed carry no session
+  if (!decoded.userId || !decoded.sid) {
+    const error: ApiError = new Error(ERROR_MESSAGES.INVALID_TOKEN);
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+    throw error;
+  }
+
+  // Access tokens stop working as soon as their session is signed out
+  if (!(await isSessionActive(decoded.sid))) {
+    const error: ApiError = new Error(ERROR_MESSAGES.SESSION_REVOKED);
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+    throw error;
+  }
+
+  // Tokens issued before the password was last changed are no longer valid
+  const user = await User.findById(decoded.userId).select('passwordChangedAt');
+  if (
+    user?.passwordChangedAt &&
+    Math.floor(user.passwordChangedAt.getTime() / 1000) > (decoded.iat ?? 0)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PASSWORD_CHANGED);
+    error.statusCode = HTTP_STATUS.UNAUTHORIZED;
+    throw error;
+  }
+
+  return decoded;
+};
+
 /**
  * Authentication middleware
  * Validates JWT token from Authorization header and attaches user to request
  */
-export const authenticate = (
+export const authenticate = async (
   req: AuthenticatedRequest,
   _res: Response,
   next: NextFunction
-): void => {
+): Promise<void> => {
   try {
-    // Get token from Authorization header
-    const authHeader = req.headers.authorization;
+    const decoded = await verifyBearerToken(req.headers.authorization);
+
+    // Attach user info to request object
+    req.user = {
+      userId: decoded.userId,
+      email: decoded.email,
+      sessionId: decoded.sid,
+    };
+
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      const error: ApiError = new Error(ERROR_MESSAGES.AUTH_REQUIRED);
+/**
+ * Credentials of a caller of the public active-version endpoints
+ * Each credential is verified on first use only, so a request that reads many prompts
+ * checks its API key and token once, and looks up the user's role once per project
+ */
+export interface PromptCaller {
+  apiKey: () => Promise<NonNullable<AuthenticatedRequest['apiKey']>>;
+  user: () => Promise<NonNullable<AuthenticatedRequest['user']>>;
+  projectRole: (projectId: string) => Promise<OrganizationRole | null>;
+}
+
+/**
+ * Collect the credentials sent with a request to the public endpoints
+ * An API key already verified by identifyApiKey is reused
+ * @param req - Express request
+ * @returns Lazily verified credentials
+ */
+export const identifyPromptCaller = (req: AuthenticatedRequest): PromptCaller => {
+  let apiKey: ReturnType<PromptCaller['apiKey']> | undefined;
+  let user: ReturnType<PromptCaller['user']> | undefined;
+  const projectRoles = new Map<string, ReturnType<PromptCaller['projectRole']>>();
+
+  const verifyKey = async (): ReturnType<PromptCaller['apiKey']> => {
+    const rawKey = req.header(API_KEYS.HEADER);
+
+    if (!rawKey) {
+      const error: ApiError = new Error(ERROR_MESSAGES.API_KEY_REQUIRED);
       error.statusCode = HTTP_STATUS.UNAUTHORIZED;
       throw error;
     }
 
-    // Extract token (remove 'Bearer ' prefix)
-    const token = authHeader.substring(7);
+    const verifiedKey = await verifyApiKey(rawKey);
 
-    if (!token) {
-      const error: ApiError = new Error(ERROR_MESSAGES.AUTH_REQUIRED);
+    if (!verifiedKey) {
+      const error: ApiError = new Error(ERROR_MESSAGES.INVALID_API_KEY);
       error.statusCode = HTTP_STATUS.UNAUTHORIZED;
       throw error;
     }
 
-    // Verify token
-    const jwtSecret = process.env[ENV_KEYS.JWT_SECRET];
-    if (!jwtSecret) {
-      const error: ApiError = new Error(ERROR_MESSAGES.JWT_SECRET_NOT_CONFIGURED);
-      error.statusCode = HTTP_STATUS.INTERNAL_SERVER_ERROR;
+    return {
+      keyId: String(verifiedKey._id),
+      projectId: verifiedKey.projectId.toString(),
+    };
+  };
+
+  const verifyUser = async (): ReturnType<PromptCaller['user']> => {
+    const decoded = await verifyBearerToken(req.headers.authorization);
+    return { userId: decoded.userId, email: decoded.email, sessionId: decoded.sid };
+  };
+
+  const findProjectRole = async (projectId: string): ReturnType<PromptCaller['projectRole']> => {
+    const { userId } = await (user ??= verifyUser());
+    const project = await Project.findById(projectId).select('organizationId userId members');
+    return project ? getProjectRole(project, userId) : null;
+  };
+
+  return {
+    apiKey: () => (apiKey ??= req.apiKey ? Promise.resolve(req.apiKey) : verifyKey()),
+    user: () => (user ??= verifyUser()),
+    projectRole: (projectId) => {
+      if (!projectRoles.has(projectId)) {
+        projectRoles.set(projectId, findProjectRole(projectId));
+      }
+      return projectRoles.get(projectId)!;
+    },
+  };
+};
+
+/**
+ * Enforce a prompt's accessMode for a caller
+ * @param prompt - Prompt being read
+ * @param caller - Credentials of the caller
+ * @returns The credential that granted access, if the prompt is not public
+ */
+export const checkPromptAccess = async (
+  prompt: Pick<IPrompt, 'accessMode' | 'projectId'>,
+  caller: PromptCaller
+): Promise<Pick<AuthenticatedRequest, 'apiKey' | 'user'>> => {
+  if (prompt.accessMode === PROMPT_ACCESS_MODES.PUBLIC) {
+    return {};
+  }
+
+  if (prompt.accessMode === PROMPT_ACCESS_MODES.API_KEY) {
+    const apiKey = await caller.apiKey();
+
+    if (apiKey.projectId !== prompt.projectId.toString()) {
+      const error: ApiError = new Error(ERROR_MESSAGES.API_KEY_PROJECT_MISMATCH);
+      error.statusCode = HTTP_STATUS.FORBIDDEN;
       throw error;
     }
 
-    try {
-      const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
+    return { apiKey };
+  }
 
-      // Attach user info to request object
-      req.user = {
-        userId: decoded.userId,
-        email: decoded.email,
-      };
+  // Owner-only access requires the JWT of a member of the prompt's project
+  const user = await caller.user();
+  const role = await caller.projectRole(prompt.projectId.toString());
 
-      next();
-    } catch (jwtError) {
-      if (jwtError instanceof jwt.TokenExpiredError) {
-        const error: ApiError = new Error(ERROR_MESSAGES.TOKEN_EXPIRED);
-        error.statusCode = HTTP_STATUS.UNAUTHORIZED;
-        throw error;
-      } else if (jwtError instanceof jwt.JsonWebTokenError) {
-        const error: ApiError = new Error(ERROR_MESSAGES.INVALID_TOKEN);
-        error.statusCode = HTTP_STATUS.UNAUTHORIZED;
-        throw error;
-      } else {
-        const error: ApiError = new Error(ERROR_MESSAGES.TOKEN_VERIFICATION_FAILED);
-        error.statusCode = HTTP_STATUS.UNAUTHORIZED;
-        throw error;
-      }
+  if (!role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_ACCESS_DENIED);
+    error.statusCode = HTTP_STATUS.FORBIDDEN;
+    throw error;
+  }
+
+  return { user };
+};
+
+/**
+ * Prompt access middleware for the public active-version endpoints
+ * Enforces the prompt's accessMode: public, API key of the prompt's project, or the JWT of
+ * a project member
+ * Unknown or deleted prompts are passed through so the service can report them
+ */
+export const authorizePromptAccess = async (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { promptId } = req.params;
+    const prompt = await Prompt.findOne({ _id: promptId, isActive: true });
+
+    if (!prompt) {
+      return next();
     }
+
+    const access = await checkPromptAccess(prompt, identifyPromptCaller(req));
+
+    if (access.apiKey) {
+      req.apiKey = access.apiKey;
+    }
+
+    if (access.user) {
+      req.user = access.user;
+    }
+
+    next();
   } catch (error) {
     next(error);
   }
 };
 
+/**
+ * Identify the API key of a request to the batch endpoint before it is rate limited
+ * The prompts of a batch are checked later, one by one; a missing or invalid key is
+ * reported for each prompt that requires one, and the request is counted by IP address
+ */
+export const identifyApiKey = async (
+  req: AuthenticatedRequest,
+  _res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (req.header(API_KEYS.HEADER)) {
+      req.apiKey = await identifyPromptCaller(req).apiKey();
+    }
+
+    next();
+  } catch (error) {
+    if ((error as ApiError).statusCode === HTTP_STATUS.UNAUTHORIZED) {
+      next();
+      return;
+    }
+
+    next(error);
+  }
+};
@@ -15,6 +15,7 @@ import { ApiResponse } from '../types';
 export interface ApiError extends Error {
   statusCode?: number;
   code?: number;
+  details?: unknown;
 }
 
 /**
@@ -29,12 +30,19 @@ export const errorHandler = (
 ): void => {
   let statusCode = err.statusCode || HTTP_STATUS.INTERNAL_SERVER_ERROR;
   let message = err.message || ERROR_MESSAGES.INTERNAL_SERVER_ERROR;
+  let details = err.statusCode ? err.details : undefined;
 
   // Handle MongoDB duplicate key error
+  // A collision on the one-active-version index means a concurrent activation, which can be retried
   if (err.name === 'MongoServerError' && (err as any).code === 11000) {
     statusCode = HTTP_STATUS.CONFLICT;
-    const field = Object.keys((err as any).keyPattern)[0];
-    message = ERROR_MESSAGES.DUPLICATE_KEY(field);
+    const keyPattern = (err as any).keyPattern;
+    if ('activePrompt' in keyPattern) {
+      message = ERROR_MESSAGES.CONCURRENT_UPDATE_CONFLICT;
+      details = { retryable: true };
+    } else {
+      message = ERROR_MESSAGES.DUPLICATE_KEY(Object.keys(keyPattern)[0]);
+    }
   }
 
   // Handle MongoDB validation errors
@@ -61,6 +69,7 @@ export const errorHandler = (
     success: false,
     error: {
       message,
+      ...(details !== undefined && { details }),
       ...(process.env[ENV_KEYS.NODE_ENV] === 'development' && { stack: err.stack }),
     },
   };
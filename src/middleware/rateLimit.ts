@@ -0,0 +1,118 @@
+/**
+ * Rate Limit Middleware
+ * Enforces rate limit policies per client and reports the limit in the standard
+ * RateLimit-Limit, RateLimit-Remaining and RateLimit-Reset headers
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { ApiError } from './errorHandler';
+import { hitRateLimit } from '../services/rateLimitService';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { HTTP_STATUS, RATE_LIMITS } from '../constants';
+import { AuthenticatedRequest, RateLimitPolicy } from '../types';
+
+/**
+ * Rate limit policy as configured in RATE_LIMITS.POLICIES
+ */
+interface PolicyConfig {
+  NAME: string;
+  WINDOW_SECONDS: number;
+  MAX: number;
+}
+
+/**
+ * Identifies the client a request is counted for; null skips the policy
+ */
+type KeyGenerator = (req: AuthenticatedRequest) => string | null;
+
+/**
+ * Build a policy from its configuration
+ * @param config - Entry of RATE_LIMITS.POLICIES
+ * @returns Rate limit policy
+ */
+const toPolicy = (config: PolicyConfig): RateLimitPolicy => ({
+  name: config.NAME,
+  windowSeconds: config.WINDOW_SECONDS,
+  max: config.MAX,
+});
+
+/**
+ * Key requests by client IP address (honours the trust proxy setting)
+ */
+export const byIp: KeyGenerator = (req) => req.ip || req.socket?.remoteAddress || null;
+
+/**
+ * Key requests by the email address in the body, so one account cannot be targeted
+ * from many addresses
+ */
+export const byEmail: KeyGenerator = (req) => {
+  const email = (req.body as { email?: unknown } | undefined)?.email;
+  return typeof email === 'string' && email.trim() ? email.toLowerCase().trim() : null;
+};
+
+/**
+ * Key requests by the verified API key, or by IP address without one
+ * Must run after authorizePromptAccess or identifyApiKey, which verify the key
+ */
+export const byApiKeyOrIp: KeyGenerator = (req) =>
+  req.apiKey ? `key:${req.apiKey.keyId}` : `ip:${byIp(req)}`;
+
+/**
+ * Create middleware enforcing a rate limit policy
+ * Requests over the limit are rejected with 429 Too Many Requests and a Retry-After header
+ * @param config - Entry of RATE_LIMITS.POLICIES
+ * @param keyGenerator - Identifies the client a request is counted for
+ * @returns Express middleware
+ */
+export const rateLimit = (config: PolicyConfig, keyGenerator: KeyGenerator) => {
+  const policy = toPolicy(config);
+
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const key = keyGenerator(req as AuthenticatedRequest);
+
+      if (key === null) {
+        next();
+        return;
+      }
+
+      const { count, resetAt } = await hitRateLimit(policy, key);
+      const resetSeconds = Math.max(0, Math.ceil((resetAt.getTime() - Date.now()) / 1000));
+
+      res.setHeader('RateLimit-Limit', String(policy.max));
+      res.setHeader('RateLimit-Remaining', String(Math.max(0, policy.max - count)));
+      res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+      if (count > policy.max) {
+        res.setHeader('Retry-After', String(resetSeconds));
+        const error: ApiError = new Error(ERROR_MESSAGES.TOO_MANY_REQUESTS);
+        error.statusCode = HTTP_STATUS.TOO_MANY_REQUESTS;
+        error.details = { retryAfter: resetSeconds };
+        throw error;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+};
+
+// Password guessing: per address, and per account across addresses
+export const loginRateLimit = [
+  rateLimit(RATE_LIMITS.POLICIES.LOGIN_IP, byIp),
+  rateLimit(RATE_LIMITS.POLICIES.LOGIN_EMAIL, byEmail),
+];
+
+// Other unauthenticated auth endpoints: signup, 2FA codes and email links
+export const authRateLimit = rateLimit(RATE_LIMITS.POLICIES.AUTH_IP, byIp);
+
+// Refresh token exchanges
+export const refreshRateLimit = rateLimit(RATE_LIMITS.POLICIES.REFRESH_IP, byIp);
+
+// Public reads of active prompt versions
+export const publicReadRateLimit = rateLimit(RATE_LIMITS.POLICIES.PUBLIC_READ, byApiKeyOrIp);
+
+// Every public read per address, counted before authorizePromptAccess checks credentials,
+// so guessing API keys or tokens is limited too
+export const publicIpRateLimit = rateLimit(RATE_LIMITS.POLICIES.PUBLIC_IP, byIp);
@@ -0,0 +1,33 @@
+/**
+ * Request Context Middleware
+ * Tags every request with an ID, so log lines and audit events can be traced back to it
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { AUDIT } from '../constants';
+import { AuditContext, AuthenticatedRequest } from '../types';
+
+/**
+ * Use the client's X-Request-Id, or generate one, and echo it in the response
+ * Client IDs that are too long or contain unexpected characters are replaced
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction): void => {
+  const clientId = req.header(AUDIT.REQUEST_ID_HEADER);
+  const requestId =
+    clientId && AUDIT.REQUEST_ID_REGEX.test(clientId) ? clientId : crypto.randomUUID();
+
+  (req as AuthenticatedRequest).requestId = requestId;
+  res.setHeader(AUDIT.REQUEST_ID_HEADER, requestId);
+  next();
+};
+
+/**
+ * Get the request details recorded with audit events
+ * @param req - Request making the change
+ * @returns Client IP address and request ID
+ */
+export const getAuditContext = (req: AuthenticatedRequest): AuditContext => ({
+  ipAddress: req.ip,
+  requestId: req.requestId,
+});
@@ -0,0 +1,61 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IActivationEvent extends Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  promptId: mongoose.Types.ObjectId;
+  action: string;
+  fromVersionId: mongoose.Types.ObjectId | null;
+  toVersionId: mongoose.Types.ObjectId | null;
+  performedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ActivationEventSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    promptId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Prompt',
+      required: [true, 'Prompt ID is required'],
+    },
+    action: {
+      type: String,
+      enum: ['activate', 'rollback', 'deactivate', 'promote'],
+      required: [true, 'Action is required'],
+    },
+    fromVersionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      default: null,
+    },
+    toVersionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      default: null,
+    },
+    performedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for reading the history of a prompt, newest first
+ActivationEventSchema.index({ promptId: 1, createdAt: -1 });
+
+export default mongoose.model<IActivationEvent>('ActivationEvent', ActivationEventSchema);
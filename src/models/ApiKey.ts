@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import mongoose, { Schema, Document } from 'mongoose';
+import bcrypt from 'bcryptjs';
+
+export interface IApiKey extends Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  name: string;
+  prefix: string;
+  key: string;
+  lastUsedAt?: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+  compareKey(candidateKey: string): Promise<boolean>;
+}
+
+const ApiKeySchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'API key name is required'],
+      trim: true,
+      minlength: [1, 'API key name must be at least 1 character'],
+      maxlength: [200, 'API key name must not exceed 200 characters'],
+    },
+    prefix: {
+      type: String,
+      required: true,
+    },
+    key: {
+      type: String,
+      required: true,
+      select: false, // Don't return the key digest by default
+    },
+    lastUsedAt: {
+      type: Date,
+    },
+    rotatedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+/**
+ * Hash an API key for storage
+ * Keys are long random strings, so a fast digest is enough; bcrypt would also ignore
+ * everything after their first 72 bytes
+ * @param key - Raw API key
+ * @returns SHA-256 digest
+ */
+const digestKey = (key: string): Buffer => crypto.createHash('sha256').update(key).digest();
+
+// Hash key before saving
+ApiKeySchema.pre('save', function (next) {
+  // Only hash the key if it has been modified (or is new)
+  if (this.isModified('key')) {
+    this.key = digestKey(this.key as string).toString('hex');
+  }
+
+  next();
+});
+
+// Method to compare a presented key with the stored digest
+ApiKeySchema.methods.compareKey = async function (candidateKey: string): Promise<boolean> {
+  // Keys created before digests were used are stored as bcrypt hashes
+  if (this.key.startsWith('$2')) {
+    return bcrypt.compare(candidateKey, this.key);
+  }
+
+  const stored = Buffer.from(this.key, 'hex');
+  const candidate = digestKey(candidateKey);
+
+  return stored.length === candidate.length && crypto.timingSafeEqual(stored, candidate);
+};
+
+// Indexes
+ApiKeySchema.index({ prefix: 1 }, { unique: true });
+ApiKeySchema.index({ projectId: 1, isActive: 1 });
+ApiKeySchema.index({ userId: 1 });
+
+export default mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
@@ -0,0 +1,99 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { AuditAction, AuditChange, AuditEntityType } from '../types';
+
+export interface IAuditEvent extends Document {
+  projectId: mongoose.Types.ObjectId;
+  actorId: mongoose.Types.ObjectId;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: mongoose.Types.ObjectId;
+  changes: AuditChange[];
+  ipAddress?: string;
+  requestId?: string;
+  createdAt: Date;
+}
+
+const AuditChangeSchema: Schema = new Schema(
+  {
+    field: {
+      type: String,
+      required: true,
+    },
+    before: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    after: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+  },
+  { _id: false }
+);
+
+const AuditEventSchema: Schema = new Schema(
+  {
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Actor ID is required'],
+    },
+    action: {
+      type: String,
+      enum: ['create', 'update', 'delete', 'activate', 'deactivate', 'restore'],
+      required: [true, 'Action is required'],
+    },
+    entityType: {
+      type: String,
+      enum: ['project', 'prompt', 'prompt_version'],
+      required: [true, 'Entity type is required'],
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Entity ID is required'],
+    },
+    changes: {
+      type: [AuditChangeSchema],
+      default: [],
+    },
+    ipAddress: {
+      type: String,
+    },
+    requestId: {
+      type: String, // X-Request-Id of the request that made the change
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+  }
+);
+
+// The log is append-only: saved events cannot be changed or removed through the model
+const rejectMutation = function (next: (error?: Error) => void): void {
+  next(new Error(ERROR_MESSAGES.AUDIT_EVENTS_IMMUTABLE));
+};
+
+AuditEventSchema.pre('save', function (next) {
+  if (!this.isNew) {
+    return next(new Error(ERROR_MESSAGES.AUDIT_EVENTS_IMMUTABLE));
+  }
+  next();
+});
+AuditEventSchema.pre(
+  ['updateOne', 'updateMany', 'findOneAndUpdate', 'replaceOne', 'findOneAndReplace'],
+  rejectMutation
+);
+AuditEventSchema.pre(['deleteOne', 'deleteMany', 'findOneAndDelete'], rejectMutation);
+
+// Indexes for reading a project's log, newest first, optionally filtered
+AuditEventSchema.index({ projectId: 1, createdAt: -1, _id: -1 });
+AuditEventSchema.index({ projectId: 1, entityType: 1, entityId: 1, createdAt: -1 });
+AuditEventSchema.index({ projectId: 1, actorId: 1, createdAt: -1 });
+
+export default mongoose.model<IAuditEvent>('AuditEvent', AuditEventSchema);
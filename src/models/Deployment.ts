@@ -0,0 +1,65 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IDeployment extends Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  promptId: mongoose.Types.ObjectId;
+  environment: string;
+  versionId: mongoose.Types.ObjectId;
+  deployedBy: mongoose.Types.ObjectId;
+  deployedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DeploymentSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    promptId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Prompt',
+      required: [true, 'Prompt ID is required'],
+    },
+    environment: {
+      type: String,
+      required: [true, 'Environment is required'],
+      trim: true,
+      lowercase: true,
+    },
+    versionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      required: [true, 'Prompt version ID is required'],
+    },
+    deployedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    deployedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only one deployment per prompt per environment
+DeploymentSchema.index({ promptId: 1, environment: 1 }, { unique: true });
+
+// Indexes for better query performance
+DeploymentSchema.index({ projectId: 1, environment: 1 });
+DeploymentSchema.index({ versionId: 1 });
+
+export default mongoose.model<IDeployment>('Deployment', DeploymentSchema);
@@ -0,0 +1,97 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { ExperimentVariant } from '../types';
+
+export interface IExperiment extends Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  promptId: mongoose.Types.ObjectId;
+  name: string;
+  status: string;
+  variants: ExperimentVariant[];
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  promotedVersionId: mongoose.Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ExperimentVariantSchema: Schema = new Schema(
+  {
+    versionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      required: [true, 'Variant version ID is required'],
+    },
+    weight: {
+      type: Number,
+      required: [true, 'Variant weight is required'],
+      min: [1, 'Variant weight must be at least 1'],
+      max: [1000, 'Variant weight must not exceed 1000'],
+    },
+  },
+  { _id: false }
+);
+
+const ExperimentSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    promptId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Prompt',
+      required: [true, 'Prompt ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Experiment name is required'],
+      trim: true,
+      minlength: [1, 'Experiment name must be at least 1 character'],
+      maxlength: [200, 'Experiment name must not exceed 200 characters'],
+    },
+    status: {
+      type: String,
+      enum: ['draft', 'running', 'stopped', 'promoted'],
+      default: 'draft',
+    },
+    variants: {
+      type: [ExperimentVariantSchema],
+      required: true,
+    },
+    startedAt: {
+      type: Date,
+      default: null,
+    },
+    stoppedAt: {
+      type: Date,
+      default: null,
+    },
+    promotedVersionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Only one experiment can be running per prompt
+ExperimentSchema.index(
+  { promptId: 1 },
+  { unique: true, partialFilterExpression: { status: 'running' } }
+);
+
+// Indexes for better query performance
+ExperimentSchema.index({ promptId: 1, createdAt: -1 });
+ExperimentSchema.index({ userId: 1 });
+
+export default mongoose.model<IExperiment>('Experiment', ExperimentSchema);
@@ -0,0 +1,82 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { InvitationStatus, OrganizationRole } from '../types';
+
+export interface IInvitation extends Document {
+  organizationId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId | null;
+  email: string;
+  role: OrganizationRole;
+  status: InvitationStatus;
+  invitedBy: mongoose.Types.ObjectId;
+  expiresAt: Date;
+  acceptedBy?: mongoose.Types.ObjectId;
+  acceptedAt?: Date;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const InvitationSchema: Schema = new Schema(
+  {
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      required: [true, 'Organization ID is required'],
+    },
+    // Project the invitee is invited to; null invites to the whole organization
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      default: null,
+    },
+    email: {
+      type: String,
+      required: [true, 'Email is required'],
+      lowercase: true,
+      trim: true,
+    },
+    role: {
+      type: String,
+      enum: ['owner', 'admin', 'editor', 'viewer'],
+      required: [true, 'Role is required'],
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'accepted', 'revoked', 'expired'],
+      default: 'pending',
+    },
+    invitedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Inviting user ID is required'],
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required'],
+    },
+    acceptedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    acceptedAt: {
+      type: Date,
+    },
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// At most one pending invitation per email address and organization or project
+InvitationSchema.index(
+  { organizationId: 1, projectId: 1, email: 1 },
+  { unique: true, partialFilterExpression: { status: 'pending' } }
+);
+
+// Indexes for better query performance
+InvitationSchema.index({ organizationId: 1, status: 1, createdAt: -1 });
+
+export default mongoose.model<IInvitation>('Invitation', InvitationSchema);
@@ -0,0 +1,76 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { OrganizationMember } from '../types';
+
+export interface IOrganization extends Document {
+  name: string;
+  members: OrganizationMember[];
+  createdBy: mongoose.Types.ObjectId;
+  isPersonal: boolean;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const OrganizationMemberSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user ID is required'],
+    },
+    role: {
+      type: String,
+      enum: ['owner', 'admin', 'editor', 'viewer'],
+      required: [true, 'Member role is required'],
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const OrganizationSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Organization name is required'],
+      trim: true,
+      minlength: [1, 'Organization name must be at least 1 character'],
+      maxlength: [200, 'Organization name must not exceed 200 characters'],
+    },
+    members: {
+      type: [OrganizationMemberSchema],
+      default: [],
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator user ID is required'],
+    },
+    // Created automatically for projects that are not created in a shared organization
+    isPersonal: {
+      type: Boolean,
+      default: false,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Each user has at most one personal organization
+OrganizationSchema.index(
+  { createdBy: 1 },
+  { unique: true, partialFilterExpression: { isPersonal: true } }
+);
+
+// Indexes for better query performance
+OrganizationSchema.index({ 'members.userId': 1, isActive: 1 });
+
+export default mongoose.model<IOrganization>('Organization', OrganizationSchema);
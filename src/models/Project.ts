@@ -1,13 +1,59 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { OrganizationMember, ProjectEnvironment } from '../types';
 
 export interface IProject extends Document {
   userId: mongoose.Types.ObjectId;
+  organizationId: mongoose.Types.ObjectId | null;
+  members: OrganizationMember[];
   name: string;
+  slug: string;
+  environments: ProjectEnvironment[];
+  immutableVersions: boolean;
   isActive: boolean;
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const EnvironmentSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Environment name is required'],
+      trim: true,
+      lowercase: true,
+      match: [/^[a-z][a-z0-9-]{0,49}$/, 'Environment name must be lowercase letters, digits and hyphens'],
+    },
+    description: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Environment description must not exceed 500 characters'],
+    },
+  },
+  { _id: false }
+);
+
+const ProjectMemberSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user ID is required'],
+    },
+    role: {
+      type: String,
+      enum: ['owner', 'admin', 'editor', 'viewer'],
+      required: [true, 'Member role is required'],
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const ProjectSchema: Schema = new Schema(
   {
     userId: {
@@ -15,6 +61,18 @@ const ProjectSchema: Schema = new Schema(
       ref: 'User',
       required: [true, 'User ID is required'],
     },
+    // Projects created before organizations existed have none and belong to their creator
+    organizationId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Organization',
+      default: null,
+    },
+    // People invited to this project only; members of the organization reach every project
+    // of the organization and are not listed here
+    members: {
+      type: [ProjectMemberSchema],
+      default: [],
+    },
     name: {
       type: String,
       required: [true, 'Project name is required'],
@@ -22,20 +80,62 @@ const ProjectSchema: Schema = new Schema(
       minlength: [1, 'Project name must be at least 1 character'],
       maxlength: [200, 'Project name must not exceed 200 characters'],
     },
+    slug: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [100, 'Project slug must not exceed 100 characters'],
+      match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Project slug must be lowercase letters and digits separated by hyphens'],
+    },
+    environments: {
+      type: [EnvironmentSchema],
+      default: () => [{ name: 'development' }, { name: 'staging' }, { name: 'production' }],
+    },
+    // Whether the text of saved prompt versions is locked; new projects turn it on, but
+    // projects created before the setting existed keep editable versions
+    immutableVersions: {
+      type: Boolean,
+      default: false,
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    // Set when the project is moved to the trash; everything deleted along with it shares the
+    // same deletedAt, so restoring brings back exactly that subtree
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Slugs are unique across all projects (projects created before slugs existed have none)
+ProjectSchema.index(
+  { slug: 1 },
+  { unique: true, partialFilterExpression: { slug: { $type: 'string' } } }
+);
+
 // Indexes for better query performance
+ProjectSchema.index({ organizationId: 1, isActive: 1 });
 ProjectSchema.index({ userId: 1, isActive: 1 });
 ProjectSchema.index({ userId: 1 });
 ProjectSchema.index({ isActive: 1 });
+ProjectSchema.index({ 'members.userId': 1 });
+
+// Trash listing and the retention purge
+ProjectSchema.index({ isActive: 1, deletedAt: 1 });
+
+// Default sort order of the paginated list endpoint (the _id tie-breaker keeps cursors stable)
+ProjectSchema.index({ userId: 1, createdAt: -1, _id: -1 });
 
 export default mongoose.model<IProject>('Project', ProjectSchema);
 
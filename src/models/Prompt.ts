@@ -1,10 +1,16 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import { PromptAccessMode } from '../types';
 
 export interface IPrompt extends Document {
   userId: mongoose.Types.ObjectId;
   projectId: mongoose.Types.ObjectId;
   name: string;
+  slug: string;
+  accessMode: PromptAccessMode;
+  versionCounter?: number;
   isActive: boolean;
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -28,16 +34,50 @@ const PromptSchema: Schema = new Schema(
       minlength: [1, 'Prompt name must be at least 1 character'],
       maxlength: [200, 'Prompt name must not exceed 200 characters'],
     },
+    slug: {
+      type: String,
+      trim: true,
+      lowercase: true,
+      maxlength: [100, 'Prompt slug must not exceed 100 characters'],
+      match: [/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Prompt slug must be lowercase letters and digits separated by hyphens'],
+    },
+    accessMode: {
+      type: String,
+      enum: ['public', 'api_key', 'owner'],
+      default: 'public',
+    },
+    // Number of the last version label handed out (v1, v2, ...); labels are never reused,
+    // even after versions are purged. Unset until the first version is saved with it
+    versionCounter: {
+      type: Number,
+    },
     isActive: {
       type: Boolean,
       default: true,
     },
+    // Set when the prompt is moved to the trash; everything deleted along with it shares the
+    // same deletedAt, so restoring brings back exactly that subtree
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
   },
   {
     timestamps: true,
   }
 );
 
+// Slugs are unique within a project (prompts created before slugs existed have none)
+PromptSchema.index(
+  { projectId: 1, slug: 1 },
+  { unique: true, partialFilterExpression: { slug: { $type: 'string' } } }
+);
+
 // Indexes for better query performance
 PromptSchema.index({ userId: 1, projectId: 1, isActive: 1 });
 PromptSchema.index({ userId: 1, isActive: 1 });
@@ -45,5 +85,11 @@ PromptSchema.index({ userId: 1 });
 PromptSchema.index({ projectId: 1, isActive: 1 });
 PromptSchema.index({ isActive: 1 });
 
+// Trash listing and the retention purge
+PromptSchema.index({ isActive: 1, deletedAt: 1 });
+
+// Default sort order of the paginated list endpoint (the _id tie-breaker keeps cursors stable)
+PromptSchema.index({ projectId: 1, createdAt: -1, _id: -1 });
+
 export default mongoose.model<IPrompt>('Prompt', PromptSchema);
 
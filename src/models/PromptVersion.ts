@@ -1,17 +1,121 @@
 import mongoose, { Schema, Document } from 'mongoose';
+import {
+  ChatMessage,
+  JsonSchema,
+  ModelConfig,
+  PromptFormat,
+  PromptVariable,
+  PromptVersionTool,
+} from '../types';
 
 export interface IPromptVersion extends Document {
   userId: mongoose.Types.ObjectId;
   promptId: mongoose.Types.ObjectId;
-  promptText: string;
+  format: PromptFormat;
+  promptText?: string;
+  messages?: ChatMessage[];
+  variables: PromptVariable[];
+  modelConfig: ModelConfig | null;
+  outputSchema: JsonSchema | null;
+  tools: PromptVersionTool[];
   version: string;
   versionName: string;
+  parentVersionId: mongoose.Types.ObjectId | null;
   activePrompt: boolean;
   isActive: boolean;
+  deletedAt: Date | null;
+  deletedBy: mongoose.Types.ObjectId | null;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const PromptVariableSchema: Schema = new Schema(
+  {
+    name: {
+      type: String,
+      required: [true, 'Variable name is required'],
+      trim: true,
+    },
+    type: {
+      type: String,
+      enum: ['string', 'number', 'enum'],
+      default: 'string',
+    },
+    defaultValue: {
+      type: Schema.Types.Mixed,
+    },
+    enumValues: {
+      type: [String],
+      default: undefined,
+    },
+  },
+  { _id: false }
+);
+
+const ChatMessageSchema: Schema = new Schema(
+  {
+    role: {
+      type: String,
+      enum: ['system', 'user', 'assistant'],
+      required: [true, 'Message role is required'],
+    },
+    content: {
+      type: String,
+      required: [true, 'Message content is required'],
+      trim: true,
+      minlength: [1, 'Message content must be at least 1 character'],
+    },
+  },
+  { _id: false }
+);
+
+// Validated against the provider's limits before it is saved (see MODEL_CONFIG)
+const ModelConfigSchema: Schema = new Schema(
+  {
+    provider: {
+      type: String,
+      enum: ['openai', 'azure_openai', 'anthropic', 'google', 'mistral', 'custom'],
+      required: [true, 'Model provider is required'],
+    },
+    model: {
+      type: String,
+      required: [true, 'Model name is required'],
+      trim: true,
+    },
+    temperature: Number,
+    topP: Number,
+    maxTokens: Number,
+    stopSequences: {
+      type: [String],
+      default: undefined,
+    },
+    responseFormat: String,
+    extraParams: Schema.Types.Mixed,
+  },
+  { _id: false }
+);
+
+// Tools referenced by toolId hold a copy of the library tool as it was when the version was saved
+const PromptVersionToolSchema: Schema = new Schema(
+  {
+    toolId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Tool',
+    },
+    name: {
+      type: String,
+      required: [true, 'Tool name is required'],
+      trim: true,
+    },
+    description: String,
+    parameters: {
+      type: Schema.Types.Mixed,
+      default: () => ({ type: 'object', properties: {} }),
+    },
+  },
+  { _id: false }
+);
+
 const PromptVersionSchema: Schema = new Schema(
   {
     userId: {
@@ -24,12 +128,50 @@ const PromptVersionSchema: Schema = new Schema(
       ref: 'Prompt',
       required: [true, 'Prompt ID is required'],
     },
+    // Versions created before chat messages existed have no format and are text versions
+    format: {
+      type: String,
+      enum: ['text', 'chat'],
+      default: 'text',
+    },
     promptText: {
       type: String,
-      required: [true, 'Prompt text is required'],
+      required: [
+        function (this: IPromptVersion) {
+          return this.format !== 'chat';
+        },
+        'Prompt text is required',
+      ],
       trim: true,
       minlength: [1, 'Prompt text must be at least 1 character'],
     },
+    messages: {
+      type: [ChatMessageSchema],
+      default: undefined,
+      validate: {
+        validator: function (this: IPromptVersion, messages?: ChatMessage[]) {
+          return this.format !== 'chat' || (!!messages && messages.length > 0);
+        },
+        message: 'Chat versions require at least one message',
+      },
+    },
+    variables: {
+      type: [PromptVariableSchema],
+      default: [],
+    },
+    modelConfig: {
+      type: ModelConfigSchema,
+      default: null,
+    },
+    // JSON Schema the model output must match; checked by validateRequest before saving
+    outputSchema: {
+      type: Schema.Types.Mixed,
+      default: null,
+    },
+    tools: {
+      type: [PromptVersionToolSchema],
+      default: [],
+    },
     version: {
       type: String,
       required: true,
@@ -40,6 +182,12 @@ const PromptVersionSchema: Schema = new Schema(
       required: true,
       trim: true,
     },
+    // Version this one was created from, if any; the links form the prompt's lineage graph
+    parentVersionId: {
+      type: Schema.Types.ObjectId,
+      ref: 'PromptVersion',
+      default: null,
+    },
     activePrompt: {
       type: Boolean,
       default: false,
@@ -48,9 +196,22 @@ const PromptVersionSchema: Schema = new Schema(
       type: Boolean,
       default: true,
     },
+    // Set when the version is moved to the trash; everything deleted along with it shares the
+    // same deletedAt, so restoring brings back exactly that subtree
+    deletedAt: {
+      type: Date,
+      default: null,
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null,
+    },
   },
   {
     timestamps: true,
+    // Keep empty objects, so an output schema of {} (any value) is not dropped
+    minimize: false,
   }
 );
 
@@ -61,12 +222,23 @@ PromptVersionSchema.index(
   { unique: true, partialFilterExpression: { activePrompt: true } }
 );
 
+// Version labels are unique within a prompt
+PromptVersionSchema.index({ promptId: 1, version: 1 }, { unique: true });
+
 // Indexes for better query performance
 PromptVersionSchema.index({ userId: 1, promptId: 1, isActive: 1 });
 PromptVersionSchema.index({ userId: 1, isActive: 1 });
 PromptVersionSchema.index({ userId: 1 });
 PromptVersionSchema.index({ promptId: 1, isActive: 1 });
+PromptVersionSchema.index({ parentVersionId: 1 });
+PromptVersionSchema.index({ 'tools.toolId': 1 });
 PromptVersionSchema.index({ isActive: 1 });
 
+// Trash listing and the retention purge
+PromptVersionSchema.index({ isActive: 1, deletedAt: 1 });
+
+// Default sort order of the paginated list endpoint (the _id tie-breaker keeps cursors stable)
+PromptVersionSchema.index({ promptId: 1, createdAt: -1, _id: -1 });
+
 export default mongoose.model<IPromptVersion>('PromptVersion', PromptVersionSchema);
 
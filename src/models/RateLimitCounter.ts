@@ -0,0 +1,29 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface IRateLimitCounter extends Document {
+  key: string;
+  count: number;
+  resetAt: Date;
+}
+
+const RateLimitCounterSchema: Schema = new Schema({
+  key: {
+    type: String, // Policy name and client key, e.g. login_ip:203.0.113.7
+    required: [true, 'Rate limit key is required'],
+  },
+  count: {
+    type: Number,
+    default: 0,
+  },
+  resetAt: {
+    type: Date, // End of the current window
+    required: [true, 'Reset time is required'],
+  },
+});
+
+RateLimitCounterSchema.index({ key: 1 }, { unique: true });
+
+// Let MongoDB remove counters once their window has ended
+RateLimitCounterSchema.index({ resetAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<IRateLimitCounter>('RateLimitCounter', RateLimitCounterSchema);
@@ -0,0 +1,78 @@
+import mongoose, { Schema, Document } from 'mongoose';
+import { SessionRevokeReason } from '../types';
+import { SESSIONS } from '../constants';
+
+export interface ISession extends Document {
+  userId: mongoose.Types.ObjectId;
+  familyId: mongoose.Types.ObjectId;
+  tokenHash: string;
+  expiresAt: Date;
+  rotatedAt: Date | null;
+  revokedAt: Date | null;
+  revokedReason: SessionRevokeReason | null;
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const SessionSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    // Shared by every refresh token issued from one login; access tokens carry it as "sid"
+    familyId: {
+      type: Schema.Types.ObjectId,
+      required: [true, 'Session family ID is required'],
+    },
+    // SHA-256 of the refresh token; the raw token is only returned to the client
+    tokenHash: {
+      type: String,
+      required: true,
+      select: false,
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiry date is required'],
+    },
+    // Set when the refresh token is exchanged for a new one
+    rotatedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedAt: {
+      type: Date,
+      default: null,
+    },
+    revokedReason: {
+      type: String,
+      enum: [...Object.values(SESSIONS.REVOKE_REASONS), null],
+      default: null,
+    },
+    userAgent: {
+      type: String,
+      maxlength: 500,
+    },
+    ipAddress: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Refresh tokens are looked up by hash
+SessionSchema.index({ tokenHash: 1 }, { unique: true });
+
+// Indexes for better query performance
+SessionSchema.index({ familyId: 1, revokedAt: 1 });
+SessionSchema.index({ userId: 1, revokedAt: 1 });
+
+// Remove sessions once their refresh token has expired
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export default mongoose.model<ISession>('Session', SessionSchema);
@@ -0,0 +1,51 @@
+import mongoose, { Schema, Document } from 'mongoose';
+
+export interface ITool extends Document {
+  userId: mongoose.Types.ObjectId;
+  projectId: mongoose.Types.ObjectId;
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Tool in a project's library; prompt versions reference it by ID (see PromptVersion.tools)
+const ToolSchema: Schema = new Schema(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User ID is required'],
+    },
+    projectId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Project',
+      required: [true, 'Project ID is required'],
+    },
+    name: {
+      type: String,
+      required: [true, 'Tool name is required'],
+      trim: true,
+      match: [/^[a-zA-Z0-9_-]{1,64}$/, 'Tool name may only contain letters, digits, _ and -'],
+    },
+    description: {
+      type: String,
+      maxlength: [1024, 'Tool description must not exceed 1024 characters'],
+    },
+    // JSON Schema for the tool's arguments; checked by validateRequest before saving
+    parameters: {
+      type: Schema.Types.Mixed,
+      default: () => ({ type: 'object', properties: {} }),
+    },
+  },
+  {
+    timestamps: true,
+    minimize: false,
+  }
+);
+
+// Tool names are unique within a project
+ToolSchema.index({ projectId: 1, name: 1 }, { unique: true });
+
+export default mongoose.model<ITool>('Tool', ToolSchema);
@@ -6,6 +6,20 @@ export interface IUser extends Document {
   password: string;
   name?: string;
   isActive: boolean;
+  emailVerified?: boolean;
+  emailVerificationTokenHash?: string;
+  emailVerificationExpiresAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes: string[];
+  twoFactorLastStep?: number;
+  passwordChangedAt?: Date;
+  deactivatedAt?: Date;
+  failedLoginAttempts: number;
+  lockedUntil?: Date;
+  passwordResetTokenHash?: string;
+  passwordResetExpiresAt?: Date;
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -39,6 +53,60 @@ const UserSchema: Schema = new Schema(
       type: Boolean,
       default: true,
     },
+    emailVerified: {
+      type: Boolean, // Unset for accounts created before email verification existed
+    },
+    emailVerificationTokenHash: {
+      type: String, // SHA-256 of the pending verification token
+      select: false,
+    },
+    emailVerificationExpiresAt: {
+      type: Date,
+      select: false,
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false,
+    },
+    twoFactorSecret: {
+      type: String, // Base32 TOTP secret
+      select: false,
+    },
+    twoFactorPendingSecret: {
+      type: String, // Secret of an enrollment that has not been confirmed yet
+      select: false,
+    },
+    twoFactorRecoveryCodes: {
+      type: [String], // SHA-256 of the unused recovery codes
+      select: false,
+    },
+    twoFactorLastStep: {
+      type: Number, // Time step of the last accepted code, so a code works only once
+      select: false,
+    },
+    passwordChangedAt: {
+      type: Date, // Access tokens issued before this are rejected
+    },
+    failedLoginAttempts: {
+      type: Number, // Consecutive wrong passwords since the last successful login or lock
+      default: 0,
+      select: false,
+    },
+    lockedUntil: {
+      type: Date, // Logins are refused until then
+      select: false,
+    },
+    deactivatedAt: {
+      type: Date, // Set when the user deleted their account; starts the purge grace period
+    },
+    passwordResetTokenHash: {
+      type: String, // SHA-256 of the pending password reset token
+      select: false,
+    },
+    passwordResetExpiresAt: {
+      type: Date,
+      select: false,
+    },
   },
   {
     timestamps: true,
@@ -72,6 +140,9 @@ UserSchema.methods.comparePassword = async function (
 // Indexes
 UserSchema.index({ email: 1 }, { unique: true });
 UserSchema.index({ isActive: 1 });
+UserSchema.index({ isActive: 1, deactivatedAt: 1 });
+UserSchema.index({ passwordResetTokenHash: 1 }, { sparse: true });
+UserSchema.index({ emailVerificationTokenHash: 1 }, { sparse: true });
 
 export default mongoose.model<IUser>('User', UserSchema);
 
@@ -1,14 +1,73 @@
 import { Router } from 'express';
-import { signup, login, getUserDetails } from '../controllers/authController';
+import {
+  signup,
+  login,
+  loginTwoFactor,
+  refresh,
+  logout,
+  logoutAll,
+  verifyEmail,
+  resendVerification,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  getUserDetails,
+} from '../controllers/authController';
+import {
+  setupTwoFactor,
+  confirmTwoFactor,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+} from '../controllers/twoFactorController';
 import { authenticate } from '../middleware/auth';
+import { authRateLimit, loginRateLimit, refreshRateLimit } from '../middleware/rateLimit';
 
 const router = Router();
 
 // POST /api/auth/signup - Create a new user account
-router.post('/signup', signup);
+router.post('/signup', authRateLimit, signup);
 
 // POST /api/auth/login - Login user
-router.post('/login', login);
+router.post('/login', loginRateLimit, login);
+
+// POST /api/auth/login/2fa - Complete a login with a two-factor authentication code
+router.post('/login/2fa', authRateLimit, loginTwoFactor);
+
+// POST /api/auth/refresh - Exchange a refresh token for new tokens
+router.post('/refresh', refreshRateLimit, refresh);
+
+// POST /api/auth/logout - Sign out the current session
+router.post('/logout', authenticate, logout);
+
+// POST /api/auth/logout-all - Sign out every session of the user
+router.post('/logout-all', authenticate, logoutAll);
+
+// GET /api/auth/verify-email?token= - Verify an email address
+router.get('/verify-email', authRateLimit, verifyEmail);
+
+// POST /api/auth/resend-verification - Email a new verification link
+router.post('/resend-verification', authRateLimit, resendVerification);
+
+// POST /api/auth/forgot-password - Email a password reset link
+router.post('/forgot-password', authRateLimit, forgotPassword);
+
+// POST /api/auth/reset-password - Set a new password with a reset token
+router.post('/reset-password', authRateLimit, resetPassword);
+
+// PUT /api/auth/password - Change the password of the authenticated user
+router.put('/password', authenticate, changePassword);
+
+// POST /api/auth/2fa/setup - Generate a secret for an authenticator app
+router.post('/2fa/setup', authenticate, setupTwoFactor);
+
+// POST /api/auth/2fa/confirm - Enable two-factor authentication with a code
+router.post('/2fa/confirm', authenticate, confirmTwoFactor);
+
+// POST /api/auth/2fa/recovery-codes - Replace the recovery codes
+router.post('/2fa/recovery-codes', authenticate, regenerateRecoveryCodes);
+
+// POST /api/auth/2fa/disable - Turn off two-factor authentication
+router.post('/2fa/disable', authenticate, disableTwoFactor);
 
 // GET /api/auth/getUserDetails - Get current authenticated user details
 router.get('/getUserDetails', authenticate, getUserDetails);
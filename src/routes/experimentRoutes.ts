@@ -0,0 +1,42 @@
+import { Router } from 'express';
+import {
+  createExperiment,
+  getExperimentsByPrompt,
+  getExperimentById,
+  startExperiment,
+  stopExperiment,
+  promoteExperiment,
+} from '../controllers/experimentController';
+import { validatePromptId, validateExperimentId } from '../utils/validation';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require valid ObjectId format
+router.param('promptId', validatePromptId);
+router.param('experimentId', validateExperimentId);
+
+// All routes require authentication
+router.use(authenticate);
+
+// Routes for experiments under a prompt
+// POST /api/prompts/:promptId/experiments - Create a draft experiment
+router.post('/prompts/:promptId/experiments', createExperiment);
+
+// GET /api/prompts/:promptId/experiments - Get all experiments for a prompt
+router.get('/prompts/:promptId/experiments', getExperimentsByPrompt);
+
+// Routes for individual experiments
+// GET /api/experiments/:experimentId - Get experiment by ID
+router.get('/experiments/:experimentId', getExperimentById);
+
+// POST /api/experiments/:experimentId/start - Start serving the experiment
+router.post('/experiments/:experimentId/start', startExperiment);
+
+// POST /api/experiments/:experimentId/stop - Stop serving the experiment
+router.post('/experiments/:experimentId/stop', stopExperiment);
+
+// POST /api/experiments/:experimentId/promote - Activate the winning variant
+router.post('/experiments/:experimentId/promote', promoteExperiment);
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router } from 'express';
+import {
+  createOrganization,
+  getOrganizations,
+  getOrganizationById,
+  updateOrganization,
+  addMember,
+  updateMemberRole,
+  removeMember,
+} from '../controllers/organizationController';
+import {
+  inviteToOrganization,
+  getInvitations,
+  revokeInvitation,
+  acceptInvitation,
+} from '../controllers/invitationController';
+import {
+  validateOrganizationId,
+  validateMemberId,
+  validateInvitationId,
+} from '../utils/validation';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require valid ObjectId format
+router.param('organizationId', validateOrganizationId);
+router.param('memberId', validateMemberId);
+router.param('invitationId', validateInvitationId);
+
+// All routes require authentication
+router.use(authenticate);
+
+// POST /api/organizations - Create an organization
+router.post('/organizations', createOrganization);
+
+// GET /api/organizations - Get all organizations the user belongs to
+router.get('/organizations', getOrganizations);
+
+// GET /api/organizations/:organizationId - Get an organization with its members
+router.get('/organizations/:organizationId', getOrganizationById);
+
+// PUT /api/organizations/:organizationId - Rename an organization
+router.put('/organizations/:organizationId', updateOrganization);
+
+// Routes for organization members
+// POST /api/organizations/:organizationId/members - Add a member by email
+router.post('/organizations/:organizationId/members', addMember);
+
+// PUT /api/organizations/:organizationId/members/:memberId - Change a member's role
+router.put('/organizations/:organizationId/members/:memberId', updateMemberRole);
+
+// DELETE /api/organizations/:organizationId/members/:memberId - Remove a member
+router.delete('/organizations/:organizationId/members/:memberId', removeMember);
+
+// Routes for organization invitations
+// POST /api/organizations/:organizationId/invitations - Invite an email address
+router.post('/organizations/:organizationId/invitations', inviteToOrganization);
+
+// GET /api/organizations/:organizationId/invitations - Get pending invitations
+router.get('/organizations/:organizationId/invitations', getInvitations);
+
+// DELETE /api/organizations/:organizationId/invitations/:invitationId - Revoke an invitation
+router.delete('/organizations/:organizationId/invitations/:invitationId', revokeInvitation);
+
+// POST /api/invitations/accept - Accept an invitation with the token from its email
+router.post('/invitations/accept', acceptInvitation);
+
+export default router;
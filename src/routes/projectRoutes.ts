@@ -5,8 +5,20 @@ import {
   getProjectById,
   updateProject,
   deleteProject,
+  getEnvironments,
+  addEnvironment,
+  removeEnvironment,
+  getAuditLog,
 } from '../controllers/projectController';
-import { validateProjectId } from '../utils/validation';
+import { createApiKey, getApiKeys, rotateApiKey, revokeApiKey } from '../controllers/apiKeyController';
+import { inviteToProject } from '../controllers/invitationController';
+import { createTool, getTools, updateTool, deleteTool } from '../controllers/toolController';
+import {
+  validateProjectId,
+  validateApiKeyId,
+  validateToolId,
+  validateEnvironmentName,
+} from '../utils/validation';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -16,6 +28,9 @@ router.use(authenticate);
 
 // All routes require valid ObjectId format
 router.param('id', validateProjectId);
+router.param('keyId', validateApiKeyId);
+router.param('toolId', validateToolId);
+router.param('environment', validateEnvironmentName);
 
 // GET /api/project/getProjects - Get all projects
 router.get('/getProjects', getProjects);
@@ -32,5 +47,47 @@ router.put('/:id', updateProject);
 // DELETE /api/project/:id - Soft delete a project by ID
 router.delete('/:id', deleteProject);
 
+// Routes for project API keys
+// POST /api/project/:id/keys - Create an API key (the raw key is returned once)
+router.post('/:id/keys', createApiKey);
+
+// GET /api/project/:id/keys - Get all API keys for a project
+router.get('/:id/keys', getApiKeys);
+
+// POST /api/project/:id/keys/:keyId/rotate - Rotate an API key
+router.post('/:id/keys/:keyId/rotate', rotateApiKey);
+
+// DELETE /api/project/:id/keys/:keyId - Revoke an API key
+router.delete('/:id/keys/:keyId', revokeApiKey);
+
+// POST /api/project/:id/invitations - Invite an email address to the project's organization
+router.post('/:id/invitations', inviteToProject);
+
+// Routes for project deployment environments
+// GET /api/project/:id/environments - Get all environments for a project
+router.get('/:id/environments', getEnvironments);
+
+// POST /api/project/:id/environments - Add an environment
+router.post('/:id/environments', addEnvironment);
+
+// DELETE /api/project/:id/environments/:environment - Remove an environment and its deployments
+router.delete('/:id/environments/:environment', removeEnvironment);
+
+// Routes for the project tool library
+// POST /api/project/:id/tools - Add a tool to the library
+router.post('/:id/tools', createTool);
+
+// GET /api/project/:id/tools - Get all tools in the library
+router.get('/:id/tools', getTools);
+
+// PUT /api/project/:id/tools/:toolId - Update a tool and the versions that reference it
+router.put('/:id/tools/:toolId', updateTool);
+
+// DELETE /api/project/:id/tools/:toolId - Delete a tool (versions keep their copy)
+router.delete('/:id/tools/:toolId', deleteTool);
+
+// GET /api/project/:id/audit - Get the audit log of a project
+router.get('/:id/audit', getAuditLog);
+
 export default router;
 
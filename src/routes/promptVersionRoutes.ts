@@ -2,11 +2,20 @@ import { Router } from 'express';
 import {
   createPromptVersion,
   getPromptVersionsByPrompt,
+  diffPromptVersions,
   getPromptVersionById,
   updatePromptVersion,
+  createPromptVersionFromVersion,
+  validatePromptVersionOutput,
   deletePromptVersion,
 } from '../controllers/promptVersionController';
-import { validatePromptId, validatePromptVersionId } from '../utils/validation';
+import { getDeployments, deployVersion, removeDeployment } from '../controllers/deploymentController';
+import { rollbackPromptVersion, getActivationHistory } from '../controllers/activationController';
+import {
+  validatePromptId,
+  validatePromptVersionId,
+  validateEnvironmentName,
+} from '../utils/validation';
 import { authenticate } from '../middleware/auth';
 
 const router = Router();
@@ -14,6 +23,7 @@ const router = Router();
 // All routes require valid ObjectId format
 router.param('promptId', validatePromptId);
 router.param('id', validatePromptVersionId);
+router.param('environment', validateEnvironmentName);
 
 // All routes require authentication
 router.use(authenticate);
@@ -25,6 +35,26 @@ router.post('/prompts/:promptId/version/create', createPromptVersion);
 // GET /api/prompts/:promptId/versions - Get all versions for a prompt
 router.get('/prompts/:promptId/versions', getPromptVersionsByPrompt);
 
+// GET /api/prompts/:promptId/versions/diff - Compare two versions of a prompt
+router.get('/prompts/:promptId/versions/diff', diffPromptVersions);
+
+// Routes for prompt activation
+// POST /api/prompts/:promptId/rollback - Roll back to an earlier version
+router.post('/prompts/:promptId/rollback', rollbackPromptVersion);
+
+// GET /api/prompts/:promptId/activation-history - Get the activation history of a prompt
+router.get('/prompts/:promptId/activation-history', getActivationHistory);
+
+// Routes for prompt deployments
+// GET /api/prompts/:promptId/deployments - Get all deployments for a prompt
+router.get('/prompts/:promptId/deployments', getDeployments);
+
+// PUT /api/prompts/:promptId/deployments/:environment - Deploy a version to an environment
+router.put('/prompts/:promptId/deployments/:environment', deployVersion);
+
+// DELETE /api/prompts/:promptId/deployments/:environment - Remove a deployment
+router.delete('/prompts/:promptId/deployments/:environment', removeDeployment);
+
 // Routes for individual prompt versions
 // GET /api/prompt-versions/:id - Get a prompt version by ID
 router.get('/prompt-versions/:id', getPromptVersionById);
@@ -32,6 +62,12 @@ router.get('/prompt-versions/:id', getPromptVersionById);
 // PUT /api/prompt-versions/:id - Update a prompt version by ID
 router.put('/prompt-versions/:id', updatePromptVersion);
 
+// POST /api/prompt-versions/:id/derive - Create the next version from a copy of this one
+router.post('/prompt-versions/:id/derive', createPromptVersionFromVersion);
+
+// POST /api/prompt-versions/:id/validate-output - Check a model output against the output schema
+router.post('/prompt-versions/:id/validate-output', validatePromptVersionOutput);
+
 // DELETE /api/prompt-versions/:id - Soft delete a prompt version by ID
 router.delete('/prompt-versions/:id', deletePromptVersion);
 
@@ -0,0 +1,33 @@
+import { Router } from 'express';
+import {
+  getTrash,
+  restoreProject,
+  restorePrompt,
+  restorePromptVersion,
+} from '../controllers/trashController';
+import { validateProjectId, validatePromptId, validatePromptVersionId } from '../utils/validation';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// All routes require valid ObjectId format
+router.param('projectId', validateProjectId);
+router.param('promptId', validatePromptId);
+router.param('id', validatePromptVersionId);
+
+// GET /api/trash - Get deleted projects, prompts and versions
+router.get('/', getTrash);
+
+// POST /api/trash/projects/:projectId/restore - Restore a project with its prompts and versions
+router.post('/projects/:projectId/restore', restoreProject);
+
+// POST /api/trash/prompts/:promptId/restore - Restore a prompt with its versions
+router.post('/prompts/:promptId/restore', restorePrompt);
+
+// POST /api/trash/prompt-versions/:id/restore - Restore a prompt version
+router.post('/prompt-versions/:id/restore', restorePromptVersion);
+
+export default router;
@@ -0,0 +1,16 @@
+import { Router } from 'express';
+import { updateProfile, deleteAccount } from '../controllers/userController';
+import { authenticate } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// PUT /api/user/profile - Update the user's name and email
+router.put('/profile', updateProfile);
+
+// DELETE /api/user - Delete the user's account
+router.delete('/', deleteAccount);
+
+export default router;
@@ -0,0 +1,444 @@
+/**
+ * Activation Service
+ * Handles every change of the active prompt version: activation, deactivation and rollback
+ * Changes run inside a transaction so a prompt never ends up with zero or two active versions
+ * The production deployment record, the activation history and the audit log are written in the
+ * same transaction
+ * Versions going to the trash are released here too, so they stop serving traffic
+ */
+
+import mongoose, { ClientSession, FilterQuery } from 'mongoose';
+import PromptVersion, { IPromptVersion } from '../models/PromptVersion';
+import Prompt from '../models/Prompt';
+import ActivationEvent from '../models/ActivationEvent';
+import Deployment from '../models/Deployment';
+import Experiment from '../models/Experiment';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ACTIVATION, AUDIT, DIFF, ENVIRONMENTS, EXPERIMENTS, PERMISSIONS } from '../constants';
+import { runInTransaction } from '../utils/transaction';
+import { authorizePrompt } from './permissionService';
+import { recordAuditEvent } from './auditService';
+import {
+  ActivationEventDocument,
+  AuditAction,
+  AuditContext,
+  Permission,
+  PromptVersionDocument,
+  RollbackResponse,
+} from '../types';
+
+/**
+ * Validate that prompt exists, is active, and the user may act on it
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @param permission - Permission required on the prompt's project
+ */
+const validatePromptExists = async (
+  promptId: string,
+  userId: string,
+  permission: Permission
+): Promise<void> => {
+  const prompt = await authorizePrompt(promptId, userId, permission);
+
+  if (!prompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+};
+
+/**
+ * Bring the production deployment record in line with the version flagged activePrompt
+ * @param promptId - Prompt ID
+ * @param userId - User ID of the actor
+ * @param session - Transaction session
+ */
+const syncProductionDeployment = async (
+  promptId: string,
+  userId: string,
+  session: ClientSession
+): Promise<void> => {
+  const activeVersion = await PromptVersion.findOne({ promptId, activePrompt: true }).session(session);
+
+  if (!activeVersion) {
+    await Deployment.deleteOne({ promptId, environment: ENVIRONMENTS.PRODUCTION }, { session });
+    return;
+  }
+
+  const prompt = await Prompt.findById(promptId).select('userId projectId').session(session);
+
+  await Deployment.findOneAndUpdate(
+    { promptId, environment: ENVIRONMENTS.PRODUCTION },
+    {
+      $set: {
+        userId: prompt?.userId,
+        projectId: prompt?.projectId,
+        versionId: activeVersion._id,
+        deployedBy: userId,
+        deployedAt: new Date(),
+      },
+    },
+    { upsert: true, new: true, runValidators: true, session }
+  );
+};
+
+/**
+ * Record a change of the active version
+ * @param promptId - Prompt ID
+ * @param action - Activation action
+ * @param fromVersionId - Previously active version ID, if any
+ * @param toVersionId - Newly active version ID, null when deactivating
+ * @param userId - User ID of the actor
+ * @param session - Transaction session
+ * @returns Recorded activation event
+ */
+const recordActivation = async (
+  promptId: string,
+  action: string,
+  fromVersionId: unknown,
+  toVersionId: unknown,
+  userId: string,
+  session: ClientSession
+): Promise<ActivationEventDocument> => {
+  const prompt = await Prompt.findById(promptId).select('userId projectId').session(session);
+
+  const [event] = await ActivationEvent.create(
+    [
+      {
+        userId: prompt?.userId,
+        projectId: prompt?.projectId,
+        promptId,
+        action,
+        fromVersionId: fromVersionId ?? null,
+        toVersionId: toVersionId ?? null,
+        performedBy: userId,
+      },
+    ],
+    { session }
+  );
+
+  return event as ActivationEventDocument;
+};
+
+/**
+ * Record a change of a version's active flag in the audit log
+ * @param promptId - Prompt ID
+ * @param action - Audit action ("activate" or "deactivate")
+ * @param before - Version before the change
+ * @param userId - User ID of the actor
+ * @param context - Request the change is made in
+ * @param session - Transaction session
+ */
+const auditActivation = async (
+  promptId: string,
+  action: AuditAction,
+  before: IPromptVersion,
+  userId: string,
+  context: AuditContext,
+  session: ClientSession
+): Promise<void> => {
+  const prompt = await Prompt.findById(promptId).select('projectId').session(session);
+  const after = await PromptVersion.findById(before._id).session(session);
+
+  await recordAuditEvent(
+    {
+      projectId: prompt?.projectId,
+      actorId: userId,
+      action,
+      entityType: AUDIT.ENTITY_TYPES.PROMPT_VERSION,
+      entityId: before._id,
+      before,
+      after,
+    },
+    context,
+    session
+  );
+};
+
+/**
+ * Make a version the active version of its prompt
+ * Must run inside a transaction; concurrent activations of the same prompt conflict
+ * and are retried or reported by runInTransaction
+ * @param promptId - Prompt ID
+ * @param versionId - Version ID to activate
+ * @param userId - User ID of the actor
+ * @param session - Transaction session
+ * @param action - Action recorded in the history (default "activate")
+ * @param context - Request the change is made in, for the audit log
+ * @returns Recorded activation event, or null if the version was already active
+ */
+export const activateVersion = async (
+  promptId: string,
+  versionId: string,
+  userId: string,
+  session: ClientSession,
+  action: string = ACTIVATION.ACTIONS.ACTIVATE,
+  context: AuditContext = {}
+): Promise<ActivationEventDocument | null> => {
+  const currentVersion = await PromptVersion.findOne({ promptId, activePrompt: true }).session(session);
+
+  if (currentVersion && currentVersion._id.equals(versionId)) {
+    return null;
+  }
+
+  const targetVersion = await PromptVersion.findById(versionId).session(session);
+
+  // Move the active pointer
+  await PromptVersion.updateMany(
+    { promptId, activePrompt: true },
+    { $set: { activePrompt: false } },
+    { session }
+  );
+  await PromptVersion.updateOne({ _id: versionId }, { $set: { activePrompt: true } }, { session });
+
+  await syncProductionDeployment(promptId, userId, session);
+
+  if (currentVersion) {
+    await auditActivation(promptId, AUDIT.ACTIONS.DEACTIVATE, currentVersion, userId, context, session);
+  }
+  if (targetVersion) {
+    await auditActivation(promptId, AUDIT.ACTIONS.ACTIVATE, targetVersion, userId, context, session);
+  }
+
+  return recordActivation(
+    promptId,
+    action,
+    currentVersion ? currentVersion._id : null,
+    versionId,
+    userId,
+    session
+  );
+};
+
+/**
+ * Clear the active flag of a version, leaving the prompt without an active version
+ * Must run inside a transaction
+ * @param promptId - Prompt ID
+ * @param versionId - Version ID to deactivate
+ * @param userId - User ID of the actor
+ * @param session - Transaction session
+ * @param context - Request the change is made in, for the audit log
+ * @returns Recorded activation event, or null if the version was not active
+ */
+export const deactivateVersion = async (
+  promptId: string,
+  versionId: string,
+  userId: string,
+  session: ClientSession,
+  context: AuditContext = {}
+): Promise<ActivationEventDocument | null> => {
+  const activeVersion = await PromptVersion.findOne({
+    _id: versionId,
+    promptId,
+    activePrompt: true,
+  }).session(session);
+  const result = await PromptVersion.updateOne(
+    { _id: versionId, promptId, activePrompt: true },
+    { $set: { activePrompt: false } },
+    { session }
+  );
+
+  await syncProductionDeployment(promptId, userId, session);
+
+  if (result.modifiedCount === 0 || !activeVersion) {
+    return null;
+  }
+
+  await auditActivation(promptId, AUDIT.ACTIONS.DEACTIVATE, activeVersion, userId, context, session);
+
+  return recordActivation(
+    promptId,
+    ACTIVATION.ACTIONS.DEACTIVATE,
+    versionId,
+    null,
+    userId,
+    session
+  );
+};
+
+/**
+ * Take prompt versions out of service before they go to the trash
+ * Clears the active flag of any of them, removes every deployment that points at them and
+ * stops the running experiments that serve them. Must run inside a transaction.
+ * @param filter - Versions being deleted
+ * @param userId - User ID of the actor
+ * @param session - Transaction session
+ * @param context - Request the change is made in, for the audit log
+ */
+export const releaseVersions = async (
+  filter: FilterQuery<IPromptVersion>,
+  userId: string,
+  session: ClientSession,
+  context: AuditContext = {}
+): Promise<void> => {
+  const activeVersions = await PromptVersion.find({ ...filter, activePrompt: true })
+    .select('promptId')
+    .session(session);
+
+  for (const version of activeVersions) {
+    await deactivateVersion(
+      version.promptId.toString(),
+      String(version._id),
+      userId,
+      session,
+      context
+    );
+  }
+
+  const versionIds = await PromptVersion.distinct('_id', filter).session(session);
+
+  await Deployment.deleteMany({ versionId: { $in: versionIds } }, { session });
+  await Experiment.updateMany(
+    { 'variants.versionId': { $in: versionIds }, status: EXPERIMENTS.STATUSES.RUNNING },
+    { $set: { status: EXPERIMENTS.STATUSES.STOPPED, stoppedAt: new Date() } },
+    { session }
+  );
+};
+
+/**
+ * Find the version a rollback should activate
+ * "previous" is the version that was active before the current one, falling back to
+ * the newest earlier version for prompts activated before history was recorded
+ * @param promptId - Prompt ID
+ * @param target - "previous", a version label (v3) or a prompt version ID
+ * @param currentVersion - Currently active version, if any
+ * @param session - Transaction session
+ * @returns Version to activate
+ */
+const resolveRollbackTarget = async (
+  promptId: string,
+  target: string,
+  currentVersion: IPromptVersion | null,
+  session: ClientSession
+): Promise<IPromptVersion> => {
+  if (target === ACTIVATION.PREVIOUS_TARGET) {
+    let previousVersion: IPromptVersion | null = null;
+
+    if (currentVersion) {
+      const lastActivation = await ActivationEvent.findOne({
+        promptId,
+        toVersionId: currentVersion._id,
+      })
+        .sort({ createdAt: -1, _id: -1 })
+        .session(session);
+
+      if (lastActivation?.fromVersionId) {
+        previousVersion = await PromptVersion.findOne({
+          _id: lastActivation.fromVersionId,
+          isActive: true,
+        }).session(session);
+      }
+
+      if (!previousVersion) {
+        previousVersion = await PromptVersion.findOne({
+          promptId,
+          isActive: true,
+          createdAt: { $lt: currentVersion.createdAt },
+        })
+          .sort({ createdAt: -1 })
+          .session(session);
+      }
+    }
+
+    if (!previousVersion) {
+      const error: ApiError = new Error(ERROR_MESSAGES.NO_PREVIOUS_VERSION);
+      error.statusCode = 400;
+      throw error;
+    }
+
+    return previousVersion;
+  }
+
+  const isLabel = DIFF.VERSION_LABEL_REGEX.test(target);
+  const filter = isLabel
+    ? { promptId, version: target }
+    : { promptId, _id: new mongoose.Types.ObjectId(target) };
+  const version = await PromptVersion.findOne(filter).session(session);
+
+  if (!version) {
+    const error: ApiError = new Error(
+      isLabel ? ERROR_MESSAGES.VERSION_LABEL_NOT_FOUND(target) : ERROR_MESSAGES.VERSION_NOT_IN_PROMPT
+    );
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (!version.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return version;
+};
+
+/**
+ * Roll the active version of a prompt back to an earlier version
+ * Switching the active pointer, the production deployment and the history entry
+ * happen in one transaction
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @param target - "previous" (default), a version label (v3) or a prompt version ID
+ * @param context - Request the change is made in, for the audit log
+ * @returns Newly active version and the recorded activation event
+ */
+export const rollbackPromptVersion = async (
+  promptId: string,
+  userId: string,
+  target: string = ACTIVATION.PREVIOUS_TARGET,
+  context: AuditContext = {}
+): Promise<RollbackResponse> => {
+  // Validate prompt exists, is active, and the user may change its active version
+  await validatePromptExists(promptId, userId, PERMISSIONS.PUBLISH);
+
+  return runInTransaction(async (session) => {
+    const currentVersion = await PromptVersion.findOne({ promptId, activePrompt: true }).session(
+      session
+    );
+    const targetVersion = await resolveRollbackTarget(promptId, target, currentVersion, session);
+
+    if (currentVersion && currentVersion._id.equals(targetVersion._id)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VERSION_ALREADY_ACTIVE);
+      error.statusCode = 400;
+      throw error;
+    }
+
+    const event = await activateVersion(
+      promptId,
+      targetVersion._id.toString(),
+      userId,
+      session,
+      ACTIVATION.ACTIONS.ROLLBACK,
+      context
+    );
+    const activeVersion = await PromptVersion.findById(targetVersion._id).session(session);
+
+    return {
+      activeVersion: activeVersion as PromptVersionDocument,
+      event: event as ActivationEventDocument,
+    };
+  });
+};
+
+/**
+ * Get the activation history of a prompt, newest first
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @returns Array of activation events
+ */
+export const getActivationHistory = async (
+  promptId: string,
+  userId: string
+): Promise<ActivationEventDocument[]> => {
+  // Validate prompt exists and the user may read it
+  await validatePromptExists(promptId, userId, PERMISSIONS.READ);
+
+  const events = await ActivationEvent.find({ promptId })
+    .populate('fromVersionId', 'version versionName isActive')
+    .populate('toVersionId', 'version versionName isActive')
+    .populate('performedBy', 'email name')
+    .sort({ createdAt: -1, _id: -1 });
+
+  return events as ActivationEventDocument[];
+};
@@ -0,0 +1,209 @@
+/**
+ * API Key Service
+ * Handles project-scoped API keys used to read prompts through the public endpoints
+ */
+
+import crypto from 'crypto';
+import ApiKey, { IApiKey } from '../models/ApiKey';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { API_KEYS, PERMISSIONS } from '../constants';
+import { validateProjectExists } from '../utils/validation';
+import { ApiKeyRequestBody, ApiKeyResponse } from '../types';
+
+/**
+ * Generate a new raw API key
+ * Format: amk_<prefix>_<secret>; the prefix is stored in clear text for lookup
+ * @returns Key prefix and the full raw key
+ */
+const generateRawKey = (): { prefix: string; key: string } => {
+  const prefix = crypto.randomBytes(API_KEYS.PREFIX_BYTES).toString('hex');
+  const secret = crypto.randomBytes(API_KEYS.SECRET_BYTES).toString('hex');
+
+  return {
+    prefix,
+    key: `${API_KEYS.KEY_PREFIX}_${prefix}_${secret}`,
+  };
+};
+
+/**
+ * Convert an API key document to a response object (without the key hash)
+ * @param apiKey - API key document
+ * @returns API key response
+ */
+const toApiKeyResponse = (apiKey: IApiKey): ApiKeyResponse => ({
+  _id: apiKey._id,
+  projectId: apiKey.projectId,
+  name: apiKey.name,
+  prefix: apiKey.prefix,
+  lastUsedAt: apiKey.lastUsedAt,
+  rotatedAt: apiKey.rotatedAt,
+  revokedAt: apiKey.revokedAt,
+  isActive: apiKey.isActive,
+  createdAt: apiKey.createdAt,
+  updatedAt: apiKey.updatedAt,
+});
+
+/**
+ * Find an API key belonging to a project
+ * @param projectId - Project ID
+ * @param keyId - API key ID
+ * @returns API key document
+ */
+const findProjectApiKey = async (projectId: string, keyId: string): Promise<IApiKey> => {
+  const apiKey = await ApiKey.findOne({ _id: keyId, projectId });
+
+  if (!apiKey) {
+    const error: ApiError = new Error(ERROR_MESSAGES.API_KEY_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return apiKey;
+};
+
+/**
+ * Create a new API key for a project
+ * The raw key is returned only once and cannot be retrieved later
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param keyData - API key data
+ * @returns Created API key and the raw key
+ */
+export const createApiKey = async (
+  projectId: string,
+  userId: string,
+  keyData: ApiKeyRequestBody
+): Promise<{ apiKey: ApiKeyResponse; key: string }> => {
+  // Validate project exists, is active, and the user may manage it
+  await validateProjectExists(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+  const { prefix, key } = generateRawKey();
+
+  const apiKey: IApiKey = new ApiKey({
+    userId,
+    projectId,
+    name: keyData.name ? keyData.name.trim() : API_KEYS.DEFAULT_NAME,
+    prefix,
+    key,
+  });
+
+  const savedKey = await apiKey.save();
+
+  return {
+    apiKey: toApiKeyResponse(savedKey),
+    key,
+  };
+};
+
+/**
+ * Get all API keys for a project
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param includeRevoked - Whether to include revoked keys
+ * @returns Array of API keys
+ */
+export const getApiKeysByProject = async (
+  projectId: string,
+  userId: string,
+  includeRevoked: boolean = false
+): Promise<ApiKeyResponse[]> => {
+  // Validate project exists and the user may read it
+  await validateProjectExists(projectId, userId);
+
+  const filter: { projectId: any; isActive?: boolean } = {
+    projectId,
+  };
+
+  // Only include usable keys by default
+  if (!includeRevoked) {
+    filter.isActive = true;
+  }
+
+  const apiKeys = await ApiKey.find(filter).sort({ createdAt: -1 });
+  return apiKeys.map(toApiKeyResponse);
+};
+
+/**
+ * Rotate an API key
+ * Replaces the key material in place; the previous key stops working immediately
+ * @param projectId - Project ID
+ * @param keyId - API key ID
+ * @param userId - User ID
+ * @returns Rotated API key and the new raw key
+ */
+export const rotateApiKey = async (
+  projectId: string,
+  keyId: string,
+  userId: string
+): Promise<{ apiKey: ApiKeyResponse; key: string }> => {
+  await validateProjectExists(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+  const apiKey = await findProjectApiKey(projectId, keyId);
+
+  if (!apiKey.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.API_KEY_REVOKED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const { prefix, key } = generateRawKey();
+  apiKey.prefix = prefix;
+  apiKey.key = key;
+  apiKey.rotatedAt = new Date();
+
+  const savedKey = await apiKey.save();
+
+  return {
+    apiKey: toApiKeyResponse(savedKey),
+    key,
+  };
+};
+
+/**
+ * Revoke an API key
+ * @param projectId - Project ID
+ * @param keyId - API key ID
+ * @param userId - User ID
+ * @returns Revoked API key
+ */
+export const revokeApiKey = async (
+  projectId: string,
+  keyId: string,
+  userId: string
+): Promise<ApiKeyResponse> => {
+  await validateProjectExists(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+  const apiKey = await findProjectApiKey(projectId, keyId);
+
+  if (apiKey.isActive) {
+    apiKey.isActive = false;
+    apiKey.revokedAt = new Date();
+    await apiKey.save();
+  }
+
+  return toApiKeyResponse(apiKey);
+};
+
+/**
+ * Verify a raw API key presented by a client
+ * @param rawKey - Raw API key (amk_<prefix>_<secret>)
+ * @returns Matching active API key, or null if the key is invalid or revoked
+ */
+export const verifyApiKey = async (rawKey: string): Promise<IApiKey | null> => {
+  const [keyPrefix, prefix, secret] = rawKey.split('_');
+
+  if (keyPrefix !== API_KEYS.KEY_PREFIX || !prefix || !secret) {
+    return null;
+  }
+
+  const apiKey = await ApiKey.findOne({ prefix, isActive: true }).select('+key');
+
+  if (!apiKey || !(await apiKey.compareKey(rawKey))) {
+    return null;
+  }
+
+  await ApiKey.updateOne({ _id: apiKey._id }, { $set: { lastUsedAt: new Date() } });
+
+  return apiKey;
+};
@@ -0,0 +1,149 @@
+/**
+ * Audit Service
+ * Records who changed a project, prompt or prompt version, when, from where and what
+ * the changed fields were before and after, in an append-only log per project
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { ClientSession, Document } from 'mongoose';
+import AuditEvent from '../models/AuditEvent';
+import { AUDIT, PERMISSIONS } from '../constants';
+import { paginate } from '../utils/pagination';
+import { authorizeProject } from './permissionService';
+import {
+  AuditChange,
+  AuditContext,
+  AuditEntityType,
+  AuditEventDocument,
+  AuditEventFilters,
+  AuditEventInput,
+  ListOptions,
+  PaginatedResult,
+} from '../types';
+
+/**
+ * Take the tracked fields of a document as plain JSON values
+ * IDs become strings and dates ISO strings, so snapshots compare and store alike
+ * @param entityType - Type of the document
+ * @param document - Document, or null if it does not exist (yet)
+ * @returns Field values by name
+ */
+const snapshot = (
+  entityType: AuditEntityType,
+  document: Document | null | undefined
+): Record<string, unknown> => {
+  if (!document) {
+    return {};
+  }
+
+  const plain = document.toObject({ depopulate: true }) as Record<string, unknown>;
+
+  return Object.fromEntries(
+    AUDIT.TRACKED_FIELDS[entityType].map((field) => [
+      field,
+      plain[field] === undefined ? null : JSON.parse(JSON.stringify(plain[field])),
+    ])
+  );
+};
+
+/**
+ * Compare the tracked fields of a document before and after a change
+ * @param entityType - Type of the document
+ * @param before - Document before the change, or null for creations
+ * @param after - Document after the change
+ * @returns Fields whose values differ
+ */
+export const diffEntity = (
+  entityType: AuditEntityType,
+  before: Document | null | undefined,
+  after: Document | null | undefined
+): AuditChange[] => {
+  const beforeValues = snapshot(entityType, before);
+  const afterValues = snapshot(entityType, after);
+
+  return AUDIT.TRACKED_FIELDS[entityType]
+    .map((field) => ({
+      field,
+      before: beforeValues[field] ?? null,
+      after: afterValues[field] ?? null,
+    }))
+    .filter((change) => !isDeepStrictEqual(change.before, change.after));
+};
+
+/**
+ * Append an event to the audit log
+ * Updates that changed none of the tracked fields are not recorded
+ * @param input - Who changed which entity, and the entity before and after
+ * @param context - Request the change was made in
+ * @param session - Transaction the change is part of, if any
+ */
+export const recordAuditEvent = async (
+  input: AuditEventInput,
+  context: AuditContext = {},
+  session?: ClientSession
+): Promise<void> => {
+  const changes = diffEntity(input.entityType, input.before, input.after);
+
+  if (input.action === AUDIT.ACTIONS.UPDATE && changes.length === 0) {
+    return;
+  }
+
+  await new AuditEvent({
+    projectId: input.projectId,
+    actorId: input.actorId,
+    action: input.action,
+    entityType: input.entityType,
+    entityId: input.entityId,
+    changes,
+    ipAddress: context.ipAddress,
+    requestId: context.requestId,
+  }).save({ session });
+};
+
+/**
+ * Get one page of a project's audit log, newest first
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param filters - Entity, actor and time range to narrow the log to
+ * @param options - Pagination options
+ * @returns Page of audit events with pagination metadata
+ */
+export const getAuditEvents = async (
+  projectId: string,
+  userId: string,
+  filters: AuditEventFilters = {},
+  options: ListOptions = {}
+): Promise<PaginatedResult<AuditEventDocument>> => {
+  // Deleted projects keep their log
+  await authorizeProject(projectId, userId, PERMISSIONS.READ);
+
+  const filter: Record<string, unknown> = { projectId };
+
+  if (filters.entityType) {
+    filter.entityType = filters.entityType;
+  }
+
+  if (filters.entityId) {
+    filter.entityId = filters.entityId;
+  }
+
+  if (filters.actorId) {
+    filter.actorId = filters.actorId;
+  }
+
+  if (filters.from || filters.to) {
+    filter.createdAt = {
+      ...(filters.from && { $gte: filters.from }),
+      ...(filters.to && { $lte: filters.to }),
+    };
+  }
+
+  const events = await paginate(
+    AuditEvent,
+    filter,
+    { page: options.page, limit: options.limit, cursor: options.cursor, sort: '-createdAt' },
+    { nameField: 'action', populate: { path: 'actorId', select: 'email name' } }
+  );
+
+  return events as PaginatedResult<AuditEventDocument>;
+};
@@ -3,20 +3,39 @@
  * Handles all authentication-related business logic
  */
 
+import crypto from 'crypto';
 import jwt, { SignOptions } from 'jsonwebtoken';
 import User, { IUser } from '../models/User';
 import { ApiError } from '../middleware/errorHandler';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
-import { ENV_KEYS, DEFAULTS } from '../constants';
-import { SignupRequestBody, LoginRequestBody, UserResponse } from '../types';
+import { ENV_KEYS, DEFAULTS, SESSIONS, MAIL, PASSWORD_RESET, ACCOUNT_LOCKOUT } from '../constants';
+import { acceptInvitation, findPendingInvitation } from './invitationService';
+import { buildAppLink, sendMail } from './mailService';
+import { isEmailVerified, isLoginBlocked, sendVerificationEmail } from './verificationService';
+import { consumeCode, createLoginChallenge, findChallengedUser } from './twoFactorService';
+import {
+  createSession,
+  revokeSessionFamily,
+  revokeUserSessions,
+  rotateSession,
+} from './sessionService';
+import {
+  AuthTokens,
+  SignupRequestBody,
+  LoginRequestBody,
+  LoginResult,
+  SessionContext,
+  UserResponse,
+} from '../types';
 
 /**
- * Generate JWT token for user
+ * Generate a short-lived JWT access token for user
  * @param userId - User ID
  * @param email - User email
+ * @param sessionId - Session family the token belongs to; revoking it invalidates the token
  * @returns JWT token string
  */
-export const generateToken = (userId: string, email: string): string => {
+export const generateToken = (userId: string, email: string, sessionId: string): string => {
   const jwtSecret = process.env[ENV_KEYS.JWT_SECRET];
   const jwtExpiresIn = process.env[ENV_KEYS.JWT_EXPIRES_IN] || DEFAULTS.JWT_EXPIRES_IN;
 
@@ -24,21 +43,56 @@ export const generateToken = (userId: string, email: string): string => {
     throw new Error(ERROR_MESSAGES.JWT_SECRET_NOT_CONFIGURED);
   }
 
-  return jwt.sign({ userId, email }, jwtSecret, {
+  return jwt.sign({ userId, email, sid: sessionId }, jwtSecret, {
     expiresIn: jwtExpiresIn,
   } as SignOptions);
 };
 
 /**
- * Create a new user account
+ * Start a session and issue its access and refresh tokens
+ * @param user - User document
+ * @param context - Client the session is used from
+ * @returns Access token and refresh token
+ */
+const startSession = async (user: IUser, context: SessionContext): Promise<AuthTokens> => {
+  const userId = String(user._id);
+  const { sessionId, refreshToken } = await createSession(userId, context);
+
+  return {
+    token: generateToken(userId, user.email, sessionId),
+    refreshToken,
+  };
+};
+
+/**
+ * Build the user data returned by the API (without password)
+ * @param user - User document
+ * @returns User response
+ */
+export const toUserResponse = (user: IUser): UserResponse => ({
+  _id: user._id,
+  email: user.email,
+  name: user.name,
+  isActive: user.isActive,
+  emailVerified: isEmailVerified(user),
+  twoFactorEnabled: user.twoFactorEnabled === true,
+  createdAt: user.createdAt,
+  updatedAt: user.updatedAt,
+});
+
+/**
+ * Create a new user account and email a link to verify its address
+ * With an invitation token, the invitation is accepted once the account exists; the
+ * token was delivered to the address, so the address counts as verified.
  * @param userData - User signup data
- * @returns Created user and JWT token
+ * @param context - Client the session is used from
+ * @returns Created user, with access and refresh tokens unless unverified users cannot log in
  */
-export const signupUser = async (userData: SignupRequestBody): Promise<{
-  user: UserResponse;
-  token: string;
-}> => {
-  const { email, password, name } = userData;
+export const signupUser = async (
+  userData: SignupRequestBody,
+  context: SessionContext = {}
+): Promise<{ user: UserResponse } & Partial<AuthTokens>> => {
+  const { email, password, name, invitationToken } = userData;
 
   // Check if user already exists
   const existingUser = await User.findOne({ email: email.toLowerCase() });
@@ -48,48 +102,99 @@ export const signupUser = async (userData: SignupRequestBody): Promise<{
     throw error;
   }
 
+  // Check the invitation first so a bad token does not leave an account behind
+  if (invitationToken) {
+    await findPendingInvitation(invitationToken, email);
+  }
+
   // Create new user
   const user: IUser = new User({
     email: email.toLowerCase().trim(),
     password,
     name: name ? name.trim() : undefined,
     isActive: DEFAULTS.IS_ACTIVE,
+    emailVerified: Boolean(invitationToken),
   });
 
   const savedUser = await user.save();
 
-  // Generate JWT token
-  const token = generateToken((savedUser._id as any).toString(), savedUser.email);
+  if (invitationToken) {
+    await acceptInvitation(invitationToken, String(savedUser._id));
+  } else {
+    // The account exists either way; a failed email can be sent again with the resend endpoint
+    try {
+      await sendVerificationEmail(savedUser);
+    } catch (mailError) {
+      console.error(ERROR_MESSAGES.VERIFICATION_EMAIL_FAILED, mailError);
+    }
+  }
+
+  // Start a session, unless the user has to verify their address first
+  const tokens = isLoginBlocked(savedUser) ? {} : await startSession(savedUser, context);
 
   // Return user data (without password)
-  const userResponse: UserResponse = {
-    _id: savedUser._id,
-    email: savedUser.email,
-    name: savedUser.name,
-    isActive: savedUser.isActive,
-    createdAt: savedUser.createdAt,
-    updatedAt: savedUser.updatedAt,
-  };
-
   return {
-    user: userResponse,
-    token,
+    user: toUserResponse(savedUser),
+    ...tokens,
   };
 };
 
 /**
- * Authenticate user and generate token
+ * Throw if repeated failed logins have locked a user's account
+ * @param user - User document with its lock selected
+ */
+const assertNotLocked = (user: IUser): void => {
+  const remainingMs = user.lockedUntil ? user.lockedUntil.getTime() - Date.now() : 0;
+
+  if (remainingMs > 0) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ACCOUNT_LOCKED(Math.ceil(remainingMs / 60000)));
+    error.statusCode = 423;
+    error.details = { lockedUntil: user.lockedUntil };
+    throw error;
+  }
+};
+
+/**
+ * Count a wrong password or two-factor code, locking the account once too many follow each other
+ * The counter starts over when the account is locked
+ * @param user - User document
+ */
+const recordFailedLogin = async (user: IUser): Promise<void> => {
+  const updated = await User.findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { failedLoginAttempts: 1 } },
+    { new: true }
+  ).select('+failedLoginAttempts');
+
+  if (updated && updated.failedLoginAttempts >= ACCOUNT_LOCKOUT.MAX_FAILED_ATTEMPTS) {
+    await User.updateOne(
+      { _id: user._id, failedLoginAttempts: { $gte: ACCOUNT_LOCKOUT.MAX_FAILED_ATTEMPTS } },
+      {
+        failedLoginAttempts: 0,
+        lockedUntil: new Date(Date.now() + ACCOUNT_LOCKOUT.LOCK_MINUTES * 60 * 1000),
+      }
+    );
+  }
+};
+
+/**
+ * Authenticate user and start a session
+ * Users with two-factor authentication get a challenge token instead, to exchange
+ * together with a code in completeTwoFactorLogin
  * @param credentials - User login credentials
- * @returns User and JWT token
+ * @param context - Client the session is used from
+ * @returns User with access and refresh tokens, or a two-factor challenge
  */
-export const loginUser = async (credentials: LoginRequestBody): Promise<{
-  user: UserResponse;
-  token: string;
-}> => {
+export const loginUser = async (
+  credentials: LoginRequestBody,
+  context: SessionContext = {}
+): Promise<LoginResult> => {
   const { email, password } = credentials;
 
   // Find user by email and include password field
-  const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
+  const user = await User.findOne({ email: email.toLowerCase() }).select(
+    '+password +failedLoginAttempts +lockedUntil'
+  );
 
   if (!user) {
     const error: ApiError = new Error(ERROR_MESSAGES.INVALID_EMAIL_OR_PASSWORD);
@@ -104,33 +209,267 @@ export const loginUser = async (credentials: LoginRequestBody): Promise<{
     throw error;
   }
 
+  // A locked account refuses even the right password
+  assertNotLocked(user);
+
   // Compare password
   const isPasswordValid = await user.comparePassword(password);
   if (!isPasswordValid) {
+    await recordFailedLogin(user);
     const error: ApiError = new Error(ERROR_MESSAGES.INVALID_EMAIL_OR_PASSWORD);
     error.statusCode = 401;
     throw error;
   }
 
-  // Generate JWT token
-  const token = generateToken((user._id as any).toString(), user.email);
+  if (user.failedLoginAttempts > 0) {
+    await User.updateOne({ _id: user._id }, { failedLoginAttempts: 0 });
+  }
+
+  // Check the policy for unverified addresses only once the password is known to be right
+  if (isLoginBlocked(user)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EMAIL_NOT_VERIFIED);
+    error.statusCode = 403;
+    throw error;
+  }
+
+  // The password alone is not enough with two-factor authentication
+  if (user.twoFactorEnabled) {
+    return { twoFactorRequired: true, challengeToken: createLoginChallenge(user) };
+  }
+
+  // Start a session
+  const tokens = await startSession(user, context);
 
   // Return user data (without password)
-  const userResponse: UserResponse = {
-    _id: user._id,
-    email: user.email,
-    name: user.name,
-    isActive: user.isActive,
-    createdAt: user.createdAt,
-    updatedAt: user.updatedAt,
+  return {
+    user: toUserResponse(user),
+    ...tokens,
   };
+};
+
+/**
+ * Complete a login with the second factor and start a session
+ * @param challengeToken - Challenge token from loginUser
+ * @param code - Current TOTP code or an unused recovery code
+ * @param context - Client the session is used from
+ * @returns User with access and refresh tokens
+ */
+export const completeTwoFactorLogin = async (
+  challengeToken: string,
+  code: string,
+  context: SessionContext = {}
+): Promise<{ user: UserResponse } & AuthTokens> => {
+  const user = await findChallengedUser(challengeToken);
+
+  // Wrong codes count toward the same lockout as wrong passwords
+  assertNotLocked(user);
+
+  if (!(await consumeCode(user, code))) {
+    await recordFailedLogin(user);
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+    error.statusCode = 401;
+    throw error;
+  }
+
+  if (user.failedLoginAttempts > 0) {
+    await User.updateOne({ _id: user._id }, { failedLoginAttempts: 0 });
+  }
+
+  const tokens = await startSession(user, context);
+
+  return {
+    user: toUserResponse(user),
+    ...tokens,
+  };
+};
+
+/**
+ * Exchange a refresh token for a new access token and refresh token
+ * @param refreshToken - Refresh token from login, signup or the previous refresh
+ * @param context - Client the session is used from
+ * @returns New access token and refresh token
+ */
+export const refreshTokens = async (
+  refreshToken: string,
+  context: SessionContext = {}
+): Promise<AuthTokens> => {
+  const session = await rotateSession(refreshToken, context);
+  const user = await User.findById(session.userId);
+
+  if (!user || !user.isActive) {
+    await revokeSessionFamily(session.sessionId, SESSIONS.REVOKE_REASONS.LOGOUT);
+
+    const error: ApiError = new Error(ERROR_MESSAGES.ACCOUNT_DEACTIVATED);
+    error.statusCode = 403;
+    throw error;
+  }
+
+  if (isLoginBlocked(user)) {
+    await revokeSessionFamily(session.sessionId, SESSIONS.REVOKE_REASONS.LOGOUT);
+
+    const error: ApiError = new Error(ERROR_MESSAGES.EMAIL_NOT_VERIFIED);
+    error.statusCode = 403;
+    throw error;
+  }
 
   return {
-    user: userResponse,
-    token,
+    token: generateToken(session.userId, user.email, session.sessionId),
+    refreshToken: session.refreshToken,
   };
 };
 
+/**
+ * Sign out the current session
+ * @param sessionId - Session family ID of the access token
+ */
+export const logout = async (sessionId: string): Promise<void> => {
+  await revokeSessionFamily(sessionId, SESSIONS.REVOKE_REASONS.LOGOUT);
+};
+
+/**
+ * Sign out every session of a user
+ * @param userId - User ID
+ * @returns Number of sessions signed out
+ */
+export const logoutAll = async (userId: string): Promise<number> =>
+  revokeUserSessions(userId, SESSIONS.REVOKE_REASONS.LOGOUT_ALL);
+
+/**
+ * Hash a password reset token for storage and lookup
+ * @param resetToken - Raw reset token
+ * @returns Hex-encoded SHA-256 hash
+ */
+const hashResetToken = (resetToken: string): string =>
+  crypto.createHash('sha256').update(resetToken).digest('hex');
+
+/**
+ * Set a new password and sign out every session, so tokens issued with the old
+ * password stop working
+ * @param user - User document
+ * @param password - New plain-text password (hashed on save)
+ */
+const setPassword = async (user: IUser, password: string): Promise<void> => {
+  user.password = password;
+  user.passwordChangedAt = new Date();
+  user.passwordResetTokenHash = undefined;
+  user.passwordResetExpiresAt = undefined;
+  user.failedLoginAttempts = 0;
+  user.lockedUntil = undefined;
+  await user.save();
+
+  await revokeUserSessions(String(user._id), SESSIONS.REVOKE_REASONS.PASSWORD_CHANGE);
+};
+
+/**
+ * Email a password reset link
+ * Unknown and deactivated addresses are ignored silently, so the response does not
+ * reveal which emails have an account. A new request replaces any pending reset link.
+ * @param email - Email address of the account
+ */
+export const requestPasswordReset = async (email: string): Promise<void> => {
+  const user = await User.findOne({ email: email.toLowerCase().trim(), isActive: true });
+
+  if (!user) {
+    return;
+  }
+
+  const resetToken = crypto.randomBytes(PASSWORD_RESET.TOKEN_BYTES).toString('base64url');
+  const expiresAt = new Date(Date.now() + PASSWORD_RESET.EXPIRES_IN_MINUTES * 60 * 1000);
+
+  await User.updateOne(
+    { _id: user._id },
+    { passwordResetTokenHash: hashResetToken(resetToken), passwordResetExpiresAt: expiresAt }
+  );
+
+  // A link that could not be delivered is not left usable
+  try {
+    await sendMail({
+      to: user.email,
+      subject: `Reset your ${MAIL.APP_NAME} password`,
+      text: [
+        'A password reset was requested for your account.',
+        '',
+        `Choose a new password: ${buildAppLink(PASSWORD_RESET.RESET_PATH, { token: resetToken })}`,
+        '',
+        `The link can be used once and expires on ${expiresAt.toUTCString()}. If you did not request a reset, you can ignore this email.`,
+      ].join('\n'),
+    });
+  } catch (mailError) {
+    await User.updateOne(
+      { _id: user._id },
+      { $unset: { passwordResetTokenHash: 1, passwordResetExpiresAt: 1 } }
+    );
+    throw mailError;
+  }
+};
+
+/**
+ * Set a new password with the token from a reset email
+ * The token is consumed even if it was sent again concurrently, so it works only once
+ * @param resetToken - Token from the reset email
+ * @param password - New password
+ */
+export const resetPassword = async (resetToken: string, password: string): Promise<void> => {
+  const user = await User.findOneAndUpdate(
+    {
+      passwordResetTokenHash: hashResetToken(resetToken),
+      passwordResetExpiresAt: { $gt: new Date() },
+      isActive: true,
+    },
+    { $unset: { passwordResetTokenHash: 1, passwordResetExpiresAt: 1 } },
+    { new: true }
+  );
+
+  if (!user) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PASSWORD_RESET_TOKEN_INVALID);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  await setPassword(user, password);
+};
+
+/**
+ * Change the password of a signed-in user
+ * Every session is signed out, and a new one is started for the caller
+ * @param userId - User ID
+ * @param currentPassword - Current password
+ * @param newPassword - New password
+ * @param context - Client the new session is used from
+ * @returns Access and refresh tokens of the new session
+ */
+export const changePassword = async (
+  userId: string,
+  currentPassword: string,
+  newPassword: string,
+  context: SessionContext = {}
+): Promise<AuthTokens> => {
+  const user = await User.findById(userId).select('+password');
+
+  if (!user) {
+    const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (!user.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ACCOUNT_DEACTIVATED);
+    error.statusCode = 403;
+    throw error;
+  }
+
+  const isPasswordValid = await user.comparePassword(currentPassword);
+  if (!isPasswordValid) {
+    const error: ApiError = new Error(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  await setPassword(user, newPassword);
+
+  return startSession(user, context);
+};
+
 /**
  * Get user details by ID
  * @param userId - User ID
@@ -151,15 +490,6 @@ export const getUserById = async (userId: string): Promise<UserResponse> => {
     throw error;
   }
 
-  const userResponse: UserResponse = {
-    _id: user._id,
-    email: user.email,
-    name: user.name,
-    isActive: user.isActive,
-    createdAt: user.createdAt,
-    updatedAt: user.updatedAt,
-  };
-
-  return userResponse;
+  return toUserResponse(user);
 };
 
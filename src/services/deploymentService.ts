@@ -0,0 +1,230 @@
+/**
+ * Deployment Service
+ * Handles which prompt version is served in each project environment
+ * The production deployment mirrors the legacy activePrompt flag on PromptVersion
+ */
+
+import Deployment from '../models/Deployment';
+import PromptVersion from '../models/PromptVersion';
+import Prompt, { IPrompt } from '../models/Prompt';
+import Project from '../models/Project';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ENVIRONMENTS, PERMISSIONS } from '../constants';
+import { runInTransaction } from '../utils/transaction';
+import { activateVersion, deactivateVersion } from './activationService';
+import { authorizePrompt } from './permissionService';
+import { AuditContext, DeploymentDocument, Permission, PromptVersionDocument } from '../types';
+
+/**
+ * Populate options shared by every query that returns a prompt version
+ */
+const VERSION_POPULATE = {
+  path: 'promptId',
+  select: 'name projectId',
+  populate: {
+    path: 'projectId',
+    select: 'name',
+  },
+};
+
+/**
+ * Find a prompt that exists, is active, and optionally that the user may act on
+ * @param promptId - Prompt ID
+ * @param userId - User ID (optional, for the permission check)
+ * @param permission - Permission required on the prompt's project (defaults to read)
+ * @returns Prompt document
+ */
+const findActivePrompt = async (
+  promptId: string,
+  userId?: string,
+  permission: Permission = PERMISSIONS.READ
+): Promise<IPrompt> => {
+  const prompt = userId
+    ? await authorizePrompt(promptId, userId, permission)
+    : await Prompt.findById(promptId);
+
+  if (!prompt) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (!prompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return prompt;
+};
+
+/**
+ * Validate that an environment is defined on the prompt's project
+ * @param projectId - Project ID
+ * @param environment - Environment name
+ */
+const validateEnvironmentExists = async (projectId: string, environment: string): Promise<void> => {
+  const project = await Project.findById(projectId).select('environments');
+
+  if (!project || !project.environments.some((env) => env.name === environment)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_NOT_FOUND(environment));
+    error.statusCode = 404;
+    throw error;
+  }
+};
+
+/**
+ * Deploy a prompt version to an environment
+ * Deploying to production also moves the activePrompt flag to the version
+ * @param promptId - Prompt ID
+ * @param environment - Environment name
+ * @param versionId - Prompt version ID
+ * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
+ * @returns Deployment record
+ */
+export const deployVersion = async (
+  promptId: string,
+  environment: string,
+  versionId: string,
+  userId: string,
+  context: AuditContext = {}
+): Promise<DeploymentDocument> => {
+  const prompt = await findActivePrompt(promptId, userId, PERMISSIONS.PUBLISH);
+  await validateEnvironmentExists(prompt.projectId.toString(), environment);
+
+  const version = await PromptVersion.findOne({ _id: versionId, promptId, isActive: true });
+
+  if (!version) {
+    const error: ApiError = new Error(ERROR_MESSAGES.VERSION_NOT_IN_PROMPT);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  // Production deployments go through activation so the activePrompt flag and history stay in step
+  if (environment === ENVIRONMENTS.PRODUCTION) {
+    await runInTransaction((session) =>
+      activateVersion(promptId, versionId, userId, session, undefined, context)
+    );
+  } else {
+    await Deployment.findOneAndUpdate(
+      { promptId, environment },
+      {
+        $set: {
+          userId: prompt.userId,
+          projectId: prompt.projectId,
+          versionId,
+          deployedBy: userId,
+          deployedAt: new Date(),
+        },
+      },
+      { upsert: true, new: true, runValidators: true }
+    );
+  }
+
+  const deployment = await Deployment.findOne({ promptId, environment }).populate(
+    'versionId',
+    'version versionName'
+  );
+
+  return deployment as DeploymentDocument;
+};
+
+/**
+ * Remove the deployment of a prompt from an environment
+ * Removing the production deployment clears the activePrompt flag
+ * @param promptId - Prompt ID
+ * @param environment - Environment name
+ * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
+ * @returns Removed deployment record
+ */
+export const removeDeployment = async (
+  promptId: string,
+  environment: string,
+  userId: string,
+  context: AuditContext = {}
+): Promise<DeploymentDocument> => {
+  await findActivePrompt(promptId, userId, PERMISSIONS.PUBLISH);
+
+  const deployment = await Deployment.findOne({ promptId, environment });
+
+  if (!deployment) {
+    const error: ApiError = new Error(ERROR_MESSAGES.NO_DEPLOYMENT_FOR_ENVIRONMENT(environment));
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (environment === ENVIRONMENTS.PRODUCTION) {
+    await runInTransaction((session) =>
+      deactivateVersion(promptId, deployment.versionId.toString(), userId, session, context)
+    );
+  } else {
+    await Deployment.deleteOne({ _id: deployment._id });
+  }
+
+  return deployment as DeploymentDocument;
+};
+
+/**
+ * Get all deployments for a prompt
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @returns Array of deployments
+ */
+export const getDeploymentsByPrompt = async (
+  promptId: string,
+  userId: string
+): Promise<DeploymentDocument[]> => {
+  await findActivePrompt(promptId, userId);
+
+  const deployments = await Deployment.find({ promptId })
+    .populate('versionId', 'version versionName isActive')
+    .sort({ environment: 1 });
+
+  return deployments as DeploymentDocument[];
+};
+
+/**
+ * Resolve the prompt version served in an environment (public endpoint)
+ * Production falls back to the activePrompt flag for prompts activated before deployments existed
+ * @param promptId - Prompt ID
+ * @param environment - Environment name
+ * @returns Deployed prompt version
+ */
+export const resolveDeployedVersion = async (
+  promptId: string,
+  environment: string = ENVIRONMENTS.PRODUCTION
+): Promise<PromptVersionDocument> => {
+  const prompt = await findActivePrompt(promptId);
+  await validateEnvironmentExists(prompt.projectId.toString(), environment);
+
+  const deployment = await Deployment.findOne({ promptId, environment });
+
+  let version = null;
+  if (deployment) {
+    version = await PromptVersion.findOne({
+      _id: deployment.versionId,
+      isActive: true,
+    }).populate(VERSION_POPULATE);
+  } else if (environment === ENVIRONMENTS.PRODUCTION) {
+    version = await PromptVersion.findOne({
+      promptId,
+      activePrompt: true,
+      isActive: true,
+    }).populate(VERSION_POPULATE);
+  }
+
+  if (!version) {
+    const error: ApiError = new Error(
+      environment === ENVIRONMENTS.PRODUCTION
+        ? ERROR_MESSAGES.NO_ACTIVE_VERSION_FOUND
+        : ERROR_MESSAGES.NO_DEPLOYMENT_FOR_ENVIRONMENT(environment)
+    );
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return version as PromptVersionDocument;
+};
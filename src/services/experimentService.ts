@@ -0,0 +1,412 @@
+/**
+ * Experiment Service
+ * Handles A/B experiments that split production traffic between prompt versions by weight
+ */
+
+import crypto from 'crypto';
+import Experiment, { IExperiment } from '../models/Experiment';
+import PromptVersion from '../models/PromptVersion';
+import Prompt, { IPrompt } from '../models/Prompt';
+import Project from '../models/Project';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ACTIVATION, EXPERIMENTS, PERMISSIONS } from '../constants';
+import { runInTransaction } from '../utils/transaction';
+import { activateVersion } from './activationService';
+import { assertUserPermission, authorizePrompt, getProjectRole } from './permissionService';
+import {
+  AuditContext,
+  ExperimentAssignment,
+  ExperimentDocument,
+  ExperimentRequestBody,
+  Permission,
+  PromptVersionDocument,
+} from '../types';
+
+/**
+ * Populate options shared by every query that returns a prompt version
+ */
+const VERSION_POPULATE = {
+  path: 'promptId',
+  select: 'name projectId',
+  populate: {
+    path: 'projectId',
+    select: 'name',
+  },
+};
+
+/**
+ * Validate that prompt exists, is active, and the user may act on it
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @param permission - Permission required on the prompt's project
+ * @returns Prompt document
+ */
+const validatePromptExists = async (
+  promptId: string,
+  userId: string,
+  permission: Permission
+): Promise<IPrompt> => {
+  const prompt = await authorizePrompt(promptId, userId, permission);
+
+  if (!prompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return prompt;
+};
+
+/**
+ * Find an experiment the user may act on
+ * Experiments in projects the user has no access to are reported as not found
+ * @param experimentId - Experiment ID
+ * @param userId - User ID
+ * @param permission - Permission required on the experiment's project
+ * @returns Experiment document
+ */
+const findExperiment = async (
+  experimentId: string,
+  userId: string,
+  permission: Permission
+): Promise<IExperiment> => {
+  const experiment = await Experiment.findById(experimentId);
+  const project = experiment
+    ? await Project.findById(experiment.projectId).select('organizationId userId members')
+    : null;
+  const role = project ? await getProjectRole(project, userId) : null;
+
+  if (!experiment || !role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  await assertUserPermission(role, userId, permission);
+  return experiment;
+};
+
+/**
+ * Throw unless the experiment is in one of the allowed states
+ * @param experiment - Experiment document
+ * @param action - Action being attempted, used in the error message
+ * @param allowedStatuses - Statuses that allow the action
+ */
+const assertStatus = (
+  experiment: IExperiment,
+  action: string,
+  allowedStatuses: string[]
+): void => {
+  if (!allowedStatuses.includes(experiment.status)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_STATUS_INVALID(action, experiment.status));
+    error.statusCode = 400;
+    throw error;
+  }
+};
+
+/**
+ * Pick a point in [0, 1) for a request
+ * With a subjectId the point is a hash of the experiment and subject, so a subject
+ * always lands on the same variant of an experiment
+ * @param experimentId - Experiment ID
+ * @param subjectId - Caller-supplied end-user identifier (optional)
+ * @returns Point in [0, 1)
+ */
+const pickPoint = (experimentId: string, subjectId?: string): number => {
+  if (!subjectId) {
+    return Math.random();
+  }
+
+  const digest = crypto.createHash('sha256').update(`${experimentId}:${subjectId}`).digest();
+  return digest.readUInt32BE(0) / 2 ** 32;
+};
+
+/**
+ * Choose a variant by weight
+ * @param variants - Variants with positive weights
+ * @param point - Point in [0, 1)
+ * @returns Index of the chosen variant
+ */
+export const chooseVariantIndex = (variants: { weight: number }[], point: number): number => {
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let target = point * totalWeight;
+
+  for (let index = 0; index < variants.length; index++) {
+    target -= variants[index].weight;
+    if (target < 0) {
+      return index;
+    }
+  }
+
+  return variants.length - 1;
+};
+
+/**
+ * Create a draft experiment for a prompt
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @param experimentData - Name and weighted variants
+ * @returns Created experiment
+ */
+export const createExperiment = async (
+  promptId: string,
+  userId: string,
+  experimentData: ExperimentRequestBody
+): Promise<ExperimentDocument> => {
+  const prompt = await validatePromptExists(promptId, userId, PERMISSIONS.PUBLISH);
+
+  const versionIds = experimentData.variants.map((variant) => variant.versionId);
+  const versionCount = await PromptVersion.countDocuments({
+    _id: { $in: versionIds },
+    promptId,
+    isActive: true,
+  });
+
+  if (versionCount !== versionIds.length) {
+    const error: ApiError = new Error(ERROR_MESSAGES.VERSION_NOT_IN_PROMPT);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const experiment = new Experiment({
+    userId,
+    projectId: prompt.projectId,
+    promptId,
+    name: experimentData.name.trim(),
+    variants: experimentData.variants.map(({ versionId, weight }) => ({ versionId, weight })),
+  });
+
+  const savedExperiment = await experiment.save();
+  return savedExperiment as ExperimentDocument;
+};
+
+/**
+ * Get all experiments for a prompt, newest first
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @returns Array of experiments
+ */
+export const getExperimentsByPrompt = async (
+  promptId: string,
+  userId: string
+): Promise<ExperimentDocument[]> => {
+  await validatePromptExists(promptId, userId, PERMISSIONS.READ);
+
+  const experiments = await Experiment.find({ promptId })
+    .populate('variants.versionId', 'version versionName isActive')
+    .sort({ createdAt: -1 });
+
+  return experiments as ExperimentDocument[];
+};
+
+/**
+ * Get an experiment by ID
+ * @param experimentId - Experiment ID
+ * @param userId - User ID
+ * @returns Experiment document
+ */
+export const getExperimentById = async (
+  experimentId: string,
+  userId: string
+): Promise<ExperimentDocument> => {
+  const experiment = await findExperiment(experimentId, userId, PERMISSIONS.READ);
+  await experiment.populate('variants.versionId', 'version versionName isActive');
+
+  return experiment as ExperimentDocument;
+};
+
+/**
+ * Start serving an experiment's variants from the production active endpoint
+ * @param experimentId - Experiment ID
+ * @param userId - User ID
+ * @returns Running experiment
+ */
+export const startExperiment = async (
+  experimentId: string,
+  userId: string
+): Promise<ExperimentDocument> => {
+  const experiment = await findExperiment(experimentId, userId, PERMISSIONS.PUBLISH);
+  assertStatus(experiment, 'start', [EXPERIMENTS.STATUSES.DRAFT, EXPERIMENTS.STATUSES.STOPPED]);
+  await validatePromptExists(experiment.promptId.toString(), userId, PERMISSIONS.PUBLISH);
+
+  const running = await Experiment.exists({
+    promptId: experiment.promptId,
+    status: EXPERIMENTS.STATUSES.RUNNING,
+  });
+
+  if (running) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_ALREADY_RUNNING);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  experiment.status = EXPERIMENTS.STATUSES.RUNNING;
+  experiment.startedAt = new Date();
+  experiment.stoppedAt = null;
+
+  try {
+    const savedExperiment = await experiment.save();
+    return savedExperiment as ExperimentDocument;
+  } catch (saveError) {
+    // Another experiment was started for the prompt at the same time
+    if ((saveError as { code?: number }).code === 11000) {
+      const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_ALREADY_RUNNING);
+      error.statusCode = 409;
+      throw error;
+    }
+    throw saveError;
+  }
+};
+
+/**
+ * Stop a running experiment; the production endpoint serves the active version again
+ * @param experimentId - Experiment ID
+ * @param userId - User ID
+ * @returns Stopped experiment
+ */
+export const stopExperiment = async (
+  experimentId: string,
+  userId: string
+): Promise<ExperimentDocument> => {
+  const experiment = await findExperiment(experimentId, userId, PERMISSIONS.PUBLISH);
+  assertStatus(experiment, 'stop', [EXPERIMENTS.STATUSES.RUNNING]);
+
+  experiment.status = EXPERIMENTS.STATUSES.STOPPED;
+  experiment.stoppedAt = new Date();
+
+  const savedExperiment = await experiment.save();
+  return savedExperiment as ExperimentDocument;
+};
+
+/**
+ * Promote the winning variant to the active version and end the experiment
+ * Activation and the status change happen in one transaction
+ * @param experimentId - Experiment ID
+ * @param userId - User ID
+ * @param versionId - Version ID of the winning variant
+ * @param context - Request the change is made in, for the audit log
+ * @returns Promoted experiment
+ */
+export const promoteExperiment = async (
+  experimentId: string,
+  userId: string,
+  versionId: string,
+  context: AuditContext = {}
+): Promise<ExperimentDocument> => {
+  const promotable = [EXPERIMENTS.STATUSES.RUNNING, EXPERIMENTS.STATUSES.STOPPED];
+  const experiment = await findExperiment(experimentId, userId, PERMISSIONS.PUBLISH);
+  assertStatus(experiment, 'promote', promotable);
+
+  if (!experiment.variants.some((variant) => variant.versionId.toString() === versionId)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_VERSION_NOT_VARIANT);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const promptId = experiment.promptId.toString();
+  await validatePromptExists(promptId, userId, PERMISSIONS.PUBLISH);
+
+  const version = await PromptVersion.findOne({ _id: versionId, promptId, isActive: true });
+
+  if (!version) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const promotedExperiment = await runInTransaction(async (session) => {
+    // Claim the experiment first, so a concurrent promotion cannot activate a second winner
+    const claimed = await Experiment.findOneAndUpdate(
+      { _id: experimentId, status: { $in: promotable } },
+      {
+        $set: {
+          status: EXPERIMENTS.STATUSES.PROMOTED,
+          stoppedAt: experiment.stoppedAt ?? new Date(),
+          promotedVersionId: versionId,
+        },
+      },
+      { new: true, session }
+    );
+
+    if (!claimed) {
+      const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_CHANGED);
+      error.statusCode = 409;
+      throw error;
+    }
+
+    await activateVersion(
+      promptId,
+      versionId,
+      userId,
+      session,
+      ACTIVATION.ACTIONS.PROMOTE,
+      context
+    );
+    return claimed;
+  });
+
+  return promotedExperiment as ExperimentDocument;
+};
+
+/**
+ * Assign a request to one of a running experiment's variants
+ * Variants whose version is not among the live versions are skipped
+ * @param experiment - Running experiment
+ * @param liveVersions - Versions that may be served (active, not deleted)
+ * @param subjectId - Caller-supplied end-user identifier for sticky assignment (optional)
+ * @returns Chosen version and assignment, or null if no variant can be served
+ */
+export const assignExperimentVariant = (
+  experiment: IExperiment,
+  liveVersions: PromptVersionDocument[],
+  subjectId?: string
+): { version: PromptVersionDocument; assignment: ExperimentAssignment } | null => {
+  const variants = experiment.variants.filter((variant) =>
+    liveVersions.some((version) => version._id.equals(variant.versionId))
+  );
+
+  if (variants.length === 0) {
+    return null;
+  }
+
+  const experimentId = String(experiment._id);
+  const chosen = variants[chooseVariantIndex(variants, pickPoint(experimentId, subjectId))];
+  const version = liveVersions.find((v) => v._id.equals(chosen.versionId)) as PromptVersionDocument;
+
+  return {
+    version,
+    assignment: {
+      experimentId: experiment._id,
+      name: experiment.name,
+      versionId: version._id,
+      version: version.version,
+      sticky: Boolean(subjectId),
+    },
+  };
+};
+
+/**
+ * Choose the version served for a prompt by its running experiment (public endpoint)
+ * Variants whose version has been deleted are skipped, and deleted prompts serve nothing
+ * @param promptId - Prompt ID
+ * @param subjectId - Caller-supplied end-user identifier for sticky assignment (optional)
+ * @returns Chosen version and assignment, or null if no experiment is running
+ */
+export const resolveExperimentVersion = async (
+  promptId: string,
+  subjectId?: string
+): Promise<{ version: PromptVersionDocument; assignment: ExperimentAssignment } | null> => {
+  const experiment = await Experiment.findOne({ promptId, status: EXPERIMENTS.STATUSES.RUNNING });
+
+  if (!experiment || !(await Prompt.exists({ _id: promptId, isActive: true }))) {
+    return null;
+  }
+
+  const liveVersions = await PromptVersion.find({
+    _id: { $in: experiment.variants.map((variant) => variant.versionId) },
+    isActive: true,
+  }).populate(VERSION_POPULATE);
+
+  return assignExperimentVariant(experiment, liveVersions as PromptVersionDocument[], subjectId);
+};
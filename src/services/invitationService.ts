@@ -0,0 +1,451 @@
+/**
+ * Invitation Service
+ * Invites email addresses to join an organization or a single project and accepts
+ * invitations with the signed token sent by email
+ */
+
+import jwt from 'jsonwebtoken';
+import { ClientSession } from 'mongoose';
+import Invitation, { IInvitation } from '../models/Invitation';
+import Organization from '../models/Organization';
+import Project, { IProject } from '../models/Project';
+import User from '../models/User';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ENV_KEYS, INVITATIONS, MAIL, PERMISSIONS } from '../constants';
+import { runInTransaction } from '../utils/transaction';
+import {
+  assertCanAssignRoles,
+  authorizeOrganization,
+  authorizeProject,
+  getOrganizationRole,
+  getProjectRole,
+} from './permissionService';
+import { getPersonalOrganization } from './organizationService';
+import { buildAppLink, sendMail } from './mailService';
+import {
+  InvitationDocument,
+  InvitationRequestBody,
+  OrganizationDocument,
+  OrganizationRole,
+  OrganizationWithRole,
+  ProjectWithRole,
+} from '../types';
+
+/**
+ * Get the secret invitation tokens are signed with
+ * @returns JWT secret
+ */
+const getTokenSecret = (): string => {
+  const jwtSecret = process.env[ENV_KEYS.JWT_SECRET];
+
+  if (!jwtSecret) {
+    throw new Error(ERROR_MESSAGES.JWT_SECRET_NOT_CONFIGURED);
+  }
+
+  return jwtSecret;
+};
+
+/**
+ * Sign the token that lets the invitee accept an invitation
+ * The token expires with the invitation and is marked so it cannot be used to log in
+ * @param invitation - Invitation document
+ * @returns Signed token
+ */
+const signInvitationToken = (invitation: IInvitation): string =>
+  jwt.sign(
+    {
+      invitationId: String(invitation._id),
+      purpose: INVITATIONS.TOKEN_PURPOSE,
+      exp: Math.floor(invitation.expiresAt.getTime() / 1000),
+    },
+    getTokenSecret()
+  );
+
+/**
+ * Send the invitation email with its accept link
+ * @param invitation - Invitation document
+ * @param organization - Organization the invitee is invited to
+ * @param projectName - Name of the project the invitee is invited to, if any
+ */
+const sendInvitationEmail = async (
+  invitation: IInvitation,
+  organization: Pick<OrganizationDocument, 'name'>,
+  projectName: string | null
+): Promise<void> => {
+  const link = buildAppLink(INVITATIONS.ACCEPT_PATH, { token: signInvitationToken(invitation) });
+  const target = projectName
+    ? `the project "${projectName}" in ${organization.name}`
+    : organization.name;
+
+  await sendMail({
+    to: invitation.email,
+    subject: `You have been invited to join ${target} on ${MAIL.APP_NAME}`,
+    text: [
+      `You have been invited to join ${target} as ${invitation.role}.`,
+      '',
+      `Accept the invitation: ${link}`,
+      '',
+      `The link expires on ${invitation.expiresAt.toUTCString()}. If you do not have an account yet, sign up with this email address and the invitation is accepted for you.`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Create an invitation and email it
+ * @param organization - Organization the invitee will join, or the project belongs to
+ * @param actorRole - Role of the acting user in the organization or on the project
+ * @param userId - Acting user ID
+ * @param invitationData - Email to invite and the role to grant
+ * @param project - Project the invitee will join, or null to join the organization
+ * @returns Created invitation
+ */
+const createInvitation = async (
+  organization: Pick<OrganizationDocument, '_id' | 'name' | 'members'>,
+  actorRole: OrganizationRole,
+  userId: string,
+  invitationData: InvitationRequestBody,
+  project: IProject | null
+): Promise<InvitationDocument> => {
+  assertCanAssignRoles(actorRole, [invitationData.role]);
+
+  const email = invitationData.email.toLowerCase().trim();
+  const existingUser = await User.findOne({ email }).select('_id');
+  const existingRole = !existingUser
+    ? null
+    : project
+      ? await getProjectRole(project, String(existingUser._id))
+      : getOrganizationRole(organization, String(existingUser._id));
+
+  if (existingRole) {
+    const error: ApiError = new Error(
+      project ? ERROR_MESSAGES.PROJECT_MEMBER_EXISTS : ERROR_MESSAGES.ORGANIZATION_MEMBER_EXISTS
+    );
+    error.statusCode = 409;
+    throw error;
+  }
+
+  // Expired invitations no longer block a new one for the same address
+  const now = new Date();
+  await Invitation.updateMany(
+    {
+      organizationId: organization._id,
+      projectId: project ? project._id : null,
+      email,
+      status: INVITATIONS.STATUSES.PENDING,
+      expiresAt: { $lte: now },
+    },
+    { status: INVITATIONS.STATUSES.EXPIRED }
+  );
+
+  let invitation: IInvitation;
+  try {
+    invitation = await Invitation.create({
+      organizationId: organization._id,
+      projectId: project ? project._id : null,
+      email,
+      role: invitationData.role,
+      invitedBy: userId,
+      expiresAt: new Date(now.getTime() + INVITATIONS.EXPIRES_IN_DAYS * 24 * 60 * 60 * 1000),
+    });
+  } catch (createError) {
+    if ((createError as { code?: number }).code === 11000) {
+      const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_ALREADY_PENDING);
+      error.statusCode = 409;
+      throw error;
+    }
+    throw createError;
+  }
+
+  // An invitation that could not be delivered is not left pending
+  try {
+    await sendInvitationEmail(invitation, organization, project ? project.name : null);
+  } catch (mailError) {
+    await Invitation.deleteOne({ _id: invitation._id });
+    throw mailError;
+  }
+
+  return invitation as InvitationDocument;
+};
+
+/**
+ * Invite an email address to join an organization
+ * @param organizationId - Organization ID
+ * @param userId - Acting user ID
+ * @param invitationData - Email to invite and the role to grant
+ * @returns Created invitation
+ */
+export const inviteToOrganization = async (
+  organizationId: string,
+  userId: string,
+  invitationData: InvitationRequestBody
+): Promise<InvitationDocument> => {
+  const organization = await authorizeOrganization(
+    organizationId,
+    userId,
+    PERMISSIONS.MANAGE_MEMBERS
+  );
+
+  return createInvitation(
+    organization,
+    getOrganizationRole(organization, userId) as OrganizationRole,
+    userId,
+    invitationData,
+    null
+  );
+};
+
+/**
+ * Invite an email address to a project
+ * The invitee gets the role on this project only, not on the other projects of its
+ * organization. A project created before organizations existed is first moved to its
+ * creator's personal organization, where its invitations are listed.
+ * @param projectId - Project ID
+ * @param userId - Acting user ID
+ * @param invitationData - Email to invite and the role to grant
+ * @returns Created invitation
+ */
+export const inviteToProject = async (
+  projectId: string,
+  userId: string,
+  invitationData: InvitationRequestBody
+): Promise<InvitationDocument> => {
+  const project = await authorizeProject(projectId, userId, PERMISSIONS.MANAGE_MEMBERS);
+
+  if (!project.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const actorRole = (await getProjectRole(project, userId)) as OrganizationRole;
+
+  let organization: Pick<OrganizationDocument, '_id' | 'name' | 'members'> | null;
+  if (project.organizationId) {
+    organization = await Organization.findOne({ _id: project.organizationId, isActive: true });
+  } else {
+    organization = await getPersonalOrganization(project.userId.toString());
+    await Project.updateOne({ _id: project._id }, { organizationId: organization._id });
+    project.organizationId = organization._id;
+  }
+
+  if (!organization) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ORGANIZATION_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return createInvitation(organization, actorRole, userId, invitationData, project);
+};
+
+/**
+ * Get the pending invitations of an organization, newest first
+ * @param organizationId - Organization ID
+ * @param userId - Acting user ID
+ * @returns Array of pending invitations
+ */
+export const getInvitations = async (
+  organizationId: string,
+  userId: string
+): Promise<InvitationDocument[]> => {
+  await authorizeOrganization(organizationId, userId, PERMISSIONS.MANAGE_MEMBERS);
+
+  const invitations = await Invitation.find({
+    organizationId,
+    status: INVITATIONS.STATUSES.PENDING,
+    expiresAt: { $gt: new Date() },
+  })
+    .sort({ createdAt: -1 })
+    .populate({ path: 'invitedBy', select: 'email name' })
+    .populate({ path: 'projectId', select: 'name slug' });
+
+  return invitations as InvitationDocument[];
+};
+
+/**
+ * Revoke a pending invitation so its token can no longer be used
+ * @param organizationId - Organization ID
+ * @param invitationId - Invitation ID
+ * @param userId - Acting user ID
+ * @returns Revoked invitation
+ */
+export const revokeInvitation = async (
+  organizationId: string,
+  invitationId: string,
+  userId: string
+): Promise<InvitationDocument> => {
+  await authorizeOrganization(organizationId, userId, PERMISSIONS.MANAGE_MEMBERS);
+
+  const invitation = await Invitation.findOneAndUpdate(
+    { _id: invitationId, organizationId, status: INVITATIONS.STATUSES.PENDING },
+    { status: INVITATIONS.STATUSES.REVOKED, revokedAt: new Date() },
+    { new: true }
+  );
+
+  if (!invitation) {
+    const existing = await Invitation.findOne({ _id: invitationId, organizationId });
+
+    if (!existing) {
+      const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_NOT_FOUND);
+      error.statusCode = 404;
+      throw error;
+    }
+
+    const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_NOT_PENDING(existing.status));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return invitation as InvitationDocument;
+};
+
+/**
+ * Find the pending invitation a token was issued for
+ * @param token - Token from the invitation email
+ * @param email - Email address of the user accepting the invitation
+ * @returns Pending invitation
+ */
+export const findPendingInvitation = async (
+  token: string,
+  email: string
+): Promise<IInvitation> => {
+  let invitationId: unknown;
+
+  try {
+    const payload = jwt.verify(token, getTokenSecret()) as jwt.JwtPayload;
+    invitationId = payload.purpose === INVITATIONS.TOKEN_PURPOSE ? payload.invitationId : null;
+  } catch {
+    invitationId = null;
+  }
+
+  const invitation =
+    typeof invitationId === 'string' ? await Invitation.findById(invitationId) : null;
+
+  if (!invitation || invitation.expiresAt <= new Date()) {
+    const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_TOKEN_INVALID);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  if (invitation.status !== INVITATIONS.STATUSES.PENDING) {
+    const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_NOT_PENDING(invitation.status));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  if (invitation.email !== email.toLowerCase().trim()) {
+    const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_EMAIL_MISMATCH);
+    error.statusCode = 403;
+    throw error;
+  }
+
+  return invitation;
+};
+
+/**
+ * Claim a pending invitation so concurrent requests accept it only once
+ * @param invitation - Invitation being accepted
+ * @param userId - User ID of the invitee
+ * @param session - Transaction session
+ */
+const claimInvitation = async (
+  invitation: IInvitation,
+  userId: string,
+  session: ClientSession
+): Promise<void> => {
+  const claimed = await Invitation.findOneAndUpdate(
+    { _id: invitation._id, status: INVITATIONS.STATUSES.PENDING },
+    { status: INVITATIONS.STATUSES.ACCEPTED, acceptedBy: userId, acceptedAt: new Date() },
+    { session }
+  );
+
+  if (!claimed) {
+    const error: ApiError = new Error(
+      ERROR_MESSAGES.INVITATION_NOT_PENDING(INVITATIONS.STATUSES.ACCEPTED)
+    );
+    error.statusCode = 409;
+    throw error;
+  }
+};
+
+/**
+ * Accept an invitation: add the user to the organization, or to the project the invitation
+ * is for, with the invited role
+ * @param token - Token from the invitation email
+ * @param userId - User ID of the invitee (their email must match the invitation)
+ * @returns Organization or project with the user's role
+ */
+export const acceptInvitation = async (
+  token: string,
+  userId: string
+): Promise<OrganizationWithRole | ProjectWithRole> => {
+  const user = await User.findById(userId);
+
+  if (!user || !user.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const invitation = await findPendingInvitation(token, user.email);
+  const member = { userId: user._id, role: invitation.role, addedAt: new Date() };
+
+  if (invitation.projectId) {
+    const project = await Project.findOne({ _id: invitation.projectId, isActive: true });
+
+    if (!project) {
+      const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
+      error.statusCode = 404;
+      throw error;
+    }
+
+    // Claiming the invitation and adding the member happen in one transaction
+    const joinedProject = await runInTransaction(async (session) => {
+      await claimInvitation(invitation, userId, session);
+
+      // Members added in the meantime keep their current role
+      const updatedProject = await Project.findOneAndUpdate(
+        { _id: project._id, 'members.userId': { $ne: user._id } },
+        { $push: { members: member } },
+        { new: true, session }
+      );
+
+      return updatedProject ?? project;
+    });
+
+    return {
+      ...joinedProject.toObject(),
+      role: await getProjectRole(joinedProject, userId),
+    } as ProjectWithRole;
+  }
+
+  const organization = await Organization.findOne({
+    _id: invitation.organizationId,
+    isActive: true,
+  });
+
+  if (!organization) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ORGANIZATION_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  // Claiming the invitation and adding the member happen in one transaction
+  const joinedOrganization = await runInTransaction(async (session) => {
+    await claimInvitation(invitation, userId, session);
+
+    // Members added in the meantime keep their current role
+    const updatedOrganization = await Organization.findOneAndUpdate(
+      { _id: organization._id, 'members.userId': { $ne: user._id } },
+      { $push: { members: member } },
+      { new: true, session }
+    );
+
+    return updatedOrganization ?? organization;
+  });
+
+  return {
+    ...joinedOrganization.toObject(),
+    role: getOrganizationRole(joinedOrganization, userId),
+  } as OrganizationWithRole;
+};
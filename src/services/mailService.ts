@@ -0,0 +1,98 @@
+/**
+ * Mail Service
+ * Sends email through a pluggable transport. MAIL_TRANSPORT selects a built-in one:
+ * "console" (default) prints messages, "file" appends them as JSON lines to MAIL_FILE_PATH
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ENV_KEYS, MAIL } from '../constants';
+import { MailMessage, MailTransport } from '../types';
+
+/**
+ * Transport used by sendMail; created from the environment on first use
+ */
+let transport: MailTransport | null = null;
+
+/**
+ * Create a transport that prints messages to stdout
+ * @returns Mail transport
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  send: async (message) => {
+    console.log(
+      `[mail] From: ${message.from}\n[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n\n${message.text}\n`
+    );
+  },
+});
+
+/**
+ * Create a transport that appends messages as JSON lines to a file
+ * @param filePath - Path of the outbox file (parent directories are created)
+ * @returns Mail transport
+ */
+export const createFileTransport = (filePath: string): MailTransport => ({
+  send: async (message) => {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.appendFile(
+      filePath,
+      `${JSON.stringify({ ...message, sentAt: new Date().toISOString() })}\n`
+    );
+  },
+});
+
+/**
+ * Create the transport configured by MAIL_TRANSPORT
+ * @returns Mail transport
+ */
+const createTransportFromEnv = (): MailTransport => {
+  const name = process.env[ENV_KEYS.MAIL_TRANSPORT] || MAIL.DEFAULT_TRANSPORT;
+
+  if (name === MAIL.TRANSPORTS.CONSOLE) {
+    return createConsoleTransport();
+  }
+
+  if (name === MAIL.TRANSPORTS.FILE) {
+    return createFileTransport(process.env[ENV_KEYS.MAIL_FILE_PATH] || MAIL.DEFAULT_FILE_PATH);
+  }
+
+  throw new Error(ERROR_MESSAGES.MAIL_TRANSPORT_INVALID(name));
+};
+
+/**
+ * Replace the transport used by sendMail
+ * @param mailTransport - Transport to use, or null to go back to the configured one
+ */
+export const setMailTransport = (mailTransport: MailTransport | null): void => {
+  transport = mailTransport;
+};
+
+/**
+ * Build an absolute link into the web app
+ * @param pathname - Path of the page, starting with "/"
+ * @param query - Query parameters
+ * @returns Link using APP_URL as the base
+ */
+export const buildAppLink = (pathname: string, query: Record<string, string>): string => {
+  const url = new URL(pathname, process.env[ENV_KEYS.APP_URL] || MAIL.DEFAULT_APP_URL);
+  Object.entries(query).forEach(([key, value]) => url.searchParams.set(key, value));
+  return url.toString();
+};
+
+/**
+ * Send an email
+ * @param message - Recipient, subject and text; the sender defaults to MAIL_FROM
+ */
+export const sendMail = async (
+  message: Omit<MailMessage, 'from'> & { from?: string }
+): Promise<void> => {
+  transport ??= createTransportFromEnv();
+
+  await transport.send({
+    from: message.from ?? (process.env[ENV_KEYS.MAIL_FROM] || MAIL.DEFAULT_FROM),
+    to: message.to,
+    subject: message.subject,
+    text: message.text,
+  });
+};
@@ -0,0 +1,269 @@
+/**
+ * Organization Service
+ * Handles organizations (teams that own projects) and their members' roles
+ */
+
+import Organization, { IOrganization } from '../models/Organization';
+import User from '../models/User';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ORGANIZATIONS, ORGANIZATION_ROLES, PERMISSIONS } from '../constants';
+import {
+  assertCanAssignRoles,
+  authorizeOrganization,
+  getOrganizationRole,
+} from './permissionService';
+import {
+  OrganizationDocument,
+  OrganizationMemberRequestBody,
+  OrganizationRequestBody,
+  OrganizationRole,
+  OrganizationWithRole,
+} from '../types';
+
+/**
+ * Populate options for the member list
+ */
+const MEMBER_POPULATE = {
+  path: 'members.userId',
+  select: 'email name',
+};
+
+/**
+ * Find a member of an organization
+ * @param organization - Organization document
+ * @param memberId - Member user ID
+ * @returns Index of the member in the member list
+ */
+const findMemberIndex = (organization: IOrganization, memberId: string): number => {
+  const index = organization.members.findIndex((m) => m.userId.toString() === memberId);
+
+  if (index === -1) {
+    const error: ApiError = new Error(ERROR_MESSAGES.MEMBER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return index;
+};
+
+/**
+ * Throw if an organization would be left without an owner
+ * @param organization - Organization document with the pending change applied
+ */
+const assertHasOwner = (organization: IOrganization): void => {
+  if (!organization.members.some((m) => m.role === ORGANIZATION_ROLES.OWNER)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ORGANIZATION_OWNER_REQUIRED);
+    error.statusCode = 400;
+    throw error;
+  }
+};
+
+/**
+ * Create an organization with the creator as its owner
+ * @param userId - User ID
+ * @param organizationData - Organization data
+ * @returns Created organization
+ */
+export const createOrganization = async (
+  userId: string,
+  organizationData: OrganizationRequestBody
+): Promise<OrganizationDocument> => {
+  const organization = new Organization({
+    name: organizationData.name.trim(),
+    createdBy: userId,
+    members: [{ userId, role: ORGANIZATION_ROLES.OWNER }],
+  });
+
+  const savedOrganization = await organization.save();
+  return savedOrganization as OrganizationDocument;
+};
+
+/**
+ * Get the user's personal organization, creating it on first use
+ * Projects created without an organization are placed here
+ * @param userId - User ID
+ * @returns Personal organization
+ */
+export const getPersonalOrganization = async (userId: string): Promise<OrganizationDocument> => {
+  const organization = await Organization.findOneAndUpdate(
+    { createdBy: userId, isPersonal: true },
+    {
+      $setOnInsert: {
+        name: ORGANIZATIONS.PERSONAL_NAME,
+        members: [{ userId, role: ORGANIZATION_ROLES.OWNER, addedAt: new Date() }],
+      },
+    },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+
+  return organization as OrganizationDocument;
+};
+
+/**
+ * Get all organizations a user belongs to, with the user's role in each
+ * @param userId - User ID
+ * @returns Array of organizations
+ */
+export const getOrganizations = async (userId: string): Promise<OrganizationWithRole[]> => {
+  const organizations = await Organization.find({ 'members.userId': userId, isActive: true }).sort({
+    createdAt: 1,
+  });
+
+  return organizations.map((organization) => ({
+    ...organization.toObject(),
+    role: getOrganizationRole(organization, userId),
+  })) as OrganizationWithRole[];
+};
+
+/**
+ * Get an organization with its members
+ * @param organizationId - Organization ID
+ * @param userId - User ID
+ * @returns Organization with the user's role
+ */
+export const getOrganizationById = async (
+  organizationId: string,
+  userId: string
+): Promise<OrganizationWithRole> => {
+  const organization = await authorizeOrganization(organizationId, userId, PERMISSIONS.READ);
+  const role = getOrganizationRole(organization, userId);
+  await organization.populate(MEMBER_POPULATE);
+
+  return { ...organization.toObject(), role } as OrganizationWithRole;
+};
+
+/**
+ * Rename an organization
+ * @param organizationId - Organization ID
+ * @param userId - User ID
+ * @param organizationData - New organization data
+ * @returns Updated organization
+ */
+export const updateOrganization = async (
+  organizationId: string,
+  userId: string,
+  organizationData: OrganizationRequestBody
+): Promise<OrganizationDocument> => {
+  const organization = await authorizeOrganization(
+    organizationId,
+    userId,
+    PERMISSIONS.MANAGE_ORGANIZATION
+  );
+
+  organization.name = organizationData.name.trim();
+
+  const savedOrganization = await organization.save();
+  return savedOrganization as OrganizationDocument;
+};
+
+/**
+ * Add an existing user to an organization
+ * @param organizationId - Organization ID
+ * @param userId - Acting user ID
+ * @param memberData - Email of the user to add and their role
+ * @returns Updated organization with members
+ */
+export const addMember = async (
+  organizationId: string,
+  userId: string,
+  memberData: OrganizationMemberRequestBody
+): Promise<OrganizationDocument> => {
+  const organization = await authorizeOrganization(
+    organizationId,
+    userId,
+    PERMISSIONS.MANAGE_MEMBERS
+  );
+  assertCanAssignRoles(getOrganizationRole(organization, userId) as OrganizationRole, [
+    memberData.role,
+  ]);
+
+  const user = await User.findOne({ email: memberData.email.toLowerCase().trim(), isActive: true });
+
+  if (!user) {
+    const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const updatedOrganization = await Organization.findOneAndUpdate(
+    { _id: organizationId, 'members.userId': { $ne: user._id } },
+    { $push: { members: { userId: user._id, role: memberData.role, addedAt: new Date() } } },
+    { new: true, runValidators: true }
+  ).populate(MEMBER_POPULATE);
+
+  if (!updatedOrganization) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ORGANIZATION_MEMBER_EXISTS);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return updatedOrganization as OrganizationDocument;
+};
+
+/**
+ * Change a member's role
+ * @param organizationId - Organization ID
+ * @param userId - Acting user ID
+ * @param memberId - User ID of the member
+ * @param role - New role
+ * @returns Updated organization with members
+ */
+export const updateMemberRole = async (
+  organizationId: string,
+  userId: string,
+  memberId: string,
+  role: OrganizationRole
+): Promise<OrganizationDocument> => {
+  const organization = await authorizeOrganization(
+    organizationId,
+    userId,
+    PERMISSIONS.MANAGE_MEMBERS
+  );
+  const index = findMemberIndex(organization, memberId);
+  assertCanAssignRoles(getOrganizationRole(organization, userId) as OrganizationRole, [
+    organization.members[index].role,
+    role,
+  ]);
+
+  organization.members[index].role = role;
+  assertHasOwner(organization);
+
+  const savedOrganization = await organization.save();
+  await savedOrganization.populate(MEMBER_POPULATE);
+
+  return savedOrganization as OrganizationDocument;
+};
+
+/**
+ * Remove a member from an organization
+ * Any member may leave; removing someone else requires the manage_members permission
+ * @param organizationId - Organization ID
+ * @param userId - Acting user ID
+ * @param memberId - User ID of the member
+ * @returns Updated organization
+ */
+export const removeMember = async (
+  organizationId: string,
+  userId: string,
+  memberId: string
+): Promise<OrganizationDocument> => {
+  const organization = await authorizeOrganization(
+    organizationId,
+    userId,
+    memberId === userId ? PERMISSIONS.READ : PERMISSIONS.MANAGE_MEMBERS
+  );
+  const index = findMemberIndex(organization, memberId);
+
+  if (memberId !== userId) {
+    assertCanAssignRoles(getOrganizationRole(organization, userId) as OrganizationRole, [
+      organization.members[index].role,
+    ]);
+  }
+
+  organization.members.splice(index, 1);
+  assertHasOwner(organization);
+
+  const savedOrganization = await organization.save();
+  return savedOrganization as OrganizationDocument;
+};
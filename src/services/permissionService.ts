@@ -0,0 +1,233 @@
+/**
+ * Permission Service
+ * Resolves a user's organization role for a project and checks it against the requested action
+ * Projects created before organizations existed give their creator the owner role; people
+ * invited to a single project hold their role on that project only
+ */
+
+import Organization, { IOrganization } from '../models/Organization';
+import Project, { IProject } from '../models/Project';
+import Prompt, { IPrompt } from '../models/Prompt';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ORGANIZATION_ROLES, PERMISSIONS, ROLE_PERMISSIONS } from '../constants';
+import { assertCanPublish } from './verificationService';
+import { OrganizationMember, OrganizationRole, Permission } from '../types';
+
+/**
+ * Check whether a role grants a permission
+ * @param role - Organization role
+ * @param permission - Permission to check
+ * @returns True if the role grants the permission
+ */
+export const hasPermission = (role: OrganizationRole, permission: Permission): boolean =>
+  (ROLE_PERMISSIONS[role] as readonly string[]).includes(permission);
+
+/**
+ * Throw unless a role grants a permission
+ * @param role - Organization role
+ * @param permission - Permission required
+ */
+export const assertPermission = (role: OrganizationRole, permission: Permission): void => {
+  if (!hasPermission(role, permission)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PERMISSION_DENIED(role, permission));
+    error.statusCode = 403;
+    throw error;
+  }
+};
+
+/**
+ * Throw unless a user's role grants a permission and the user may use it
+ * Publishing also requires a verified email address
+ * @param role - User's organization role
+ * @param userId - User ID
+ * @param permission - Permission required
+ */
+export const assertUserPermission = async (
+  role: OrganizationRole,
+  userId: string,
+  permission: Permission
+): Promise<void> => {
+  assertPermission(role, permission);
+
+  if (permission === PERMISSIONS.PUBLISH) {
+    await assertCanPublish(userId);
+  }
+};
+
+/**
+ * Find a user's role in a list of members
+ * @param members - Organization or project members
+ * @param userId - User ID
+ * @returns Role, or null if the user is not listed
+ */
+const getMemberRole = (members: OrganizationMember[], userId: string): OrganizationRole | null => {
+  const member = members.find((m) => m.userId.toString() === userId);
+  return member ? member.role : null;
+};
+
+/**
+ * Get a user's role in an organization
+ * @param organization - Organization document
+ * @param userId - User ID
+ * @returns Role, or null if the user is not a member
+ */
+export const getOrganizationRole = (
+  organization: Pick<IOrganization, 'members'>,
+  userId: string
+): OrganizationRole | null => getMemberRole(organization.members, userId);
+
+/**
+ * Throw unless the acting user may grant or take away a role
+ * Only owners can grant the owner role or change the role of an owner
+ * @param actorRole - Role of the acting user where the roles are held
+ * @param roles - Roles being granted or replaced
+ */
+export const assertCanAssignRoles = (
+  actorRole: OrganizationRole,
+  roles: OrganizationRole[]
+): void => {
+  if (
+    roles.includes(ORGANIZATION_ROLES.OWNER) &&
+    !hasPermission(actorRole, PERMISSIONS.MANAGE_ORGANIZATION)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.OWNER_ROLE_CHANGE_DENIED);
+    error.statusCode = 403;
+    throw error;
+  }
+};
+
+/**
+ * Find an organization the user belongs to and check the user's permission in it
+ * Organizations the user does not belong to are reported as not found
+ * @param organizationId - Organization ID
+ * @param userId - User ID
+ * @param permission - Permission required
+ * @returns Organization document
+ */
+export const authorizeOrganization = async (
+  organizationId: string,
+  userId: string,
+  permission: Permission
+): Promise<IOrganization> => {
+  const organization = await Organization.findOne({ _id: organizationId, isActive: true });
+  const role = organization ? getOrganizationRole(organization, userId) : null;
+
+  if (!organization || !role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ORGANIZATION_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  assertPermission(role, permission);
+  return organization;
+};
+
+/**
+ * Get a user's role for a project
+ * A role in the project's organization comes before a role given on the project itself
+ * @param project - Project (organization, creator and project members)
+ * @param userId - User ID
+ * @returns Role, or null if the user has no access to the project
+ */
+export const getProjectRole = async (
+  project: Pick<IProject, 'organizationId' | 'userId' | 'members'>,
+  userId: string
+): Promise<OrganizationRole | null> => {
+  const projectRole = getMemberRole(project.members ?? [], userId);
+
+  if (!project.organizationId) {
+    return project.userId.toString() === userId ? ORGANIZATION_ROLES.OWNER : projectRole;
+  }
+
+  const organization = await Organization.findOne({
+    _id: project.organizationId,
+    isActive: true,
+  }).select('members');
+
+  if (!organization) {
+    return null;
+  }
+
+  return getOrganizationRole(organization, userId) ?? projectRole;
+};
+
+/**
+ * Find a project and check the user's permission on it
+ * Projects the user has no access to are reported as not found; deleted projects are
+ * returned so callers can report them
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param permission - Permission required
+ * @returns Project document
+ */
+export const authorizeProject = async (
+  projectId: string,
+  userId: string,
+  permission: Permission
+): Promise<IProject> => {
+  const project = await Project.findById(projectId);
+  const role = project ? await getProjectRole(project, userId) : null;
+
+  if (!project || !role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  await assertUserPermission(role, userId, permission);
+  return project;
+};
+
+/**
+ * Find a prompt and check the user's permission on its project
+ * Prompts the user has no access to are reported as not found; deleted prompts are
+ * returned so callers can report them
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @param permission - Permission required
+ * @returns Prompt document
+ */
+export const authorizePrompt = async (
+  promptId: string,
+  userId: string,
+  permission: Permission
+): Promise<IPrompt> => {
+  const prompt = await Prompt.findById(promptId);
+  const project = prompt
+    ? await Project.findById(prompt.projectId).select('organizationId userId members')
+    : null;
+  const role = project ? await getProjectRole(project, userId) : null;
+
+  if (!prompt || !role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  await assertUserPermission(role, userId, permission);
+  return prompt;
+};
+
+/**
+ * Build a filter matching every project a user can read
+ * Projects of the user's organizations, projects the user was invited to, and the user's
+ * projects created before organizations existed
+ * @param userId - User ID
+ * @returns Project filter
+ */
+export const getReadableProjectsFilter = async (
+  userId: string
+): Promise<{ $or: Record<string, unknown>[] }> => {
+  const organizations = await Organization.find({ 'members.userId': userId, isActive: true }).select(
+    '_id'
+  );
+
+  return {
+    $or: [
+      { organizationId: { $in: organizations.map((organization) => organization._id) } },
+      { 'members.userId': userId },
+      { organizationId: null, userId },
+    ],
+  };
+};
@@ -3,76 +3,181 @@
  * Handles all project-related business logic
  */
 
+import { ClientSession } from 'mongoose';
 import Project, { IProject } from '../models/Project';
+import Prompt from '../models/Prompt';
+import PromptVersion from '../models/PromptVersion';
+import Deployment from '../models/Deployment';
 import { ApiError } from '../middleware/errorHandler';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
-import { DEFAULTS } from '../constants';
-import { ProjectRequestBody, UpdateProjectRequestBody, ProjectDocument } from '../types';
+import { AUDIT, DEFAULTS, ENVIRONMENTS, PERMISSIONS } from '../constants';
+import { generateUniqueSlug } from '../utils/slug';
+import { paginate } from '../utils/pagination';
+import { runInTransaction } from '../utils/transaction';
+import { authorizeOrganization, authorizeProject, getReadableProjectsFilter } from './permissionService';
+import { getPersonalOrganization } from './organizationService';
+import { recordAuditEvent } from './auditService';
+import { releaseVersions } from './activationService';
+import {
+  ProjectRequestBody,
+  UpdateProjectRequestBody,
+  ProjectDocument,
+  ProjectEnvironment,
+  EnvironmentRequestBody,
+  ListOptions,
+  PaginatedResult,
+  Permission,
+  AuditContext,
+} from '../types';
 
 /**
- * Create a new project
+ * Check whether a project slug is used by another project
+ * @param slug - Project slug
+ * @param excludeProjectId - Project allowed to hold the slug (optional)
+ * @returns True if the slug is taken
+ */
+const isProjectSlugTaken = async (slug: string, excludeProjectId?: string): Promise<boolean> => {
+  const filter: { slug: string; _id?: any } = { slug };
+
+  if (excludeProjectId) {
+    filter._id = { $ne: excludeProjectId };
+  }
+
+  return (await Project.exists(filter)) !== null;
+};
+
+/**
+ * Use the requested slug if it is free, or generate one from the project name
+ * @param name - Project name
+ * @param slug - Requested slug (optional)
+ * @param projectId - Project being updated (optional)
+ * @returns Slug for the project
+ */
+const resolveProjectSlug = async (
+  name: string,
+  slug?: string,
+  projectId?: string
+): Promise<string> => {
+  if (slug === undefined) {
+    return generateUniqueSlug(name, (candidate) => isProjectSlugTaken(candidate, projectId));
+  }
+
+  if (await isProjectSlugTaken(slug, projectId)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_SLUG_TAKEN(slug));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return slug;
+};
+
+/**
+ * Find a project the user may act on, rejecting deleted projects
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param permission - Permission required
+ * @returns Project document
+ */
+const findActiveProject = async (
+  projectId: string,
+  userId: string,
+  permission: Permission
+): Promise<IProject> => {
+  const project = await authorizeProject(projectId, userId, permission);
+
+  if (!project.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return project;
+};
+
+/**
+ * Create a new project in an organization
+ * Without an organization the project is created in the user's personal organization
  * @param userId - User ID
  * @param projectData - Project data
+ * @param context - Request the change is made in, for the audit log
  * @returns Created project
  */
 export const createProject = async (
   userId: string,
-  projectData: ProjectRequestBody
+  projectData: ProjectRequestBody,
+  context: AuditContext = {}
 ): Promise<ProjectDocument> => {
-  const { name, isActive } = projectData;
+  const { name, slug, organizationId, immutableVersions, isActive } = projectData;
+
+  const organization = organizationId
+    ? await authorizeOrganization(organizationId, userId, PERMISSIONS.EDIT)
+    : await getPersonalOrganization(userId);
 
   const project: IProject = new Project({
     userId,
+    organizationId: organization._id,
     name: name.trim(),
+    slug: await resolveProjectSlug(name.trim(), slug),
+    immutableVersions:
+      immutableVersions !== undefined ? immutableVersions : DEFAULTS.IMMUTABLE_VERSIONS,
     isActive: isActive !== undefined ? isActive : DEFAULTS.IS_ACTIVE,
   });
 
   const savedProject = await project.save();
+
+  await recordAuditEvent(
+    {
+      projectId: savedProject._id,
+      actorId: userId,
+      action: AUDIT.ACTIONS.CREATE,
+      entityType: AUDIT.ENTITY_TYPES.PROJECT,
+      entityId: savedProject._id,
+      after: savedProject,
+    },
+    context
+  );
+
   return savedProject as ProjectDocument;
 };
 
 /**
- * Get all projects for a user
+ * Get one page of the projects a user can read, across all of the user's organizations
  * @param userId - User ID
- * @param includeInactive - Whether to include inactive projects
- * @returns Array of projects
+ * @param options - Pagination, sort and filter options (inactive projects are excluded by default)
+ * @returns Page of projects with pagination metadata
  */
 export const getProjects = async (
   userId: string,
-  includeInactive: boolean = false
-): Promise<ProjectDocument[]> => {
-  const filter: { userId: any; isActive?: boolean } = {
-    userId,
-  };
+  options: ListOptions = {}
+): Promise<PaginatedResult<ProjectDocument>> => {
+  const filter: { $or: Record<string, unknown>[]; isActive?: boolean } =
+    await getReadableProjectsFilter(userId);
 
   // Only include active projects by default
-  if (!includeInactive) {
+  if (!options.includeInactive) {
     filter.isActive = true;
   }
 
-  const projects = await Project.find(filter).sort({ createdAt: -1 });
-  return projects as ProjectDocument[];
+  const projects = await paginate(Project, filter, options, { nameField: 'name' });
+  return projects as PaginatedResult<ProjectDocument>;
 };
 
 /**
  * Get a project by ID
  * @param projectId - Project ID
- * @param userId - User ID (optional, for ownership verification)
+ * @param userId - User ID (optional, for the permission check)
  * @returns Project document
  */
 export const getProjectById = async (
   projectId: string,
   userId?: string
 ): Promise<ProjectDocument> => {
-  const filter: { _id: any; userId?: any } = {
-    _id: projectId,
-  };
-
   if (userId) {
-    filter.userId = userId;
+    const project = await findActiveProject(projectId, userId, PERMISSIONS.READ);
+    return project as ProjectDocument;
   }
 
-  const project = await Project.findOne(filter);
+  const project = await Project.findById(projectId);
 
   if (!project) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
@@ -89,51 +194,145 @@ export const getProjectById = async (
   return project as ProjectDocument;
 };
 
+/**
+ * Move the live prompts and versions of a project to the trash along with it
+ * The versions are released first, so none of them stays active or deployed
+ * @param projectId - Project ID
+ * @param deletion - Trash fields shared by everything deleted together
+ * @param session - Transaction session
+ * @param context - Request the change is made in, for the audit log
+ */
+const trashProjectContents = async (
+  projectId: string,
+  deletion: { isActive: boolean; deletedAt: Date; deletedBy: string },
+  session: ClientSession,
+  context: AuditContext
+): Promise<void> => {
+  const promptIds = await Prompt.distinct('_id', { projectId, isActive: true }).session(session);
+
+  await releaseVersions(
+    { promptId: { $in: promptIds }, isActive: true },
+    deletion.deletedBy,
+    session,
+    context
+  );
+  await PromptVersion.updateMany(
+    { promptId: { $in: promptIds }, isActive: true },
+    { $set: deletion },
+    { session }
+  );
+  await Prompt.updateMany({ _id: { $in: promptIds } }, { $set: deletion }, { session });
+};
+
 /**
  * Update a project
+ * Moving a project to another organization requires managing both organizations' projects.
+ * Setting isActive to false moves the project to the trash, the same way deleting it does;
+ * projects in the trash have to be restored before they can be changed.
  * @param projectId - Project ID
  * @param userId - User ID
  * @param updateData - Fields to update
+ * @param context - Request the change is made in, for the audit log
  * @returns Updated project
  */
 export const updateProject = async (
   projectId: string,
   userId: string,
-  updateData: UpdateProjectRequestBody
+  updateData: UpdateProjectRequestBody,
+  context: AuditContext = {}
 ): Promise<ProjectDocument> => {
-  // First verify the project exists and belongs to the user
-  const existingProject = await Project.findOne({
-    _id: projectId,
-    userId,
-  });
+  // First verify the project exists and the user may manage it
+  const existingProject = await authorizeProject(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
 
-  if (!existingProject) {
-    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
+  if (!existingProject.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_DELETED);
     error.statusCode = 404;
     throw error;
   }
 
-  const updateFields: { name?: string; isActive?: boolean } = {};
+  const trashing = updateData.isActive === false;
+  const updateFields: {
+    name?: string;
+    slug?: string;
+    organizationId?: any;
+    immutableVersions?: boolean;
+    isActive?: boolean;
+    deletedAt?: Date;
+    deletedBy?: string;
+  } = {};
 
   if (updateData.name !== undefined) {
     updateFields.name = updateData.name.trim();
   }
 
-  if (updateData.isActive !== undefined) {
-    updateFields.isActive = updateData.isActive;
+  if (updateData.immutableVersions !== undefined) {
+    updateFields.immutableVersions = updateData.immutableVersions;
+  }
+
+  if (updateData.organizationId !== undefined) {
+    const organization = await authorizeOrganization(
+      updateData.organizationId,
+      userId,
+      PERMISSIONS.MANAGE_PROJECT
+    );
+    updateFields.organizationId = organization._id;
   }
 
-  if (Object.keys(updateFields).length === 0) {
+  if (
+    Object.keys(updateFields).length === 0 &&
+    updateData.slug === undefined &&
+    updateData.isActive === undefined
+  ) {
     const error: ApiError = new Error(ERROR_MESSAGES.NO_VALID_FIELDS_TO_UPDATE);
     error.statusCode = 400;
     throw error;
   }
 
-  const project = await Project.findOneAndUpdate(
-    { _id: projectId, userId },
-    { $set: updateFields },
-    { new: true, runValidators: true }
-  );
+  // Renaming keeps the slug; projects created before slugs existed get one now
+  if (updateData.slug !== undefined || !existingProject.slug) {
+    updateFields.slug = await resolveProjectSlug(
+      updateFields.name ?? existingProject.name,
+      updateData.slug,
+      projectId
+    );
+  }
+
+  const deletion = { isActive: false, deletedAt: new Date(), deletedBy: userId };
+
+  if (trashing) {
+    Object.assign(updateFields, deletion);
+  }
+
+  // Updating the project, trashing its contents and the audit event happen in one transaction
+  const project = await runInTransaction(async (session) => {
+    if (trashing) {
+      await trashProjectContents(projectId, deletion, session, context);
+    }
+
+    const updatedProject = await Project.findOneAndUpdate(
+      { _id: projectId, isActive: true },
+      { $set: updateFields },
+      { new: true, runValidators: true, session }
+    );
+
+    if (updatedProject) {
+      await recordAuditEvent(
+        {
+          projectId,
+          actorId: userId,
+          action: trashing ? AUDIT.ACTIONS.DELETE : AUDIT.ACTIONS.UPDATE,
+          entityType: AUDIT.ENTITY_TYPES.PROJECT,
+          entityId: projectId,
+          before: existingProject,
+          after: updatedProject,
+        },
+        context,
+        session
+      );
+    }
+
+    return updatedProject;
+  });
 
   if (!project) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
@@ -145,20 +344,55 @@ export const updateProject = async (
 };
 
 /**
- * Soft delete a project
+ * Move a project to the trash, together with its prompts and versions
  * @param projectId - Project ID
  * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
  * @returns Deleted project
  */
 export const deleteProject = async (
   projectId: string,
-  userId: string
+  userId: string,
+  context: AuditContext = {}
 ): Promise<ProjectDocument> => {
-  const project = await Project.findOneAndUpdate(
-    { _id: projectId, userId },
-    { $set: { isActive: false } },
-    { new: true }
-  );
+  const existingProject = await authorizeProject(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+  if (!existingProject.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  // The project and its live prompts and versions go to the trash together
+  const deletion = { isActive: false, deletedAt: new Date(), deletedBy: userId };
+
+  const project = await runInTransaction(async (session) => {
+    await trashProjectContents(projectId, deletion, session, context);
+
+    const deletedProject = await Project.findOneAndUpdate(
+      { _id: projectId },
+      { $set: deletion },
+      { new: true, session }
+    );
+
+    if (deletedProject) {
+      await recordAuditEvent(
+        {
+          projectId,
+          actorId: userId,
+          action: AUDIT.ACTIONS.DELETE,
+          entityType: AUDIT.ENTITY_TYPES.PROJECT,
+          entityId: projectId,
+          before: existingProject,
+          after: deletedProject,
+        },
+        context,
+        session
+      );
+    }
+
+    return deletedProject;
+  });
 
   if (!project) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
@@ -169,3 +403,130 @@ export const deleteProject = async (
   return project as ProjectDocument;
 };
 
+
+/**
+ * Get the deployment environments of a project
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @returns Array of environments
+ */
+export const getEnvironments = async (
+  projectId: string,
+  userId: string
+): Promise<ProjectEnvironment[]> => {
+  const project = await getProjectById(projectId, userId);
+  return project.environments;
+};
+
+/**
+ * Add a deployment environment to a project
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param environmentData - Environment data
+ * @param context - Request the change is made in, for the audit log
+ * @returns Updated array of environments
+ */
+export const addEnvironment = async (
+  projectId: string,
+  userId: string,
+  environmentData: EnvironmentRequestBody,
+  context: AuditContext = {}
+): Promise<ProjectEnvironment[]> => {
+  const project = await findActiveProject(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+  const name = environmentData.name.trim().toLowerCase();
+
+  if (project.environments.some((env) => env.name === name)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_ALREADY_EXISTS(name));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const updatedProject = await Project.findOneAndUpdate(
+    { _id: projectId, 'environments.name': { $ne: name } },
+    {
+      $push: {
+        environments: {
+          name,
+          description: environmentData.description ? environmentData.description.trim() : undefined,
+        },
+      },
+    },
+    { new: true, runValidators: true }
+  );
+
+  if (!updatedProject) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_ALREADY_EXISTS(name));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  await recordAuditEvent(
+    {
+      projectId,
+      actorId: userId,
+      action: AUDIT.ACTIONS.UPDATE,
+      entityType: AUDIT.ENTITY_TYPES.PROJECT,
+      entityId: projectId,
+      before: project,
+      after: updatedProject,
+    },
+    context
+  );
+
+  return updatedProject.environments;
+};
+
+/**
+ * Remove a deployment environment from a project, along with its deployments
+ * The production environment cannot be removed
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param environment - Environment name
+ * @param context - Request the change is made in, for the audit log
+ * @returns Updated array of environments
+ */
+export const removeEnvironment = async (
+  projectId: string,
+  userId: string,
+  environment: string,
+  context: AuditContext = {}
+): Promise<ProjectEnvironment[]> => {
+  if (environment === ENVIRONMENTS.PRODUCTION) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PRODUCTION_ENVIRONMENT_REQUIRED);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const project = await findActiveProject(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+
+  if (!project.environments.some((env) => env.name === environment)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_NOT_FOUND(environment));
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const updatedProject = await Project.findOneAndUpdate(
+    { _id: projectId },
+    { $pull: { environments: { name: environment } } },
+    { new: true }
+  );
+
+  await Deployment.deleteMany({ projectId, environment });
+
+  if (updatedProject) {
+    await recordAuditEvent(
+      {
+        projectId,
+        actorId: userId,
+        action: AUDIT.ACTIONS.UPDATE,
+        entityType: AUDIT.ENTITY_TYPES.PROJECT,
+        entityId: projectId,
+        before: project,
+        after: updatedProject,
+      },
+      context
+    );
+  }
+
+  return updatedProject ? updatedProject.environments : [];
+};
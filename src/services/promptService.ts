@@ -3,84 +3,167 @@
  * Handles all prompt-related business logic
  */
 
+import { ClientSession } from 'mongoose';
 import Prompt, { IPrompt } from '../models/Prompt';
+import PromptVersion from '../models/PromptVersion';
 import { ApiError } from '../middleware/errorHandler';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
-import { DEFAULTS } from '../constants';
+import { AUDIT, DEFAULTS, PERMISSIONS } from '../constants';
 import { validateProjectExists } from '../utils/validation';
-import { PromptRequestBody, UpdatePromptRequestBody, PromptDocument } from '../types';
+import { generateUniqueSlug } from '../utils/slug';
+import { paginate } from '../utils/pagination';
+import { runInTransaction } from '../utils/transaction';
+import { authorizePrompt } from './permissionService';
+import { releaseVersions } from './activationService';
+import { recordAuditEvent } from './auditService';
+import {
+  PromptRequestBody,
+  UpdatePromptRequestBody,
+  PromptDocument,
+  PromptAccessMode,
+  ListOptions,
+  PaginatedResult,
+  AuditContext,
+} from '../types';
+
+/**
+ * Check whether a prompt slug is used by another prompt in the project
+ * @param projectId - Project ID
+ * @param slug - Prompt slug
+ * @param excludePromptId - Prompt allowed to hold the slug (optional)
+ * @returns True if the slug is taken
+ */
+const isPromptSlugTaken = async (
+  projectId: string,
+  slug: string,
+  excludePromptId?: string
+): Promise<boolean> => {
+  const filter: { projectId: any; slug: string; _id?: any } = { projectId, slug };
+
+  if (excludePromptId) {
+    filter._id = { $ne: excludePromptId };
+  }
+
+  return (await Prompt.exists(filter)) !== null;
+};
+
+/**
+ * Use the requested slug if it is free in the project, or generate one from the prompt name
+ * @param projectId - Project ID
+ * @param name - Prompt name
+ * @param slug - Requested slug (optional)
+ * @param promptId - Prompt being updated (optional)
+ * @returns Slug for the prompt
+ */
+const resolvePromptSlug = async (
+  projectId: string,
+  name: string,
+  slug?: string,
+  promptId?: string
+): Promise<string> => {
+  if (slug === undefined) {
+    return generateUniqueSlug(name, (candidate) =>
+      isPromptSlugTaken(projectId, candidate, promptId)
+    );
+  }
+
+  if (await isPromptSlugTaken(projectId, slug, promptId)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_SLUG_TAKEN(slug));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return slug;
+};
 
 /**
  * Create a new prompt
  * @param userId - User ID
  * @param projectId - Project ID
  * @param promptData - Prompt data
+ * @param context - Request the change is made in, for the audit log
  * @returns Created prompt
  */
 export const createPrompt = async (
   userId: string,
   projectId: string,
-  promptData: PromptRequestBody
+  promptData: PromptRequestBody,
+  context: AuditContext = {}
 ): Promise<PromptDocument> => {
-  // Validate project exists, is active, and belongs to user
-  await validateProjectExists(projectId, userId);
+  // Validate project exists, is active, and the user may edit it
+  await validateProjectExists(projectId, userId, PERMISSIONS.EDIT);
 
-  const { name, isActive } = promptData;
+  const { name, slug, accessMode, isActive } = promptData;
 
   const prompt: IPrompt = new Prompt({
     userId,
     projectId,
     name: name.trim(),
+    slug: await resolvePromptSlug(projectId, name.trim(), slug),
+    accessMode: accessMode || DEFAULTS.PROMPT_ACCESS_MODE,
     isActive: isActive !== undefined ? isActive : DEFAULTS.IS_ACTIVE,
   });
 
   const savedPrompt = await prompt.save();
+
+  await recordAuditEvent(
+    {
+      projectId,
+      actorId: userId,
+      action: AUDIT.ACTIONS.CREATE,
+      entityType: AUDIT.ENTITY_TYPES.PROMPT,
+      entityId: savedPrompt._id,
+      after: savedPrompt,
+    },
+    context
+  );
+
   return savedPrompt as PromptDocument;
 };
 
 /**
- * Get all prompts for a project
+ * Get one page of a project's prompts
  * @param userId - User ID
  * @param projectId - Project ID
- * @returns Array of prompts
+ * @param options - Pagination, sort and filter options (deleted prompts are excluded by default)
+ * @returns Page of prompts with pagination metadata
  */
 export const getPromptsByProject = async (
   userId: string,
-  projectId: string
-): Promise<PromptDocument[]> => {
-  // Validate project exists and belongs to user
+  projectId: string,
+  options: ListOptions = {}
+): Promise<PaginatedResult<PromptDocument>> => {
+  // Validate project exists and the user may read it
   await validateProjectExists(projectId, userId);
 
-  // Only return active prompts for this user
-  const filter: { userId: any; projectId: any; isActive: boolean } = {
-    userId,
+  // Only return active prompts unless inactive ones are requested
+  const filter: { projectId: any; isActive?: boolean } = {
     projectId,
-    isActive: true,
   };
 
-  const prompts = await Prompt.find(filter).sort({ createdAt: -1 });
-  return prompts as PromptDocument[];
+  if (!options.includeInactive) {
+    filter.isActive = true;
+  }
+
+  const prompts = await paginate(Prompt, filter, options, { nameField: 'name' });
+  return prompts as PaginatedResult<PromptDocument>;
 };
 
 /**
  * Get a prompt by ID
  * @param promptId - Prompt ID
- * @param userId - User ID (optional, for ownership verification)
+ * @param userId - User ID (optional, for the permission check)
  * @returns Prompt document
  */
 export const getPromptById = async (
   promptId: string,
   userId?: string
 ): Promise<PromptDocument> => {
-  const filter: { _id: any; userId?: any } = {
-    _id: promptId,
-  };
-
   if (userId) {
-    filter.userId = userId;
+    await authorizePrompt(promptId, userId, PERMISSIONS.READ);
   }
 
-  const prompt = await Prompt.findOne(filter).populate('projectId', 'name');
+  const prompt = await Prompt.findById(promptId).populate('projectId', 'name');
 
   if (!prompt) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
@@ -97,51 +180,128 @@ export const getPromptById = async (
   return prompt as PromptDocument;
 };
 
+/**
+ * Move the live versions of a prompt to the trash along with it
+ * The versions are released first, so none of them stays active or deployed
+ * @param promptId - Prompt ID
+ * @param deletion - Trash fields shared by everything deleted together
+ * @param session - Transaction session
+ * @param context - Request the change is made in, for the audit log
+ */
+const trashPromptVersions = async (
+  promptId: string,
+  deletion: { isActive: boolean; deletedAt: Date; deletedBy: string },
+  session: ClientSession,
+  context: AuditContext
+): Promise<void> => {
+  await releaseVersions({ promptId, isActive: true }, deletion.deletedBy, session, context);
+  await PromptVersion.updateMany({ promptId, isActive: true }, { $set: deletion }, { session });
+};
+
 /**
  * Update a prompt
+ * Setting isActive to false moves the prompt to the trash, the same way deleting it does;
+ * prompts in the trash have to be restored before they can be changed.
  * @param promptId - Prompt ID
  * @param userId - User ID
  * @param updateData - Fields to update
+ * @param context - Request the change is made in, for the audit log
  * @returns Updated prompt
  */
 export const updatePrompt = async (
   promptId: string,
   userId: string,
-  updateData: UpdatePromptRequestBody
+  updateData: UpdatePromptRequestBody,
+  context: AuditContext = {}
 ): Promise<PromptDocument> => {
-  // First verify the prompt exists and belongs to the user
-  const existingPrompt = await Prompt.findOne({
-    _id: promptId,
+  // First verify the prompt exists and the user may edit it; changing who may read its
+  // active version is a project setting, like its API keys
+  const existingPrompt = await authorizePrompt(
+    promptId,
     userId,
-  });
+    updateData.accessMode !== undefined ? PERMISSIONS.MANAGE_PROJECT : PERMISSIONS.EDIT
+  );
 
-  if (!existingPrompt) {
-    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+  if (!existingPrompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
     error.statusCode = 404;
     throw error;
   }
 
-  const updateFields: { name?: string; isActive?: boolean } = {};
+  const trashing = updateData.isActive === false;
+  const updateFields: {
+    name?: string;
+    slug?: string;
+    accessMode?: PromptAccessMode;
+    isActive?: boolean;
+    deletedAt?: Date;
+    deletedBy?: string;
+  } = {};
 
   if (updateData.name !== undefined) {
     updateFields.name = updateData.name.trim();
   }
 
-  if (updateData.isActive !== undefined) {
-    updateFields.isActive = updateData.isActive;
+  if (updateData.accessMode !== undefined) {
+    updateFields.accessMode = updateData.accessMode;
   }
 
-  if (Object.keys(updateFields).length === 0) {
+  if (
+    Object.keys(updateFields).length === 0 &&
+    updateData.slug === undefined &&
+    updateData.isActive === undefined
+  ) {
     const error: ApiError = new Error(ERROR_MESSAGES.NO_VALID_FIELDS_TO_UPDATE);
     error.statusCode = 400;
     throw error;
   }
 
-  const updatedPrompt = await Prompt.findOneAndUpdate(
-    { _id: promptId, userId },
-    { $set: updateFields },
-    { new: true, runValidators: true }
-  ).populate('projectId', 'name');
+  // Renaming keeps the slug; prompts created before slugs existed get one now
+  if (updateData.slug !== undefined || !existingPrompt.slug) {
+    updateFields.slug = await resolvePromptSlug(
+      existingPrompt.projectId.toString(),
+      updateFields.name ?? existingPrompt.name,
+      updateData.slug,
+      promptId
+    );
+  }
+
+  const deletion = { isActive: false, deletedAt: new Date(), deletedBy: userId };
+
+  if (trashing) {
+    Object.assign(updateFields, deletion);
+  }
+
+  // Updating the prompt, trashing its versions and the audit event happen in one transaction
+  const updatedPrompt = await runInTransaction(async (session) => {
+    if (trashing) {
+      await trashPromptVersions(promptId, deletion, session, context);
+    }
+
+    const prompt = await Prompt.findOneAndUpdate(
+      { _id: promptId, isActive: true },
+      { $set: updateFields },
+      { new: true, runValidators: true, session }
+    ).populate('projectId', 'name');
+
+    if (prompt) {
+      await recordAuditEvent(
+        {
+          projectId: existingPrompt.projectId,
+          actorId: userId,
+          action: trashing ? AUDIT.ACTIONS.DELETE : AUDIT.ACTIONS.UPDATE,
+          entityType: AUDIT.ENTITY_TYPES.PROMPT,
+          entityId: promptId,
+          before: existingPrompt,
+          after: prompt,
+        },
+        context,
+        session
+      );
+    }
+
+    return prompt;
+  });
 
   if (!updatedPrompt) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
@@ -153,20 +313,55 @@ export const updatePrompt = async (
 };
 
 /**
- * Soft delete a prompt
+ * Move a prompt to the trash, together with its versions
  * @param promptId - Prompt ID
  * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
  * @returns Deleted prompt
  */
 export const deletePrompt = async (
   promptId: string,
-  userId: string
+  userId: string,
+  context: AuditContext = {}
 ): Promise<PromptDocument> => {
-  const prompt = await Prompt.findOneAndUpdate(
-    { _id: promptId, userId },
-    { $set: { isActive: false } },
-    { new: true }
-  );
+  const existingPrompt = await authorizePrompt(promptId, userId, PERMISSIONS.EDIT);
+
+  if (!existingPrompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  // The prompt and its live versions go to the trash together
+  const deletion = { isActive: false, deletedAt: new Date(), deletedBy: userId };
+
+  const prompt = await runInTransaction(async (session) => {
+    await trashPromptVersions(promptId, deletion, session, context);
+
+    const deletedPrompt = await Prompt.findOneAndUpdate(
+      { _id: promptId },
+      { $set: deletion },
+      { new: true, session }
+    );
+
+    if (deletedPrompt) {
+      await recordAuditEvent(
+        {
+          projectId: existingPrompt.projectId,
+          actorId: userId,
+          action: AUDIT.ACTIONS.DELETE,
+          entityType: AUDIT.ENTITY_TYPES.PROMPT,
+          entityId: promptId,
+          before: existingPrompt,
+          after: deletedPrompt,
+        },
+        context,
+        session
+      );
+    }
+
+    return deletedPrompt;
+  });
 
   if (!prompt) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
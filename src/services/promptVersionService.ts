@@ -3,71 +3,265 @@
  * Handles all prompt version-related business logic
  */
 
+import { ClientSession } from 'mongoose';
 import PromptVersion, { IPromptVersion } from '../models/PromptVersion';
-import Prompt from '../models/Prompt';
+import Prompt, { IPrompt } from '../models/Prompt';
+import Project, { IProject } from '../models/Project';
+import Deployment from '../models/Deployment';
+import Experiment from '../models/Experiment';
 import { ApiError } from '../middleware/errorHandler';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
-import { DEFAULTS } from '../constants';
+import {
+  AUDIT,
+  BATCH,
+  DEFAULTS,
+  ENVIRONMENTS,
+  EXPERIMENTS,
+  PERMISSIONS,
+  PROMPT_FORMATS,
+  SLUGS,
+} from '../constants';
+import {
+  buildVariableDefinitions,
+  getTemplateText,
+  renderMessages,
+  renderTemplate,
+} from '../utils/template';
+import { diffFields, diffText } from '../utils/diff';
+import { extractJson, validateJsonValue } from '../utils/jsonSchema';
+import { runInTransaction } from '../utils/transaction';
+import { paginate } from '../utils/pagination';
+import { resolveDeployedVersion } from './deploymentService';
+import { activateVersion, deactivateVersion, releaseVersions } from './activationService';
+import { assignExperimentVariant, resolveExperimentVersion } from './experimentService';
+import { assertUserPermission, authorizePrompt, getProjectRole } from './permissionService';
+import { recordAuditEvent } from './auditService';
+import { refreshVersionTools, resolveVersionTools } from './toolService';
 import {
   PromptVersionRequestBody,
   UpdatePromptVersionRequestBody,
   PromptVersionDocument,
+  PromptVariable,
+  PromptFormat,
+  ChatMessage,
+  ModelConfig,
+  JsonSchema,
+  PromptVersionTool,
+  RenderedPromptResponse,
+  OutputValidationResponse,
+  PromptVersionDiffResponse,
+  DiffVersionSummary,
+  ServedPromptVersion,
+  BatchActivePromptItem,
+  ExperimentAssignment,
+  ListOptions,
+  PaginatedResult,
+  Permission,
+  AuditContext,
 } from '../types';
 
 /**
- * Helper function to deactivate other prompt versions when setting activePrompt=true
+ * Validate that prompt exists, is active, and optionally that the user may act on it
  * @param promptId - Prompt ID
- * @param excludeVersionId - Version ID to exclude from deactivation
- * @param userId - User ID (optional, for ownership verification)
+ * @param userId - User ID (optional, for the permission check)
+ * @param permission - Permission the user needs on the prompt's project (defaults to read)
+ * @returns Prompt document
  */
-const deactivateOtherVersions = async (
+const validatePromptExists = async (
   promptId: string,
-  excludeVersionId?: string,
-  userId?: string
-): Promise<void> => {
-  const filter: { promptId: any; activePrompt: boolean; _id?: any; userId?: any } = {
-    promptId,
-    activePrompt: true,
-  };
+  userId?: string,
+  permission: Permission = PERMISSIONS.READ
+): Promise<IPrompt> => {
+  const prompt = userId
+    ? await authorizePrompt(promptId, userId, permission)
+    : await Prompt.findById(promptId);
 
-  if (userId) {
-    filter.userId = userId;
+  if (!prompt) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
   }
 
-  if (excludeVersionId) {
-    filter._id = { $ne: excludeVersionId };
+  if (!prompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
+    error.statusCode = 404;
+    throw error;
   }
 
-  await PromptVersion.updateMany(filter, { $set: { activePrompt: false } });
+  return prompt;
 };
 
 /**
- * Validate that prompt exists, is active, and optionally belongs to user
- * @param promptId - Prompt ID
- * @param userId - User ID (optional, for ownership verification)
+ * Work out the template of a version from its format and the text or messages supplied
+ * Content meant for the other format is rejected rather than silently dropped
+ * @param format - Format of the version
+ * @param promptText - Prompt text, for text versions
+ * @param messages - Chat messages, for chat versions
+ * @returns Format with the trimmed text or messages
  */
-const validatePromptExists = async (promptId: string, userId?: string): Promise<void> => {
-  const filter: { _id: any; isActive?: boolean; userId?: any } = {
-    _id: promptId,
-  };
+const buildVersionContent = (
+  format: PromptFormat,
+  promptText: string | undefined,
+  messages: ChatMessage[] | undefined
+): { format: PromptFormat; promptText?: string; messages?: ChatMessage[] } => {
+  if (format === PROMPT_FORMATS.CHAT) {
+    if (promptText !== undefined) {
+      const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_TEXT_NOT_ALLOWED);
+      error.statusCode = 400;
+      throw error;
+    }
 
-  if (userId) {
-    filter.userId = userId;
-  }
+    if (!messages || messages.length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CHAT_MESSAGES_REQUIRED);
+      error.statusCode = 400;
+      throw error;
+    }
 
-  const prompt = await Prompt.findOne(filter);
+    return {
+      format,
+      messages: messages.map((message) => ({ role: message.role, content: message.content.trim() })),
+    };
+  }
 
-  if (!prompt) {
-    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
-    error.statusCode = 404;
+  if (messages !== undefined) {
+    const error: ApiError = new Error(ERROR_MESSAGES.CHAT_MESSAGES_NOT_ALLOWED);
+    error.statusCode = 400;
     throw error;
   }
 
-  if (!prompt.isActive) {
-    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
-    error.statusCode = 404;
+  if (!promptText || promptText.trim().length === 0) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_TEXT_REQUIRED);
+    error.statusCode = 400;
     throw error;
   }
+
+  return { format, promptText: promptText.trim() };
+};
+
+/**
+ * Take the next version number of a prompt from its counter
+ * Prompts whose versions were created before the counter existed continue after their
+ * highest label. Concurrent saves update the same prompt, so they conflict and are retried
+ * by runInTransaction instead of taking the same number.
+ * @param promptId - Prompt ID
+ * @param session - Transaction session
+ * @returns Version number
+ */
+const takeVersionNumber = async (promptId: string, session: ClientSession): Promise<number> => {
+  const counted = await Prompt.findOneAndUpdate(
+    { _id: promptId, versionCounter: { $exists: true } },
+    { $inc: { versionCounter: 1 } },
+    { new: true, session }
+  );
+
+  if (counted?.versionCounter !== undefined) {
+    return counted.versionCounter;
+  }
+
+  const versions = await PromptVersion.find({ promptId }).select('version').session(session);
+  const highest = versions.reduce(
+    (max, version) => Math.max(max, Number(version.version.replace(/^v/, '')) || 0),
+    0
+  );
+
+  await Prompt.updateOne({ _id: promptId }, { $set: { versionCounter: highest + 1 } }, { session });
+  return highest + 1;
+};
+
+/**
+ * Save the next version of a prompt, activating it if requested
+ * @param userId - User ID
+ * @param prompt - Prompt the version belongs to
+ * @param versionData - Template, variable definitions, model configuration and flags of the version
+ * @param parentVersionId - Version the new one was created from, or null
+ * @param context - Request the change is made in, for the audit log
+ * @returns Created prompt version
+ */
+const saveNewVersion = async (
+  userId: string,
+  prompt: IPrompt,
+  versionData: {
+    format: PromptFormat;
+    promptText?: string;
+    messages?: ChatMessage[];
+    variables: PromptVariable[];
+    modelConfig?: ModelConfig | null;
+    outputSchema?: JsonSchema | null;
+    tools?: PromptVersionTool[];
+    activePrompt?: boolean;
+    isActive?: boolean;
+  },
+  parentVersionId: string | null,
+  context: AuditContext
+): Promise<PromptVersionDocument> => {
+  const promptId = prompt._id.toString();
+  const {
+    format,
+    promptText,
+    messages,
+    variables,
+    modelConfig,
+    outputSchema,
+    tools,
+    activePrompt,
+    isActive,
+  } = versionData;
+
+  // Saving the version and moving the active pointer happen in one transaction
+  const savedVersion = await runInTransaction(async (session) => {
+    // Take the next version number (v1, v2, v3, etc.) from the prompt's counter
+    const nextVersionNumber = await takeVersionNumber(promptId, session);
+    const version = `v${nextVersionNumber}`;
+    const versionName = `Version ${nextVersionNumber}`;
+
+    const promptVersion: IPromptVersion = new PromptVersion({
+      userId,
+      promptId,
+      format,
+      promptText,
+      messages,
+      variables,
+      modelConfig: modelConfig ?? null,
+      outputSchema: outputSchema ?? null,
+      tools: tools ?? [],
+      version,
+      versionName,
+      parentVersionId,
+      activePrompt: DEFAULTS.ACTIVE_PROMPT,
+      isActive: isActive !== undefined ? isActive : DEFAULTS.IS_ACTIVE,
+    });
+
+    await promptVersion.save({ session });
+
+    await recordAuditEvent(
+      {
+        projectId: prompt.projectId,
+        actorId: userId,
+        action: AUDIT.ACTIONS.CREATE,
+        entityType: AUDIT.ENTITY_TYPES.PROMPT_VERSION,
+        entityId: promptVersion._id,
+        after: promptVersion,
+      },
+      context,
+      session
+    );
+
+    // If setting activePrompt=true, make this the only active version of the prompt
+    if (activePrompt === true) {
+      await activateVersion(
+        promptId,
+        promptVersion._id.toString(),
+        userId,
+        session,
+        undefined,
+        context
+      );
+    }
+
+    return PromptVersion.findById(promptVersion._id).session(session);
+  });
+
+  return savedVersion as PromptVersionDocument;
 };
 
 /**
@@ -75,136 +269,466 @@ const validatePromptExists = async (promptId: string, userId?: string): Promise<
  * @param userId - User ID
  * @param promptId - Prompt ID
  * @param versionData - Version data
+ * @param context - Request the change is made in, for the audit log
  * @returns Created prompt version
  */
 export const createPromptVersion = async (
   userId: string,
   promptId: string,
-  versionData: PromptVersionRequestBody
+  versionData: PromptVersionRequestBody,
+  context: AuditContext = {}
 ): Promise<PromptVersionDocument> => {
-  // Validate prompt exists, is active, and belongs to user
-  await validatePromptExists(promptId, userId);
+  // Validate prompt exists, is active, and the user may add versions (and activate them)
+  const prompt = await validatePromptExists(
+    promptId,
+    userId,
+    versionData.activePrompt === true ? PERMISSIONS.PUBLISH : PERMISSIONS.EDIT
+  );
 
-  const { promptText, activePrompt, isActive } = versionData;
+  const {
+    format,
+    promptText,
+    messages,
+    variables,
+    modelConfig,
+    outputSchema,
+    tools,
+    activePrompt,
+    isActive,
+  } = versionData;
+  const content = buildVersionContent(format ?? DEFAULTS.PROMPT_FORMAT, promptText, messages);
 
-  // Count existing versions for this prompt (including inactive ones to maintain sequence)
-  const existingVersionsCount = await PromptVersion.countDocuments({
-    promptId,
+  // Extract template variables before touching existing versions
+  const variableDefinitions = buildVariableDefinitions(getTemplateText(content), variables);
+
+  return saveNewVersion(
     userId,
-  });
+    prompt,
+    {
+      ...content,
+      variables: variableDefinitions,
+      modelConfig,
+      outputSchema,
+      tools: tools ? await resolveVersionTools(prompt.projectId.toString(), tools) : [],
+      activePrompt,
+      isActive,
+    },
+    null,
+    context
+  );
+};
 
-  // Calculate next version number (v1, v2, v3, etc.)
-  const nextVersionNumber = existingVersionsCount + 1;
-  const version = `v${nextVersionNumber}`;
-  const versionName = `Version ${nextVersionNumber}`;
+/**
+ * Create the next version of a prompt from a copy of an existing version
+ * The copy links back to its source through parentVersionId; fields given in the changes
+ * replace the copied ones, and variable hints carry over for placeholders that remain.
+ * Copied library tools take the library's current definition.
+ * @param userId - User ID
+ * @param versionId - ID of the version to copy
+ * @param changes - Fields to change in the copy
+ * @param context - Request the change is made in, for the audit log
+ * @returns Created prompt version
+ */
+export const createPromptVersionFromVersion = async (
+  userId: string,
+  versionId: string,
+  changes: UpdatePromptVersionRequestBody,
+  context: AuditContext = {}
+): Promise<PromptVersionDocument> => {
+  const sourceVersion = await authorizeVersion(
+    versionId,
+    userId,
+    changes.activePrompt === true ? PERMISSIONS.PUBLISH : PERMISSIONS.EDIT
+  );
 
-  // If setting activePrompt=true, deactivate other versions of the same prompt
-  if (activePrompt === true) {
-    await deactivateOtherVersions(promptId, undefined, userId);
+  if (!sourceVersion.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    error.statusCode = 404;
+    throw error;
   }
 
-  const promptVersion: IPromptVersion = new PromptVersion({
-    userId,
-    promptId,
-    promptText: promptText.trim(),
-    version,
-    versionName,
-    activePrompt: activePrompt !== undefined ? activePrompt : DEFAULTS.ACTIVE_PROMPT,
-    isActive: isActive !== undefined ? isActive : DEFAULTS.IS_ACTIVE,
-  });
+  const prompt = await validatePromptExists(sourceVersion.promptId.toString());
 
-  const savedVersion = await promptVersion.save();
-  return savedVersion as PromptVersionDocument;
+  // A copy in another format takes its text or messages from the changes only
+  const format = changes.format ?? sourceVersion.format;
+  const sameFormat = format === sourceVersion.format;
+  const content = buildVersionContent(
+    format,
+    changes.promptText ?? (sameFormat ? sourceVersion.promptText : undefined),
+    changes.messages ?? (sameFormat ? sourceVersion.messages : undefined)
+  );
+  const variableDefinitions = buildVariableDefinitions(
+    getTemplateText(content),
+    changes.variables ?? sourceVersion.variables,
+    changes.variables !== undefined
+  );
+
+  return saveNewVersion(
+    userId,
+    prompt,
+    {
+      ...content,
+      variables: variableDefinitions,
+      modelConfig:
+        changes.modelConfig !== undefined
+          ? changes.modelConfig
+          : sourceVersion.toObject().modelConfig,
+      outputSchema:
+        changes.outputSchema !== undefined ? changes.outputSchema : sourceVersion.outputSchema,
+      tools:
+        changes.tools !== undefined
+          ? await resolveVersionTools(prompt.projectId.toString(), changes.tools)
+          : await refreshVersionTools(prompt.projectId.toString(), sourceVersion.toObject().tools),
+      activePrompt: changes.activePrompt,
+      isActive: changes.isActive,
+    },
+    versionId,
+    context
+  );
 };
 
 /**
- * Get all prompt versions for a prompt
+ * Get one page of a prompt's versions
  * @param userId - User ID
  * @param promptId - Prompt ID
- * @returns Array of prompt versions
+ * @param options - Pagination, sort and filter options; "name" sorts and filters on versionName
+ *   and deleted versions are excluded by default
+ * @returns Page of prompt versions with pagination metadata
  */
 export const getPromptVersionsByPrompt = async (
   userId: string,
-  promptId: string
-): Promise<PromptVersionDocument[]> => {
-  // Validate prompt exists and belongs to user
+  promptId: string,
+  options: ListOptions = {}
+): Promise<PaginatedResult<PromptVersionDocument>> => {
+  // Validate prompt exists and the user may read it
   await validatePromptExists(promptId, userId);
 
-  // Only return active prompt versions for this user
-  const filter: { userId: any; promptId: any; isActive: boolean } = {
-    userId,
+  // Only return active prompt versions unless inactive ones are requested
+  const filter: { promptId: any; isActive?: boolean } = {
     promptId,
-    isActive: true,
   };
 
-  const versions = await PromptVersion.find(filter)
-    .populate({
+  if (!options.includeInactive) {
+    filter.isActive = true;
+  }
+
+  const versions = await paginate(PromptVersion, filter, options, {
+    nameField: 'versionName',
+    populate: {
       path: 'promptId',
       select: 'name projectId',
       populate: {
         path: 'projectId',
         select: 'name',
       },
-    })
-    .sort({ createdAt: -1 });
+    },
+  });
 
-  return versions as PromptVersionDocument[];
+  return versions as PaginatedResult<PromptVersionDocument>;
 };
 
 /**
- * Get the active prompt version for a prompt (public endpoint)
+ * Get the active prompt version for a prompt in an environment (public endpoint)
+ * In production a running experiment chooses the version instead of the active pointer
  * @param promptId - Prompt ID
- * @returns Active prompt version
+ * @param environment - Environment name (defaults to production)
+ * @param subjectId - End-user identifier for sticky experiment assignment (optional)
+ * @returns Active prompt version, with the experiment assignment if one applied
  */
 export const getActivePromptVersion = async (
-  promptId: string
-): Promise<PromptVersionDocument> => {
-  // Validate prompt exists and is active (no userId check - public endpoint)
-  await validatePromptExists(promptId);
+  promptId: string,
+  environment: string = ENVIRONMENTS.PRODUCTION,
+  subjectId?: string
+): Promise<ServedPromptVersion> => {
+  if (environment === ENVIRONMENTS.PRODUCTION) {
+    const assigned = await resolveExperimentVersion(promptId, subjectId);
 
-  // Find the active version for this prompt (no userId filter - public endpoint)
-  const version = await PromptVersion.findOne({
+    if (assigned) {
+      return {
+        ...assigned.version.toObject(),
+        experiment: assigned.assignment,
+      } as ServedPromptVersion;
+    }
+  }
+
+  // Resolve the deployed version (no userId check - public endpoint)
+  return resolveDeployedVersion(promptId, environment);
+};
+
+/**
+ * Render the active prompt version for a prompt with the given variable values (public endpoint)
+ * @param promptId - Prompt ID
+ * @param values - Variable values keyed by name
+ * @param environment - Environment name (defaults to production)
+ * @param subjectId - End-user identifier for sticky experiment assignment (optional)
+ * @returns Rendered prompt text
+ */
+export const renderActivePromptVersion = async (
+  promptId: string,
+  values: Record<string, unknown> = {},
+  environment: string = ENVIRONMENTS.PRODUCTION,
+  subjectId?: string
+): Promise<RenderedPromptResponse> => {
+  const version = await getActivePromptVersion(promptId, environment, subjectId);
+
+  // Merge stored hints with the placeholders in the template so older versions render too
+  const variables = buildVariableDefinitions(getTemplateText(version), version.variables, false);
+  const served = {
     promptId,
-    activePrompt: true,
+    versionId: version._id,
+    version: version.version,
+    environment,
+    format: version.format ?? DEFAULTS.PROMPT_FORMAT,
+    modelConfig: version.modelConfig ?? null,
+    tools: version.tools ?? [],
+  };
+
+  // Chat versions render message by message and keep their structure
+  if (version.format === PROMPT_FORMATS.CHAT) {
+    const rendered = renderMessages(version.messages || [], variables, values);
+
+    return {
+      ...served,
+      messages: rendered.messages,
+      variables: rendered.values,
+      ...(version.experiment && { experiment: version.experiment }),
+    };
+  }
+
+  const rendered = renderTemplate(version.promptText || '', variables, values);
+
+  return {
+    ...served,
+    renderedText: rendered.renderedText,
+    variables: rendered.values,
+    ...(version.experiment && { experiment: version.experiment }),
+  };
+};
+
+/**
+ * Get the active versions of many prompts at once (public endpoint)
+ * Each collection is queried once for the whole batch; problems with a single prompt
+ * (missing, deleted, access denied, nothing deployed) are reported on its item
+ * @param references - Prompt IDs or "projectSlug/promptSlug" references
+ * @param authorize - Throws if the caller may not read a prompt
+ * @param environment - Environment name (defaults to production)
+ * @param subjectId - End-user identifier for sticky experiment assignment (optional)
+ * @returns One item per reference, in request order
+ */
+export const getActivePromptVersions = async (
+  references: string[],
+  authorize: (prompt: IPrompt) => Promise<unknown>,
+  environment: string = ENVIRONMENTS.PRODUCTION,
+  subjectId?: string
+): Promise<BatchActivePromptItem[]> => {
+  const isProduction = environment === ENVIRONMENTS.PRODUCTION;
+  const promptIds = references.filter((reference) => SLUGS.OBJECT_ID_REGEX.test(reference));
+  const slugReferences = references
+    .filter((reference) => !SLUGS.OBJECT_ID_REGEX.test(reference))
+    .map((reference) => reference.split(BATCH.SLUG_SEPARATOR));
+
+  // Resolve project slugs, then find every requested prompt in one query
+  const projectSlugs = slugReferences.map(([projectSlug]) => projectSlug);
+  const slugProjects = projectSlugs.length
+    ? await Project.find({ slug: { $in: projectSlugs } }).select('slug')
+    : [];
+  const promptFilters: Record<string, unknown>[] = slugProjects.map((project) => ({
+    projectId: project._id,
+    slug: {
+      $in: slugReferences
+        .filter(([projectSlug]) => projectSlug === project.slug)
+        .map(([, promptSlug]) => promptSlug),
+    },
+  }));
+  if (promptIds.length) {
+    promptFilters.push({ _id: { $in: promptIds } });
+  }
+  const prompts = promptFilters.length ? await Prompt.find({ $or: promptFilters }) : [];
+  const livePrompts = prompts.filter((prompt) => prompt.isActive);
+  const livePromptIds = livePrompts.map((prompt) => prompt._id);
+
+  const [projects, deployments, experiments] = await Promise.all([
+    Project.find({ _id: { $in: livePrompts.map((prompt) => prompt.projectId) } }).select(
+      'name environments'
+    ),
+    Deployment.find({ promptId: { $in: livePromptIds }, environment }),
+    isProduction
+      ? Experiment.find({ promptId: { $in: livePromptIds }, status: EXPERIMENTS.STATUSES.RUNNING })
+      : Promise.resolve([]),
+  ]);
+
+  // Deployed versions, experiment variants and legacy activePrompt versions in one query
+  const deployedPromptIds = deployments.map((deployment) => deployment.promptId.toString());
+  const legacyPromptIds = isProduction
+    ? livePromptIds.filter((promptId) => !deployedPromptIds.includes(promptId.toString()))
+    : [];
+  const versionFilters: Record<string, unknown>[] = [
+    {
+      _id: {
+        $in: [
+          ...deployments.map((deployment) => deployment.versionId),
+          ...experiments.flatMap((experiment) =>
+            experiment.variants.map((variant) => variant.versionId)
+          ),
+        ],
+      },
+    },
+  ];
+  if (legacyPromptIds.length) {
+    versionFilters.push({ promptId: { $in: legacyPromptIds }, activePrompt: true });
+  }
+  const versions = (await PromptVersion.find({
     isActive: true,
-  })
-    .populate({
-      path: 'promptId',
-      select: 'name projectId',
-      populate: {
-        path: 'projectId',
-        select: 'name',
+    $or: versionFilters,
+  })) as PromptVersionDocument[];
+
+  // Shape each version like the populated single-prompt response
+  const serve = (
+    version: PromptVersionDocument,
+    prompt: IPrompt,
+    project: IProject,
+    experiment?: ExperimentAssignment
+  ): ServedPromptVersion =>
+    ({
+      ...version.toObject(),
+      promptId: {
+        _id: prompt._id,
+        name: prompt.name,
+        projectId: { _id: project._id, name: project.name },
       },
-    });
+      ...(experiment && { experiment }),
+    }) as ServedPromptVersion;
 
-  if (!version) {
-    const error: ApiError = new Error(ERROR_MESSAGES.NO_ACTIVE_VERSION_FOUND);
+  const findPrompt = (reference: string): IPrompt | undefined => {
+    if (SLUGS.OBJECT_ID_REGEX.test(reference)) {
+      return prompts.find((prompt) => prompt._id.equals(reference));
+    }
+    const [projectSlug, promptSlug] = reference.split(BATCH.SLUG_SEPARATOR);
+    const project = slugProjects.find((candidate) => candidate.slug === projectSlug);
+    return prompts.find(
+      (prompt) => project && prompt.projectId.equals(project._id) && prompt.slug === promptSlug
+    );
+  };
+
+  return Promise.all(
+    references.map(async (reference): Promise<BatchActivePromptItem> => {
+      const prompt = findPrompt(reference);
+
+      try {
+        if (!prompt) {
+          const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+          error.statusCode = 404;
+          throw error;
+        }
+
+        if (!prompt.isActive) {
+          const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_DELETED);
+          error.statusCode = 404;
+          throw error;
+        }
+
+        await authorize(prompt);
+
+        const project = projects.find((candidate) => candidate._id.equals(prompt.projectId));
+        if (!project || !project.environments.some((env) => env.name === environment)) {
+          const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_NOT_FOUND(environment));
+          error.statusCode = 404;
+          throw error;
+        }
+
+        // A running experiment chooses the production version
+        const experiment = experiments.find((candidate) => candidate.promptId.equals(prompt._id));
+        const assigned = experiment ? assignExperimentVariant(experiment, versions, subjectId) : null;
+        if (assigned) {
+          return {
+            reference,
+            promptId: prompt._id,
+            version: serve(assigned.version, prompt, project, assigned.assignment),
+          };
+        }
+
+        const deployment = deployments.find((candidate) => candidate.promptId.equals(prompt._id));
+        const version = deployment
+          ? versions.find((candidate) => candidate._id.equals(deployment.versionId))
+          : versions.find(
+              (candidate) =>
+                isProduction && candidate.activePrompt && prompt._id.equals(candidate.promptId)
+            );
+
+        if (!version) {
+          const error: ApiError = new Error(
+            isProduction
+              ? ERROR_MESSAGES.NO_ACTIVE_VERSION_FOUND
+              : ERROR_MESSAGES.NO_DEPLOYMENT_FOR_ENVIRONMENT(environment)
+          );
+          error.statusCode = 404;
+          throw error;
+        }
+
+        return { reference, promptId: prompt._id, version: serve(version, prompt, project) };
+      } catch (error) {
+        const apiError = error as ApiError;
+
+        // Unexpected failures still fail the whole request
+        if (!apiError.statusCode) {
+          throw error;
+        }
+
+        return {
+          reference,
+          promptId: prompt ? prompt._id : null,
+          error: { statusCode: apiError.statusCode, message: apiError.message },
+        };
+      }
+    })
+  );
+};
+
+/**
+ * Find a prompt version the user may act on
+ * Versions of prompts the user has no access to are reported as not found
+ * @param versionId - Version ID
+ * @param userId - User ID
+ * @param permission - Permission required on the version's project
+ * @returns Prompt version document
+ */
+const authorizeVersion = async (
+  versionId: string,
+  userId: string,
+  permission: Permission
+): Promise<IPromptVersion> => {
+  const version = await PromptVersion.findById(versionId);
+  const prompt = version ? await Prompt.findById(version.promptId).select('projectId') : null;
+  const project = prompt
+    ? await Project.findById(prompt.projectId).select('organizationId userId members')
+    : null;
+  const role = project ? await getProjectRole(project, userId) : null;
+
+  if (!version || !role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_NOT_FOUND);
     error.statusCode = 404;
     throw error;
   }
 
-  return version as PromptVersionDocument;
+  await assertUserPermission(role, userId, permission);
+  return version;
 };
 
 /**
  * Get a prompt version by ID
  * @param versionId - Version ID
- * @param userId - User ID (optional, for ownership verification)
+ * @param userId - User ID (optional, for the permission check)
  * @returns Prompt version document
  */
 export const getPromptVersionById = async (
   versionId: string,
   userId?: string
 ): Promise<PromptVersionDocument> => {
-  const filter: { _id: any; userId?: any } = {
-    _id: versionId,
-  };
-
   if (userId) {
-    filter.userId = userId;
+    await authorizeVersion(versionId, userId, PERMISSIONS.READ);
   }
 
-  const version = await PromptVersion.findOne(filter)
+  const version = await PromptVersion.findById(versionId)
     .populate({
       path: 'promptId',
       select: 'name projectId',
@@ -231,74 +755,189 @@ export const getPromptVersionById = async (
 
 /**
  * Update a prompt version
+ * Changing activePrompt is recorded as an activation or deactivation, together with any
+ * other fields changed in the same request. In projects with immutable versions the text,
+ * messages, variables, model configuration, output schema and tools cannot be changed; the
+ * format of a version never changes.
  * @param versionId - Version ID
  * @param userId - User ID
  * @param updateData - Fields to update
+ * @param context - Request the change is made in, for the audit log
  * @returns Updated prompt version
  */
 export const updatePromptVersion = async (
   versionId: string,
   userId: string,
-  updateData: UpdatePromptVersionRequestBody
+  updateData: UpdatePromptVersionRequestBody,
+  context: AuditContext = {}
 ): Promise<PromptVersionDocument> => {
-  // First verify the version exists and belongs to the user
-  const existingVersion = await PromptVersion.findOne({
-    _id: versionId,
+  // First verify the version exists and the user may edit it (and change the active version)
+  const existingVersion = await authorizeVersion(
+    versionId,
     userId,
-  });
+    updateData.activePrompt !== undefined ? PERMISSIONS.PUBLISH : PERMISSIONS.EDIT
+  );
 
-  if (!existingVersion) {
-    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_NOT_FOUND);
+  // Versions in the trash have to be restored before they can be changed
+  if (!existingVersion.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
     error.statusCode = 404;
     throw error;
   }
 
+  const trashing = updateData.isActive === false;
+
+  if (updateData.activePrompt === true && trashing) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (updateData.format !== undefined && updateData.format !== existingVersion.format) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_FORMAT_FIXED);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const promptId = existingVersion.promptId.toString();
+  const prompt = await Prompt.findById(promptId).select('projectId');
+  const templateChanged = updateData.promptText !== undefined || updateData.messages !== undefined;
+
+  // Projects with immutable versions only let the flags of a saved version change
+  if (
+    templateChanged ||
+    updateData.variables !== undefined ||
+    updateData.modelConfig !== undefined ||
+    updateData.outputSchema !== undefined ||
+    updateData.tools !== undefined
+  ) {
+    const project = prompt
+      ? await Project.findById(prompt.projectId).select('immutableVersions')
+      : null;
+
+    if (project?.immutableVersions) {
+      const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_IMMUTABLE);
+      error.statusCode = 409;
+      throw error;
+    }
+  }
+
   const updateFields: {
     promptText?: string;
-    activePrompt?: boolean;
+    messages?: ChatMessage[];
+    variables?: PromptVariable[];
+    modelConfig?: ModelConfig | null;
+    outputSchema?: JsonSchema | null;
+    tools?: PromptVersionTool[];
     isActive?: boolean;
+    deletedAt?: Date;
+    deletedBy?: string;
   } = {};
 
-  if (updateData.promptText !== undefined) {
-    updateFields.promptText = updateData.promptText.trim();
+  if (templateChanged) {
+    const content = buildVersionContent(
+      existingVersion.format,
+      updateData.promptText,
+      updateData.messages
+    );
+
+    if (content.promptText !== undefined) {
+      updateFields.promptText = content.promptText;
+    }
+    if (content.messages !== undefined) {
+      updateFields.messages = content.messages;
+    }
   }
 
-  if (updateData.activePrompt !== undefined) {
-    updateFields.activePrompt = updateData.activePrompt;
+  // Re-extract variables when the template or the definitions change
+  // Existing hints are carried over for placeholders that are still present
+  if (templateChanged || updateData.variables !== undefined) {
+    updateFields.variables = buildVariableDefinitions(
+      getTemplateText({
+        format: existingVersion.format,
+        promptText: updateFields.promptText ?? existingVersion.promptText,
+        messages: updateFields.messages ?? existingVersion.messages,
+      }),
+      updateData.variables ?? existingVersion.variables,
+      updateData.variables !== undefined
+    );
+  }
 
-    // If setting activePrompt=true, deactivate other versions of the same prompt
-    if (updateData.activePrompt === true) {
-      await deactivateOtherVersions(
-        existingVersion.promptId.toString(),
-        versionId,
-        userId
-      );
-    }
+  if (updateData.modelConfig !== undefined) {
+    updateFields.modelConfig = updateData.modelConfig;
   }
 
-  if (updateData.isActive !== undefined) {
-    updateFields.isActive = updateData.isActive;
+  if (updateData.outputSchema !== undefined) {
+    updateFields.outputSchema = updateData.outputSchema;
   }
 
-  if (Object.keys(updateFields).length === 0) {
+  if (updateData.tools !== undefined && prompt) {
+    updateFields.tools = await resolveVersionTools(prompt.projectId.toString(), updateData.tools);
+  }
+
+  // Clearing isActive moves the version to the trash, the same way deleting it does
+  if (trashing) {
+    updateFields.isActive = false;
+    updateFields.deletedAt = new Date();
+    updateFields.deletedBy = userId;
+  }
+
+  if (
+    Object.keys(updateFields).length === 0 &&
+    updateData.activePrompt === undefined &&
+    updateData.isActive === undefined
+  ) {
     const error: ApiError = new Error(ERROR_MESSAGES.NO_VALID_FIELDS_TO_UPDATE);
     error.statusCode = 400;
     throw error;
   }
 
-  const updatedVersion = await PromptVersion.findOneAndUpdate(
-    { _id: versionId, userId },
-    { $set: updateFields },
-    { new: true, runValidators: true }
-  )
-    .populate({
-      path: 'promptId',
-      select: 'name projectId',
-      populate: {
-        path: 'projectId',
-        select: 'name',
-      },
-    });
+  // Moving the active pointer, updating the fields and their audit events happen in one
+  // transaction; activations are recorded on their own, so the update event holds the rest
+  const updatedVersion = await runInTransaction(async (session) => {
+    if (updateData.activePrompt === true) {
+      await activateVersion(promptId, versionId, userId, session, undefined, context);
+    } else if (updateData.activePrompt === false) {
+      await deactivateVersion(promptId, versionId, userId, session, context);
+    }
+
+    if (trashing) {
+      await releaseVersions({ _id: existingVersion._id }, userId, session, context);
+    }
+
+    const currentVersion = await PromptVersion.findById(versionId).session(session);
+    const version = await PromptVersion.findOneAndUpdate(
+      { _id: versionId, isActive: true },
+      { $set: updateFields },
+      { new: true, runValidators: true, session }
+    )
+      .populate({
+        path: 'promptId',
+        select: 'name projectId',
+        populate: {
+          path: 'projectId',
+          select: 'name',
+        },
+      });
+
+    if (version && prompt) {
+      await recordAuditEvent(
+        {
+          projectId: prompt.projectId,
+          actorId: userId,
+          action: trashing ? AUDIT.ACTIONS.DELETE : AUDIT.ACTIONS.UPDATE,
+          entityType: AUDIT.ENTITY_TYPES.PROMPT_VERSION,
+          entityId: versionId,
+          before: currentVersion,
+          after: version,
+        },
+        context,
+        session
+      );
+    }
+
+    return version;
+  });
 
   if (!updatedVersion) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_NOT_FOUND);
@@ -310,20 +949,57 @@ export const updatePromptVersion = async (
 };
 
 /**
- * Soft delete a prompt version
+ * Move a prompt version to the trash
+ * The version stops being the active version, its deployments are removed and the running
+ * experiments that serve it are stopped
  * @param versionId - Version ID
  * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
  * @returns Deleted prompt version
  */
 export const deletePromptVersion = async (
   versionId: string,
-  userId: string
+  userId: string,
+  context: AuditContext = {}
 ): Promise<PromptVersionDocument> => {
-  const version = await PromptVersion.findOneAndUpdate(
-    { _id: versionId, userId },
-    { $set: { isActive: false } },
-    { new: true }
-  );
+  const existingVersion = await authorizeVersion(versionId, userId, PERMISSIONS.EDIT);
+
+  if (!existingVersion.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  const prompt = await Prompt.findById(existingVersion.promptId).select('projectId');
+
+  // Releasing the version, deleting it and the audit event happen in one transaction
+  const version = await runInTransaction(async (session) => {
+    await releaseVersions({ _id: existingVersion._id }, userId, session, context);
+
+    const deletedVersion = await PromptVersion.findOneAndUpdate(
+      { _id: versionId, isActive: true },
+      { $set: { isActive: false, deletedAt: new Date(), deletedBy: userId } },
+      { new: true, session }
+    );
+
+    if (deletedVersion && prompt) {
+      await recordAuditEvent(
+        {
+          projectId: prompt.projectId,
+          actorId: userId,
+          action: AUDIT.ACTIONS.DELETE,
+          entityType: AUDIT.ENTITY_TYPES.PROMPT_VERSION,
+          entityId: versionId,
+          before: existingVersion,
+          after: deletedVersion,
+        },
+        context,
+        session
+      );
+    }
+
+    return deletedVersion;
+  });
 
   if (!version) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_NOT_FOUND);
@@ -334,3 +1010,124 @@ export const deletePromptVersion = async (
   return version as PromptVersionDocument;
 };
 
+/**
+ * Key the tools of a version by name, as plain JSON values, for comparing versions
+ * @param version - Prompt version
+ * @returns Tool definitions keyed by name
+ */
+const toolsByName = (version: IPromptVersion): Record<string, unknown> => {
+  const tools: PromptVersionTool[] = version.toObject().tools ?? [];
+
+  return Object.fromEntries(
+    tools.map(({ name, ...tool }) => [name, JSON.parse(JSON.stringify(tool))])
+  );
+};
+
+/**
+ * Compare two versions of a prompt by version label (v1, v2, ...)
+ * Soft-deleted versions can be compared so that past changes remain auditable
+ * @param userId - User ID
+ * @param promptId - Prompt ID
+ * @param fromVersion - Version label of the old side
+ * @param toVersion - Version label of the new side
+ * @returns Line-level and word-level diff of the two templates, and the changed model
+ *   configuration and tool fields; chat messages are compared as one text with a "[role]"
+ *   line before each message, and tools are matched by name
+ */
+export const diffPromptVersions = async (
+  userId: string,
+  promptId: string,
+  fromVersion: string,
+  toVersion: string
+): Promise<PromptVersionDiffResponse> => {
+  // Validate prompt exists and the user may read it
+  await validatePromptExists(promptId, userId);
+
+  const versions = await PromptVersion.find({
+    promptId,
+    version: { $in: [fromVersion, toVersion] },
+  });
+
+  const findVersion = (label: string): IPromptVersion => {
+    const version = versions.find((v) => v.version === label);
+
+    if (!version) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VERSION_LABEL_NOT_FOUND(label));
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return version;
+  };
+
+  const toSummary = (version: IPromptVersion): DiffVersionSummary => ({
+    _id: version._id,
+    version: version.version,
+    versionName: version.versionName,
+    format: version.format,
+    activePrompt: version.activePrompt,
+    isActive: version.isActive,
+    createdAt: version.createdAt,
+  });
+
+  const from = findVersion(fromVersion);
+  const to = findVersion(toVersion);
+
+  return {
+    promptId,
+    from: toSummary(from),
+    to: toSummary(to),
+    ...diffText(getTemplateText(from), getTemplateText(to)),
+    modelConfigChanges: diffFields(from.toObject().modelConfig, to.toObject().modelConfig),
+    toolChanges: diffFields(toolsByName(from), toolsByName(to)),
+  };
+};
+
+/**
+ * Check a model output against the output schema of a prompt version
+ * The JSON value is extracted from the output first, so outputs that wrap it in a code
+ * fence or in prose can be checked as they were returned by the model
+ * @param versionId - Version ID
+ * @param userId - User ID
+ * @param output - Model output
+ * @returns Whether the output matches, the extracted JSON value and the validation errors
+ */
+export const validatePromptVersionOutput = async (
+  versionId: string,
+  userId: string,
+  output: string
+): Promise<OutputValidationResponse> => {
+  const version = await authorizeVersion(versionId, userId, PERMISSIONS.READ);
+
+  if (!version.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_DELETED);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (version.outputSchema === null || version.outputSchema === undefined) {
+    const error: ApiError = new Error(ERROR_MESSAGES.OUTPUT_SCHEMA_MISSING);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const extracted = extractJson(output);
+
+  if (!extracted.found) {
+    return {
+      versionId: version._id,
+      valid: false,
+      output: null,
+      errors: [{ path: '', keyword: 'json', message: ERROR_MESSAGES.OUTPUT_JSON_NOT_FOUND }],
+    };
+  }
+
+  const errors = validateJsonValue(extracted.value, version.outputSchema);
+
+  return {
+    versionId: version._id,
+    valid: errors.length === 0,
+    output: extracted.value,
+    errors,
+  };
+};
@@ -0,0 +1,149 @@
+/**
+ * Rate Limit Service
+ * Counts requests per key in fixed windows through a pluggable store. RATE_LIMIT_STORE
+ * selects a built-in one: "memory" (default) counts per process, "mongo" shares counters
+ * between every instance using the database
+ */
+
+import RateLimitCounter from '../models/RateLimitCounter';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ENV_KEYS, RATE_LIMITS, TRANSACTION } from '../constants';
+import { RateLimitCounter as Counter, RateLimitPolicy, RateLimitStore } from '../types';
+
+/**
+ * Store used by hitRateLimit; created from the environment on first use
+ */
+let store: RateLimitStore | null = null;
+
+/**
+ * Create a store that keeps counters in memory
+ * Suits a single instance; counters are lost on restart
+ * @returns Rate limit store
+ */
+export const createMemoryStore = (): RateLimitStore => {
+  const counters = new Map<string, Counter>();
+
+  // Drop counters whose window has ended
+  const sweep = (now: number): void => {
+    counters.forEach((counter, key) => {
+      if (counter.resetAt.getTime() <= now) {
+        counters.delete(key);
+      }
+    });
+  };
+
+  return {
+    increment: async (key, windowMs) => {
+      const now = Date.now();
+
+      if (counters.size >= RATE_LIMITS.MEMORY_SWEEP_THRESHOLD) {
+        sweep(now);
+      }
+
+      const current = counters.get(key);
+      const counter =
+        current && current.resetAt.getTime() > now
+          ? { count: current.count + 1, resetAt: current.resetAt }
+          : { count: 1, resetAt: new Date(now + windowMs) };
+
+      counters.set(key, counter);
+      return { ...counter };
+    },
+    reset: async (key) => {
+      counters.delete(key);
+    },
+  };
+};
+
+/**
+ * Create a store that keeps counters in MongoDB
+ * Each increment is a single atomic update; finished windows expire through a TTL index
+ * @returns Rate limit store
+ */
+export const createMongoStore = (): RateLimitStore => {
+  const increment = async (key: string, windowMs: number): Promise<Counter> => {
+    const now = new Date();
+    const inWindow = { $gt: ['$resetAt', now] };
+
+    const counter = await RateLimitCounter.findOneAndUpdate(
+      { key },
+      [
+        {
+          $set: {
+            count: { $cond: [inWindow, { $add: ['$count', 1] }, 1] },
+            resetAt: { $cond: [inWindow, '$resetAt', new Date(now.getTime() + windowMs)] },
+          },
+        },
+      ],
+      { upsert: true, new: true }
+    );
+
+    return { count: counter!.count, resetAt: counter!.resetAt };
+  };
+
+  return {
+    increment: async (key, windowMs) => {
+      try {
+        return await increment(key, windowMs);
+      } catch (error) {
+        // Two first requests for a key can race to insert its counter; the loser updates it
+        if ((error as { code?: number }).code === TRANSACTION.DUPLICATE_KEY_CODE) {
+          return increment(key, windowMs);
+        }
+        throw error;
+      }
+    },
+    reset: async (key) => {
+      await RateLimitCounter.deleteOne({ key });
+    },
+  };
+};
+
+/**
+ * Create the store configured by RATE_LIMIT_STORE
+ * @returns Rate limit store
+ */
+const createStoreFromEnv = (): RateLimitStore => {
+  const name = process.env[ENV_KEYS.RATE_LIMIT_STORE] || RATE_LIMITS.DEFAULT_STORE;
+
+  if (name === RATE_LIMITS.STORES.MEMORY) {
+    return createMemoryStore();
+  }
+
+  if (name === RATE_LIMITS.STORES.MONGO) {
+    return createMongoStore();
+  }
+
+  throw new Error(ERROR_MESSAGES.RATE_LIMIT_STORE_INVALID(name));
+};
+
+/**
+ * Replace the store used by hitRateLimit
+ * @param rateLimitStore - Store to use, or null to go back to the configured one
+ */
+export const setRateLimitStore = (rateLimitStore: RateLimitStore | null): void => {
+  store = rateLimitStore;
+};
+
+/**
+ * Get the store in use, creating the configured one on first use
+ * @returns Rate limit store
+ */
+const getStore = (): RateLimitStore => (store ??= createStoreFromEnv());
+
+/**
+ * Count a request against a policy
+ * @param policy - Rate limit policy
+ * @param key - Client the request is counted for, such as an IP address
+ * @returns Requests counted in the current window, including this one
+ */
+export const hitRateLimit = (policy: RateLimitPolicy, key: string): Promise<Counter> =>
+  getStore().increment(`${policy.name}:${key}`, policy.windowSeconds * 1000);
+
+/**
+ * Forget the requests counted for a key
+ * @param policy - Rate limit policy
+ * @param key - Client the requests were counted for
+ */
+export const resetRateLimit = (policy: RateLimitPolicy, key: string): Promise<void> =>
+  getStore().reset(`${policy.name}:${key}`);
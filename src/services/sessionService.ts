@@ -0,0 +1,177 @@
+/**
+ * Session Service
+ * Server-side sessions backing refresh tokens. Every login starts a session family;
+ * each refresh rotates the refresh token within the family, and presenting a rotated
+ * token again revokes the whole family
+ */
+
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Session, { ISession } from '../models/Session';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ENV_KEYS, SESSIONS } from '../constants';
+import { SessionContext, SessionRevokeReason } from '../types';
+
+/**
+ * Hash a refresh token for storage and lookup
+ * Refresh tokens are random, so a fast hash is enough and keeps lookups indexed
+ * @param refreshToken - Raw refresh token
+ * @returns Hex-encoded SHA-256 hash
+ */
+const hashRefreshToken = (refreshToken: string): string =>
+  crypto.createHash('sha256').update(refreshToken).digest('hex');
+
+/**
+ * Get the lifetime of refresh tokens in milliseconds
+ * @returns Lifetime from REFRESH_TOKEN_EXPIRES_IN_DAYS, or the default
+ */
+const getRefreshTokenLifetime = (): number => {
+  const days =
+    parseInt(process.env[ENV_KEYS.REFRESH_TOKEN_EXPIRES_IN_DAYS] || '', 10) ||
+    SESSIONS.REFRESH_TOKEN_EXPIRES_IN_DAYS;
+
+  return days * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Store a new refresh token
+ * @param userId - User ID
+ * @param familyId - Session family the token belongs to
+ * @param context - Client the session is used from
+ * @returns Session document and the raw refresh token
+ */
+const issueRefreshToken = async (
+  userId: string,
+  familyId: mongoose.Types.ObjectId,
+  context: SessionContext
+): Promise<{ session: ISession; refreshToken: string }> => {
+  const refreshToken = crypto.randomBytes(SESSIONS.REFRESH_TOKEN_BYTES).toString('base64url');
+
+  const session = await Session.create({
+    userId,
+    familyId,
+    tokenHash: hashRefreshToken(refreshToken),
+    expiresAt: new Date(Date.now() + getRefreshTokenLifetime()),
+    userAgent: context.userAgent?.slice(0, SESSIONS.USER_AGENT_MAX_LENGTH),
+    ipAddress: context.ipAddress,
+  });
+
+  return { session, refreshToken };
+};
+
+/**
+ * Start a new session family for a login
+ * @param userId - User ID
+ * @param context - Client the session is used from
+ * @returns Session family ID and the raw refresh token
+ */
+export const createSession = async (
+  userId: string,
+  context: SessionContext = {}
+): Promise<{ sessionId: string; refreshToken: string }> => {
+  const familyId = new mongoose.Types.ObjectId();
+  const { refreshToken } = await issueRefreshToken(userId, familyId, context);
+
+  return { sessionId: familyId.toString(), refreshToken };
+};
+
+/**
+ * Exchange a refresh token for a new one in the same session family
+ * A token that was already exchanged signals theft: the whole family is revoked
+ * @param refreshToken - Raw refresh token
+ * @param context - Client the session is used from
+ * @returns User ID, session family ID and the new raw refresh token
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  context: SessionContext = {}
+): Promise<{ userId: string; sessionId: string; refreshToken: string }> => {
+  const session = await Session.findOne({ tokenHash: hashRefreshToken(refreshToken) });
+
+  if (!session || session.revokedAt || session.expiresAt <= new Date()) {
+    const error: ApiError = new Error(ERROR_MESSAGES.REFRESH_TOKEN_INVALID);
+    error.statusCode = 401;
+    throw error;
+  }
+
+  // Claim the token so it can be exchanged only once, even by concurrent requests
+  const claimed = await Session.findOneAndUpdate(
+    { _id: session._id, rotatedAt: null, revokedAt: null },
+    { rotatedAt: new Date() }
+  );
+
+  if (!claimed) {
+    await revokeSessionFamily(session.familyId.toString(), SESSIONS.REVOKE_REASONS.REUSE);
+
+    const error: ApiError = new Error(ERROR_MESSAGES.REFRESH_TOKEN_REUSED);
+    error.statusCode = 401;
+    throw error;
+  }
+
+  const userId = session.userId.toString();
+  const next = await issueRefreshToken(userId, session.familyId, context);
+
+  return {
+    userId,
+    sessionId: session.familyId.toString(),
+    refreshToken: next.refreshToken,
+  };
+};
+
+/**
+ * Check whether a session family can still be used
+ * @param sessionId - Session family ID (the "sid" claim of access tokens)
+ * @returns True if the family has an unrevoked, unexpired refresh token
+ */
+export const isSessionActive = async (sessionId: string): Promise<boolean> => {
+  if (!mongoose.Types.ObjectId.isValid(sessionId)) {
+    return false;
+  }
+
+  const session = await Session.exists({
+    familyId: sessionId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() },
+  });
+
+  return session !== null;
+};
+
+/**
+ * Revoke every refresh token of a session family
+ * @param sessionId - Session family ID
+ * @param reason - Why the session was revoked
+ * @returns Number of refresh tokens revoked
+ */
+export const revokeSessionFamily = async (
+  sessionId: string,
+  reason: SessionRevokeReason
+): Promise<number> => {
+  const result = await Session.updateMany(
+    { familyId: sessionId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+
+  return result.modifiedCount;
+};
+
+/**
+ * Revoke every session of a user
+ * @param userId - User ID
+ * @param reason - Why the sessions were revoked
+ * @returns Number of session families revoked
+ */
+export const revokeUserSessions = async (
+  userId: string,
+  reason: SessionRevokeReason
+): Promise<number> => {
+  const familyIds = await Session.distinct('familyId', { userId, revokedAt: null });
+
+  await Session.updateMany(
+    { userId, revokedAt: null },
+    { revokedAt: new Date(), revokedReason: reason }
+  );
+
+  return familyIds.length;
+};
@@ -0,0 +1,247 @@
+/**
+ * Tool Service
+ * Handles the project tool library: tool (function) definitions that prompt versions
+ * reference by ID instead of repeating them. A version stores a copy of each referenced
+ * tool as it was when the version was saved; later changes to the library tool only reach
+ * versions saved or derived afterwards.
+ */
+
+import { ClientSession } from 'mongoose';
+import Tool, { ITool } from '../models/Tool';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { PERMISSIONS } from '../constants';
+import { validateProjectExists } from '../utils/validation';
+import {
+  PromptVersionTool,
+  PromptVersionToolInput,
+  ToolDocument,
+  ToolRequestBody,
+  UpdateToolRequestBody,
+} from '../types';
+
+/**
+ * Find a tool in a project's library
+ * @param projectId - Project ID
+ * @param toolId - Tool ID
+ * @returns Tool document
+ */
+const findProjectTool = async (projectId: string, toolId: string): Promise<ITool> => {
+  const tool = await Tool.findOne({ _id: toolId, projectId });
+
+  if (!tool) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TOOL_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  return tool;
+};
+
+/**
+ * Check that no other tool in a project's library has a name
+ * @param projectId - Project ID
+ * @param name - Tool name
+ * @param toolId - Tool being renamed, if any
+ */
+const assertToolNameAvailable = async (
+  projectId: string,
+  name: string,
+  toolId?: string
+): Promise<void> => {
+  const existing = await Tool.exists({
+    projectId,
+    name,
+    ...(toolId && { _id: { $ne: toolId } }),
+  });
+
+  if (existing) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TOOL_NAME_TAKEN(name));
+    error.statusCode = 409;
+    throw error;
+  }
+};
+
+/**
+ * Create a tool in a project's library
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param toolData - Tool definition
+ * @returns Created tool
+ */
+export const createTool = async (
+  projectId: string,
+  userId: string,
+  toolData: ToolRequestBody
+): Promise<ToolDocument> => {
+  // Validate project exists, is active, and the user may edit its prompts
+  await validateProjectExists(projectId, userId, PERMISSIONS.EDIT);
+  await assertToolNameAvailable(projectId, toolData.name);
+
+  const tool: ITool = new Tool({
+    userId,
+    projectId,
+    name: toolData.name,
+    description: toolData.description,
+    parameters: toolData.parameters,
+  });
+
+  const savedTool = await tool.save();
+  return savedTool as ToolDocument;
+};
+
+/**
+ * Get all tools in a project's library, sorted by name
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @returns Array of tools
+ */
+export const getToolsByProject = async (
+  projectId: string,
+  userId: string
+): Promise<ToolDocument[]> => {
+  // Validate project exists and the user may read it
+  await validateProjectExists(projectId, userId);
+
+  const tools = await Tool.find({ projectId }).sort({ name: 1 });
+  return tools as ToolDocument[];
+};
+
+/**
+ * Update a tool in a project's library
+ * Saved versions keep their copy of the tool; versions saved or derived afterwards get
+ * the new definition
+ * @param projectId - Project ID
+ * @param toolId - Tool ID
+ * @param userId - User ID
+ * @param updateData - Fields to update
+ * @returns Updated tool
+ */
+export const updateTool = async (
+  projectId: string,
+  toolId: string,
+  userId: string,
+  updateData: UpdateToolRequestBody
+): Promise<ToolDocument> => {
+  await validateProjectExists(projectId, userId, PERMISSIONS.EDIT);
+
+  const tool = await findProjectTool(projectId, toolId);
+
+  if (updateData.name !== undefined && updateData.name !== tool.name) {
+    await assertToolNameAvailable(projectId, updateData.name, toolId);
+    tool.name = updateData.name;
+  }
+
+  if (updateData.description !== undefined) {
+    tool.description = updateData.description;
+  }
+
+  if (updateData.parameters !== undefined) {
+    tool.parameters = updateData.parameters;
+  }
+
+  const savedTool = await tool.save();
+  return savedTool as ToolDocument;
+};
+
+/**
+ * Delete a tool from a project's library
+ * Versions that referenced the tool keep their copy of it
+ * @param projectId - Project ID
+ * @param toolId - Tool ID
+ * @param userId - User ID
+ * @returns Deleted tool
+ */
+export const deleteTool = async (
+  projectId: string,
+  toolId: string,
+  userId: string
+): Promise<ToolDocument> => {
+  await validateProjectExists(projectId, userId, PERMISSIONS.EDIT);
+
+  const tool = await findProjectTool(projectId, toolId);
+  await Tool.deleteOne({ _id: tool._id });
+
+  return tool as ToolDocument;
+};
+
+/**
+ * Turn the tools given for a prompt version into the definitions to store with it
+ * References are replaced by a copy of the library tool, keeping the toolId
+ * @param projectId - Project the version belongs to
+ * @param tools - Inline definitions and references, as validated by validateRequest
+ * @param session - Transaction the lookup is part of, if any
+ * @returns Tool definitions of the version
+ */
+export const resolveVersionTools = async (
+  projectId: string,
+  tools: PromptVersionToolInput[],
+  session?: ClientSession
+): Promise<PromptVersionTool[]> => {
+  const toolIds = tools.filter((tool) => tool.toolId).map((tool) => tool.toolId);
+  const libraryTools = toolIds.length
+    ? await Tool.find({ _id: { $in: toolIds }, projectId }).session(session ?? null)
+    : [];
+
+  const resolved = tools.map((tool): PromptVersionTool => {
+    if (!tool.toolId) {
+      return {
+        name: tool.name as string,
+        description: tool.description,
+        parameters: tool.parameters ?? { type: 'object', properties: {} },
+      };
+    }
+
+    const libraryTool = libraryTools.find((candidate) => candidate._id.toString() === tool.toolId);
+
+    if (!libraryTool) {
+      const error: ApiError = new Error(ERROR_MESSAGES.TOOL_NOT_FOUND);
+      error.statusCode = 404;
+      throw error;
+    }
+
+    return {
+      toolId: libraryTool._id,
+      name: libraryTool.name,
+      description: libraryTool.description,
+      parameters: libraryTool.parameters,
+    };
+  });
+
+  const names = resolved.map((tool) => tool.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+
+  if (duplicate) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TOOL_NAME_DUPLICATE(duplicate));
+    error.statusCode = 400;
+    throw error;
+  }
+
+  return resolved;
+};
+
+/**
+ * Take the tools of a version into a version derived from it
+ * Referenced tools get the library's current definition; copies of tools that were deleted
+ * from the library are kept as inline definitions
+ * @param projectId - Project the versions belong to
+ * @param tools - Tool definitions of the source version
+ * @returns Tool definitions of the derived version
+ */
+export const refreshVersionTools = async (
+  projectId: string,
+  tools: PromptVersionTool[]
+): Promise<PromptVersionTool[]> => {
+  const toolIds = tools.filter((tool) => tool.toolId).map((tool) => tool.toolId);
+  const libraryIds = toolIds.length
+    ? await Tool.distinct('_id', { _id: { $in: toolIds }, projectId })
+    : [];
+  const inLibrary = new Set(libraryIds.map((id) => id.toString()));
+
+  return resolveVersionTools(
+    projectId,
+    tools.map(({ toolId, ...definition }): PromptVersionToolInput =>
+      toolId && inLibrary.has(toolId.toString()) ? { toolId: toolId.toString() } : definition
+    )
+  );
+};
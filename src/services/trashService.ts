@@ -0,0 +1,454 @@
+/**
+ * Trash Service
+ * Lists deleted projects, prompts and prompt versions, restores them together with
+ * everything deleted along with them, and permanently deletes what stayed in the trash
+ * longer than the retention period
+ */
+
+import mongoose from 'mongoose';
+import Project from '../models/Project';
+import Prompt from '../models/Prompt';
+import PromptVersion from '../models/PromptVersion';
+import Deployment from '../models/Deployment';
+import Experiment from '../models/Experiment';
+import ActivationEvent from '../models/ActivationEvent';
+import ApiKey from '../models/ApiKey';
+import Tool from '../models/Tool';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { AUDIT, ENV_KEYS, EXPERIMENTS, PERMISSIONS, TRASH } from '../constants';
+import { runInTransaction } from '../utils/transaction';
+import {
+  assertUserPermission,
+  authorizeProject,
+  authorizePrompt,
+  getProjectRole,
+  getReadableProjectsFilter,
+} from './permissionService';
+import { recordAuditEvent } from './auditService';
+import {
+  AuditContext,
+  ProjectDocument,
+  PromptDocument,
+  PromptVersionDocument,
+  TrashFilters,
+  TrashItem,
+  TrashPurgeSummary,
+} from '../types';
+
+/**
+ * Fields that take an item out of the trash
+ */
+const RESTORED = { isActive: true, deletedAt: null, deletedBy: null };
+
+/**
+ * Get how long deleted items stay in the trash
+ * @returns Days from TRASH_RETENTION_DAYS, or the default if it is unset or invalid
+ */
+export const getTrashRetentionDays = (): number => {
+  const value = process.env[ENV_KEYS.TRASH_RETENTION_DAYS];
+  const days = value ? parseInt(value, 10) : NaN;
+
+  return Number.isInteger(days) && days > 0 ? days : TRASH.DEFAULT_RETENTION_DAYS;
+};
+
+/**
+ * Get when an item deleted at a given time is purged
+ * @param deletedAt - When the item was deleted
+ * @returns Purge time
+ */
+const getPurgeAt = (deletedAt: Date): Date =>
+  new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+
+/**
+ * Throw unless a document is in the trash
+ * Documents deactivated before the trash existed have no deletedAt and cannot be restored
+ * @param document - Project, prompt or prompt version
+ */
+const assertInTrash = (document: { isActive: boolean; deletedAt: Date | null }): void => {
+  if (document.isActive || !document.deletedAt) {
+    const error: ApiError = new Error(ERROR_MESSAGES.NOT_IN_TRASH);
+    error.statusCode = 409;
+    throw error;
+  }
+};
+
+/**
+ * List what is in the trash of the projects a user can read, most recently deleted first
+ * Prompts and versions deleted along with their project or prompt are not listed; they
+ * come back when it is restored
+ * @param userId - User ID
+ * @param filters - Item type and project to narrow the listing to
+ * @returns Trash items
+ */
+export const getTrash = async (userId: string, filters: TrashFilters = {}): Promise<TrashItem[]> => {
+  const readable = await getReadableProjectsFilter(userId);
+  const scope = filters.projectId ? { _id: filters.projectId } : {};
+  const wants = (type: string): boolean => !filters.type || filters.type === type;
+  const items: TrashItem[] = [];
+
+  if (wants(TRASH.ITEM_TYPES.PROJECT)) {
+    const projects = await Project.find({
+      ...readable,
+      ...scope,
+      isActive: false,
+      deletedAt: { $ne: null },
+    }).populate('deletedBy', 'email name');
+
+    items.push(
+      ...projects.map((project) => ({
+        type: TRASH.ITEM_TYPES.PROJECT,
+        _id: project._id,
+        name: project.name,
+        projectId: project._id,
+        promptId: null,
+        deletedAt: project.deletedAt as Date,
+        deletedBy: project.deletedBy,
+        purgeAt: getPurgeAt(project.deletedAt as Date),
+      }))
+    );
+  }
+
+  if (wants(TRASH.ITEM_TYPES.PROMPT) || wants(TRASH.ITEM_TYPES.PROMPT_VERSION)) {
+    const projectIds = await Project.distinct('_id', { ...readable, ...scope, isActive: true });
+
+    if (wants(TRASH.ITEM_TYPES.PROMPT)) {
+      const prompts = await Prompt.find({
+        projectId: { $in: projectIds },
+        isActive: false,
+        deletedAt: { $ne: null },
+      }).populate('deletedBy', 'email name');
+
+      items.push(
+        ...prompts.map((prompt) => ({
+          type: TRASH.ITEM_TYPES.PROMPT,
+          _id: prompt._id,
+          name: prompt.name,
+          projectId: prompt.projectId,
+          promptId: prompt._id,
+          deletedAt: prompt.deletedAt as Date,
+          deletedBy: prompt.deletedBy,
+          purgeAt: getPurgeAt(prompt.deletedAt as Date),
+        }))
+      );
+    }
+
+    if (wants(TRASH.ITEM_TYPES.PROMPT_VERSION)) {
+      const livePrompts = await Prompt.find({ projectId: { $in: projectIds }, isActive: true }).select(
+        'projectId'
+      );
+      const versions = await PromptVersion.find({
+        promptId: { $in: livePrompts.map((prompt) => prompt._id) },
+        isActive: false,
+        deletedAt: { $ne: null },
+      }).populate('deletedBy', 'email name');
+
+      items.push(
+        ...versions.map((version) => ({
+          type: TRASH.ITEM_TYPES.PROMPT_VERSION,
+          _id: version._id,
+          name: version.versionName,
+          projectId: livePrompts.find((prompt) => prompt._id.equals(version.promptId))?.projectId,
+          promptId: version.promptId,
+          deletedAt: version.deletedAt as Date,
+          deletedBy: version.deletedBy,
+          purgeAt: getPurgeAt(version.deletedAt as Date),
+        }))
+      );
+    }
+  }
+
+  return items.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+};
+
+/**
+ * Restore a project together with the prompts and versions deleted along with it
+ * @param projectId - Project ID
+ * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
+ * @returns Restored project
+ */
+export const restoreProject = async (
+  projectId: string,
+  userId: string,
+  context: AuditContext = {}
+): Promise<ProjectDocument> => {
+  const existingProject = await authorizeProject(projectId, userId, PERMISSIONS.MANAGE_PROJECT);
+  assertInTrash(existingProject);
+
+  const project = await runInTransaction(async (session) => {
+    const promptIds = await Prompt.distinct('_id', {
+      projectId,
+      isActive: false,
+      deletedAt: existingProject.deletedAt,
+    }).session(session);
+
+    await PromptVersion.updateMany(
+      { promptId: { $in: promptIds }, isActive: false, deletedAt: existingProject.deletedAt },
+      { $set: RESTORED },
+      { session }
+    );
+    await Prompt.updateMany({ _id: { $in: promptIds } }, { $set: RESTORED }, { session });
+
+    const restoredProject = await Project.findOneAndUpdate(
+      { _id: projectId, deletedAt: existingProject.deletedAt },
+      { $set: RESTORED },
+      { new: true, session }
+    );
+
+    if (restoredProject) {
+      await recordAuditEvent(
+        {
+          projectId,
+          actorId: userId,
+          action: AUDIT.ACTIONS.RESTORE,
+          entityType: AUDIT.ENTITY_TYPES.PROJECT,
+          entityId: projectId,
+          before: existingProject,
+          after: restoredProject,
+        },
+        context,
+        session
+      );
+    }
+
+    return restoredProject;
+  });
+
+  if (!project) {
+    const error: ApiError = new Error(ERROR_MESSAGES.NOT_IN_TRASH);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return project as ProjectDocument;
+};
+
+/**
+ * Restore a prompt together with the versions deleted along with it
+ * Prompts deleted with their project come back only when the project is restored
+ * @param promptId - Prompt ID
+ * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
+ * @returns Restored prompt
+ */
+export const restorePrompt = async (
+  promptId: string,
+  userId: string,
+  context: AuditContext = {}
+): Promise<PromptDocument> => {
+  const existingPrompt = await authorizePrompt(promptId, userId, PERMISSIONS.EDIT);
+  assertInTrash(existingPrompt);
+
+  if (!(await Project.exists({ _id: existingPrompt.projectId, isActive: true }))) {
+    const error: ApiError = new Error(ERROR_MESSAGES.RESTORE_PARENT_FIRST('project'));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const prompt = await runInTransaction(async (session) => {
+    await PromptVersion.updateMany(
+      { promptId, isActive: false, deletedAt: existingPrompt.deletedAt },
+      { $set: RESTORED },
+      { session }
+    );
+
+    const restoredPrompt = await Prompt.findOneAndUpdate(
+      { _id: promptId, deletedAt: existingPrompt.deletedAt },
+      { $set: RESTORED },
+      { new: true, session }
+    );
+
+    if (restoredPrompt) {
+      await recordAuditEvent(
+        {
+          projectId: existingPrompt.projectId,
+          actorId: userId,
+          action: AUDIT.ACTIONS.RESTORE,
+          entityType: AUDIT.ENTITY_TYPES.PROMPT,
+          entityId: promptId,
+          before: existingPrompt,
+          after: restoredPrompt,
+        },
+        context,
+        session
+      );
+    }
+
+    return restoredPrompt;
+  });
+
+  if (!prompt) {
+    const error: ApiError = new Error(ERROR_MESSAGES.NOT_IN_TRASH);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return prompt as PromptDocument;
+};
+
+/**
+ * Restore a prompt version, inactive
+ * Versions deleted with their prompt come back only when the prompt is restored
+ * @param versionId - Version ID
+ * @param userId - User ID
+ * @param context - Request the change is made in, for the audit log
+ * @returns Restored prompt version
+ */
+export const restorePromptVersion = async (
+  versionId: string,
+  userId: string,
+  context: AuditContext = {}
+): Promise<PromptVersionDocument> => {
+  const existingVersion = await PromptVersion.findById(versionId);
+  const prompt = existingVersion ? await Prompt.findById(existingVersion.promptId) : null;
+  const project = prompt
+    ? await Project.findById(prompt.projectId).select('organizationId userId members')
+    : null;
+  const role = project ? await getProjectRole(project, userId) : null;
+
+  if (!existingVersion || !prompt || !role) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_VERSION_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  await assertUserPermission(role, userId, PERMISSIONS.EDIT);
+  assertInTrash(existingVersion);
+
+  if (!prompt.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.RESTORE_PARENT_FIRST('prompt'));
+    error.statusCode = 409;
+    throw error;
+  }
+
+  // Another version may have been activated meanwhile, so this one comes back inactive
+  const version = await PromptVersion.findOneAndUpdate(
+    { _id: versionId, deletedAt: existingVersion.deletedAt },
+    { $set: { ...RESTORED, activePrompt: false } },
+    { new: true }
+  );
+
+  if (!version) {
+    const error: ApiError = new Error(ERROR_MESSAGES.NOT_IN_TRASH);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  await recordAuditEvent(
+    {
+      projectId: prompt.projectId,
+      actorId: userId,
+      action: AUDIT.ACTIONS.RESTORE,
+      entityType: AUDIT.ENTITY_TYPES.PROMPT_VERSION,
+      entityId: versionId,
+      before: existingVersion,
+      after: version,
+    },
+    context
+  );
+
+  return version as PromptVersionDocument;
+};
+
+/**
+ * Permanently delete a project with its prompts, versions, API keys and tools
+ * @param projectId - Project ID
+ * @returns Number of projects, prompts and versions deleted
+ */
+const purgeProject = (projectId: mongoose.Types.ObjectId): Promise<TrashPurgeSummary> =>
+  runInTransaction(async (session) => {
+    const promptIds = await Prompt.distinct('_id', { projectId }).session(session);
+
+    await Deployment.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await Experiment.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await ActivationEvent.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await ApiKey.deleteMany({ projectId }, { session });
+    await Tool.deleteMany({ projectId }, { session });
+
+    const versions = await PromptVersion.deleteMany({ promptId: { $in: promptIds } }, { session });
+    const prompts = await Prompt.deleteMany({ _id: { $in: promptIds } }, { session });
+    const projects = await Project.deleteMany({ _id: projectId }, { session });
+
+    return {
+      projects: projects.deletedCount,
+      prompts: prompts.deletedCount,
+      versions: versions.deletedCount,
+    };
+  });
+
+/**
+ * Permanently delete a prompt with its versions
+ * @param promptId - Prompt ID
+ * @returns Number of projects, prompts and versions deleted
+ */
+const purgePrompt = (promptId: mongoose.Types.ObjectId): Promise<TrashPurgeSummary> =>
+  runInTransaction(async (session) => {
+    await Deployment.deleteMany({ promptId }, { session });
+    await Experiment.deleteMany({ promptId }, { session });
+    await ActivationEvent.deleteMany({ promptId }, { session });
+
+    const versions = await PromptVersion.deleteMany({ promptId }, { session });
+    const prompts = await Prompt.deleteMany({ _id: promptId }, { session });
+
+    return { projects: 0, prompts: prompts.deletedCount, versions: versions.deletedCount };
+  });
+
+/**
+ * Permanently delete a prompt version
+ * Running experiments that use it are stopped and draft ones are deleted, since they can
+ * no longer serve every variant; stopped and promoted experiments are kept as history
+ * @param versionId - Version ID
+ * @returns Number of projects, prompts and versions deleted
+ */
+const purgeVersion = (versionId: mongoose.Types.ObjectId): Promise<TrashPurgeSummary> =>
+  runInTransaction(async (session) => {
+    const usedBy = { 'variants.versionId': versionId };
+
+    await Deployment.deleteMany({ versionId }, { session });
+    await Experiment.updateMany(
+      { ...usedBy, status: EXPERIMENTS.STATUSES.RUNNING },
+      { $set: { status: EXPERIMENTS.STATUSES.STOPPED, stoppedAt: new Date() } },
+      { session }
+    );
+    await Experiment.deleteMany({ ...usedBy, status: EXPERIMENTS.STATUSES.DRAFT }, { session });
+
+    const versions = await PromptVersion.deleteMany({ _id: versionId }, { session });
+
+    return { projects: 0, prompts: 0, versions: versions.deletedCount };
+  });
+
+/**
+ * Permanently delete everything that stayed in the trash longer than the retention period
+ * Deployments, experiments, activation history, API keys and tools of purged items go with them;
+ * the audit log is kept. Each project, prompt and version is purged in its own transaction,
+ * so one large purge does not hold a single transaction open.
+ * @param now - Time the retention period is measured up to
+ * @returns Number of projects, prompts and versions purged
+ */
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<TrashPurgeSummary> => {
+  const cutoff = new Date(now.getTime() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+  const expired = { isActive: false, deletedAt: { $ne: null, $lte: cutoff } };
+  const summary: TrashPurgeSummary = { projects: 0, prompts: 0, versions: 0 };
+
+  const add = (purged: TrashPurgeSummary): void => {
+    summary.projects += purged.projects;
+    summary.prompts += purged.prompts;
+    summary.versions += purged.versions;
+  };
+
+  // Projects first, then what expired in projects and prompts that are kept
+  for (const projectId of await Project.distinct('_id', expired)) {
+    add(await purgeProject(projectId));
+  }
+
+  for (const promptId of await Prompt.distinct('_id', expired)) {
+    add(await purgePrompt(promptId));
+  }
+
+  for (const versionId of await PromptVersion.distinct('_id', expired)) {
+    add(await purgeVersion(versionId));
+  }
+
+  return summary;
+};
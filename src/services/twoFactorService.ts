@@ -0,0 +1,314 @@
+/**
+ * Two-Factor Authentication Service
+ * TOTP enrollment, one-time recovery codes and the second step of logins for users who
+ * enabled two-factor authentication
+ */
+
+import crypto from 'crypto';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import User, { IUser } from '../models/User';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { ENV_KEYS, TWO_FACTOR } from '../constants';
+import { buildOtpauthUri, generateSecret, verifyTotp } from '../utils/totp';
+import { TwoFactorEnrollment } from '../types';
+
+/**
+ * Clock codes are checked against; null uses the system clock
+ */
+let clock: (() => number) | null = null;
+
+/**
+ * Replace the clock codes are checked against
+ * @param fakeClock - Returns the current Unix time in milliseconds, or null for the system clock
+ */
+export const setTwoFactorClock = (fakeClock: (() => number) | null): void => {
+  clock = fakeClock;
+};
+
+/**
+ * Get the current time from the clock codes are checked against
+ * @returns Unix time in milliseconds
+ */
+const now = (): number => (clock ? clock() : Date.now());
+
+/**
+ * Get the secret challenge tokens are signed with
+ * @returns JWT secret
+ */
+const getTokenSecret = (): string => {
+  const jwtSecret = process.env[ENV_KEYS.JWT_SECRET];
+
+  if (!jwtSecret) {
+    throw new Error(ERROR_MESSAGES.JWT_SECRET_NOT_CONFIGURED);
+  }
+
+  return jwtSecret;
+};
+
+/**
+ * Hash a recovery code for storage and lookup
+ * Case and separators are ignored, so codes can be typed the way they read
+ * @param recoveryCode - Raw recovery code
+ * @returns Hex-encoded SHA-256 hash
+ */
+const hashRecoveryCode = (recoveryCode: string): string =>
+  crypto
+    .createHash('sha256')
+    .update(recoveryCode.toLowerCase().replace(/[^a-z0-9]/g, ''))
+    .digest('hex');
+
+/**
+ * Generate a new set of recovery codes
+ * @returns Raw recovery codes, formatted as xxxxx-xxxxx
+ */
+const generateRecoveryCodes = (): string[] =>
+  Array.from({ length: TWO_FACTOR.RECOVERY_CODE_COUNT }, () => {
+    const code = crypto.randomBytes(TWO_FACTOR.RECOVERY_CODE_BYTES).toString('hex');
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+
+/**
+ * Find an active user
+ * @param userId - User ID
+ * @param fields - Hidden fields to select as well
+ * @returns User document
+ */
+const findActiveUser = async (userId: string, fields?: string): Promise<IUser> => {
+  const user = fields ? await User.findById(userId).select(fields) : await User.findById(userId);
+
+  if (!user) {
+    const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (!user.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ACCOUNT_DEACTIVATED);
+    error.statusCode = 403;
+    throw error;
+  }
+
+  return user;
+};
+
+/**
+ * Throw unless a user has two-factor authentication enabled
+ * @param user - User document
+ */
+const assertEnabled = (user: IUser): void => {
+  if (!user.twoFactorEnabled) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_NOT_ENABLED);
+    error.statusCode = 400;
+    throw error;
+  }
+};
+
+/**
+ * Check a TOTP code or recovery code of a user and use it up
+ * A TOTP code is accepted once, and only if it is newer than the last accepted one
+ * @param user - User document with its TOTP secret selected
+ * @param code - Code entered by the user
+ * @returns True if the code was valid and has been used
+ */
+export const consumeCode = async (user: IUser, code: string): Promise<boolean> => {
+  const step = verifyTotp(user.twoFactorSecret as string, code, now());
+
+  if (step !== null) {
+    const accepted = await User.findOneAndUpdate(
+      {
+        _id: user._id,
+        $or: [{ twoFactorLastStep: null }, { twoFactorLastStep: { $lt: step } }],
+      },
+      { twoFactorLastStep: step }
+    );
+    return accepted !== null;
+  }
+
+  const recoveryCodeHash = hashRecoveryCode(code);
+  const used = await User.findOneAndUpdate(
+    { _id: user._id, twoFactorRecoveryCodes: recoveryCodeHash },
+    { $pull: { twoFactorRecoveryCodes: recoveryCodeHash } }
+  );
+  return used !== null;
+};
+
+/**
+ * Start enrolling a user in two-factor authentication
+ * The secret is kept aside until a code from it is confirmed; starting again replaces it
+ * @param userId - User ID
+ * @returns Secret and otpauth URI for the authenticator app
+ */
+export const beginEnrollment = async (userId: string): Promise<TwoFactorEnrollment> => {
+  const user = await findActiveUser(userId);
+
+  if (user.twoFactorEnabled) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_ALREADY_ENABLED);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  const secret = generateSecret();
+  await User.updateOne({ _id: user._id }, { twoFactorPendingSecret: secret });
+
+  return { secret, otpauthUri: buildOtpauthUri(secret, user.email) };
+};
+
+/**
+ * Enable two-factor authentication with a code from the enrolled authenticator app
+ * @param userId - User ID
+ * @param code - Current TOTP code
+ * @returns Recovery codes; they are shown only this once
+ */
+export const confirmEnrollment = async (userId: string, code: string): Promise<string[]> => {
+  const user = await findActiveUser(userId, '+twoFactorPendingSecret');
+
+  if (user.twoFactorEnabled) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_ALREADY_ENABLED);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  if (!user.twoFactorPendingSecret) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_SETUP_REQUIRED);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const step = verifyTotp(user.twoFactorPendingSecret, code, now());
+
+  if (step === null) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+
+  // Only the secret the code was checked against is enabled, even if setup was restarted meanwhile
+  const enabled = await User.findOneAndUpdate(
+    { _id: user._id, twoFactorEnabled: false, twoFactorPendingSecret: user.twoFactorPendingSecret },
+    {
+      twoFactorEnabled: true,
+      twoFactorSecret: user.twoFactorPendingSecret,
+      twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode),
+      twoFactorLastStep: step,
+      $unset: { twoFactorPendingSecret: 1 },
+    }
+  );
+
+  if (!enabled) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_SETUP_REQUIRED);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  return recoveryCodes;
+};
+
+/**
+ * Replace a user's recovery codes
+ * @param userId - User ID
+ * @param code - Current TOTP code or an unused recovery code
+ * @returns New recovery codes; the old ones stop working
+ */
+export const regenerateRecoveryCodes = async (userId: string, code: string): Promise<string[]> => {
+  const user = await findActiveUser(userId, '+twoFactorSecret');
+  assertEnabled(user);
+
+  if (!(await consumeCode(user, code))) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  await User.updateOne(
+    { _id: user._id },
+    { twoFactorRecoveryCodes: recoveryCodes.map(hashRecoveryCode) }
+  );
+
+  return recoveryCodes;
+};
+
+/**
+ * Turn off two-factor authentication
+ * @param userId - User ID
+ * @param password - Current password
+ * @param code - Current TOTP code or an unused recovery code
+ */
+export const disableTwoFactor = async (
+  userId: string,
+  password: string,
+  code: string
+): Promise<void> => {
+  const user = await findActiveUser(userId, '+password +twoFactorSecret');
+  assertEnabled(user);
+
+  if (!(await user.comparePassword(password))) {
+    const error: ApiError = new Error(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  if (!(await consumeCode(user, code))) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      twoFactorEnabled: false,
+      $unset: {
+        twoFactorSecret: 1,
+        twoFactorPendingSecret: 1,
+        twoFactorRecoveryCodes: 1,
+        twoFactorLastStep: 1,
+      },
+    }
+  );
+};
+
+/**
+ * Sign the short-lived token that stands for a correct password until the code is entered
+ * The token is marked so it cannot be used to authenticate requests
+ * @param user - User document
+ * @returns Signed challenge token
+ */
+export const createLoginChallenge = (user: IUser): string =>
+  jwt.sign(
+    { userId: String(user._id), purpose: TWO_FACTOR.CHALLENGE_PURPOSE },
+    getTokenSecret(),
+    { expiresIn: TWO_FACTOR.CHALLENGE_EXPIRES_IN } as SignOptions
+  );
+
+/**
+ * Find the user a login challenge was issued to, for the second step of the login
+ * @param challengeToken - Token returned by the password step
+ * @returns User with the TOTP secret and lockout fields selected
+ */
+export const findChallengedUser = async (challengeToken: string): Promise<IUser> => {
+  let userId: unknown;
+
+  try {
+    const payload = jwt.verify(challengeToken, getTokenSecret()) as jwt.JwtPayload;
+    userId = payload.purpose === TWO_FACTOR.CHALLENGE_PURPOSE ? payload.userId : null;
+  } catch {
+    userId = null;
+  }
+
+  const user =
+    typeof userId === 'string'
+      ? await User.findById(userId).select('+twoFactorSecret +failedLoginAttempts +lockedUntil')
+      : null;
+
+  if (!user || !user.isActive || !user.twoFactorEnabled) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_CHALLENGE_INVALID);
+    error.statusCode = 401;
+    throw error;
+  }
+
+  return user;
+};
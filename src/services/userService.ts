@@ -0,0 +1,334 @@
+/**
+ * User Service
+ * Profile updates and account deletion: deactivating an account soft-deletes the data
+ * only its owner can reach, and deactivated accounts can be purged after a grace period
+ */
+
+import mongoose from 'mongoose';
+import User from '../models/User';
+import Organization from '../models/Organization';
+import Project from '../models/Project';
+import Prompt from '../models/Prompt';
+import PromptVersion from '../models/PromptVersion';
+import ApiKey from '../models/ApiKey';
+import Tool from '../models/Tool';
+import Experiment from '../models/Experiment';
+import Deployment from '../models/Deployment';
+import ActivationEvent from '../models/ActivationEvent';
+import Invitation from '../models/Invitation';
+import Session from '../models/Session';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { AUDIT, ENV_KEYS, ORGANIZATION_ROLES, SESSIONS } from '../constants';
+import { runInTransaction } from '../utils/transaction';
+import { toUserResponse } from './authService';
+import { revokeUserSessions } from './sessionService';
+import { releaseVersions } from './activationService';
+import { recordAuditEvent } from './auditService';
+import { sendVerificationEmail } from './verificationService';
+import {
+  AccountDeletionSummary,
+  AuditContext,
+  UpdateProfileRequestBody,
+  UserResponse,
+} from '../types';
+
+/**
+ * Get the grace period before deactivated accounts are purged
+ * @returns Days from ACCOUNT_PURGE_AFTER_DAYS, or null if accounts are never purged
+ */
+export const getPurgeAfterDays = (): number | null => {
+  const value = process.env[ENV_KEYS.ACCOUNT_PURGE_AFTER_DAYS];
+  const days = value ? parseInt(value, 10) : NaN;
+
+  return Number.isInteger(days) && days >= 0 ? days : null;
+};
+
+/**
+ * Update the authenticated user's name and email
+ * A new email address must be verified again and requires the current password
+ * @param userId - User ID
+ * @param data - Fields to update
+ * @returns Updated user
+ */
+export const updateProfile = async (
+  userId: string,
+  data: UpdateProfileRequestBody
+): Promise<UserResponse> => {
+  const user = await User.findById(userId).select('+password');
+
+  if (!user) {
+    const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (!user.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ACCOUNT_DEACTIVATED);
+    error.statusCode = 403;
+    throw error;
+  }
+
+  if (data.name === undefined && data.email === undefined) {
+    const error: ApiError = new Error(ERROR_MESSAGES.NO_VALID_FIELDS_TO_UPDATE);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  if (data.name !== undefined) {
+    user.name = data.name.trim();
+  }
+
+  const email = data.email?.toLowerCase().trim();
+  const emailChanged = email !== undefined && email !== user.email;
+
+  if (emailChanged) {
+    if (!data.currentPassword) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CURRENT_PASSWORD_REQUIRED_FOR_EMAIL);
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (!(await user.comparePassword(data.currentPassword))) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+      error.statusCode = 400;
+      throw error;
+    }
+
+    if (await User.exists({ email, _id: { $ne: user._id } })) {
+      const error: ApiError = new Error(ERROR_MESSAGES.EMAIL_IN_USE);
+      error.statusCode = 409;
+      throw error;
+    }
+
+    user.email = email;
+    user.emailVerified = false;
+    user.emailVerificationTokenHash = undefined;
+    user.emailVerificationExpiresAt = undefined;
+  }
+
+  const savedUser = await user.save();
+
+  if (emailChanged) {
+    // The change is saved either way; a new link can be requested if this one never arrives
+    try {
+      await sendVerificationEmail(savedUser);
+    } catch (error) {
+      console.error(ERROR_MESSAGES.VERIFICATION_EMAIL_FAILED, error);
+    }
+  }
+
+  return toUserResponse(savedUser);
+};
+
+/**
+ * Deactivate the authenticated user's account
+ * Organizations the user is the only member of are deactivated together with their
+ * projects, prompts, versions and API keys; the user leaves every other organization and
+ * every project they were invited to.
+ * Sole owners of organizations with other members must hand them over first.
+ * Versions are released and each project's deletion is audited, as when a project is deleted.
+ * @param userId - User ID
+ * @param password - Current password
+ * @param context - Request the change is made in, for the audit log
+ * @returns What was deactivated and when the account will be purged
+ */
+export const deactivateAccount = async (
+  userId: string,
+  password: string,
+  context: AuditContext = {}
+): Promise<AccountDeletionSummary> => {
+  const user = await User.findById(userId).select('+password');
+
+  if (!user || !user.isActive) {
+    const error: ApiError = new Error(ERROR_MESSAGES.USER_NOT_FOUND);
+    error.statusCode = 404;
+    throw error;
+  }
+
+  if (!(await user.comparePassword(password))) {
+    const error: ApiError = new Error(ERROR_MESSAGES.CURRENT_PASSWORD_INCORRECT);
+    error.statusCode = 400;
+    throw error;
+  }
+
+  const summary = await runInTransaction(async (session) => {
+    const organizations = await Organization.find({
+      'members.userId': userId,
+      isActive: true,
+    }).session(session);
+
+    const ownedIds: mongoose.Types.ObjectId[] = [];
+    const blocking: string[] = [];
+
+    for (const organization of organizations) {
+      const owners = organization.members.filter(
+        (member) => member.role === ORGANIZATION_ROLES.OWNER
+      );
+
+      if (organization.members.length === 1) {
+        ownedIds.push(organization._id as mongoose.Types.ObjectId);
+      } else if (owners.length === 1 && owners[0].userId.toString() === userId) {
+        blocking.push(organization.name);
+      }
+    }
+
+    if (blocking.length > 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.ACCOUNT_SOLE_OWNER(blocking));
+      error.statusCode = 409;
+      throw error;
+    }
+
+    const liveProjects = await Project.find({
+      isActive: true,
+      $or: [{ organizationId: { $in: ownedIds } }, { organizationId: null, userId }],
+    }).session(session);
+    const projectIds = liveProjects.map((project) => project._id);
+    const promptIds = await Prompt.distinct('_id', {
+      projectId: { $in: projectIds },
+      isActive: true,
+    }).session(session);
+
+    // Marked the same way as a trashed project, so the account's items share one deletion
+    const deactivatedAt = new Date();
+    const deletion = { isActive: false, deletedAt: deactivatedAt, deletedBy: userId };
+
+    await releaseVersions(
+      { promptId: { $in: promptIds }, isActive: true },
+      userId,
+      session,
+      context
+    );
+    const versions = await PromptVersion.updateMany(
+      { promptId: { $in: promptIds }, isActive: true },
+      { $set: deletion },
+      { session }
+    );
+    const prompts = await Prompt.updateMany(
+      { _id: { $in: promptIds } },
+      { $set: deletion },
+      { session }
+    );
+    const projects = await Project.updateMany(
+      { _id: { $in: projectIds } },
+      { $set: deletion },
+      { session }
+    );
+
+    for (const project of liveProjects) {
+      await recordAuditEvent(
+        {
+          projectId: project._id,
+          actorId: userId,
+          action: AUDIT.ACTIONS.DELETE,
+          entityType: AUDIT.ENTITY_TYPES.PROJECT,
+          entityId: project._id,
+          before: project,
+          after: await Project.findById(project._id).session(session),
+        },
+        context,
+        session
+      );
+    }
+
+    await ApiKey.updateMany(
+      { projectId: { $in: projectIds }, isActive: true },
+      { $set: { isActive: false, revokedAt: new Date() } },
+      { session }
+    );
+
+    await Organization.updateMany(
+      { _id: { $in: ownedIds } },
+      { $set: { isActive: false } },
+      { session }
+    );
+    await Organization.updateMany(
+      { _id: { $nin: ownedIds }, 'members.userId': userId },
+      { $pull: { members: { userId } } },
+      { session }
+    );
+    await Project.updateMany(
+      { 'members.userId': userId },
+      { $pull: { members: { userId } } },
+      { session }
+    );
+
+    await User.updateOne(
+      { _id: user._id },
+      { isActive: false, deactivatedAt },
+      { session }
+    );
+
+    const purgeAfterDays = getPurgeAfterDays();
+
+    return {
+      projects: projects.modifiedCount,
+      prompts: prompts.modifiedCount,
+      versions: versions.modifiedCount,
+      purgeAfter:
+        purgeAfterDays === null
+          ? null
+          : new Date(deactivatedAt.getTime() + purgeAfterDays * 24 * 60 * 60 * 1000),
+    };
+  });
+
+  await revokeUserSessions(userId, SESSIONS.REVOKE_REASONS.ACCOUNT_DELETED);
+
+  return summary;
+};
+
+/**
+ * Permanently delete one deactivated user and everything the deactivation soft-deleted
+ * @param userId - User ID
+ */
+const purgeAccount = async (userId: mongoose.Types.ObjectId): Promise<void> => {
+  await runInTransaction(async (session) => {
+    const organizationIds = await Organization.distinct('_id', {
+      'members.userId': userId,
+      isActive: false,
+    }).session(session);
+    const projectIds = await Project.distinct('_id', {
+      isActive: false,
+      $or: [{ organizationId: { $in: organizationIds } }, { organizationId: null, userId }],
+    }).session(session);
+    const promptIds = await Prompt.distinct('_id', { projectId: { $in: projectIds } }).session(
+      session
+    );
+
+    await PromptVersion.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await Experiment.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await Deployment.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await ActivationEvent.deleteMany({ promptId: { $in: promptIds } }, { session });
+    await Prompt.deleteMany({ _id: { $in: promptIds } }, { session });
+    await ApiKey.deleteMany({ projectId: { $in: projectIds } }, { session });
+    await Tool.deleteMany({ projectId: { $in: projectIds } }, { session });
+    await Project.deleteMany({ _id: { $in: projectIds } }, { session });
+    await Invitation.deleteMany({ organizationId: { $in: organizationIds } }, { session });
+    await Organization.deleteMany({ _id: { $in: organizationIds } }, { session });
+    await Session.deleteMany({ userId }, { session });
+    await User.deleteOne({ _id: userId }, { session });
+  });
+};
+
+/**
+ * Permanently delete accounts that were deactivated longer than the grace period ago
+ * Does nothing unless ACCOUNT_PURGE_AFTER_DAYS is set
+ * @param now - Time the grace period is measured up to
+ * @returns Number of accounts purged
+ */
+export const purgeDeactivatedAccounts = async (now: Date = new Date()): Promise<number> => {
+  const purgeAfterDays = getPurgeAfterDays();
+
+  if (purgeAfterDays === null) {
+    return 0;
+  }
+
+  const cutoff = new Date(now.getTime() - purgeAfterDays * 24 * 60 * 60 * 1000);
+  const users = await User.find({ isActive: false, deactivatedAt: { $lte: cutoff } }).select('_id');
+
+  for (const user of users) {
+    await purgeAccount(user._id as mongoose.Types.ObjectId);
+  }
+
+  return users.length;
+};
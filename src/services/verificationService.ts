@@ -0,0 +1,139 @@
+/**
+ * Email Verification Service
+ * Emails single-use verification links and enforces the configured policy for users who
+ * have not verified their address yet
+ */
+
+import crypto from 'crypto';
+import User, { IUser } from '../models/User';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { EMAIL_VERIFICATION, ENV_KEYS, MAIL } from '../constants';
+import { buildAppLink, sendMail } from './mailService';
+import { EmailVerificationPolicy } from '../types';
+
+/**
+ * Hash a verification token for storage and lookup
+ * @param verificationToken - Raw verification token
+ * @returns Hex-encoded SHA-256 hash
+ */
+const hashVerificationToken = (verificationToken: string): string =>
+  crypto.createHash('sha256').update(verificationToken).digest('hex');
+
+/**
+ * Get the configured policy for unverified users
+ * @returns Policy from EMAIL_VERIFICATION_POLICY, or the default
+ */
+export const getVerificationPolicy = (): EmailVerificationPolicy => {
+  const name = process.env[ENV_KEYS.EMAIL_VERIFICATION_POLICY] || EMAIL_VERIFICATION.DEFAULT_POLICY;
+
+  if (!(Object.values(EMAIL_VERIFICATION.POLICIES) as string[]).includes(name)) {
+    throw new Error(ERROR_MESSAGES.EMAIL_VERIFICATION_POLICY_INVALID(name));
+  }
+
+  return name as EmailVerificationPolicy;
+};
+
+/**
+ * Check whether a user has verified their email address
+ * Accounts created before email verification existed count as verified
+ * @param user - User document
+ * @returns True unless the user still has to verify their address
+ */
+export const isEmailVerified = (user: Pick<IUser, 'emailVerified'>): boolean =>
+  user.emailVerified !== false;
+
+/**
+ * Check whether the policy keeps a user from logging in
+ * @param user - User document
+ * @returns True if the user must verify their address before logging in
+ */
+export const isLoginBlocked = (user: Pick<IUser, 'emailVerified'>): boolean =>
+  !isEmailVerified(user) && getVerificationPolicy() === EMAIL_VERIFICATION.POLICIES.BLOCK_LOGIN;
+
+/**
+ * Throw unless a user may publish prompt versions
+ * Under either policy unverified users cannot publish; users not found are left to the
+ * permission checks
+ * @param userId - User ID
+ */
+export const assertCanPublish = async (userId: string): Promise<void> => {
+  const user = await User.findById(userId).select('emailVerified');
+
+  if (user && !isEmailVerified(user)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EMAIL_NOT_VERIFIED_TO_PUBLISH);
+    error.statusCode = 403;
+    throw error;
+  }
+};
+
+/**
+ * Issue a verification token for a user and email the verification link
+ * A new link replaces any pending one
+ * @param user - User document
+ */
+export const sendVerificationEmail = async (user: Pick<IUser, '_id' | 'email'>): Promise<void> => {
+  const verificationToken = crypto
+    .randomBytes(EMAIL_VERIFICATION.TOKEN_BYTES)
+    .toString('base64url');
+  const expiresAt = new Date(Date.now() + EMAIL_VERIFICATION.EXPIRES_IN_HOURS * 60 * 60 * 1000);
+
+  await User.updateOne(
+    { _id: user._id },
+    {
+      emailVerificationTokenHash: hashVerificationToken(verificationToken),
+      emailVerificationExpiresAt: expiresAt,
+    }
+  );
+
+  await sendMail({
+    to: user.email,
+    subject: `Verify your email address for ${MAIL.APP_NAME}`,
+    text: [
+      `Confirm that ${user.email} is your email address.`,
+      '',
+      `Verify your email: ${buildAppLink(EMAIL_VERIFICATION.VERIFY_PATH, { token: verificationToken })}`,
+      '',
+      `The link expires on ${expiresAt.toUTCString()}.`,
+    ].join('\n'),
+  });
+};
+
+/**
+ * Email a new verification link
+ * Unknown, deactivated and already verified addresses are ignored silently, so the
+ * response does not reveal which emails have an account
+ * @param email - Email address of the account
+ */
+export const resendVerificationEmail = async (email: string): Promise<void> => {
+  const user = await User.findOne({ email: email.toLowerCase().trim(), isActive: true });
+
+  if (!user || isEmailVerified(user)) {
+    return;
+  }
+
+  await sendVerificationEmail(user);
+};
+
+/**
+ * Mark a user's email address as verified with the token from a verification email
+ * @param verificationToken - Token from the verification email
+ */
+export const verifyEmail = async (verificationToken: string): Promise<void> => {
+  const user = await User.findOneAndUpdate(
+    {
+      emailVerificationTokenHash: hashVerificationToken(verificationToken),
+      emailVerificationExpiresAt: { $gt: new Date() },
+    },
+    {
+      emailVerified: true,
+      $unset: { emailVerificationTokenHash: 1, emailVerificationExpiresAt: 1 },
+    }
+  );
+
+  if (!user) {
+    const error: ApiError = new Error(ERROR_MESSAGES.EMAIL_VERIFICATION_TOKEN_INVALID);
+    error.statusCode = 400;
+    throw error;
+  }
+};
@@ -13,7 +13,13 @@ export interface AuthenticatedRequest extends Request {
   user?: {
     userId: string;
     email: string;
+    sessionId?: string;
   };
+  apiKey?: {
+    keyId: string;
+    projectId: string;
+  };
+  requestId?: string;
 }
 
 /**
@@ -23,9 +29,11 @@ export interface ApiResponse<T = any> {
   success: boolean;
   data?: T;
   count?: number;
+  pagination?: PaginationMeta;
   message?: string;
   error?: {
     message: string;
+    details?: any;
     stack?: string;
   };
 }
@@ -37,6 +45,7 @@ export interface PaginationParams {
   page?: number;
   limit?: number;
   skip?: number;
+  cursor?: string;
 }
 
 /**
@@ -44,6 +53,35 @@ export interface PaginationParams {
  */
 export interface QueryFilter {
   includeInactive?: boolean;
+  createdAfter?: Date;
+  nameContains?: string;
+}
+
+/**
+ * Options accepted by the paginated list endpoints
+ * sort is a field name, prefixed with "-" for descending order (e.g. "-createdAt")
+ */
+export interface ListOptions extends PaginationParams, QueryFilter {
+  sort?: string;
+}
+
+/**
+ * Pagination metadata returned with a page of results
+ */
+export interface PaginationMeta {
+  page?: number;
+  limit: number;
+  total: number;
+  hasMore: boolean;
+  nextCursor: string | null;
+}
+
+/**
+ * A page of results with its pagination metadata
+ */
+export interface PaginatedResult<T> {
+  items: T[];
+  pagination: PaginationMeta;
 }
 
 /**
@@ -72,19 +110,196 @@ export interface UserResponse {
   email: string;
   name?: string;
   isActive: boolean;
+  emailVerified: boolean;
+  twoFactorEnabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * What unverified users are kept from doing
+ */
+export type EmailVerificationPolicy = 'restrict_publish' | 'block_login';
+
+/**
+ * Named deployment environment defined on a project
+ */
+export interface ProjectEnvironment {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Organization roles and the permissions they grant
+ */
+export type OrganizationRole = 'owner' | 'admin' | 'editor' | 'viewer';
+
+export type Permission =
+  | 'read'
+  | 'edit'
+  | 'publish'
+  | 'manage_project'
+  | 'manage_members'
+  | 'manage_organization';
+
+export interface OrganizationMember {
+  userId: any;
+  role: OrganizationRole;
+  addedAt: Date;
+}
+
+/**
+ * Organization document interface (a team that owns projects)
+ */
+export interface OrganizationDocument extends BaseDocument {
+  _id: any;
+  name: string;
+  members: OrganizationMember[];
+  createdBy: any;
+  isPersonal: boolean;
+}
+
+/**
+ * Organization as returned to a member, with the member's own role (plain object)
+ */
+export interface OrganizationWithRole {
+  _id: any;
+  name: string;
+  members: OrganizationMember[];
+  createdBy: any;
+  isPersonal: boolean;
+  isActive: boolean;
+  role: OrganizationRole;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type SessionRevokeReason =
+  | 'logout'
+  | 'logout_all'
+  | 'reuse'
+  | 'password_change'
+  | 'account_deleted';
+
+/**
+ * Where a session was started or refreshed from
+ */
+export interface SessionContext {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+/**
+ * Access token and the refresh token that renews it
+ */
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+/**
+ * Invitation document interface (an email address invited to join an organization)
+ * projectId is set when the invitation was sent from a project
+ */
+export interface InvitationDocument extends Document {
+  _id: any;
+  organizationId: any;
+  projectId: any | null;
+  email: string;
+  role: OrganizationRole;
+  status: InvitationStatus;
+  invitedBy: any;
+  expiresAt: Date;
+  acceptedBy?: any;
+  acceptedAt?: Date;
+  revokedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Outgoing email message
+ */
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * A rate limit: at most max requests per key within each window
+ */
+export interface RateLimitPolicy {
+  name: string; // Namespaces the keys of the policy in the store
+  windowSeconds: number;
+  max: number;
+}
+
+/**
+ * Request count of a key in its current window
+ */
+export interface RateLimitCounter {
+  count: number;
+  resetAt: Date;
+}
+
+/**
+ * Keeps rate limit counters; see services/rateLimitService for the built-in stores
+ */
+export interface RateLimitStore {
+  // Count a request, starting a new window if the current one has ended
+  increment: (key: string, windowMs: number) => Promise<RateLimitCounter>;
+  reset: (key: string) => Promise<void>;
+}
+
+/**
+ * Delivers outgoing email; see services/mailService for the built-in transports
+ */
+export interface MailTransport {
+  send: (message: MailMessage) => Promise<void>;
+}
+
 /**
  * Project document interface
+ * userId is the creator; access is granted by the organization's roles
  */
 export interface ProjectDocument extends BaseDocument {
   _id: any;
   userId: any;
+  organizationId: any;
+  members: OrganizationMember[];
+  name: string;
+  slug: string;
+  environments: ProjectEnvironment[];
+  immutableVersions: boolean;
+  deletedAt: Date | null;
+  deletedBy: any;
+}
+
+/**
+ * Project as returned to a user who joined it by invitation, with the user's role (plain object)
+ */
+export interface ProjectWithRole {
+  _id: any;
+  userId: any;
+  organizationId: any;
+  members: OrganizationMember[];
   name: string;
+  slug: string;
+  isActive: boolean;
+  role: OrganizationRole;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+/**
+ * Who may read a prompt's active version through the public endpoints
+ */
+export type PromptAccessMode = 'public' | 'api_key' | 'owner';
+
 /**
  * Prompt document interface
  */
@@ -93,19 +308,324 @@ export interface PromptDocument extends BaseDocument {
   userId: any;
   projectId: any;
   name: string;
+  slug: string;
+  accessMode: PromptAccessMode;
+  deletedAt: Date | null;
+  deletedBy: any;
+}
+
+/**
+ * API key response interface (the key hash is never returned)
+ */
+export interface ApiKeyResponse {
+  _id: any;
+  projectId: any;
+  name: string;
+  prefix: string;
+  lastUsedAt?: Date;
+  rotatedAt?: Date;
+  revokedAt?: Date;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Supported template variable types
+ */
+export type PromptVariableType = 'string' | 'number' | 'enum';
+
+/**
+ * Template variable stored on a prompt version
+ */
+export interface PromptVariable {
+  name: string;
+  type: PromptVariableType;
+  defaultValue?: string | number;
+  enumValues?: string[];
+}
+
+/**
+ * Template variable definition as supplied in request bodies (type defaults to string)
+ */
+export interface PromptVariableInput {
+  name: string;
+  type?: PromptVariableType;
+  defaultValue?: string | number;
+  enumValues?: string[];
+}
+
+/**
+ * Format of a prompt version: a single text, or a list of chat messages
+ */
+export type PromptFormat = 'text' | 'chat';
+
+/**
+ * Role of a chat message
+ */
+export type ChatMessageRole = 'system' | 'user' | 'assistant';
+
+/**
+ * Message of a chat-format prompt version; the content may contain template variables
+ */
+export interface ChatMessage {
+  role: ChatMessageRole;
+  content: string;
+}
+
+/**
+ * Model provider a prompt version is configured for
+ */
+export type ModelProvider = 'openai' | 'azure_openai' | 'anthropic' | 'google' | 'mistral' | 'custom';
+
+/**
+ * Generation settings stored with a prompt version
+ */
+export interface ModelConfig {
+  provider: ModelProvider;
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxTokens?: number;
+  stopSequences?: string[];
+  responseFormat?: string;
+  extraParams?: Record<string, unknown>;
+}
+
+/**
+ * JSON Schema a prompt version's model output must match
+ */
+export type JsonSchema = Record<string, unknown> | boolean;
+
+/**
+ * Tool (function) a model may call; parameters is a JSON Schema for its arguments
+ */
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>;
+}
+
+/**
+ * Tool of a prompt version
+ * Tools referenced by toolId carry a copy of the library tool as it was when the version was saved
+ */
+export interface PromptVersionTool extends ToolDefinition {
+  toolId?: any;
+}
+
+/**
+ * Tool given in a request: an inline definition, or a toolId from the project tool library
+ */
+export interface PromptVersionToolInput {
+  toolId?: string;
+  name?: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Tool in a project's tool library, shared by the versions that reference it
+ */
+export interface ToolDocument extends Document, ToolDefinition {
+  _id: any;
+  userId: any;
+  projectId: any;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
  * Prompt version document interface
+ * Text versions have a promptText, chat versions a list of messages
  */
 export interface PromptVersionDocument extends BaseDocument {
   _id: any;
   userId: any;
   promptId: any;
-  promptText: string;
+  format: PromptFormat;
+  promptText?: string;
+  messages?: ChatMessage[];
+  variables: PromptVariable[];
+  modelConfig: ModelConfig | null;
+  outputSchema: JsonSchema | null;
+  tools: PromptVersionTool[];
   version: string;
   versionName: string;
+  parentVersionId: any;
   activePrompt: boolean;
+  deletedAt: Date | null;
+  deletedBy: any;
+}
+
+/**
+ * Deployment document interface (which version a prompt serves in an environment)
+ */
+export interface DeploymentDocument extends Document {
+  _id: any;
+  userId: any;
+  projectId: any;
+  promptId: any;
+  environment: string;
+  versionId: any;
+  deployedBy: any;
+  deployedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Activation event document interface (a change of the active prompt version)
+ */
+export interface ActivationEventDocument extends Document {
+  _id: any;
+  userId: any;
+  projectId: any;
+  promptId: any;
+  action: string;
+  fromVersionId: any;
+  toVersionId: any;
+  performedBy: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Audit log types
+ */
+export type AuditAction = 'create' | 'update' | 'delete' | 'activate' | 'deactivate' | 'restore';
+export type AuditEntityType = 'project' | 'prompt' | 'prompt_version';
+
+/**
+ * A field that changed, with its value before and after (null when absent)
+ */
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Request a change was made in, recorded with its audit event
+ */
+export interface AuditContext {
+  ipAddress?: string;
+  requestId?: string;
+}
+
+/**
+ * A change to record: the entity as it was before and after the change
+ */
+export interface AuditEventInput {
+  projectId: any;
+  actorId: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: any;
+  before?: Document | null; // Absent for creations
+  after?: Document | null;
+}
+
+/**
+ * Filters of the audit log of a project
+ */
+export interface AuditEventFilters {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Audit event document interface (one recorded change, never modified)
+ */
+export interface AuditEventDocument extends Document {
+  _id: any;
+  projectId: any;
+  actorId: any;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: any;
+  changes: AuditChange[];
+  ipAddress?: string;
+  requestId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Trash types
+ */
+export type TrashItemType = 'project' | 'prompt' | 'prompt_version';
+
+/**
+ * Something in the trash; items deleted along with it are restored with it and not listed
+ */
+export interface TrashItem {
+  type: TrashItemType;
+  _id: any;
+  name: string;
+  projectId: any;
+  promptId: any; // null for projects
+  deletedAt: Date;
+  deletedBy: any;
+  purgeAt: Date;
+}
+
+/**
+ * Filters of the trash listing
+ */
+export interface TrashFilters {
+  type?: TrashItemType;
+  projectId?: string;
+}
+
+/**
+ * Counts of what a trash purge permanently deleted
+ */
+export interface TrashPurgeSummary {
+  projects: number;
+  prompts: number;
+  versions: number;
+}
+
+/**
+ * Experiment types
+ */
+export type ExperimentStatus = 'draft' | 'running' | 'stopped' | 'promoted';
+
+export interface ExperimentVariant {
+  versionId: any;
+  weight: number;
+}
+
+/**
+ * Experiment document interface (weighted traffic split between prompt versions)
+ */
+export interface ExperimentDocument extends Document {
+  _id: any;
+  userId: any;
+  projectId: any;
+  promptId: any;
+  name: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  startedAt: Date | null;
+  stoppedAt: Date | null;
+  promotedVersionId: any;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Experiment variant chosen for a request to the public active endpoints
+ */
+export interface ExperimentAssignment {
+  experimentId: any;
+  name: string;
+  versionId: any;
+  version: string;
+  sticky: boolean;
 }
 
 /**
@@ -115,6 +635,11 @@ export interface SignupRequestBody {
   email: string;
   password: string;
   name?: string;
+  invitationToken?: string;
+}
+
+export interface RefreshRequestBody {
+  refreshToken: string;
 }
 
 export interface LoginRequestBody {
@@ -122,38 +647,340 @@ export interface LoginRequestBody {
   password: string;
 }
 
+/**
+ * Response to a correct password when two-factor authentication is enabled
+ * The challenge token is exchanged for a session together with a code
+ */
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+/**
+ * Result of a login: a session, or a challenge for the second factor
+ */
+export type LoginResult = ({ user: UserResponse } & AuthTokens) | TwoFactorChallenge;
+
+/**
+ * Secret to add to an authenticator app during two-factor enrollment
+ */
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUri: string;
+}
+
+export interface TwoFactorCodeRequestBody {
+  code: string;
+}
+
+export interface TwoFactorLoginRequestBody {
+  challengeToken: string;
+  code: string;
+}
+
+export interface DisableTwoFactorRequestBody {
+  password: string;
+  code: string;
+}
+
+export interface UpdateProfileRequestBody {
+  name?: string;
+  email?: string;
+  currentPassword?: string; // Required to change the email
+}
+
+export interface DeleteAccountRequestBody {
+  password: string;
+}
+
+/**
+ * What deleting an account deactivated
+ */
+export interface AccountDeletionSummary {
+  projects: number;
+  prompts: number;
+  versions: number;
+  purgeAfter: Date | null; // When the account and its data are deleted for good, if ever
+}
+
+export interface ResendVerificationRequestBody {
+  email: string;
+}
+
+export interface ForgotPasswordRequestBody {
+  email: string;
+}
+
+export interface ResetPasswordRequestBody {
+  token: string;
+  password: string;
+}
+
+export interface ChangePasswordRequestBody {
+  currentPassword: string;
+  newPassword: string;
+}
+
 export interface ProjectRequestBody {
   name: string;
+  slug?: string;
+  organizationId?: string;
+  immutableVersions?: boolean;
   isActive?: boolean;
 }
 
 export interface PromptRequestBody {
   name: string;
+  slug?: string;
+  accessMode?: PromptAccessMode;
   isActive?: boolean;
 }
 
 export interface PromptVersionRequestBody {
-  promptText: string;
+  format?: PromptFormat;
+  promptText?: string;
+  messages?: ChatMessage[];
+  variables?: PromptVariableInput[];
+  modelConfig?: ModelConfig | null;
+  outputSchema?: JsonSchema | null;
+  tools?: PromptVersionToolInput[];
   activePrompt?: boolean;
   isActive?: boolean;
 }
 
+export interface RenderPromptRequestBody {
+  variables?: Record<string, unknown>;
+}
+
+export interface ValidateOutputRequestBody {
+  output: string;
+}
+
+export interface ToolRequestBody {
+  name: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface UpdateToolRequestBody {
+  name?: string;
+  description?: string;
+  parameters?: Record<string, unknown>;
+}
+
 /**
  * Update request body types (all fields optional)
  */
 export interface UpdateProjectRequestBody {
   name?: string;
+  slug?: string;
+  organizationId?: string;
+  immutableVersions?: boolean;
   isActive?: boolean;
 }
 
 export interface UpdatePromptRequestBody {
   name?: string;
+  slug?: string;
+  accessMode?: PromptAccessMode;
   isActive?: boolean;
 }
 
+export interface OrganizationRequestBody {
+  name: string;
+}
+
+export interface OrganizationMemberRequestBody {
+  email: string;
+  role: OrganizationRole;
+}
+
+export interface UpdateOrganizationMemberRequestBody {
+  role: OrganizationRole;
+}
+
+export interface InvitationRequestBody {
+  email: string;
+  role: OrganizationRole;
+}
+
+export interface AcceptInvitationRequestBody {
+  token: string;
+}
+
+export interface ApiKeyRequestBody {
+  name?: string;
+}
+
+export interface EnvironmentRequestBody {
+  name: string;
+  description?: string;
+}
+
+export interface RollbackRequestBody {
+  target?: string;
+}
+
+export interface ExperimentRequestBody {
+  name: string;
+  variants: ExperimentVariant[];
+}
+
+export interface PromoteExperimentRequestBody {
+  versionId: string;
+}
+
+export interface DeploymentRequestBody {
+  versionId: string;
+}
+
 export interface UpdatePromptVersionRequestBody {
+  format?: PromptFormat;
   promptText?: string;
+  messages?: ChatMessage[];
+  variables?: PromptVariableInput[];
+  modelConfig?: ModelConfig | null;
+  outputSchema?: JsonSchema | null;
+  tools?: PromptVersionToolInput[];
   activePrompt?: boolean;
   isActive?: boolean;
 }
 
+/**
+ * Result of rendering a prompt version with template variables
+ */
+export interface RenderedPromptResponse {
+  promptId: any;
+  versionId: any;
+  version: string;
+  environment: string;
+  format: PromptFormat;
+  renderedText?: string;
+  messages?: ChatMessage[];
+  variables: Record<string, string | number>;
+  modelConfig: ModelConfig | null;
+  tools: PromptVersionTool[];
+  experiment?: ExperimentAssignment;
+}
+
+/**
+ * Reason a model output does not match an output schema
+ * The path is a JSON Pointer into the extracted JSON value ("" for the value itself)
+ */
+export interface OutputValidationError {
+  path: string;
+  keyword: string;
+  message: string;
+}
+
+/**
+ * Result of validating a model output against a prompt version's output schema
+ */
+export interface OutputValidationResponse {
+  versionId: any;
+  valid: boolean;
+  output: unknown;
+  errors: OutputValidationError[];
+}
+
+/**
+ * Prompt version served by the public active endpoint
+ * Carries the experiment assignment when a running experiment chose the version
+ */
+export type ServedPromptVersion = PromptVersionDocument & {
+  experiment?: ExperimentAssignment;
+};
+
+export interface BatchActivePromptRequestBody {
+  prompts: string[];
+}
+
+/**
+ * One result of the batch active endpoint: the served version, or why it could not be served
+ */
+export interface BatchActivePromptItem {
+  reference: string;
+  promptId: any;
+  version?: ServedPromptVersion;
+  error?: {
+    statusCode: number;
+    message: string;
+  };
+}
+
+/**
+ * Diff types
+ */
+export type DiffChangeType = 'added' | 'removed' | 'unchanged';
+
+export interface DiffSegment {
+  type: DiffChangeType;
+  value: string;
+}
+
+export interface DiffLine {
+  type: DiffChangeType;
+  text: string;
+  oldLineNumber?: number;
+  newLineNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+  words: DiffSegment[];
+}
+
+export interface TextDiff {
+  hunks: DiffHunk[];
+  stats: {
+    linesAdded: number;
+    linesRemoved: number;
+    wordsAdded: number;
+    wordsRemoved: number;
+  };
+}
+
+/**
+ * Field whose value differs between two versions; nested fields are named with dots
+ */
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+/**
+ * Summary of a prompt version on either side of a diff
+ */
+export interface DiffVersionSummary {
+  _id: any;
+  version: string;
+  versionName: string;
+  format: PromptFormat;
+  activePrompt: boolean;
+  isActive: boolean;
+  createdAt: Date;
+}
+
+/**
+ * Result of comparing two versions of a prompt
+ */
+export interface PromptVersionDiffResponse extends TextDiff {
+  promptId: any;
+  from: DiffVersionSummary;
+  to: DiffVersionSummary;
+  modelConfigChanges: FieldChange[];
+  toolChanges: FieldChange[];
+}
+
+/**
+ * Result of rolling back the active version of a prompt
+ */
+export interface RollbackResponse {
+  activeVersion: PromptVersionDocument;
+  event: ActivationEventDocument;
+}
@@ -0,0 +1,270 @@
+/**
+ * Diff Utilities
+ * Line-level and word-level text diffs and field-level object diffs for comparing prompt
+ * versions
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { DIFF } from '../constants';
+import { DiffChangeType, DiffHunk, DiffLine, DiffSegment, FieldChange, TextDiff } from '../types';
+
+/**
+ * Diff two token sequences using the longest common subsequence
+ * Common prefix and suffix are matched first; if the remaining block is too large
+ * to compare it is reported as removed followed by added
+ * @param oldTokens - Tokens of the old text
+ * @param newTokens - Tokens of the new text
+ * @returns One segment per token, in order
+ */
+export const diffSequences = (oldTokens: string[], newTokens: string[]): DiffSegment[] => {
+  let prefix = 0;
+  while (
+    prefix < oldTokens.length &&
+    prefix < newTokens.length &&
+    oldTokens[prefix] === newTokens[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < oldTokens.length - prefix &&
+    suffix < newTokens.length - prefix &&
+    oldTokens[oldTokens.length - 1 - suffix] === newTokens[newTokens.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix);
+  const newMiddle = newTokens.slice(prefix, newTokens.length - suffix);
+  const segments: DiffSegment[] = oldTokens
+    .slice(0, prefix)
+    .map((value) => ({ type: 'unchanged' as DiffChangeType, value }));
+
+  const n = oldMiddle.length;
+  const m = newMiddle.length;
+
+  if (n * m > DIFF.MAX_COMPARISONS) {
+    oldMiddle.forEach((value) => segments.push({ type: 'removed', value }));
+    newMiddle.forEach((value) => segments.push({ type: 'added', value }));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] =
+          oldMiddle[i] === newMiddle[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && oldMiddle[i] === newMiddle[j]) {
+        segments.push({ type: 'unchanged', value: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (i < n && (j === m || lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1])) {
+        segments.push({ type: 'removed', value: oldMiddle[i] });
+        i++;
+      } else {
+        segments.push({ type: 'added', value: newMiddle[j] });
+        j++;
+      }
+    }
+  }
+
+  oldTokens
+    .slice(oldTokens.length - suffix)
+    .forEach((value) => segments.push({ type: 'unchanged', value }));
+
+  return segments;
+};
+
+/**
+ * Split text into words and the whitespace between them
+ * @param text - Text to split
+ * @returns Tokens that join back into the original text
+ */
+const tokenizeWords = (text: string): string[] => text.split(/(\s+)/).filter((token) => token.length > 0);
+
+/**
+ * Merge adjacent segments of the same type
+ * @param segments - Token-level segments
+ * @returns Merged segments
+ */
+const mergeSegments = (segments: DiffSegment[]): DiffSegment[] => {
+  const merged: DiffSegment[] = [];
+
+  for (const segment of segments) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === segment.type) {
+      last.value += segment.value;
+    } else {
+      merged.push({ ...segment });
+    }
+  }
+
+  return merged;
+};
+
+/**
+ * Group diff lines into hunks of changes surrounded by context lines
+ * @param lines - Every line of the diff
+ * @param context - Number of unchanged lines to keep around each change
+ * @returns Hunks with their line ranges and a word-level diff of the hunk
+ */
+const buildHunks = (lines: DiffLine[], context: number): DiffHunk[] => {
+  const ranges: { start: number; end: number }[] = [];
+
+  lines.forEach((line, index) => {
+    if (line.type === 'unchanged') {
+      return;
+    }
+
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length - 1, index + context);
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  });
+
+  return ranges.map(({ start, end }) => {
+    const hunkLines = lines.slice(start, end + 1);
+    const before = lines.slice(0, start);
+    const oldBefore = before.filter((line) => line.oldLineNumber !== undefined).length;
+    const newBefore = before.filter((line) => line.newLineNumber !== undefined).length;
+    const oldLines = hunkLines.filter((line) => line.oldLineNumber !== undefined).length;
+    const newLines = hunkLines.filter((line) => line.newLineNumber !== undefined).length;
+
+    const oldText = hunkLines
+      .filter((line) => line.type !== 'added')
+      .map((line) => line.text)
+      .join('\n');
+    const newText = hunkLines
+      .filter((line) => line.type !== 'removed')
+      .map((line) => line.text)
+      .join('\n');
+
+    return {
+      // Unified diff convention: an empty range starts at the line before it
+      oldStart: oldLines > 0 ? oldBefore + 1 : oldBefore,
+      oldLines,
+      newStart: newLines > 0 ? newBefore + 1 : newBefore,
+      newLines,
+      lines: hunkLines,
+      words: mergeSegments(diffSequences(tokenizeWords(oldText), tokenizeWords(newText))),
+    };
+  });
+};
+
+/**
+ * Compute a line-level diff with word-level detail for each hunk
+ * @param oldText - Old text
+ * @param newText - New text
+ * @param context - Number of unchanged lines around each change (default 3)
+ * @returns Hunks and change statistics
+ */
+export const diffText = (
+  oldText: string,
+  newText: string,
+  context: number = DIFF.CONTEXT_LINES
+): TextDiff => {
+  let oldLineNumber = 0;
+  let newLineNumber = 0;
+
+  const lines: DiffLine[] = diffSequences(oldText.split('\n'), newText.split('\n')).map(
+    (segment) => {
+      const line: DiffLine = { type: segment.type, text: segment.value };
+      if (segment.type !== 'added') {
+        line.oldLineNumber = ++oldLineNumber;
+      }
+      if (segment.type !== 'removed') {
+        line.newLineNumber = ++newLineNumber;
+      }
+      return line;
+    }
+  );
+
+  const hunks = buildHunks(lines, context);
+  const countWords = (type: DiffChangeType): number =>
+    hunks.reduce(
+      (total, hunk) =>
+        total +
+        hunk.words
+          .filter((segment) => segment.type === type)
+          .reduce((sum, segment) => sum + segment.value.split(/\s+/).filter(Boolean).length, 0),
+      0
+    );
+
+  return {
+    hunks,
+    stats: {
+      linesAdded: lines.filter((line) => line.type === 'added').length,
+      linesRemoved: lines.filter((line) => line.type === 'removed').length,
+      wordsAdded: countWords('added'),
+      wordsRemoved: countWords('removed'),
+    },
+  };
+};
+
+/**
+ * Compare two objects field by field
+ * Nested objects are compared by their own fields, named with dots; arrays and other
+ * values are compared as a whole, and missing fields count as null
+ * @param before - Old object, or null
+ * @param after - New object, or null
+ * @param prefix - Name of the object the fields belong to, if nested
+ * @returns Fields whose values differ, sorted by name
+ */
+export const diffFields = (
+  before: Record<string, unknown> | null | undefined,
+  after: Record<string, unknown> | null | undefined,
+  prefix: string = ''
+): FieldChange[] => {
+  const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+  const fields = [...new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])].sort();
+
+  return fields.flatMap((key) => {
+    const field = prefix ? `${prefix}.${key}` : key;
+    const oldValue = before?.[key] ?? null;
+    const newValue = after?.[key] ?? null;
+
+    if (isObject(oldValue) && isObject(newValue)) {
+      return diffFields(oldValue, newValue, field);
+    }
+
+    return isDeepStrictEqual(oldValue, newValue) ? [] : [{ field, before: oldValue, after: newValue }];
+  });
+};
+
+/**
+ * Format diff hunks as a unified diff
+ * @param hunks - Hunks produced by diffText
+ * @param oldLabel - Label of the old text (--- line)
+ * @param newLabel - Label of the new text (+++ line)
+ * @returns Unified diff string, or an empty string when nothing changed
+ */
+export const formatUnifiedDiff = (hunks: DiffHunk[], oldLabel: string, newLabel: string): string => {
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  const range = (start: number, count: number): string => (count === 1 ? `${start}` : `${start},${count}`);
+  const prefixes: Record<DiffChangeType, string> = { added: '+', removed: '-', unchanged: ' ' };
+
+  const output = [`--- ${oldLabel}`, `+++ ${newLabel}`];
+  for (const hunk of hunks) {
+    output.push(`@@ -${range(hunk.oldStart, hunk.oldLines)} +${range(hunk.newStart, hunk.newLines)} @@`);
+    hunk.lines.forEach((line) => output.push(`${prefixes[line.type]}${line.text}`));
+  }
+
+  return `${output.join('\n')}\n`;
+};
@@ -0,0 +1,596 @@
+/**
+ * JSON Schema Utilities
+ * Checks the output schemas attached to prompt versions, extracts JSON from model outputs
+ * and validates it against a schema. The validation keywords of JSON Schema 2020-12 are
+ * supported except those in JSON_SCHEMA.UNSUPPORTED_KEYWORDS; $ref must point into the
+ * same schema, and annotations such as title, description or format are ignored.
+ */
+
+import { isDeepStrictEqual } from 'util';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { JSON_SCHEMA } from '../constants';
+import { JsonSchema, OutputValidationError } from '../types';
+
+type SchemaObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is SchemaObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeInteger = (value: unknown): boolean =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+const isValidRegex = (value: unknown): boolean => {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    new RegExp(value, 'u');
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Escape a property name or index for use in a JSON Pointer
+ * @param token - Property name or array index
+ * @returns Escaped reference token
+ */
+const escapePointer = (token: string | number): string =>
+  String(token).replace(/~/g, '~0').replace(/\//g, '~1');
+
+/**
+ * Find the subschema a local $ref points to
+ * @param root - Schema the reference appears in
+ * @param ref - Reference such as "#" or "#/$defs/address"
+ * @returns Referenced schema, or undefined if it does not exist
+ */
+const resolveRef = (root: JsonSchema, ref: string): JsonSchema | undefined => {
+  if (!ref.startsWith('#')) {
+    return undefined;
+  }
+
+  let target: unknown = root;
+  const pointer = decodeURIComponent(ref.slice(1));
+
+  for (const token of pointer.split('/').slice(1)) {
+    const key = token.replace(/~1/g, '/').replace(/~0/g, '~');
+    if (Array.isArray(target)) {
+      target = target[Number(key)];
+    } else if (isObject(target)) {
+      target = target[key];
+    } else {
+      return undefined;
+    }
+  }
+
+  return typeof target === 'boolean' || isObject(target) ? target : undefined;
+};
+
+/**
+ * Check one schema and its subschemas
+ * @param schema - Schema to check
+ * @param path - Location of the schema in the root, as "#/..."
+ * @param root - Root schema, for resolving $ref
+ * @param depth - Nesting depth of the schema
+ * @returns Why the schema is invalid, or null
+ */
+const checkSchema = (
+  schema: unknown,
+  path: string,
+  root: JsonSchema,
+  depth: number
+): string | null => {
+  if (depth > JSON_SCHEMA.MAX_DEPTH) {
+    return ERROR_MESSAGES.JSON_SCHEMA_TOO_DEEP;
+  }
+
+  if (typeof schema === 'boolean') {
+    return null;
+  }
+
+  if (!isObject(schema)) {
+    return ERROR_MESSAGES.JSON_SCHEMA_NOT_A_SCHEMA(path);
+  }
+
+  const invalid = (keyword: string, expected: string): string =>
+    ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_INVALID(path, keyword, expected);
+
+  const unsupported = JSON_SCHEMA.UNSUPPORTED_KEYWORDS.find((keyword) => keyword in schema);
+  if (unsupported) {
+    return ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_UNSUPPORTED(path, unsupported);
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (
+      types.length === 0 ||
+      new Set(types).size !== types.length ||
+      types.some((type) => !(JSON_SCHEMA.TYPES as readonly unknown[]).includes(type))
+    ) {
+      return invalid('type', `one or more distinct types of ${JSON_SCHEMA.TYPES.join(', ')}`);
+    }
+  }
+
+  if (schema.enum !== undefined && (!Array.isArray(schema.enum) || schema.enum.length === 0)) {
+    return invalid('enum', 'a non-empty array');
+  }
+
+  if (
+    schema.required !== undefined &&
+    (!Array.isArray(schema.required) ||
+      schema.required.some((name) => typeof name !== 'string') ||
+      new Set(schema.required).size !== schema.required.length)
+  ) {
+    return invalid('required', 'an array of distinct strings');
+  }
+
+  for (const keyword of [
+    'minLength',
+    'maxLength',
+    'minItems',
+    'maxItems',
+    'minProperties',
+    'maxProperties',
+  ]) {
+    if (schema[keyword] !== undefined && !isNonNegativeInteger(schema[keyword])) {
+      return invalid(keyword, 'a non-negative integer');
+    }
+  }
+
+  for (const keyword of ['minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum']) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      return invalid(keyword, 'a number');
+    }
+  }
+
+  if (
+    schema.multipleOf !== undefined &&
+    (typeof schema.multipleOf !== 'number' || schema.multipleOf <= 0)
+  ) {
+    return invalid('multipleOf', 'a number greater than 0');
+  }
+
+  if (schema.uniqueItems !== undefined && typeof schema.uniqueItems !== 'boolean') {
+    return invalid('uniqueItems', 'a boolean');
+  }
+
+  if (schema.pattern !== undefined && !isValidRegex(schema.pattern)) {
+    return invalid('pattern', 'a valid regular expression');
+  }
+
+  if (schema.$ref !== undefined) {
+    if (typeof schema.$ref !== 'string') {
+      return invalid('$ref', 'a string');
+    }
+    if (resolveRef(root, schema.$ref) === undefined) {
+      return ERROR_MESSAGES.JSON_SCHEMA_REF_UNRESOLVED(path, schema.$ref);
+    }
+  }
+
+  // Subschemas: single schemas, arrays of schemas and objects of schemas
+  for (const keyword of ['additionalProperties', 'items', 'contains', 'propertyNames', 'not']) {
+    if (schema[keyword] !== undefined) {
+      const reason = checkSchema(schema[keyword], `${path}/${keyword}`, root, depth + 1);
+      if (reason) {
+        return reason;
+      }
+    }
+  }
+
+  for (const keyword of ['prefixItems', 'allOf', 'anyOf', 'oneOf']) {
+    const value = schema[keyword];
+    if (value === undefined) {
+      continue;
+    }
+    if (!Array.isArray(value) || value.length === 0) {
+      return invalid(keyword, 'a non-empty array of schemas');
+    }
+    for (let i = 0; i < value.length; i++) {
+      const reason = checkSchema(value[i], `${path}/${keyword}/${i}`, root, depth + 1);
+      if (reason) {
+        return reason;
+      }
+    }
+  }
+
+  for (const keyword of ['properties', 'patternProperties', '$defs', 'definitions']) {
+    const value = schema[keyword];
+    if (value === undefined) {
+      continue;
+    }
+    if (!isObject(value)) {
+      return invalid(keyword, 'an object of schemas');
+    }
+    for (const [name, subschema] of Object.entries(value)) {
+      if (keyword === 'patternProperties' && !isValidRegex(name)) {
+        return invalid(keyword, 'keyed by valid regular expressions');
+      }
+      const reason = checkSchema(
+        subschema,
+        `${path}/${keyword}/${escapePointer(name)}`,
+        root,
+        depth + 1
+      );
+      if (reason) {
+        return reason;
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Check that a value is a JSON Schema this validator can apply
+ * @param schema - Candidate schema
+ * @returns Why the schema is invalid, or null if it is valid
+ */
+export const checkJsonSchema = (schema: unknown): string | null =>
+  checkSchema(schema, '#', schema as JsonSchema, 0);
+
+/**
+ * Check whether a JSON value has one of the given JSON Schema types
+ * @param value - JSON value
+ * @param type - JSON Schema type name
+ * @returns Whether the value has the type
+ */
+const hasType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number';
+    case 'integer':
+      return Number.isInteger(value);
+    default:
+      return typeof value === 'string';
+  }
+};
+
+/**
+ * Validate a value against a schema, collecting every error
+ * @param value - JSON value
+ * @param schema - Schema the value must match
+ * @param path - JSON Pointer of the value in the output
+ * @param root - Root schema, for resolving $ref
+ * @param errors - Errors found so far; new errors are appended
+ * @param depth - Number of subschemas entered, which bounds recursive $ref chains
+ * @param budget - Subschemas left to apply, shared by the whole validation so that schemas
+ *   branching through recursive $refs cannot take exponential time
+ */
+const validateValue = (
+  value: unknown,
+  schema: JsonSchema,
+  path: string,
+  root: JsonSchema,
+  errors: OutputValidationError[],
+  depth: number,
+  budget: { steps: number }
+): void => {
+  const fail = (keyword: string, message: string, at: string = path): void => {
+    errors.push({ path: at, keyword, message });
+  };
+
+  if (schema === true) {
+    return;
+  }
+
+  if (schema === false) {
+    fail('false', ERROR_MESSAGES.OUTPUT_SCHEMA_FALSE);
+    return;
+  }
+
+  if (depth > JSON_SCHEMA.MAX_DEPTH) {
+    fail('$ref', ERROR_MESSAGES.JSON_SCHEMA_TOO_DEEP);
+    return;
+  }
+
+  if (--budget.steps < 0) {
+    fail('$ref', ERROR_MESSAGES.JSON_SCHEMA_TOO_COMPLEX);
+    return;
+  }
+
+  // Whether the value matches a subschema, without reporting its errors
+  const matches = (subschema: JsonSchema): boolean => {
+    const subErrors: OutputValidationError[] = [];
+    validateValue(value, subschema, path, root, subErrors, depth + 1, budget);
+    return subErrors.length === 0;
+  };
+
+  if (typeof schema.$ref === 'string') {
+    validateValue(
+      value,
+      resolveRef(root, schema.$ref) ?? true,
+      path,
+      root,
+      errors,
+      depth + 1,
+      budget
+    );
+  }
+
+  if (schema.type !== undefined) {
+    const types = (Array.isArray(schema.type) ? schema.type : [schema.type]) as string[];
+    if (!types.some((type) => hasType(value, type))) {
+      fail('type', ERROR_MESSAGES.OUTPUT_TYPE_MISMATCH(types));
+      return;
+    }
+  }
+
+  if (
+    Array.isArray(schema.enum) &&
+    !schema.enum.some((option) => isDeepStrictEqual(option, value))
+  ) {
+    fail('enum', ERROR_MESSAGES.OUTPUT_NOT_IN_ENUM);
+  }
+
+  if ('const' in schema && !isDeepStrictEqual(schema.const, value)) {
+    fail('const', ERROR_MESSAGES.OUTPUT_NOT_CONST);
+  }
+
+  if (typeof value === 'string') {
+    const length = [...value].length;
+
+    if (typeof schema.minLength === 'number' && length < schema.minLength) {
+      fail('minLength', ERROR_MESSAGES.OUTPUT_LENGTH('at least', schema.minLength));
+    }
+    if (typeof schema.maxLength === 'number' && length > schema.maxLength) {
+      fail('maxLength', ERROR_MESSAGES.OUTPUT_LENGTH('at most', schema.maxLength));
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern, 'u').test(value)) {
+      fail('pattern', ERROR_MESSAGES.OUTPUT_PATTERN_MISMATCH(schema.pattern));
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail('minimum', ERROR_MESSAGES.OUTPUT_NUMBER_RANGE('>=', schema.minimum));
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail('maximum', ERROR_MESSAGES.OUTPUT_NUMBER_RANGE('<=', schema.maximum));
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      fail('exclusiveMinimum', ERROR_MESSAGES.OUTPUT_NUMBER_RANGE('>', schema.exclusiveMinimum));
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      fail('exclusiveMaximum', ERROR_MESSAGES.OUTPUT_NUMBER_RANGE('<', schema.exclusiveMaximum));
+    }
+    if (
+      typeof schema.multipleOf === 'number' &&
+      !Number.isInteger(Number((value / schema.multipleOf).toPrecision(12)))
+    ) {
+      fail('multipleOf', ERROR_MESSAGES.OUTPUT_NOT_MULTIPLE(schema.multipleOf));
+    }
+  }
+
+  if (Array.isArray(value)) {
+    const prefixItems = Array.isArray(schema.prefixItems)
+      ? (schema.prefixItems as JsonSchema[])
+      : [];
+
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail('minItems', ERROR_MESSAGES.OUTPUT_ITEM_COUNT('at least', schema.minItems));
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail('maxItems', ERROR_MESSAGES.OUTPUT_ITEM_COUNT('at most', schema.maxItems));
+    }
+    if (
+      schema.uniqueItems === true &&
+      value.some((item, i) => value.slice(i + 1).some((other) => isDeepStrictEqual(item, other)))
+    ) {
+      fail('uniqueItems', ERROR_MESSAGES.OUTPUT_ITEMS_NOT_UNIQUE);
+    }
+
+    value.forEach((item, i) => {
+      const itemSchema = i < prefixItems.length ? prefixItems[i] : (schema.items as JsonSchema);
+      if (itemSchema !== undefined) {
+        validateValue(item, itemSchema, `${path}/${i}`, root, errors, depth + 1, budget);
+      }
+    });
+
+    if (schema.contains !== undefined) {
+      const containsSchema = schema.contains as JsonSchema;
+      const found = value.some((item, i) => {
+        const subErrors: OutputValidationError[] = [];
+        validateValue(item, containsSchema, `${path}/${i}`, root, subErrors, depth + 1, budget);
+        return subErrors.length === 0;
+      });
+      if (!found) {
+        fail('contains', ERROR_MESSAGES.OUTPUT_CONTAINS_NONE);
+      }
+    }
+  }
+
+  if (isObject(value)) {
+    const names = Object.keys(value);
+    const properties = isObject(schema.properties) ? schema.properties : {};
+    const patternProperties = isObject(schema.patternProperties) ? schema.patternProperties : {};
+
+    if (typeof schema.minProperties === 'number' && names.length < schema.minProperties) {
+      fail('minProperties', ERROR_MESSAGES.OUTPUT_PROPERTY_COUNT('at least', schema.minProperties));
+    }
+    if (typeof schema.maxProperties === 'number' && names.length > schema.maxProperties) {
+      fail('maxProperties', ERROR_MESSAGES.OUTPUT_PROPERTY_COUNT('at most', schema.maxProperties));
+    }
+
+    for (const name of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+      if (!(name in value)) {
+        fail('required', ERROR_MESSAGES.OUTPUT_PROPERTY_REQUIRED(name));
+      }
+    }
+
+    for (const name of names) {
+      const propertyPath = `${path}/${escapePointer(name)}`;
+      let matched = false;
+
+      if (schema.propertyNames !== undefined) {
+        validateValue(
+          name,
+          schema.propertyNames as JsonSchema,
+          propertyPath,
+          root,
+          errors,
+          depth + 1,
+          budget
+        );
+      }
+
+      if (name in properties) {
+        matched = true;
+        validateValue(
+          value[name],
+          properties[name] as JsonSchema,
+          propertyPath,
+          root,
+          errors,
+          depth + 1,
+          budget
+        );
+      }
+
+      for (const [pattern, subschema] of Object.entries(patternProperties)) {
+        if (new RegExp(pattern, 'u').test(name)) {
+          matched = true;
+          validateValue(
+            value[name],
+            subschema as JsonSchema,
+            propertyPath,
+            root,
+            errors,
+            depth + 1,
+            budget
+          );
+        }
+      }
+
+      if (!matched && schema.additionalProperties !== undefined) {
+        if (schema.additionalProperties === false) {
+          fail(
+            'additionalProperties',
+            ERROR_MESSAGES.OUTPUT_PROPERTY_NOT_ALLOWED(name),
+            propertyPath
+          );
+        } else {
+          validateValue(
+            value[name],
+            schema.additionalProperties as JsonSchema,
+            propertyPath,
+            root,
+            errors,
+            depth + 1,
+            budget
+          );
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const subschema of schema.allOf as JsonSchema[]) {
+      validateValue(value, subschema, path, root, errors, depth + 1, budget);
+    }
+  }
+
+  if (Array.isArray(schema.anyOf) && !(schema.anyOf as JsonSchema[]).some(matches)) {
+    fail('anyOf', ERROR_MESSAGES.OUTPUT_ANY_OF);
+  }
+
+  if (Array.isArray(schema.oneOf)) {
+    const count = (schema.oneOf as JsonSchema[]).filter(matches).length;
+    if (count !== 1) {
+      fail('oneOf', ERROR_MESSAGES.OUTPUT_ONE_OF(count));
+    }
+  }
+
+  if (schema.not !== undefined && matches(schema.not as JsonSchema)) {
+    fail('not', ERROR_MESSAGES.OUTPUT_NOT);
+  }
+};
+
+/**
+ * Validate a JSON value against a schema checked with checkJsonSchema
+ * @param value - JSON value
+ * @param schema - Schema the value must match
+ * @returns Errors with the JSON Pointer of the offending value, at most JSON_SCHEMA.MAX_ERRORS
+ */
+export const validateJsonValue = (value: unknown, schema: JsonSchema): OutputValidationError[] => {
+  const errors: OutputValidationError[] = [];
+  validateValue(value, schema, '', schema, errors, 0, { steps: JSON_SCHEMA.MAX_STEPS });
+  return errors.slice(0, JSON_SCHEMA.MAX_ERRORS);
+};
+
+/**
+ * Parse JSON text, or return undefined if it is not valid JSON
+ * @param text - Candidate JSON text
+ * @returns Parsed value, or undefined
+ */
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Extract the JSON value from a model output
+ * Tries the whole output, then fenced code blocks, then each balanced {...} or [...]
+ * section in order, so JSON surrounded by prose is found too
+ * @param output - Model output
+ * @returns Whether JSON was found, and the parsed value
+ */
+export const extractJson = (output: string): { found: boolean; value: unknown } => {
+  const whole = tryParse(output.trim());
+  if (whole !== undefined) {
+    return { found: true, value: whole };
+  }
+
+  for (const match of output.matchAll(/```[\w-]*[^\S\n]*\n?([\s\S]*?)```/g)) {
+    const fenced = tryParse(match[1].trim());
+    if (fenced !== undefined) {
+      return { found: true, value: fenced };
+    }
+  }
+
+  for (let start = 0; start < output.length; start++) {
+    if (output[start] !== '{' && output[start] !== '[') {
+      continue;
+    }
+
+    // Find the bracket that closes this one, skipping brackets inside strings
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < output.length; i++) {
+      const char = output[i];
+      if (inString) {
+        if (char === '\\') {
+          i++;
+        } else if (char === '"') {
+          inString = false;
+        }
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+      } else if (char === '}' || char === ']') {
+        depth--;
+        if (depth === 0) {
+          const section = tryParse(output.slice(start, i + 1));
+          if (section !== undefined) {
+            return { found: true, value: section };
+          }
+          break;
+        }
+      }
+    }
+  }
+
+  return { found: false, value: null };
+};
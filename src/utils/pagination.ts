@@ -0,0 +1,188 @@
+/**
+ * Pagination Utilities
+ * Offset (page/limit) and cursor pagination, sorting and filtering for the list endpoints
+ */
+
+import { Request } from 'express';
+import { Document, FilterQuery, Model, PopulateOptions } from 'mongoose';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { HTTP_STATUS, PAGINATION, SLUGS } from '../constants';
+import { validateRequest } from './validation';
+import { ListOptions, PaginatedResult } from '../types';
+
+/**
+ * Fields whose values are dates (cursors store them as ISO strings)
+ */
+const DATE_FIELDS = ['createdAt', 'updatedAt'];
+
+/**
+ * Contents of an opaque cursor: the sort it was issued for and the last item's position
+ */
+interface CursorPosition {
+  sort: string;
+  value: unknown;
+  id: string;
+}
+
+/**
+ * Validate list query parameters and convert them to list options
+ * @param query - Request query (page, limit, cursor, sort, createdAfter, nameContains,
+ *   includeInactive)
+ * @returns List options
+ */
+export const getListOptions = (query: Request['query']): ListOptions => {
+  const { page, limit, cursor, sort, createdAfter, nameContains, includeInactive } = query;
+
+  validateRequest({ page, limit, cursor, sort, createdAfter, nameContains });
+
+  return {
+    page: page !== undefined ? parseInt(page as string, 10) : undefined,
+    limit: limit !== undefined ? parseInt(limit as string, 10) : undefined,
+    cursor: cursor as string | undefined,
+    sort: sort as string | undefined,
+    createdAfter: createdAfter !== undefined ? new Date(createdAfter as string) : undefined,
+    nameContains: nameContains as string | undefined,
+    includeInactive: includeInactive === 'true',
+  };
+};
+
+/**
+ * Build an opaque cursor pointing after an item
+ * @param position - Sort and position of the item
+ * @returns Base64url-encoded cursor
+ */
+const encodeCursor = (position: CursorPosition): string =>
+  Buffer.from(JSON.stringify(position)).toString('base64url');
+
+/**
+ * Read a cursor, rejecting cursors issued for a different sort order
+ * The position's value must be a string, and a valid date when sorting by a date field,
+ * so a tampered cursor cannot inject query operators
+ * @param cursor - Cursor from the previous page
+ * @param sort - Sort of the current request
+ * @returns Position of the last item of the previous page, with dates converted
+ */
+const decodeCursor = (cursor: string, sort: string): CursorPosition => {
+  let position: Partial<CursorPosition> | null = null;
+
+  try {
+    position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    position = null;
+  }
+
+  const isDate = DATE_FIELDS.includes(sort.replace(/^-/, ''));
+
+  if (
+    !position ||
+    position.sort !== sort ||
+    typeof position.value !== 'string' ||
+    (isDate && isNaN(Date.parse(position.value))) ||
+    typeof position.id !== 'string' ||
+    !SLUGS.OBJECT_ID_REGEX.test(position.id)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.CURSOR_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  return {
+    sort,
+    value: isDate ? new Date(position.value) : position.value,
+    id: position.id,
+  };
+};
+
+/**
+ * Escape a string for literal use in a regular expression
+ * @param value - String to escape
+ * @returns Escaped string
+ */
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Find one page of documents
+ * Results are ordered by the sort field with _id as a tie-breaker, so cursors stay stable
+ * when several documents share a value
+ * @param model - Model to query
+ * @param baseFilter - Filter every result must match (owner, parent, isActive)
+ * @param options - Pagination, sort and filter options
+ * @param config - Field that "name" sorts and filters on, and optional populate options
+ * @returns Page of documents with pagination metadata
+ */
+export const paginate = async <T extends Document>(
+  model: Model<T>,
+  baseFilter: FilterQuery<T>,
+  options: ListOptions,
+  config: { nameField: string; populate?: PopulateOptions }
+): Promise<PaginatedResult<T>> => {
+  const sort = options.sort ?? PAGINATION.DEFAULT_SORT;
+  const order = sort.startsWith('-') ? -1 : 1;
+  const sortKey = sort.replace(/^-/, '');
+  const field = sortKey === 'name' ? config.nameField : sortKey;
+  const limit = options.limit ?? PAGINATION.DEFAULT_LIMIT;
+
+  // Filters are added alongside the base filter, so they never replace a condition of it
+  const conditions: FilterQuery<T>[] = [baseFilter];
+  if (options.createdAfter) {
+    conditions.push({ createdAt: { $gt: options.createdAfter } } as FilterQuery<T>);
+  }
+  if (options.nameContains) {
+    conditions.push({
+      [config.nameField]: { $regex: escapeRegExp(options.nameContains.trim()), $options: 'i' },
+    } as FilterQuery<T>);
+  }
+  const filter = conditions.length > 1 ? ({ $and: conditions } as FilterQuery<T>) : baseFilter;
+
+  // Continue after the last item of the previous page
+  let pageFilter = filter;
+  if (options.cursor) {
+    const { value, id } = decodeCursor(options.cursor, sort);
+    const comparison = order === 1 ? '$gt' : '$lt';
+
+    pageFilter = {
+      $and: [
+        filter,
+        {
+          $or: [
+            { [field]: { [comparison]: value } },
+            { [field]: value, _id: { [comparison]: id } },
+          ],
+        },
+      ],
+    } as FilterQuery<T>;
+  }
+
+  const page = options.cursor ? undefined : options.page ?? 1;
+  const query = model
+    .find(pageFilter)
+    .sort({ [field]: order, _id: order })
+    .skip(page ? (page - 1) * limit : 0)
+    .limit(limit + 1);
+
+  if (config.populate) {
+    query.populate(config.populate);
+  }
+
+  const [documents, total] = await Promise.all([query, model.countDocuments(filter)]);
+
+  // One extra document was fetched to tell whether another page exists
+  const hasMore = documents.length > limit;
+  const items = documents.slice(0, limit) as T[];
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    pagination: {
+      ...(page && { page }),
+      limit,
+      total,
+      hasMore,
+      nextCursor:
+        hasMore && last
+          ? encodeCursor({ sort, value: last.get(field), id: String(last._id) })
+          : null,
+    },
+  };
+};
@@ -5,7 +5,7 @@
 
 import { Response } from 'express';
 import { HTTP_STATUS } from '../constants';
-import { ApiResponse } from '../types';
+import { ApiResponse, PaginationMeta } from '../types';
 
 /**
  * Send a successful response
@@ -23,17 +23,19 @@ export const sendSuccess = <T>(
 };
 
 /**
- * Send a successful response with count
+ * Send a successful response with count, and pagination metadata for paginated lists
  */
 export const sendSuccessWithCount = <T>(
   res: Response,
   data: T[],
   count: number,
+  pagination?: PaginationMeta,
   statusCode: number = HTTP_STATUS.OK
 ): void => {
   const response: ApiResponse<T[]> = {
     success: true,
     count,
+    ...(pagination && { pagination }),
     data,
   };
   res.status(statusCode).json(response);
@@ -66,3 +68,14 @@ export const sendSuccessWithMessage = <T>(
   res.status(statusCode).json(response);
 };
 
+
+/**
+ * Send a plain text response
+ */
+export const sendText = (
+  res: Response,
+  text: string,
+  statusCode: number = HTTP_STATUS.OK
+): void => {
+  res.status(statusCode).type('text/plain').send(text);
+};
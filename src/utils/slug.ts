@@ -0,0 +1,56 @@
+/**
+ * Slug Utilities
+ * Builds URL-friendly identifiers for projects and prompts from their names
+ */
+
+import { SLUGS } from '../constants';
+
+/**
+ * Check whether a value is a well-formed slug
+ * Slugs that look like ObjectIds are rejected so routes can tell the two forms apart
+ * @param value - Value to check
+ * @returns True if the value can be used as a slug
+ */
+export const isValidSlug = (value: string): boolean =>
+  value.length <= SLUGS.MAX_LENGTH &&
+  SLUGS.REGEX.test(value) &&
+  !SLUGS.OBJECT_ID_REGEX.test(value);
+
+/**
+ * Turn a name into a slug: lowercase ASCII letters and digits separated by hyphens
+ * @param name - Name to convert
+ * @returns Slug, or "untitled" if the name has no usable characters
+ */
+export const slugify = (name: string): string => {
+  const slug = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, SLUGS.MAX_LENGTH)
+    .replace(/^-+|-+$/g, '');
+
+  return slug || SLUGS.FALLBACK;
+};
+
+/**
+ * Find a free slug for a name, appending -2, -3, ... while the slug is taken
+ * @param name - Name to derive the slug from
+ * @param isTaken - Checks whether a candidate slug is already in use
+ * @returns Slug that is not in use
+ */
+export const generateUniqueSlug = async (
+  name: string,
+  isTaken: (slug: string) => Promise<boolean>
+): Promise<string> => {
+  const base = slugify(name);
+
+  for (let counter = 1; ; counter++) {
+    const suffix = counter === 1 ? '' : `-${counter}`;
+    const candidate = `${base.slice(0, SLUGS.MAX_LENGTH - suffix.length).replace(/-+$/, '')}${suffix}`;
+
+    if (isValidSlug(candidate) && !(await isTaken(candidate))) {
+      return candidate;
+    }
+  }
+};
@@ -0,0 +1,226 @@
+/**
+ * Template Utilities
+ * Extracts {{variable}} placeholders from prompt text and chat messages and renders them
+ * with values
+ */
+
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { HTTP_STATUS, PROMPT_FORMATS, TEMPLATE } from '../constants';
+import { ChatMessage, PromptFormat, PromptVariable, PromptVariableInput } from '../types';
+
+/**
+ * Structured details attached to template rendering errors
+ */
+export interface TemplateErrorDetails {
+  missing: string[];
+  unknown: string[];
+  invalid: { name: string; message: string }[];
+}
+
+/**
+ * Extract unique placeholder names from prompt text, in order of first appearance
+ * @param text - Prompt text containing {{variable}} placeholders
+ * @returns Array of variable names
+ */
+export const extractTemplateVariables = (text: string): string[] => {
+  const names: string[] = [];
+
+  for (const match of text.matchAll(TEMPLATE.PLACEHOLDER_REGEX)) {
+    if (!names.includes(match[1])) {
+      names.push(match[1]);
+    }
+  }
+
+  return names;
+};
+
+/**
+ * Get the template of a prompt version as one text
+ * Chat messages follow each other, each introduced by a "[role]" line, so placeholders are
+ * extracted in message order and diffs show which message changed
+ * @param version - Format and text or messages of the version
+ * @returns Template text
+ */
+export const getTemplateText = (version: {
+  format?: PromptFormat;
+  promptText?: string;
+  messages?: ChatMessage[];
+}): string => {
+  if (version.format === PROMPT_FORMATS.CHAT) {
+    return (version.messages || [])
+      .map((message) => `[${message.role}]\n${message.content}`)
+      .join('\n\n');
+  }
+
+  return version.promptText || '';
+};
+
+/**
+ * Check whether a value matches the declared type of a variable
+ * @param variable - Variable definition
+ * @param value - Value to check
+ * @returns Error message, or null if the value is acceptable
+ */
+const checkVariableValue = (variable: PromptVariable, value: unknown): string | null => {
+  switch (variable.type) {
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return null;
+      }
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return null;
+      }
+      return ERROR_MESSAGES.TEMPLATE_VARIABLE_NOT_NUMBER(variable.name);
+    case 'enum':
+      if (typeof value === 'string' && (variable.enumValues || []).includes(value)) {
+        return null;
+      }
+      return ERROR_MESSAGES.TEMPLATE_VARIABLE_NOT_IN_ENUM(variable.name, variable.enumValues || []);
+    default:
+      if (typeof value === 'string' || typeof value === 'number') {
+        return null;
+      }
+      return ERROR_MESSAGES.TEMPLATE_VARIABLE_NOT_STRING(variable.name);
+  }
+};
+
+/**
+ * Build the variable list stored on a prompt version
+ * Every placeholder in the text gets an entry; supplied definitions add type hints and defaults
+ * @param text - Prompt text
+ * @param definitions - Optional variable definitions
+ * @param strict - Reject definitions for variables that do not appear in the text
+ * @returns Variable definitions in placeholder order
+ */
+export const buildVariableDefinitions = (
+  text: string,
+  definitions: PromptVariableInput[] = [],
+  strict: boolean = true
+): PromptVariable[] => {
+  const names = extractTemplateVariables(text);
+  const byName = new Map<string, PromptVariableInput>();
+
+  for (const definition of definitions) {
+    if (byName.has(definition.name)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VARIABLE_DEFINED_TWICE(definition.name));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (strict && !names.includes(definition.name)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VARIABLE_NOT_IN_TEMPLATE(definition.name));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    byName.set(definition.name, definition);
+  }
+
+  return names.map((name) => {
+    const definition = byName.get(name);
+    const variable: PromptVariable = { name, type: definition?.type || 'string' };
+
+    if (variable.type === 'enum') {
+      variable.enumValues = definition?.enumValues;
+    }
+
+    if (definition?.defaultValue !== undefined) {
+      variable.defaultValue = definition.defaultValue;
+      if (checkVariableValue(variable, definition.defaultValue)) {
+        const error: ApiError = new Error(ERROR_MESSAGES.VARIABLE_DEFAULT_INVALID(name));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+    }
+
+    return variable;
+  });
+};
+
+/**
+ * Replace the placeholders of a text with resolved values
+ * @param text - Text containing {{variable}} placeholders
+ * @param resolved - Values keyed by variable name
+ * @returns Text with known placeholders replaced
+ */
+const fillPlaceholders = (text: string, resolved: Record<string, string | number>): string =>
+  text.replace(TEMPLATE.PLACEHOLDER_REGEX, (placeholder, name: string) =>
+    resolved[name] !== undefined ? String(resolved[name]) : placeholder
+  );
+
+/**
+ * Render prompt text by substituting variable values
+ * Missing, unknown and mistyped variables are reported together in a single 400 error
+ * @param text - Prompt text
+ * @param variables - Variable definitions for the text
+ * @param values - Caller-supplied variable values
+ * @returns Rendered text and the resolved values that were substituted
+ */
+export const renderTemplate = (
+  text: string,
+  variables: PromptVariable[],
+  values: Record<string, unknown> = {}
+): { renderedText: string; values: Record<string, string | number> } => {
+  const details: TemplateErrorDetails = { missing: [], unknown: [], invalid: [] };
+  const resolved: Record<string, string | number> = {};
+  const known = new Set(variables.map((variable) => variable.name));
+
+  for (const name of Object.keys(values)) {
+    if (!known.has(name)) {
+      details.unknown.push(name);
+    }
+  }
+
+  for (const variable of variables) {
+    // Only the caller's own keys count, so names like "constructor" are not read from the prototype
+    const given = Object.prototype.hasOwnProperty.call(values, variable.name)
+      ? values[variable.name]
+      : undefined;
+    const value = given !== undefined ? given : variable.defaultValue;
+
+    if (value === undefined || value === null) {
+      details.missing.push(variable.name);
+      continue;
+    }
+
+    const message = checkVariableValue(variable, value);
+    if (message) {
+      details.invalid.push({ name: variable.name, message });
+      continue;
+    }
+
+    resolved[variable.name] = variable.type === 'number' ? Number(value) : (value as string | number);
+  }
+
+  if (details.missing.length || details.unknown.length || details.invalid.length) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TEMPLATE_VARIABLES_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    error.details = details;
+    throw error;
+  }
+
+  return { renderedText: fillPlaceholders(text, resolved), values: resolved };
+};
+
+/**
+ * Render the messages of a chat version by substituting variable values in each content
+ * Values are checked once for all messages, as for a text version
+ * @param messages - Chat messages
+ * @param variables - Variable definitions for the messages
+ * @param values - Caller-supplied variable values
+ * @returns Rendered messages and the resolved values that were substituted
+ */
+export const renderMessages = (
+  messages: ChatMessage[],
+  variables: PromptVariable[],
+  values: Record<string, unknown> = {}
+): { messages: ChatMessage[]; values: Record<string, string | number> } => {
+  const rendered = renderTemplate(getTemplateText({ format: PROMPT_FORMATS.CHAT, messages }), variables, values);
+
+  return {
+    messages: messages.map((message) => ({
+      role: message.role,
+      content: fillPlaceholders(message.content, rendered.values),
+    })),
+    values: rendered.values,
+  };
+};
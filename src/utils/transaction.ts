@@ -0,0 +1,84 @@
+/**
+ * Transaction Utilities
+ * Runs multi-document writes atomically in a MongoDB transaction
+ * Transactions require MongoDB to run as a replica set (MongoDB Atlas always does)
+ */
+
+import mongoose, { ClientSession } from 'mongoose';
+import { ApiError } from '../middleware/errorHandler';
+import { ERROR_MESSAGES } from '../constants/errorMessages';
+import { HTTP_STATUS, TRANSACTION } from '../constants';
+
+/**
+ * Check whether an error was caused by a concurrent write to the same documents
+ * Covers transient transaction errors, write conflicts and the unique index that
+ * allows only one active version per prompt
+ * @param error - Error thrown by the driver
+ * @returns True if retrying the request may succeed
+ */
+export const isConcurrentWriteError = (error: unknown): boolean => {
+  const err = error as {
+    code?: number;
+    keyPattern?: Record<string, unknown>;
+    hasErrorLabel?: (label: string) => boolean;
+  };
+
+  if (typeof err?.hasErrorLabel === 'function' && err.hasErrorLabel('TransientTransactionError')) {
+    return true;
+  }
+
+  return (
+    err?.code === TRANSACTION.WRITE_CONFLICT_CODE ||
+    (err?.code === TRANSACTION.DUPLICATE_KEY_CODE && err.keyPattern?.activePrompt !== undefined)
+  );
+};
+
+/**
+ * Build the retryable conflict error returned when concurrent writes keep colliding
+ * @returns API error with status 409
+ */
+export const createConflictError = (): ApiError => {
+  const error: ApiError = new Error(ERROR_MESSAGES.CONCURRENT_UPDATE_CONFLICT);
+  error.statusCode = HTTP_STATUS.CONFLICT;
+  error.details = { retryable: true };
+  return error;
+};
+
+/**
+ * Run work inside a transaction, committing if it resolves and aborting if it throws
+ * Work that collides with a concurrent transaction is retried a few times before a
+ * retryable 409 conflict is returned to the caller
+ * @param work - Function performing the writes; every query must use the given session
+ * @returns Result of the work function
+ */
+export const runInTransaction = async <T>(
+  work: (session: ClientSession) => Promise<T>
+): Promise<T> => {
+  const session = await mongoose.startSession();
+
+  try {
+    for (let attempt = 1; ; attempt++) {
+      session.startTransaction();
+
+      try {
+        const result = await work(session);
+        await session.commitTransaction();
+        return result;
+      } catch (error) {
+        if (session.inTransaction()) {
+          await session.abortTransaction();
+        }
+
+        if (!isConcurrentWriteError(error)) {
+          throw error;
+        }
+
+        if (attempt >= TRANSACTION.MAX_ATTEMPTS) {
+          throw createConflictError();
+        }
+      }
+    }
+  } finally {
+    await session.endSession();
+  }
+};
@@ -7,8 +7,34 @@ import { Request, Response, NextFunction } from 'express';
 import mongoose from 'mongoose';
 import { ApiError } from '../middleware/errorHandler';
 import Project from '../models/Project';
+import Prompt from '../models/Prompt';
 import { ERROR_MESSAGES } from '../constants/errorMessages';
-import { VALIDATION, HTTP_STATUS } from '../constants';
+import { isValidSlug } from './slug';
+import { checkJsonSchema } from './jsonSchema';
+import { authorizeProject } from '../services/permissionService';
+import { Permission } from '../types';
+import {
+  VALIDATION,
+  HTTP_STATUS,
+  TEMPLATE,
+  PROMPT_FORMATS,
+  CHAT_MESSAGE_ROLES,
+  MODEL_CONFIG,
+  JSON_SCHEMA,
+  TOOLS,
+  PROMPT_ACCESS_MODES,
+  ENVIRONMENTS,
+  DIFF,
+  ACTIVATION,
+  EXPERIMENTS,
+  SLUGS,
+  BATCH,
+  PAGINATION,
+  PERMISSIONS,
+  ORGANIZATION_ROLES,
+  AUDIT,
+  TRASH,
+} from '../constants';
 
 /**
  * Validate MongoDB ObjectId format
@@ -23,11 +49,67 @@ export const validateObjectId = (id: string, fieldName: string = 'ID'): void =>
   }
 };
 
+/**
+ * Look up the ID of the project with a slug
+ * @param slug - Project slug
+ * @returns Project ID
+ */
+const resolveProjectSlug = async (slug: string): Promise<string> => {
+  const project = await Project.findOne({ slug }).select('_id');
+
+  if (!project) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
+    error.statusCode = HTTP_STATUS.NOT_FOUND;
+    throw error;
+  }
+
+  return (project._id as mongoose.Types.ObjectId).toString();
+};
+
+/**
+ * Look up the ID of a prompt by its project slug and its slug within that project
+ * @param projectSlug - Project slug
+ * @param promptSlug - Prompt slug
+ * @returns Prompt ID
+ */
+const resolvePromptSlug = async (projectSlug: string, promptSlug: string): Promise<string> => {
+  if (!isValidSlug(projectSlug) || !isValidSlug(promptSlug)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.SLUG_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  const projectId = await resolveProjectSlug(projectSlug);
+  const prompt = await Prompt.findOne({ projectId, slug: promptSlug }).select('_id');
+
+  if (!prompt) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_NOT_FOUND);
+    error.statusCode = HTTP_STATUS.NOT_FOUND;
+    throw error;
+  }
+
+  return (prompt._id as mongoose.Types.ObjectId).toString();
+};
+
 /**
  * Middleware to validate project ID parameter
+ * Accepts a project ID or a project slug; slugs are replaced with the project's ID
+ * Supports both 'projectId' and 'id' params for different route patterns
  */
 export const validateProjectId = (req: Request, _res: Response, next: NextFunction): void => {
-  const { projectId } = req.params;
+  const param = req.params.projectId !== undefined ? 'projectId' : 'id';
+  const projectId = req.params[param];
+
+  if (projectId && isValidSlug(projectId)) {
+    resolveProjectSlug(projectId)
+      .then((resolvedId) => {
+        req.params[param] = resolvedId;
+        next();
+      })
+      .catch(next);
+    return;
+  }
+
   if (projectId) {
     validateObjectId(projectId, 'Project ID');
   }
@@ -37,8 +119,22 @@ export const validateProjectId = (req: Request, _res: Response, next: NextFuncti
 /**
  * Middleware to validate prompt ID parameter
  * Supports both 'id' and 'promptId' params for different route patterns
+ * Routes with 'projectSlug' and 'promptSlug' params are resolved to 'promptId' instead;
+ * a prompt slug alone is not enough because it is only unique within its project
  */
 export const validatePromptId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { projectSlug, promptSlug } = req.params;
+
+  if (projectSlug !== undefined && promptSlug !== undefined) {
+    resolvePromptSlug(projectSlug, promptSlug)
+      .then((resolvedId) => {
+        req.params.promptId = resolvedId;
+        next();
+      })
+      .catch(next);
+    return;
+  }
+
   const promptId = req.params.promptId || req.params.id;
   if (promptId) {
     validateObjectId(promptId, 'Prompt ID');
@@ -58,25 +154,98 @@ export const validatePromptVersionId = (req: Request, _res: Response, next: Next
 };
 
 /**
- * Validate that a project exists, is active, and optionally belongs to user
+ * Middleware to validate API key ID parameter
+ */
+export const validateApiKeyId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { keyId } = req.params;
+  if (keyId) {
+    validateObjectId(keyId, 'API Key ID');
+  }
+  next();
+};
+
+/**
+ * Middleware to validate tool ID parameter
+ */
+export const validateToolId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { toolId } = req.params;
+  if (toolId) {
+    validateObjectId(toolId, 'Tool ID');
+  }
+  next();
+};
+
+/**
+ * Middleware to validate experiment ID parameter
+ */
+export const validateExperimentId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { experimentId } = req.params;
+  if (experimentId) {
+    validateObjectId(experimentId, 'Experiment ID');
+  }
+  next();
+};
+
+/**
+ * Middleware to validate organization ID parameter
+ */
+export const validateOrganizationId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { organizationId } = req.params;
+  if (organizationId) {
+    validateObjectId(organizationId, 'Organization ID');
+  }
+  next();
+};
+
+/**
+ * Middleware to validate member user ID parameter
+ */
+export const validateMemberId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { memberId } = req.params;
+  if (memberId) {
+    validateObjectId(memberId, 'Member ID');
+  }
+  next();
+};
+
+/**
+ * Middleware to validate invitation ID parameter
+ */
+export const validateInvitationId = (req: Request, _res: Response, next: NextFunction): void => {
+  const { invitationId } = req.params;
+  if (invitationId) {
+    validateObjectId(invitationId, 'Invitation ID');
+  }
+  next();
+};
+
+/**
+ * Middleware to validate environment name parameter
+ */
+export const validateEnvironmentName = (req: Request, _res: Response, next: NextFunction): void => {
+  const { environment } = req.params;
+  if (environment) {
+    validateRequest({ environment });
+  }
+  next();
+};
+
+/**
+ * Validate that a project exists, is active, and optionally that the user may act on it
  * @param projectId - Project ID to validate
- * @param userId - User ID (optional, for ownership verification)
+ * @param userId - User ID (optional, for the permission check)
+ * @param permission - Permission the user needs on the project (defaults to read)
  */
 export const validateProjectExists = async (
   projectId: string,
-  userId?: string
+  userId?: string,
+  permission: Permission = PERMISSIONS.READ
 ): Promise<void> => {
   validateObjectId(projectId, 'Project ID');
-  
-  const filter: { _id: any; isActive?: boolean; userId?: any } = {
-    _id: projectId,
-  };
 
-  if (userId) {
-    filter.userId = userId;
-  }
-  
-  const project = await Project.findOne(filter);
+  const project = userId
+    ? await authorizeProject(projectId, userId, permission)
+    : await Project.findOne({ _id: projectId });
   
   if (!project) {
     const error: ApiError = new Error(ERROR_MESSAGES.PROJECT_NOT_FOUND);
@@ -96,9 +265,55 @@ export const validateProjectExists = async (
  */
 export interface ValidationSchema {
   name?: string;
+  slug?: unknown;
   promptText?: string;
+  promptFormat?: unknown;
+  messages?: unknown;
+  variables?: unknown;
+  modelConfig?: unknown;
+  outputSchema?: unknown;
+  modelOutput?: unknown;
+  tools?: unknown;
+  toolName?: unknown;
+  toolDescription?: unknown;
+  toolParameters?: unknown;
+  renderVariables?: unknown;
+  accessMode?: string;
+  environment?: unknown;
+  description?: unknown;
+  versionId?: unknown;
+  fromVersion?: unknown;
+  toVersion?: unknown;
+  diffFormat?: unknown;
+  rollbackTarget?: unknown;
+  experimentVariants?: unknown;
+  subjectId?: unknown;
+  promptReferences?: unknown;
+  page?: unknown;
+  limit?: unknown;
+  sort?: unknown;
+  cursor?: unknown;
+  createdAfter?: unknown;
+  nameContains?: unknown;
+  auditEntityType?: unknown;
+  auditEntityId?: unknown;
+  auditActorId?: unknown;
+  auditFrom?: unknown;
+  auditTo?: unknown;
+  trashItemType?: unknown;
+  trashProjectId?: unknown;
+  organizationId?: unknown;
+  organizationRole?: unknown;
+  invitationToken?: unknown;
+  refreshToken?: unknown;
+  verificationToken?: unknown;
+  challengeToken?: unknown;
+  twoFactorCode?: unknown;
+  resetToken?: unknown;
+  currentPassword?: unknown;
   isActive?: boolean;
   activePrompt?: boolean;
+  immutableVersions?: boolean;
   email?: string;
   password?: string;
 }
@@ -122,6 +337,15 @@ export const validateRequest = (schema: ValidationSchema): void => {
     }
   }
 
+  // Validate slug field
+  if (schema.slug !== undefined) {
+    if (typeof schema.slug !== 'string' || !isValidSlug(schema.slug)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.SLUG_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
   // Validate prompt text field
   if (schema.promptText !== undefined) {
     if (typeof schema.promptText !== 'string' || schema.promptText.trim().length === 0) {
@@ -131,6 +355,601 @@ export const validateRequest = (schema: ValidationSchema): void => {
     }
   }
 
+  // Validate prompt version format field
+  if (
+    schema.promptFormat !== undefined &&
+    !(Object.values(PROMPT_FORMATS) as unknown[]).includes(schema.promptFormat)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.PROMPT_FORMAT_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate chat messages: known roles and non-empty content
+  if (schema.messages !== undefined) {
+    if (!Array.isArray(schema.messages) || schema.messages.length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CHAT_MESSAGES_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    schema.messages.forEach((message: unknown, index: number) => {
+      if (!message || typeof message !== 'object' || Array.isArray(message)) {
+        const error: ApiError = new Error(ERROR_MESSAGES.CHAT_MESSAGE_INVALID(index));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+
+      const { role, content } = message as { role?: unknown; content?: unknown };
+
+      if (!(CHAT_MESSAGE_ROLES as readonly unknown[]).includes(role)) {
+        const error: ApiError = new Error(ERROR_MESSAGES.CHAT_MESSAGE_ROLE_INVALID(index));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+      if (typeof content !== 'string' || content.trim().length === 0) {
+        const error: ApiError = new Error(ERROR_MESSAGES.CHAT_MESSAGE_CONTENT_REQUIRED(index));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+    });
+  }
+
+  // Validate template variable definitions
+  if (schema.variables !== undefined) {
+    if (!Array.isArray(schema.variables)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VARIABLES_MUST_BE_ARRAY);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    for (const variable of schema.variables) {
+      if (
+        !variable ||
+        typeof variable !== 'object' ||
+        typeof variable.name !== 'string' ||
+        !TEMPLATE.VARIABLE_NAME_REGEX.test(variable.name)
+      ) {
+        const error: ApiError = new Error(ERROR_MESSAGES.VARIABLE_NAME_INVALID);
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+      if (
+        variable.type !== undefined &&
+        !(TEMPLATE.VARIABLE_TYPES as readonly string[]).includes(variable.type)
+      ) {
+        const error: ApiError = new Error(ERROR_MESSAGES.VARIABLE_TYPE_INVALID(variable.name));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+      if (
+        variable.type === 'enum' &&
+        (!Array.isArray(variable.enumValues) ||
+          variable.enumValues.length === 0 ||
+          variable.enumValues.some((value: unknown) => typeof value !== 'string'))
+      ) {
+        const error: ApiError = new Error(ERROR_MESSAGES.VARIABLE_ENUM_VALUES_REQUIRED(variable.name));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+    }
+  }
+
+  // Validate model configuration against the limits of its provider (null removes it)
+  if (schema.modelConfig !== undefined && schema.modelConfig !== null) {
+    if (typeof schema.modelConfig !== 'object' || Array.isArray(schema.modelConfig)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_CONFIG_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    const config = schema.modelConfig as Record<string, unknown>;
+    const unknownField = Object.keys(config).find(
+      (field) => !(MODEL_CONFIG.FIELDS as readonly string[]).includes(field)
+    );
+
+    if (unknownField) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_CONFIG_FIELD_UNKNOWN(unknownField));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    const providers = Object.keys(MODEL_CONFIG.PROVIDERS);
+    if (typeof config.provider !== 'string' || !providers.includes(config.provider)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_PROVIDER_INVALID(providers));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    const provider = config.provider;
+    const limits = MODEL_CONFIG.PROVIDERS[provider as keyof typeof MODEL_CONFIG.PROVIDERS];
+    const isNumberBetween = (value: unknown, min: number, max: number): boolean =>
+      typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+    if (
+      typeof config.model !== 'string' ||
+      config.model.trim().length === 0 ||
+      config.model.length > MODEL_CONFIG.MODEL_MAX_LENGTH
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_NAME_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (
+      config.temperature !== undefined &&
+      !isNumberBetween(config.temperature, 0, limits.MAX_TEMPERATURE)
+    ) {
+      const error: ApiError = new Error(
+        ERROR_MESSAGES.MODEL_TEMPERATURE_INVALID(provider, limits.MAX_TEMPERATURE)
+      );
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (config.topP !== undefined && !isNumberBetween(config.topP, 0, 1)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_TOP_P_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (
+      config.maxTokens !== undefined &&
+      (!Number.isInteger(config.maxTokens) ||
+        !isNumberBetween(config.maxTokens, 1, MODEL_CONFIG.MAX_TOKENS_LIMIT))
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_MAX_TOKENS_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (
+      config.stopSequences !== undefined &&
+      (!Array.isArray(config.stopSequences) ||
+        config.stopSequences.length > limits.MAX_STOP_SEQUENCES ||
+        config.stopSequences.some(
+          (sequence: unknown) =>
+            typeof sequence !== 'string' ||
+            sequence.length === 0 ||
+            sequence.length > MODEL_CONFIG.STOP_SEQUENCE_MAX_LENGTH
+        ))
+    ) {
+      const error: ApiError = new Error(
+        ERROR_MESSAGES.MODEL_STOP_SEQUENCES_INVALID(provider, limits.MAX_STOP_SEQUENCES)
+      );
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (
+      config.responseFormat !== undefined &&
+      !(limits.RESPONSE_FORMATS as readonly unknown[]).includes(config.responseFormat)
+    ) {
+      const error: ApiError = new Error(
+        ERROR_MESSAGES.MODEL_RESPONSE_FORMAT_INVALID(provider, limits.RESPONSE_FORMATS)
+      );
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    if (config.extraParams !== undefined) {
+      if (
+        !config.extraParams ||
+        typeof config.extraParams !== 'object' ||
+        Array.isArray(config.extraParams) ||
+        Object.keys(config.extraParams).length > MODEL_CONFIG.EXTRA_PARAMS_MAX_KEYS
+      ) {
+        const error: ApiError = new Error(ERROR_MESSAGES.MODEL_EXTRA_PARAMS_INVALID);
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+
+      const reserved = Object.keys(config.extraParams).find(
+        (key) =>
+          (MODEL_CONFIG.FIELDS as readonly string[]).includes(key) ||
+          (MODEL_CONFIG.RESERVED_EXTRA_PARAMS as readonly string[]).includes(key)
+      );
+      if (reserved) {
+        const error: ApiError = new Error(ERROR_MESSAGES.MODEL_EXTRA_PARAM_RESERVED(reserved));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+    }
+  }
+
+  // Validate output schema (null removes it)
+  if (schema.outputSchema !== undefined && schema.outputSchema !== null) {
+    if (JSON.stringify(schema.outputSchema).length > JSON_SCHEMA.MAX_SIZE) {
+      const error: ApiError = new Error(ERROR_MESSAGES.OUTPUT_SCHEMA_TOO_LARGE);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    const reason = checkJsonSchema(schema.outputSchema);
+    if (reason) {
+      const error: ApiError = new Error(ERROR_MESSAGES.OUTPUT_SCHEMA_INVALID(reason));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate model output to check against an output schema
+  if (schema.modelOutput !== undefined) {
+    if (
+      typeof schema.modelOutput !== 'string' ||
+      schema.modelOutput.length > JSON_SCHEMA.OUTPUT_MAX_LENGTH
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.MODEL_OUTPUT_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate tool name
+  if (
+    schema.toolName !== undefined &&
+    (typeof schema.toolName !== 'string' || !TOOLS.NAME_REGEX.test(schema.toolName))
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TOOL_NAME_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate tool description
+  if (
+    schema.toolDescription !== undefined &&
+    (typeof schema.toolDescription !== 'string' ||
+      schema.toolDescription.length > TOOLS.DESCRIPTION_MAX_LENGTH)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.TOOL_DESCRIPTION_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate tool parameters: a JSON Schema whose arguments form an object
+  if (schema.toolParameters !== undefined) {
+    const parameters = schema.toolParameters;
+    let reason: string | null = null;
+
+    if (parameters === null || typeof parameters !== 'object' || Array.isArray(parameters)) {
+      reason = ERROR_MESSAGES.JSON_SCHEMA_NOT_A_SCHEMA('#');
+    } else if (JSON.stringify(parameters).length > JSON_SCHEMA.MAX_SIZE) {
+      reason = ERROR_MESSAGES.OUTPUT_SCHEMA_TOO_LARGE;
+    } else if ('type' in parameters && (parameters as Record<string, unknown>).type !== 'object') {
+      reason = ERROR_MESSAGES.JSON_SCHEMA_KEYWORD_INVALID('#', 'type', '"object"');
+    } else {
+      reason = checkJsonSchema(parameters);
+    }
+
+    if (reason) {
+      const error: ApiError = new Error(ERROR_MESSAGES.TOOL_PARAMETERS_INVALID(reason));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate the tools of a version: inline definitions or references to the tool library
+  if (schema.tools !== undefined) {
+    if (!Array.isArray(schema.tools) || schema.tools.length > TOOLS.MAX_PER_VERSION) {
+      const error: ApiError = new Error(ERROR_MESSAGES.TOOLS_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    const seen = new Set<string>();
+    for (const tool of schema.tools) {
+      if (!tool || typeof tool !== 'object' || Array.isArray(tool)) {
+        const error: ApiError = new Error(ERROR_MESSAGES.TOOL_INVALID);
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+
+      if (tool.toolId !== undefined) {
+        if (typeof tool.toolId !== 'string') {
+          const error: ApiError = new Error(ERROR_MESSAGES.TOOL_INVALID);
+          error.statusCode = HTTP_STATUS.BAD_REQUEST;
+          throw error;
+        }
+        validateObjectId(tool.toolId, 'Tool ID');
+
+        if (Object.keys(tool).some((field) => field !== 'toolId')) {
+          const error: ApiError = new Error(ERROR_MESSAGES.TOOL_REFERENCE_FIELDS_NOT_ALLOWED);
+          error.statusCode = HTTP_STATUS.BAD_REQUEST;
+          throw error;
+        }
+        continue;
+      }
+
+      validateRequest({
+        toolName: tool.name ?? null,
+        toolDescription: tool.description,
+        toolParameters: tool.parameters,
+      });
+
+      // Names of referenced tools are checked once they are looked up
+      if (seen.has(tool.name)) {
+        const error: ApiError = new Error(ERROR_MESSAGES.TOOL_NAME_DUPLICATE(tool.name));
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+      seen.add(tool.name);
+    }
+  }
+
+  // Validate render variable values
+  if (schema.renderVariables !== undefined) {
+    if (
+      schema.renderVariables === null ||
+      typeof schema.renderVariables !== 'object' ||
+      Array.isArray(schema.renderVariables)
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.RENDER_VARIABLES_MUST_BE_OBJECT);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate accessMode field
+  if (
+    schema.accessMode !== undefined &&
+    !(Object.values(PROMPT_ACCESS_MODES) as string[]).includes(schema.accessMode)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.ACCESS_MODE_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate environment name field
+  if (schema.environment !== undefined) {
+    if (typeof schema.environment !== 'string' || !ENVIRONMENTS.NAME_REGEX.test(schema.environment)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_NAME_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate description field
+  if (schema.description !== undefined) {
+    if (
+      typeof schema.description !== 'string' ||
+      schema.description.length > ENVIRONMENTS.DESCRIPTION_MAX_LENGTH
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.ENVIRONMENT_DESCRIPTION_TOO_LONG);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate versionId field
+  if (schema.versionId !== undefined) {
+    if (typeof schema.versionId !== 'string' || schema.versionId.length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VERSION_ID_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    validateObjectId(schema.versionId, 'Prompt Version ID');
+  }
+
+  // Validate diff version labels
+  if (
+    schema.fromVersion !== undefined &&
+    (typeof schema.fromVersion !== 'string' || !DIFF.VERSION_LABEL_REGEX.test(schema.fromVersion))
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.VERSION_LABEL_INVALID('from'));
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  if (
+    schema.toVersion !== undefined &&
+    (typeof schema.toVersion !== 'string' || !DIFF.VERSION_LABEL_REGEX.test(schema.toVersion))
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.VERSION_LABEL_INVALID('to'));
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate diff format
+  if (
+    schema.diffFormat !== undefined &&
+    !(DIFF.FORMATS as readonly unknown[]).includes(schema.diffFormat)
+  ) {
+    const error: ApiError = new Error(ERROR_MESSAGES.DIFF_FORMAT_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate rollback target
+  if (schema.rollbackTarget !== undefined) {
+    if (
+      typeof schema.rollbackTarget !== 'string' ||
+      (schema.rollbackTarget !== ACTIVATION.PREVIOUS_TARGET &&
+        !DIFF.VERSION_LABEL_REGEX.test(schema.rollbackTarget) &&
+        !mongoose.Types.ObjectId.isValid(schema.rollbackTarget))
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.ROLLBACK_TARGET_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate experiment variants
+  if (schema.experimentVariants !== undefined) {
+    const variants = schema.experimentVariants;
+
+    if (
+      !Array.isArray(variants) ||
+      variants.length < EXPERIMENTS.MIN_VARIANTS ||
+      variants.length > EXPERIMENTS.MAX_VARIANTS ||
+      variants.some((variant) => typeof variant !== 'object' || variant === null)
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_VARIANTS_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    for (const variant of variants) {
+      if (typeof variant.versionId !== 'string') {
+        const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_VARIANTS_INVALID);
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+      validateObjectId(variant.versionId, 'Prompt Version ID');
+
+      if (
+        !Number.isInteger(variant.weight) ||
+        variant.weight < EXPERIMENTS.MIN_WEIGHT ||
+        variant.weight > EXPERIMENTS.MAX_WEIGHT
+      ) {
+        const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_VARIANT_WEIGHT_INVALID);
+        error.statusCode = HTTP_STATUS.BAD_REQUEST;
+        throw error;
+      }
+    }
+
+    const versionIds = variants.map((variant) => variant.versionId);
+    if (new Set(versionIds).size !== versionIds.length) {
+      const error: ApiError = new Error(ERROR_MESSAGES.EXPERIMENT_VARIANT_DUPLICATE);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate subjectId field
+  if (schema.subjectId !== undefined) {
+    if (
+      typeof schema.subjectId !== 'string' ||
+      schema.subjectId.length === 0 ||
+      schema.subjectId.length > EXPERIMENTS.SUBJECT_ID_MAX_LENGTH
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.SUBJECT_ID_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate batch prompt references: prompt IDs or "projectSlug/promptSlug"
+  if (schema.promptReferences !== undefined) {
+    const references = schema.promptReferences;
+    const isReference = (reference: unknown): boolean => {
+      if (typeof reference !== 'string') {
+        return false;
+      }
+      const slugs = reference.split(BATCH.SLUG_SEPARATOR);
+      return SLUGS.OBJECT_ID_REGEX.test(reference) || (slugs.length === 2 && slugs.every(isValidSlug));
+    };
+
+    if (
+      !Array.isArray(references) ||
+      references.length === 0 ||
+      references.length > BATCH.MAX_PROMPTS ||
+      !references.every(isReference)
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.BATCH_PROMPTS_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate list pagination: page or cursor, and a limit of at most PAGINATION.MAX_LIMIT
+  if (schema.page !== undefined) {
+    if (typeof schema.page !== 'string' || !/^[1-9]\d*$/.test(schema.page)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.PAGE_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+
+    if (schema.cursor !== undefined) {
+      const error: ApiError = new Error(ERROR_MESSAGES.PAGE_AND_CURSOR_CONFLICT);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.limit !== undefined) {
+    if (
+      typeof schema.limit !== 'string' ||
+      !/^[1-9]\d*$/.test(schema.limit) ||
+      parseInt(schema.limit, 10) > PAGINATION.MAX_LIMIT
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.LIMIT_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.cursor !== undefined && (typeof schema.cursor !== 'string' || schema.cursor.length === 0)) {
+    const error: ApiError = new Error(ERROR_MESSAGES.CURSOR_INVALID);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate list sorting: a sortable field, optionally prefixed with "-"
+  if (schema.sort !== undefined) {
+    const field = typeof schema.sort === 'string' ? schema.sort.replace(/^-/, '') : '';
+    if (!(PAGINATION.SORT_FIELDS as readonly string[]).includes(field)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.SORT_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate list filters
+  if (schema.createdAfter !== undefined) {
+    if (typeof schema.createdAfter !== 'string' || isNaN(Date.parse(schema.createdAfter))) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CREATED_AFTER_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.nameContains !== undefined) {
+    if (
+      typeof schema.nameContains !== 'string' ||
+      schema.nameContains.trim().length === 0 ||
+      schema.nameContains.length > PAGINATION.NAME_CONTAINS_MAX_LENGTH
+    ) {
+      const error: ApiError = new Error(ERROR_MESSAGES.NAME_CONTAINS_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate audit log filters
+  if (schema.auditEntityType !== undefined) {
+    if (!(Object.values(AUDIT.ENTITY_TYPES) as unknown[]).includes(schema.auditEntityType)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.AUDIT_ENTITY_TYPE_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.auditEntityId !== undefined) {
+    validateObjectId(String(schema.auditEntityId), 'entity ID');
+  }
+
+  if (schema.auditActorId !== undefined) {
+    validateObjectId(String(schema.auditActorId), 'actor ID');
+  }
+
+  for (const [field, value] of [
+    ['from', schema.auditFrom],
+    ['to', schema.auditTo],
+  ] as const) {
+    if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+      const error: ApiError = new Error(ERROR_MESSAGES.AUDIT_TIME_RANGE_INVALID(field));
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  // Validate trash filters
+  if (schema.trashItemType !== undefined) {
+    if (!(Object.values(TRASH.ITEM_TYPES) as unknown[]).includes(schema.trashItemType)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.TRASH_TYPE_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.trashProjectId !== undefined) {
+    validateObjectId(String(schema.trashProjectId), 'Project ID');
+  }
+
   // Validate isActive field
   if (schema.isActive !== undefined && typeof schema.isActive !== 'boolean') {
     const error: ApiError = new Error(ERROR_MESSAGES.IS_ACTIVE_MUST_BE_BOOLEAN);
@@ -145,6 +964,87 @@ export const validateRequest = (schema: ValidationSchema): void => {
     throw error;
   }
 
+  // Validate immutableVersions project setting
+  if (schema.immutableVersions !== undefined && typeof schema.immutableVersions !== 'boolean') {
+    const error: ApiError = new Error(ERROR_MESSAGES.IMMUTABLE_VERSIONS_MUST_BE_BOOLEAN);
+    error.statusCode = HTTP_STATUS.BAD_REQUEST;
+    throw error;
+  }
+
+  // Validate organization reference and member role
+  if (schema.organizationId !== undefined) {
+    if (typeof schema.organizationId !== 'string') {
+      const error: ApiError = new Error('Invalid Organization ID format');
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+    validateObjectId(schema.organizationId, 'Organization ID');
+  }
+
+  if (schema.organizationRole !== undefined) {
+    if (!(Object.values(ORGANIZATION_ROLES) as unknown[]).includes(schema.organizationRole)) {
+      const error: ApiError = new Error(ERROR_MESSAGES.ORGANIZATION_ROLE_INVALID);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.invitationToken !== undefined) {
+    if (typeof schema.invitationToken !== 'string' || schema.invitationToken.trim().length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.INVITATION_TOKEN_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.refreshToken !== undefined) {
+    if (typeof schema.refreshToken !== 'string' || schema.refreshToken.trim().length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.REFRESH_TOKEN_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.challengeToken !== undefined) {
+    if (typeof schema.challengeToken !== 'string' || schema.challengeToken.trim().length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CHALLENGE_TOKEN_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.twoFactorCode !== undefined) {
+    if (typeof schema.twoFactorCode !== 'string' || schema.twoFactorCode.trim().length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.TWO_FACTOR_CODE_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.verificationToken !== undefined) {
+    if (typeof schema.verificationToken !== 'string' || schema.verificationToken.trim().length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.VERIFICATION_TOKEN_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.resetToken !== undefined) {
+    if (typeof schema.resetToken !== 'string' || schema.resetToken.trim().length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.RESET_TOKEN_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
+  if (schema.currentPassword !== undefined) {
+    if (typeof schema.currentPassword !== 'string' || schema.currentPassword.length === 0) {
+      const error: ApiError = new Error(ERROR_MESSAGES.CURRENT_PASSWORD_REQUIRED);
+      error.statusCode = HTTP_STATUS.BAD_REQUEST;
+      throw error;
+    }
+  }
+
   // Validate email field
   if (schema.email !== undefined) {
     if (typeof schema.email !== 'string' || schema.email.trim().length === 0) {